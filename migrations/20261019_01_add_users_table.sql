@@ -0,0 +1,14 @@
+-- Add users table for OIDC sign-in
+-- Rows are created on first login; role is 'member' or 'admin'
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  name TEXT,
+  role TEXT NOT NULL DEFAULT 'member',
+  idp_subject TEXT,
+  created_at TEXT NOT NULL,
+  last_login_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
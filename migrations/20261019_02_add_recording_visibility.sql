@@ -0,0 +1,19 @@
+-- Add per-recording visibility policies
+-- visibility: 'org' | 'participants' | 'private' | 'shared'
+-- visibility_source: 'sync' (computed from participants / Gong isPrivate) or 'manual'
+-- Existing rows default to 'org' until the next sync recomputes them.
+
+ALTER TABLE recordings ADD COLUMN visibility TEXT DEFAULT 'org';
+ALTER TABLE recordings ADD COLUMN owner_email TEXT;
+ALTER TABLE recordings ADD COLUMN visibility_source TEXT DEFAULT 'sync';
+
+CREATE TABLE IF NOT EXISTS recording_shares (
+  recording_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (recording_id, email),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_shares_email ON recording_shares(email);
+CREATE INDEX IF NOT EXISTS idx_recordings_visibility ON recordings(visibility);
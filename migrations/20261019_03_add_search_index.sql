@@ -0,0 +1,48 @@
+-- Add FTS5 full-text search over titles, custom titles, summaries and transcripts
+-- search_documents is the content table; search_index is the FTS5 index over it.
+-- Writers keep it current via reindexRecordingSearch() (src/lib/search/fts.ts).
+
+CREATE TABLE IF NOT EXISTS search_documents (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  segment_id TEXT,
+  start_time REAL,
+  speaker TEXT,
+  text TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_recording ON search_documents(recording_id);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  speaker,
+  text,
+  content = 'search_documents',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- Backfill from existing data
+DELETE FROM search_documents;
+
+INSERT INTO search_documents (recording_id, kind, text)
+SELECT id, 'title', title FROM recordings;
+
+INSERT INTO search_documents (recording_id, kind, text)
+SELECT id, 'custom_title', custom_title FROM recordings
+WHERE custom_title IS NOT NULL AND custom_title != '';
+
+INSERT INTO search_documents (recording_id, kind, text)
+SELECT recording_id, 'summary', trim(
+  coalesce(json_extract(content, '$.brief'), '') || ' ' ||
+  coalesce((SELECT group_concat(value, ' ') FROM json_each(content, '$.keyPoints')), '') || ' ' ||
+  coalesce((SELECT group_concat(value, ' ') FROM json_each(content, '$.nextSteps')), '')
+)
+FROM summaries WHERE json_valid(content);
+
+INSERT INTO search_documents (recording_id, kind, segment_id, start_time, speaker, text)
+SELECT recording_id, 'segment', id, start_time, speaker, text FROM segments;
+
+INSERT INTO search_index (search_index) VALUES ('rebuild');
@@ -0,0 +1,25 @@
+-- Add transcript chunks and embedding vectors for semantic search
+-- Chunks are built from segments by the app (src/lib/search/chunks.ts) and
+-- embedded with `npm run search:embed`.
+
+CREATE TABLE IF NOT EXISTS transcript_chunks (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  text TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_recording ON transcript_chunks(recording_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_hash ON transcript_chunks(text_hash);
+
+CREATE TABLE IF NOT EXISTS chunk_embeddings (
+  model TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (model, text_hash)
+);
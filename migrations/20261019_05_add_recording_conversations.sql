@@ -0,0 +1,16 @@
+-- Add per-user Q&A conversations about a single recording
+-- role is 'user' or 'assistant'; citations is a JSON array of timestamps
+
+CREATE TABLE IF NOT EXISTS recording_conversation_messages (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  user_email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  citations TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_conversation_messages_lookup
+  ON recording_conversation_messages(recording_id, user_email);
@@ -0,0 +1,22 @@
+-- Upgrade version 1 summaries to the structured format
+-- nextSteps strings become actionItems; chapters, decisions, open questions,
+-- risks and sentiment start empty until the summary is regenerated
+
+UPDATE summaries
+SET content = json_object(
+  'version', 2,
+  'brief', json_extract(content, '$.brief'),
+  'keyPoints', json(coalesce(json_extract(content, '$.keyPoints'), '[]')),
+  'chapters', json('[]'),
+  'decisions', json('[]'),
+  'openQuestions', json('[]'),
+  'risks', json('[]'),
+  'actionItems', (
+    SELECT json_group_array(
+      json_object('text', value, 'owner', NULL, 'dueDate', NULL, 'timestamp', NULL)
+    )
+    FROM json_each(summaries.content, '$.nextSteps')
+  ),
+  'sentiment', NULL
+)
+WHERE json_valid(content) AND json_extract(content, '$.version') IS NULL;
@@ -0,0 +1,22 @@
+-- Add summary templates by meeting type, and the Gong call scope used to pick one
+-- fields, sections and match_sources are JSON arrays; match_scope is 'internal'
+-- or 'external'. Built-in templates are seeded by the app on startup.
+
+CREATE TABLE IF NOT EXISTS summary_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  focus TEXT NOT NULL DEFAULT '',
+  fields TEXT NOT NULL,
+  sections TEXT NOT NULL,
+  match_sources TEXT NOT NULL DEFAULT '[]',
+  match_title TEXT,
+  match_purpose TEXT,
+  match_scope TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  built_in INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+ALTER TABLE recordings ADD COLUMN meeting_scope TEXT;
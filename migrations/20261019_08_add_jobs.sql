@@ -0,0 +1,24 @@
+-- Add the background job queue (summary backfills, later previews and embeddings)
+-- status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+-- payload is JSON; run_after delays retries and rate-limit backoff
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  batch_id TEXT,
+  dedupe_key TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TEXT NOT NULL,
+  locked_at TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_jobs_batch ON jobs(batch_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_pending_dedupe
+  ON jobs(dedupe_key) WHERE status IN ('queued', 'running');
@@ -0,0 +1,17 @@
+-- Add per-call model usage and estimated cost
+-- task: 'summary' | 'clip-title' | 'preview' | 'chat'
+-- cost_usd is NULL for models without a known price
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id INTEGER PRIMARY KEY,
+  task TEXT NOT NULL,
+  recording_id TEXT,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  cost_usd REAL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
@@ -0,0 +1,23 @@
+-- Add action items tracked across recordings
+-- owner is the name from the summary, owner_email the participant it resolved to
+-- status: 'open' | 'done'. Existing summaries are extracted on the next app start
+
+CREATE TABLE IF NOT EXISTS action_items (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  owner TEXT,
+  owner_email TEXT,
+  due_date TEXT,
+  timestamp REAL,
+  status TEXT NOT NULL DEFAULT 'open',
+  completed_at TEXT,
+  completed_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (recording_id, text),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_items_status ON action_items(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_action_items_owner ON action_items(owner_email);
@@ -0,0 +1,56 @@
+-- Add Gong trackers, topics and interaction stats
+-- Filled in by the next Gong sync (npm run sync:gong -- --force for existing calls)
+
+CREATE TABLE IF NOT EXISTS recording_trackers (
+  recording_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  PRIMARY KEY (recording_id, name),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_trackers_name ON recording_trackers(name);
+
+CREATE TABLE IF NOT EXISTS tracker_occurrences (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  tracker TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracker_occurrences_recording ON tracker_occurrences(recording_id);
+
+-- Topics with Gong's total duration (seconds); spans come from the topic
+-- Gong tags each transcript monologue with
+CREATE TABLE IF NOT EXISTS recording_topics (
+  recording_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  duration REAL NOT NULL,
+  PRIMARY KEY (recording_id, name),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_topics_name ON recording_topics(name);
+
+CREATE TABLE IF NOT EXISTS topic_spans (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_spans_recording ON topic_spans(recording_id);
+
+CREATE TABLE IF NOT EXISTS recording_interaction_stats (
+  recording_id TEXT PRIMARY KEY,
+  talk_ratio REAL,
+  interactivity REAL,
+  longest_monologue REAL,
+  company_questions INTEGER,
+  non_company_questions INTEGER,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
@@ -0,0 +1,28 @@
+-- Add user-defined keyword trackers and their transcript matches
+-- A tracker is matched against the whole library when it's saved
+
+CREATE TABLE IF NOT EXISTS keyword_trackers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- JSON array of phrases
+  phrases TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keyword_trackers_name ON keyword_trackers(name COLLATE NOCASE);
+
+CREATE TABLE IF NOT EXISTS keyword_tracker_matches (
+  id INTEGER PRIMARY KEY,
+  tracker_id TEXT NOT NULL,
+  recording_id TEXT NOT NULL,
+  phrase TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (tracker_id) REFERENCES keyword_trackers(id) ON DELETE CASCADE,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_keyword_tracker_matches_tracker ON keyword_tracker_matches(tracker_id, recording_id);
+CREATE INDEX IF NOT EXISTS idx_keyword_tracker_matches_recording ON keyword_tracker_matches(recording_id);
@@ -0,0 +1,44 @@
+-- Add alert rules, their per-recording matches and the in-app notification inbox
+-- Rules are checked by the sync scripts when a new transcript is ingested
+
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id TEXT PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  -- phrase, tracker, speaker or domain
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  -- JSON array of inbox, email, webhook
+  channels TEXT NOT NULL,
+  webhook_url TEXT,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_email);
+
+CREATE TABLE IF NOT EXISTS alert_matches (
+  rule_id TEXT NOT NULL,
+  recording_id TEXT NOT NULL,
+  matched_at TEXT NOT NULL,
+  PRIMARY KEY (rule_id, recording_id),
+  FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE CASCADE,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+-- In-app inbox
+CREATE TABLE IF NOT EXISTS notifications (
+  id INTEGER PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  rule_id TEXT,
+  recording_id TEXT,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  url TEXT NOT NULL,
+  timestamp REAL,
+  created_at TEXT NOT NULL,
+  read_at TEXT,
+  FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE SET NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_email, created_at);
@@ -0,0 +1,16 @@
+-- Add meeting series detection
+-- series_key is set by the sync scripts from the source (recurring Zoom meeting
+-- ID, Gong calendar event); series_id is assigned when series are rebuilt
+
+ALTER TABLE recordings ADD COLUMN series_key TEXT;
+ALTER TABLE recordings ADD COLUMN series_id TEXT;
+
+CREATE TABLE IF NOT EXISTS meeting_series (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  -- zoom, calendar or pattern
+  detected_by TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_recordings_series ON recordings(series_id);
@@ -0,0 +1,13 @@
+-- Add AI digests for recurring meetings
+-- One per recording and set of previous instances compared against
+-- (comma-separated IDs, most recent first)
+
+CREATE TABLE IF NOT EXISTS series_digests (
+  recording_id TEXT NOT NULL,
+  previous_recording_ids TEXT NOT NULL,
+  content TEXT NOT NULL,
+  model TEXT NOT NULL,
+  generated_at TEXT NOT NULL,
+  PRIMARY KEY (recording_id, previous_recording_ids),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
@@ -0,0 +1,15 @@
+-- Add weekly digest emails
+-- users.weekly_digest = 0 opts out; digest_deliveries stops a re-run of the
+-- scheduled send from emailing anyone twice
+
+ALTER TABLE users ADD COLUMN weekly_digest INTEGER DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS digest_deliveries (
+  id INTEGER PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  period_start TEXT NOT NULL,
+  period_end TEXT NOT NULL,
+  sent_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_deliveries_user ON digest_deliveries(user_email, sent_at);
@@ -0,0 +1,34 @@
+-- Add conversation analytics
+-- Per-recording and per-speaker metrics computed from transcripts
+
+CREATE TABLE IF NOT EXISTS conversation_stats (
+  recording_id TEXT PRIMARY KEY,
+  speakers INTEGER NOT NULL,
+  talk_time REAL NOT NULL,
+  longest_monologue REAL NOT NULL,
+  turns INTEGER NOT NULL,
+  interruptions INTEGER NOT NULL,
+  questions INTEGER NOT NULL,
+  words INTEGER NOT NULL,
+  words_per_minute REAL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS conversation_speaker_stats (
+  recording_id TEXT NOT NULL,
+  speaker TEXT NOT NULL,
+  -- The participant the speaker resolved to, when unambiguous
+  email TEXT,
+  talk_time REAL NOT NULL,
+  talk_ratio REAL NOT NULL,
+  longest_monologue REAL NOT NULL,
+  turns INTEGER NOT NULL,
+  interruptions INTEGER NOT NULL,
+  questions INTEGER NOT NULL,
+  words INTEGER NOT NULL,
+  words_per_minute REAL,
+  PRIMARY KEY (recording_id, speaker),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_speaker_stats_email ON conversation_speaker_stats(email);
@@ -0,0 +1,12 @@
+-- Add speaking coach metrics to conversation analytics
+-- Filler words (fillers is a JSON object of counts per filler), the pause
+-- before taking the floor, and whether the speaker is from outside the org
+-- with their responses to and interruptions of people who are
+
+ALTER TABLE conversation_speaker_stats ADD COLUMN fillers TEXT;
+ALTER TABLE conversation_speaker_stats ADD COLUMN filler_words INTEGER;
+ALTER TABLE conversation_speaker_stats ADD COLUMN responses INTEGER;
+ALTER TABLE conversation_speaker_stats ADD COLUMN patience REAL;
+ALTER TABLE conversation_speaker_stats ADD COLUMN external INTEGER;
+ALTER TABLE conversation_speaker_stats ADD COLUMN customer_responses INTEGER;
+ALTER TABLE conversation_speaker_stats ADD COLUMN customer_interruptions INTEGER;
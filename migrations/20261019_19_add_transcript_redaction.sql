@@ -0,0 +1,24 @@
+-- Add transcript redaction
+-- Original text of segments changed by PII redaction, and the time range of
+-- each redaction for bleeping during playback
+
+CREATE TABLE IF NOT EXISTS segment_originals (
+  segment_id TEXT PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_originals_recording ON segment_originals(recording_id);
+
+CREATE TABLE IF NOT EXISTS transcript_redactions (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  segment_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_redactions_recording ON transcript_redactions(recording_id);
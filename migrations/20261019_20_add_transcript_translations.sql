@@ -0,0 +1,15 @@
+-- Add transcript translations
+-- The recording's spoken language (from Gong), and cached machine
+-- translations of its transcript per target language
+
+ALTER TABLE recordings ADD COLUMN language TEXT;
+
+CREATE TABLE IF NOT EXISTS transcript_translations (
+  recording_id TEXT NOT NULL,
+  language TEXT NOT NULL,
+  content TEXT NOT NULL,
+  model TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (recording_id, language),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
@@ -0,0 +1,246 @@
+#!/usr/bin/env tsx
+/**
+ * Local OIDC identity provider for development and tests
+ *
+ * Implements just enough of OpenID Connect (discovery, authorization code
+ * with PKCE, token, userinfo) to sign in to WorkTV without a real IdP.
+ * The authorize page lets you type any email, so never expose it publicly.
+ *
+ * Usage:
+ *   npm run dev:idp
+ *   npm run dev:idp -- --port=4400
+ *
+ * Then point the app at it in .env.local:
+ *   AUTH_ISSUER=http://localhost:4400
+ *   AUTH_CLIENT_ID=worktv-dev
+ *   AUTH_CLIENT_SECRET=worktv-dev-secret
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { createHash, createHmac, randomBytes } from "crypto";
+
+const portArg = process.argv.find((arg) => arg.startsWith("--port="));
+const PORT = portArg ? parseInt(portArg.split("=")[1], 10) : 4400;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.DEV_IDP_CLIENT_ID ?? "worktv-dev";
+const CLIENT_SECRET = process.env.DEV_IDP_CLIENT_SECRET ?? "worktv-dev-secret";
+
+interface PendingCode {
+  email: string;
+  name: string;
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+const accessTokens = new Map<string, { email: string; name: string }>();
+
+function base64Url(input: Buffer | string): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf-8"));
+}
+
+function subjectFor(email: string): string {
+  return createHash("sha256").update(email).digest("hex").slice(0, 24);
+}
+
+// HS256 id_token signed with the client secret, as allowed for confidential clients
+function signIdToken(email: string, name: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({
+      iss: ISSUER,
+      aud: CLIENT_ID,
+      sub: subjectFor(email),
+      email,
+      name,
+      iat: now,
+      exp: now + 3600,
+    })
+  );
+  const signature = createHmac("sha256", CLIENT_SECRET)
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+function renderAuthorizePage(params: URLSearchParams): string {
+  const hidden = ["client_id", "redirect_uri", "state", "code_challenge", "code_challenge_method"]
+    .map(
+      (key) =>
+        `<input type="hidden" name="${key}" value="${escapeHtml(params.get(key) ?? "")}" />`
+    )
+    .join("\n      ");
+
+  return `<!doctype html>
+<html>
+  <head><title>Dev IdP - Sign in</title></head>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 80px auto;">
+    <h1>Dev IdP</h1>
+    <p>Sign in as any user. For local development only.</p>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <p><label>Email<br /><input name="email" type="email" required value="dev@example.com" /></label></p>
+      <p><label>Name<br /><input name="name" value="Dev User" /></label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`;
+}
+
+async function handleAuthorize(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  if (req.method === "GET") {
+    if (url.searchParams.get("client_id") !== CLIENT_ID) {
+      sendJson(res, 400, { error: "unauthorized_client" });
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(renderAuthorizePage(url.searchParams));
+    return;
+  }
+
+  const form = await readForm(req);
+  const redirectUri = form.get("redirect_uri");
+  const email = form.get("email")?.trim().toLowerCase();
+  const codeChallenge = form.get("code_challenge");
+
+  if (!redirectUri || !email || !codeChallenge || form.get("code_challenge_method") !== "S256") {
+    sendJson(res, 400, { error: "invalid_request" });
+    return;
+  }
+
+  const code = randomBytes(16).toString("hex");
+  codes.set(code, {
+    email,
+    name: form.get("name")?.trim() || email,
+    redirectUri,
+    codeChallenge,
+    expiresAt: Date.now() + 60_000,
+  });
+
+  const location = new URL(redirectUri);
+  location.searchParams.set("code", code);
+  location.searchParams.set("state", form.get("state") ?? "");
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const form = await readForm(req);
+
+  if (form.get("client_id") !== CLIENT_ID || form.get("client_secret") !== CLIENT_SECRET) {
+    sendJson(res, 401, { error: "invalid_client" });
+    return;
+  }
+
+  const code = form.get("code") ?? "";
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.redirectUri !== form.get("redirect_uri")
+  ) {
+    sendJson(res, 400, { error: "invalid_grant" });
+    return;
+  }
+
+  const verifier = form.get("code_verifier") ?? "";
+  const challenge = createHash("sha256").update(verifier).digest("base64url");
+  if (challenge !== pending.codeChallenge) {
+    sendJson(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+    return;
+  }
+
+  const accessToken = randomBytes(24).toString("hex");
+  accessTokens.set(accessToken, { email: pending.email, name: pending.name });
+
+  sendJson(res, 200, {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: 3600,
+    id_token: signIdToken(pending.email, pending.name),
+  });
+}
+
+function handleUserInfo(req: IncomingMessage, res: ServerResponse): void {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "";
+  const user = accessTokens.get(token);
+  if (!user) {
+    sendJson(res, 401, { error: "invalid_token" });
+    return;
+  }
+
+  sendJson(res, 200, {
+    sub: subjectFor(user.email),
+    email: user.email,
+    email_verified: true,
+    name: user.name,
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER);
+
+  try {
+    switch (url.pathname) {
+      case "/.well-known/openid-configuration":
+        sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          userinfo_endpoint: `${ISSUER}/userinfo`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["HS256"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["client_secret_post"],
+        });
+        return;
+      case "/authorize":
+        await handleAuthorize(req, res, url);
+        return;
+      case "/token":
+        await handleToken(req, res);
+        return;
+      case "/userinfo":
+        handleUserInfo(req, res);
+        return;
+      default:
+        sendJson(res, 404, { error: "not_found" });
+    }
+  } catch (error) {
+    console.error("Dev IdP request failed:", error);
+    sendJson(res, 500, { error: "server_error" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`🔐 Dev IdP listening on ${ISSUER}`);
+  console.log(`   AUTH_ISSUER=${ISSUER}`);
+  console.log(`   AUTH_CLIENT_ID=${CLIENT_ID}`);
+  console.log(`   AUTH_CLIENT_SECRET=${CLIENT_SECRET}`);
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+/**
+ * Embed transcript chunks for semantic search
+ *
+ * Computes vectors for every transcript chunk that has none yet for the
+ * configured embedder (EMBEDDINGS_PROVIDER, see src/lib/search/embeddings.ts).
+ * Chunks with identical text share one vector, and re-runs only embed what
+ * changed since the last run.
+ *
+ * Usage:
+ *   tsx scripts/embed-transcripts.ts
+ *   npm run search:embed
+ *   npm run search:embed -- --batch=64     # Chunks per embedder call
+ *   npm run search:embed -- --limit=1000   # Stop after N chunks
+ */
+
+import { config } from "dotenv";
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { join } from "path";
+import { initSchema } from "@/lib/db";
+import {
+  countChunksMissingEmbeddings,
+  getChunksMissingEmbeddings,
+  saveChunkEmbeddings,
+} from "@/lib/search/chunks";
+import { getEmbedder } from "@/lib/search/embeddings";
+
+// Load .env.local file
+config({ path: join(process.cwd(), ".env.local") });
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+function parseNumericArg(prefix: string, defaultValue: number): number {
+  const arg = process.argv.find((a) => a.startsWith(`--${prefix}=`));
+  const value = arg ? parseInt(arg.split("=")[1], 10) : NaN;
+  return Number.isNaN(value) || value < 1 ? defaultValue : value;
+}
+
+async function embed(): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+    process.exit(1);
+  }
+
+  const batchSize = parseNumericArg("batch", 32);
+  const limit = parseNumericArg("limit", Infinity);
+
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  initSchema(db);
+
+  const embedder = getEmbedder();
+  if (!embedder) {
+    console.error("❌ Set EMBEDDINGS_PROVIDER (e.g. ollama) to embed transcripts.");
+    process.exit(1);
+  }
+  const pending = countChunksMissingEmbeddings(db, embedder.model);
+  console.log(`🧠 Embedding with ${embedder.model}: ${pending} chunks pending\n`);
+
+  const start = Date.now();
+  let embedded = 0;
+  while (embedded < limit) {
+    const chunks = getChunksMissingEmbeddings(db, embedder.model, Math.min(batchSize, limit - embedded));
+    if (chunks.length === 0) break;
+
+    const vectors = await embedder.embed(chunks.map((c) => c.text));
+    saveChunkEmbeddings(
+      db,
+      embedder.model,
+      chunks.map((chunk, i) => ({ textHash: chunk.text_hash, vector: vectors[i] }))
+    );
+
+    embedded += chunks.length;
+    console.log(`   ${embedded}/${Math.min(pending, limit)} chunks`);
+  }
+
+  db.close();
+  console.log(`\n✅ Embedded ${embedded} chunks in ${((Date.now() - start) / 1000).toFixed(1)}s`);
+}
+
+embed().catch((error) => {
+  console.error("❌ Embedding failed:", error);
+  process.exit(1);
+});
@@ -3,9 +3,10 @@ import Database from "better-sqlite3";
 import { execSync, spawn } from "child_process";
 import { mkdirSync, existsSync, readFileSync, readdirSync, unlinkSync } from "fs";
 import { join } from "path";
-import Anthropic from "@anthropic-ai/sdk";
 import { getCall } from "@/lib/gong/calls";
 import { isGongConfigured } from "@/lib/gong/auth";
+import { getLLMClient, type LLMClient } from "@/lib/ai/client";
+import { trackUsage } from "@/lib/ai/usage";
 
 // Load .env.local file
 config({ path: join(process.cwd(), ".env.local") });
@@ -362,38 +363,30 @@ async function extractGif(opts: ExtractGifOptions): Promise<boolean> {
   });
 }
 
-// Use Claude to pick the best GIF
-async function pickBestGif(gifPaths: string[]): Promise<number> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-
-  if (!apiKey || gifPaths.length === 0) {
-    // No API key or no GIFs - return first one
+// Use the preview model to pick the best GIF
+async function pickBestGif(gifPaths: string[], recordingId: string): Promise<number> {
+  if (gifPaths.length <= 1) {
     return 0;
   }
 
-  if (gifPaths.length === 1) {
+  let client: LLMClient;
+  try {
+    client = trackUsage(getLLMClient("preview"), { task: "preview", recordingId });
+  } catch {
+    // No model configured (e.g. no API key) - return first one
     return 0;
   }
 
   try {
-    const client = new Anthropic({ apiKey });
-
     // Read GIFs as base64
-    const images = gifPaths.map((path) => {
-      const data = readFileSync(path);
-      return {
-        type: "image" as const,
-        source: {
-          type: "base64" as const,
-          media_type: "image/gif" as const,
-          data: data.toString("base64"),
-        },
-      };
-    });
-
-    const response = await client.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 100,
+    const images = gifPaths.map((path) => ({
+      type: "image" as const,
+      mediaType: "image/gif" as const,
+      data: readFileSync(path).toString("base64"),
+    }));
+
+    const response = await client.complete({
+      maxTokens: 100,
       messages: [
         {
           role: "user",
@@ -414,8 +407,7 @@ Reply with ONLY the number (1-${gifPaths.length}) of the best GIF. Nothing else.
       ],
     });
 
-    const text = response.content[0].type === "text" ? response.content[0].text : "";
-    const match = text.match(/(\d+)/);
+    const match = response.text.match(/(\d+)/);
     if (match) {
       const index = parseInt(match[1], 10) - 1; // Convert 1-based to 0-based
       if (index >= 0 && index < gifPaths.length) {
@@ -562,7 +554,7 @@ async function processRecording(
     // --- AI Selection ---
     log.step("🤖", "Selecting best preview...");
     const aiStart = Date.now();
-    const bestIndex = await pickBestGif(candidatePaths);
+    const bestIndex = await pickBestGif(candidatePaths, recording.id);
     const aiElapsed = Date.now() - aiStart;
     timingStats.aiSelection.push(aiElapsed);
 
@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Redact personal data from stored transcripts
+ *
+ * Re-runs transcript redaction (see src/lib/redaction) from each segment's
+ * original text, then rebuilds what's derived from the transcript: the search
+ * index, transcript chunks, keyword tracker mentions and conversation
+ * analytics. Syncs redact new transcripts already; this is for transcripts
+ * synced before redaction existed, after the rules change, or after switching
+ * PII_REDACTION ("off" restores the original text).
+ *
+ * Where the text changed, AI output made from the old text (translations,
+ * summaries, series digests, recording chat, chunk embeddings) is deleted and
+ * action items and alert notifications are redacted too. New summaries are queued as one
+ * batch: run `npm run jobs` afterwards to write them, and
+ * `npm run search:embed` to embed the rebuilt chunks.
+ *
+ * Usage:
+ *   tsx scripts/redact-transcripts.ts
+ *   npm run redact
+ *   npm run redact -- --recording=gong_123,zoom_abc   # Only these recordings
+ */
+
+import { config } from "dotenv";
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { nanoid } from "nanoid";
+import { join } from "path";
+import { initSchema } from "@/lib/db";
+import { enqueueJobs, type SummarizeJobPayload } from "@/lib/jobs";
+import { getRedactionDetectors, getRedactionMode, redactRecording } from "@/lib/redaction";
+import { reindexRecordingSearch } from "@/lib/search/fts";
+import { rebuildTranscriptChunks } from "@/lib/search/chunks";
+import { runKeywordTrackersForRecording } from "@/lib/search/trackers";
+import { rebuildConversationStats } from "@/lib/analytics/conversation";
+
+// Load .env.local file
+config({ path: join(process.cwd(), ".env.local") });
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function main(): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+    process.exit(1);
+  }
+
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  initSchema(db);
+
+  const only = getArg("recording")?.split(",").map((id) => id.trim()).filter(Boolean);
+  const recordingIds = only?.length
+    ? only
+    : (db.prepare(`SELECT DISTINCT recording_id FROM segments`).all() as { recording_id: string }[]).map(
+        (row) => row.recording_id
+      );
+
+  const mode = getRedactionMode();
+  const detectors = getRedactionDetectors(mode);
+  console.log(`🔒 Redacting ${recordingIds.length} transcripts (PII_REDACTION=${mode})`);
+
+  const start = Date.now();
+  let total = 0;
+  const resummarize: string[] = [];
+  for (const recordingId of recordingIds) {
+    const { redactions, summaryCleared } = await redactRecording(db, recordingId, detectors);
+    if (summaryCleared) resummarize.push(recordingId);
+    reindexRecordingSearch(db, recordingId);
+    rebuildTranscriptChunks(db, recordingId);
+    runKeywordTrackersForRecording(db, recordingId);
+    rebuildConversationStats(db, recordingId);
+    if (redactions > 0) {
+      console.log(`   ${recordingId}: ${redactions} redactions`);
+    }
+    total += redactions;
+  }
+
+  const batchId = `redact-${new Date().toISOString().slice(0, 10)}-${nanoid(6)}`;
+  const queued = enqueueJobs(
+    db,
+    resummarize.map((recordingId) => ({
+      type: "summarize",
+      payload: { recordingId } satisfies SummarizeJobPayload,
+      batchId,
+      dedupeKey: `summarize:${recordingId}`,
+    }))
+  );
+  db.close();
+
+  console.log(`✅ ${total} redactions across ${recordingIds.length} transcripts in ${Date.now() - start}ms`);
+  if (resummarize.length > 0) {
+    console.log(`   ${resummarize.length} summaries cleared, ${queued} queued as ${batchId}`);
+    console.log("   Run npm run jobs to regenerate them.");
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Redaction failed:", error);
+  process.exit(1);
+});
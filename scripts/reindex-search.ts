@@ -0,0 +1,45 @@
+#!/usr/bin/env tsx
+/**
+ * Rebuild the full-text search index
+ *
+ * Regenerates search_documents and the FTS5 search_index from recordings,
+ * summaries and transcript segments, the transcript chunks used for semantic
+ * search, and the conversation analytics computed from transcripts. The sync
+ * scripts and the app keep all of them current, so this is only needed after
+ * editing the database by hand. Embeddings for unchanged chunks are kept; run
+ * `npm run search:embed` afterwards for new ones.
+ *
+ * Usage:
+ *   tsx scripts/reindex-search.ts
+ *   npm run search:reindex
+ */
+
+import Database from "better-sqlite3";
+import { existsSync } from "fs";
+import { join } from "path";
+import { initSchema } from "@/lib/db";
+import { rebuildSearchIndex } from "@/lib/search/fts";
+import { rebuildAllTranscriptChunks } from "@/lib/search/chunks";
+import { rebuildAllConversationStats } from "@/lib/analytics/conversation";
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+if (!existsSync(DB_PATH)) {
+  console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+  process.exit(1);
+}
+
+const db = new Database(DB_PATH);
+db.pragma("journal_mode = WAL");
+db.pragma("foreign_keys = ON");
+initSchema(db);
+
+const start = Date.now();
+const documents = rebuildSearchIndex(db);
+const chunks = rebuildAllTranscriptChunks(db);
+const analyzed = rebuildAllConversationStats(db);
+db.close();
+
+console.log(
+  `✅ Indexed ${documents} documents and ${chunks} transcript chunks, analyzed ${analyzed} conversations in ${Date.now() - start}ms`
+);
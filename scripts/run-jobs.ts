@@ -0,0 +1,132 @@
+#!/usr/bin/env tsx
+/**
+ * Run background jobs
+ *
+ * Works through every queued job (summary and translation backfills and
+ * anything else in the jobs table), retrying failures with backoff. Ctrl-C
+ * lets running jobs finish first.
+ *
+ * Usage:
+ *   tsx scripts/run-jobs.ts
+ *   npm run jobs
+ *   npm run jobs -- --watch                   # Keep waiting for new jobs
+ *   npm run jobs -- --concurrency=4           # Jobs at a time (default 2)
+ *   npm run jobs -- --status                  # Recent batches and failures
+ *   npm run jobs -- --retry-failed[=<batch>]  # Queue failed jobs again
+ *   npm run jobs -- --cancel=<batch>          # Cancel a batch's queued jobs
+ */
+
+import { config } from "dotenv";
+import { existsSync } from "fs";
+import { join } from "path";
+import { getDb } from "@/lib/db";
+import {
+  cancelQueuedJobs,
+  getFailedJobs,
+  getJobHandlers,
+  getRecentBatches,
+  retryFailedJobs,
+  runJobs,
+} from "@/lib/jobs";
+
+// Load .env.local file
+config({ path: join(process.cwd(), ".env.local") });
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a === `--${name}` || a.startsWith(`--${name}=`));
+  if (!arg) return undefined;
+  return arg.includes("=") ? arg.slice(name.length + 3) : "";
+}
+
+function printStatus(db: ReturnType<typeof getDb>): void {
+  const batches = getRecentBatches(db);
+  if (batches.length === 0) {
+    console.log("No job batches yet.");
+    return;
+  }
+
+  console.log("Recent batches:\n");
+  for (const batch of batches) {
+    const pending = batch.queued + batch.running;
+    console.log(
+      `  ${batch.batch_id}  ${batch.succeeded}/${batch.total} done` +
+        (batch.failed > 0 ? `, ${batch.failed} failed` : "") +
+        (pending > 0 ? `, ${pending} pending` : "")
+    );
+  }
+
+  const failed = getFailedJobs(db).slice(0, 20);
+  if (failed.length > 0) {
+    console.log("\nLatest failures:\n");
+    for (const job of failed) {
+      console.log(`  #${job.id} ${job.type} ${job.payload}\n     ${job.last_error}`);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+    process.exit(1);
+  }
+  const db = getDb();
+
+  if (process.argv.includes("--status")) {
+    printStatus(db);
+    return;
+  }
+
+  const cancelBatch = getArg("cancel");
+  if (cancelBatch) {
+    console.log(`🛑 Cancelled ${cancelQueuedJobs(db, cancelBatch)} queued jobs`);
+    return;
+  }
+
+  const retryBatch = getArg("retry-failed");
+  if (retryBatch !== undefined) {
+    console.log(`🔁 Queued ${retryFailedJobs(db, retryBatch || undefined)} failed jobs again`);
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log("\n⏸  Finishing running jobs (Ctrl-C again to quit now)...");
+    controller.abort();
+  });
+
+  const concurrency = parseInt(getArg("concurrency") ?? "", 10);
+  const watch = process.argv.includes("--watch");
+  console.log(watch ? "👀 Waiting for jobs (Ctrl-C to stop)" : "⚙️  Running queued jobs");
+
+  const result = await runJobs(db, getJobHandlers(), {
+    concurrency: Number.isNaN(concurrency) ? undefined : concurrency,
+    watch,
+    signal: controller.signal,
+    onEvent: (event) => {
+      const label = `#${event.job.id} ${event.job.type}`;
+      switch (event.type) {
+        case "succeeded":
+          console.log(`   ✅ ${label}`);
+          break;
+        case "failed":
+          console.log(`   ❌ ${label}: ${event.error}`);
+          break;
+        case "retrying":
+          console.log(`   🔁 ${label}: ${event.error} (retrying at ${event.retryAt.toLocaleTimeString()})`);
+          break;
+        case "rate-limited":
+          console.log(`   ⏳ Rate limited, pausing until ${event.resumeAt.toLocaleTimeString()}`);
+          break;
+      }
+    },
+  });
+
+  console.log(`\n✅ ${result.succeeded} jobs succeeded, ${result.failed} failed`);
+}
+
+main().catch((error) => {
+  console.error("❌ Job runner failed:", error);
+  process.exit(1);
+});
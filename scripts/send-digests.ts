@@ -0,0 +1,73 @@
+#!/usr/bin/env tsx
+/**
+ * Send the weekly digest email
+ *
+ * Emails everyone who has signed in (and hasn't turned the digest off) their
+ * past week: meetings they were in, new clips from them, mentions of the
+ * trackers they follow and their open action items. Meant for a weekly cron
+ * job; people who already got a digest in the last few days are skipped, so
+ * re-running it is safe.
+ *
+ * Mail goes through MAIL_TRANSPORT: "smtp" (default, see SMTP_HOST) or
+ * "file:<directory>" to write .eml files instead.
+ *
+ * Usage:
+ *   tsx scripts/send-digests.ts
+ *   npm run digest
+ *   npm run digest -- --user=jane@example.com   # Only these people (comma-separated)
+ *   npm run digest -- --force                   # Send even if sent this week
+ *   npm run digest -- --to-dir=data/outbox      # Write .eml files instead of sending
+ */
+
+import { config } from "dotenv";
+import { existsSync } from "fs";
+import { join } from "path";
+import { createFileTransport, getMailTransport, sendWeeklyDigests } from "@/lib/digest";
+
+// Load .env.local file
+config({ path: join(process.cwd(), ".env.local") });
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+async function main(): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+    process.exit(1);
+  }
+
+  const toDir = getArg("to-dir");
+  const transport = toDir ? createFileTransport(toDir) : getMailTransport();
+  const only = getArg("user")?.split(",").map((email) => email.trim()).filter(Boolean);
+
+  console.log("📬 Sending weekly digests");
+  const result = await sendWeeklyDigests(transport, {
+    force: process.argv.includes("--force"),
+    only,
+    onEvent: (event) => {
+      switch (event.status) {
+        case "sent":
+          console.log(`   ✅ ${event.email}`);
+          break;
+        case "skipped":
+          console.log(`   ⏭️  ${event.email}: ${event.reason}`);
+          break;
+        case "failed":
+          console.log(`   ❌ ${event.email}: ${event.reason}`);
+          break;
+      }
+    },
+  });
+
+  console.log(`\n✅ ${result.sent} sent, ${result.skipped} skipped, ${result.failed} failed`);
+  if (result.failed > 0) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error("❌ Sending digests failed:", error);
+  process.exit(1);
+});
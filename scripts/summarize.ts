@@ -0,0 +1,160 @@
+#!/usr/bin/env tsx
+/**
+ * Backfill AI summaries
+ *
+ * Queues a summary job for every recording with a transcript that matches
+ * the filters, then works through the batch with a few concurrent workers.
+ * Failed jobs are retried with backoff and rate limits pause all workers.
+ * Stopping with Ctrl-C lets running jobs finish; the rest stay queued and
+ * `npm run jobs` picks them up later.
+ *
+ * Usage:
+ *   tsx scripts/summarize.ts
+ *   npm run summarize -- --missing-only                # Only recordings without a summary
+ *   npm run summarize -- --since=2025-01-01            # Recorded on or after (also --until)
+ *   npm run summarize -- --source=gong                 # Only one source
+ *   npm run summarize -- --template=sales-discovery    # Instead of matching a template
+ *   npm run summarize -- --limit=50                    # Newest N recordings
+ *   npm run summarize -- --concurrency=4               # Recordings at a time (default 2)
+ *   npm run summarize -- --enqueue-only                # Queue for `npm run jobs`
+ */
+
+import { config } from "dotenv";
+import { existsSync } from "fs";
+import { join } from "path";
+import { getDb } from "@/lib/db";
+import {
+  enqueueSummaryBackfill,
+  getBatchProgress,
+  getJobHandlers,
+  runJobs,
+  type SummarizeJobPayload,
+} from "@/lib/jobs";
+
+// Load .env.local file
+config({ path: join(process.cwd(), ".env.local") });
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+}
+
+function parseNumericArg(name: string): number | undefined {
+  const value = parseInt(getArg(name) ?? "", 10);
+  return Number.isNaN(value) || value < 1 ? undefined : value;
+}
+
+function parseDateArg(name: string): string | undefined {
+  const value = getArg(name);
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    console.error(`❌ --${name} must be a date like 2025-01-01`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+async function summarize(): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+    process.exit(1);
+  }
+
+  const missingOnly = process.argv.includes("--missing-only");
+  const db = getDb();
+  const { batchId, matched, queued } = enqueueSummaryBackfill(db, {
+    since: parseDateArg("since"),
+    until: parseDateArg("until"),
+    source: getArg("source"),
+    templateId: getArg("template"),
+    limit: parseNumericArg("limit"),
+    missingOnly,
+  });
+
+  console.log(`📝 ${matched} recordings match, ${queued} queued as ${batchId}`);
+  if (matched > queued) {
+    console.log(`   ${matched - queued} already have a summary job pending`);
+  }
+  if (queued === 0) return;
+  if (!missingOnly) {
+    console.log("   Existing summaries will be replaced (use --missing-only to keep them)");
+  }
+  if (process.argv.includes("--enqueue-only")) {
+    console.log("\nRun npm run jobs to process the queue.");
+    return;
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log("\n⏸  Finishing running jobs (Ctrl-C again to quit now)...");
+    controller.abort();
+  });
+
+  const start = Date.now();
+  const titles = new Map<string, string>();
+  const titleOf = (payload: string) => {
+    const { recordingId } = JSON.parse(payload) as SummarizeJobPayload;
+    if (!titles.has(recordingId)) {
+      const row = db
+        .prepare(`SELECT coalesce(custom_title, title) AS title FROM recordings WHERE id = ?`)
+        .get(recordingId) as { title: string } | undefined;
+      titles.set(recordingId, row?.title ?? recordingId);
+    }
+    return titles.get(recordingId)!;
+  };
+
+  console.log("");
+  const result = await runJobs(db, getJobHandlers(), {
+    batchId,
+    concurrency: parseNumericArg("concurrency"),
+    signal: controller.signal,
+    onEvent: (event) => {
+      const progress = getBatchProgress(db, batchId);
+      const done = progress.succeeded + progress.failed;
+      const prefix = `[${done.toString().padStart(String(progress.total).length)}/${progress.total}]`;
+      const title = titleOf(event.job.payload);
+
+      switch (event.type) {
+        case "succeeded": {
+          const elapsed = Date.now() - start;
+          const eta = done > 0 ? formatDuration((elapsed / done) * (progress.total - done)) : "?";
+          console.log(`${prefix} ✅ ${title} (eta ${eta})`);
+          break;
+        }
+        case "failed":
+          console.log(`${prefix} ❌ ${title}: ${event.error}`);
+          break;
+        case "retrying":
+          console.log(`${prefix} 🔁 ${title}: ${event.error} (retrying at ${event.retryAt.toLocaleTimeString()})`);
+          break;
+        case "rate-limited":
+          console.log(`${prefix} ⏳ Rate limited, pausing until ${event.resumeAt.toLocaleTimeString()}`);
+          break;
+      }
+    },
+  });
+
+  const progress = getBatchProgress(db, batchId);
+  console.log(
+    `\n${result.failed > 0 ? "⚠️ " : "✅"} ${progress.succeeded}/${progress.total} summarized, ${progress.failed} failed in ${formatDuration(Date.now() - start)}`
+  );
+  if (progress.queued > 0) {
+    console.log(`   ${progress.queued} still queued; run npm run jobs to continue`);
+  }
+  if (progress.failed > 0) {
+    console.log("   See npm run jobs -- --status, and --retry-failed to try them again");
+  }
+}
+
+summarize().catch((error) => {
+  console.error("❌ Summary backfill failed:", error);
+  process.exit(1);
+});
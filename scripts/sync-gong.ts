@@ -1,8 +1,18 @@
 import { config } from "dotenv";
 import Database from "better-sqlite3";
-import { readFileSync, mkdirSync, existsSync } from "fs";
+import { mkdirSync, existsSync } from "fs";
 import { join } from "path";
-import type { GongCall, GongCallTranscript, GongParty, GongCallMedia } from "@/types/gong";
+import type { GongCallListEntry, GongCallTranscript, GongParty } from "@/types/gong";
+import { initSchema } from "@/lib/db";
+import { computeVisibility, type RecordingVisibility } from "@/lib/auth/visibility";
+import { reindexRecordingSearch } from "@/lib/search/fts";
+import { rebuildTranscriptChunks } from "@/lib/search/chunks";
+import { runKeywordTrackersForRecording } from "@/lib/search/trackers";
+import { rebuildConversationStats } from "@/lib/analytics/conversation";
+import { redactTranscript, saveTranscriptRedactions } from "@/lib/redaction";
+import { normalizeLanguage } from "@/lib/translation/languages";
+import { checkAlertsForRecording } from "@/lib/alerts";
+import { calendarSeriesKey, rebuildMeetingSeries } from "@/lib/series";
 import { isGongConfigured } from "@/lib/gong/auth";
 import {
   listAllCalls,
@@ -13,6 +23,7 @@ import {
 import {
   buildSpeakerMap,
   extractSpeakers,
+  extractTopicSpans,
   parseGongTranscript,
 } from "@/lib/gong/transform";
 
@@ -21,7 +32,6 @@ config({ path: join(process.cwd(), ".env.local") });
 
 // Config
 const DB_PATH = join(process.cwd(), "data", "recordings.db");
-const SCHEMA_PATH = join(process.cwd(), "src", "lib", "db", "schema.sql");
 
 // Gong media URLs typically expire after 8 hours
 const MEDIA_URL_EXPIRY_HOURS = 8;
@@ -51,8 +61,7 @@ function initDb(): Database.Database {
   db.pragma("journal_mode = WAL");
   db.pragma("foreign_keys = ON");
 
-  const schema = readFileSync(SCHEMA_PATH, "utf-8");
-  db.exec(schema);
+  initSchema(db);
 
   return db;
 }
@@ -70,11 +79,35 @@ function upsertRecording(
     mediaType: string;
     mediaUrlExpiresAt?: string;
     createdAt: string;
+    visibility: RecordingVisibility;
+    ownerEmail?: string;
+    // Links instances of a recurring meeting (see src/lib/series)
+    seriesKey: string | null;
+    meetingScope: string | null;
+    language: string | null;
   }
 ): void {
+  // Update in place so summaries, clips and manual visibility survive a re-sync
   db.prepare(
-    `INSERT OR REPLACE INTO recordings (id, title, description, video_url, duration, space, source, media_type, media_url_expires_at, created_at, synced_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO recordings (id, title, description, video_url, duration, space, source, media_type, media_url_expires_at, created_at, synced_at, visibility, owner_email, meeting_scope, series_key, language)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       title = excluded.title,
+       description = excluded.description,
+       video_url = excluded.video_url,
+       duration = excluded.duration,
+       space = excluded.space,
+       source = excluded.source,
+       media_type = excluded.media_type,
+       media_url_expires_at = excluded.media_url_expires_at,
+       created_at = excluded.created_at,
+       synced_at = excluded.synced_at,
+       owner_email = excluded.owner_email,
+       meeting_scope = excluded.meeting_scope,
+       series_key = excluded.series_key,
+       language = excluded.language,
+       visibility = CASE WHEN recordings.visibility_source = 'manual'
+         THEN recordings.visibility ELSE excluded.visibility END`
   ).run(
     recording.id,
     recording.title,
@@ -86,16 +119,37 @@ function upsertRecording(
     recording.mediaType,
     recording.mediaUrlExpiresAt ?? null,
     recording.createdAt,
-    new Date().toISOString()
+    new Date().toISOString(),
+    recording.visibility,
+    recording.ownerEmail?.toLowerCase() ?? null,
+    recording.meetingScope,
+    recording.seriesKey,
+    recording.language
   );
 }
 
+function isStored(db: Database.Database, recordingId: string): boolean {
+  return db.prepare(`SELECT 1 FROM recordings WHERE id = ?`).get(recordingId) !== undefined;
+}
+
+function hasTranscript(db: Database.Database, recordingId: string): boolean {
+  return db.prepare(`SELECT 1 FROM segments WHERE recording_id = ? LIMIT 1`).get(recordingId) !== undefined;
+}
+
 function deleteRecordingData(db: Database.Database, recordingId: string): void {
   db.prepare(`DELETE FROM segments WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM segment_originals WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM transcript_redactions WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM transcript_translations WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM speakers WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM video_files WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM chat_messages WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM participants WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM recording_trackers WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM tracker_occurrences WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM recording_topics WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM topic_spans WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM recording_interaction_stats WHERE recording_id = ?`).run(recordingId);
 }
 
 function insertSegments(
@@ -170,6 +224,64 @@ function insertParticipants(
   insertMany(parties);
 }
 
+// Trackers, topics and interaction stats, when Gong returned them
+function insertCallInsights(
+  db: Database.Database,
+  recordingId: string,
+  callData: GongCallListEntry,
+  transcript: GongCallTranscript | undefined
+): { trackers: number; topics: number } {
+  const trackers = (callData.content?.trackers ?? []).filter((t) => t.count > 0);
+  const topics = (callData.content?.topics ?? []).filter((t) => t.duration > 0);
+  const topicSpans = transcript ? extractTopicSpans(transcript) : [];
+  const interaction = callData.interaction;
+
+  const insertTracker = db.prepare(
+    `INSERT OR REPLACE INTO recording_trackers (recording_id, name, count) VALUES (?, ?, ?)`
+  );
+  const insertOccurrence = db.prepare(
+    `INSERT INTO tracker_occurrences (recording_id, tracker, start_time, end_time)
+     VALUES (?, ?, ?, ?)`
+  );
+  const insertTopic = db.prepare(
+    `INSERT OR REPLACE INTO recording_topics (recording_id, name, duration) VALUES (?, ?, ?)`
+  );
+  const insertSpan = db.prepare(
+    `INSERT INTO topic_spans (recording_id, name, start_time, end_time) VALUES (?, ?, ?, ?)`
+  );
+
+  db.transaction(() => {
+    for (const tracker of trackers) {
+      insertTracker.run(recordingId, tracker.name, tracker.count);
+      for (const occurrence of tracker.occurrences ?? []) {
+        insertOccurrence.run(recordingId, tracker.name, occurrence.startTime, occurrence.endTime);
+      }
+    }
+    for (const topic of topics) {
+      insertTopic.run(recordingId, topic.name, topic.duration);
+    }
+    for (const span of topicSpans) {
+      insertSpan.run(recordingId, span.name, span.startTime, span.endTime);
+    }
+    if (interaction?.interactivity || interaction?.questions) {
+      db.prepare(
+        `INSERT OR REPLACE INTO recording_interaction_stats
+           (recording_id, talk_ratio, interactivity, longest_monologue, company_questions, non_company_questions)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(
+        recordingId,
+        interaction.interactivity?.talkRatio ?? null,
+        interaction.interactivity?.interactivity ?? null,
+        interaction.interactivity?.longestMonologue ?? null,
+        interaction.questions?.companyCount ?? null,
+        interaction.questions?.nonCompanyCount ?? null
+      );
+    }
+  })();
+
+  return { trackers: trackers.length, topics: topics.length };
+}
+
 function isRecentlySynced(db: Database.Database, recordingId: string): boolean {
   const row = db
     .prepare(`SELECT synced_at FROM recordings WHERE id = ?`)
@@ -210,7 +322,7 @@ async function processInParallel<T, R>(
 // Process a single call
 async function processCall(
   db: Database.Database,
-  callData: { metaData: GongCall; parties?: GongParty[]; media?: GongCallMedia },
+  callData: GongCallListEntry,
   transcriptMap: Map<string, GongCallTranscript>,
   force: boolean
 ): Promise<{ synced: boolean; skipped: boolean; title: string }> {
@@ -253,6 +365,24 @@ async function processCall(
       speakers = extractSpeakers(segments);
     }
 
+    // Redacted before anything is stored, so the original text only reaches segment_originals
+    const redacted = await redactTranscript(recordingId, segments);
+
+    // Private calls stay private; calls with external parties are participants-only
+    const visibility = computeVisibility({
+      isPrivate: call.isPrivate,
+      participantEmails: parties.map((p) => p.emailAddress),
+      hasExternalParty: parties.some((p) => p.affiliation === "External"),
+    });
+    const ownerEmail = parties.find(
+      (p) => p.userId && p.userId === call.primaryUserId
+    )?.emailAddress;
+
+    // Alerts are checked when a call is first ingested (domain rules need
+    // only participants) and when its transcript first arrives, not on
+    // --force re-syncs
+    const isNew = !isStored(db, recordingId);
+
     // Insert/update recording
     upsertRecording(db, {
       id: recordingId,
@@ -265,14 +395,23 @@ async function processCall(
       mediaType: call.media.toLowerCase(), // "video" or "audio"
       mediaUrlExpiresAt,
       createdAt: call.started,
+      visibility,
+      ownerEmail,
+      // Used to pick a summary template
+      meetingScope: call.scope === "Unknown" ? null : call.scope.toLowerCase(),
+      seriesKey: calendarSeriesKey(call.calendarEventId),
+      language: normalizeLanguage(call.language),
     });
 
+    const hadTranscript = hasTranscript(db, recordingId);
+
     // Clear existing segments and speakers
     deleteRecordingData(db, recordingId);
 
     // Insert new data
     if (segments.length > 0) {
-      insertSegments(db, recordingId, segments);
+      insertSegments(db, recordingId, redacted.segments);
+      saveTranscriptRedactions(db, recordingId, redacted, (id) => `${recordingId}-${id}`);
     }
     if (speakers.length > 0) {
       insertSpeakers(db, recordingId, speakers);
@@ -280,15 +419,28 @@ async function processCall(
     if (parties.length > 0) {
       insertParticipants(db, recordingId, parties);
     }
+    const insights = insertCallInsights(db, recordingId, callData, transcript);
+
+    reindexRecordingSearch(db, recordingId);
+    rebuildTranscriptChunks(db, recordingId);
+    runKeywordTrackersForRecording(db, recordingId);
+    rebuildConversationStats(db, recordingId);
+    const alerts =
+      isNew || (segments.length > 0 && !hadTranscript) ? await checkAlertsForRecording(db, recordingId) : 0;
 
     const transcriptInfo =
       segments.length > 0
-        ? `${segments.length} segments, ${speakers.length} speakers`
+        ? `${segments.length} segments, ${speakers.length} speakers${redacted.redactions.length > 0 ? `, ${redacted.redactions.length} redactions` : ""}`
         : "no transcript";
     const participantInfo = parties.length > 0 ? `, ${parties.length} participants` : "";
+    const insightInfo =
+      insights.trackers > 0 || insights.topics > 0
+        ? `, ${insights.trackers} trackers, ${insights.topics} topics`
+        : "";
+    const alertInfo = alerts > 0 ? `, ${alerts} alerts` : "";
 
     console.log(
-      `   ✓ "${call.title}" - ${transcriptInfo}${participantInfo}, ${call.media.toLowerCase()}`
+      `   ✓ "${call.title}" - ${transcriptInfo}${participantInfo}${insightInfo}, ${call.media.toLowerCase()}, ${visibility}${alertInfo}`
     );
 
     return { synced: true, skipped: false, title: call.title };
@@ -338,7 +490,7 @@ async function sync(): Promise<void> {
   // List all calls (with media URLs included)
   console.log(`📋 Fetching calls list (last ${months} month${months > 1 ? "s" : ""})...`);
 
-  let calls: { metaData: GongCall; parties?: GongParty[]; media?: GongCallMedia }[];
+  let calls: GongCallListEntry[];
   try {
     calls = await listAllCalls({
       fromDateTime: fromDate.toISOString(),
@@ -437,12 +589,18 @@ async function sync(): Promise<void> {
   const skipped = results.filter((r) => r.skipped).length;
   const failed = results.filter((r) => !r.synced && !r.skipped).length;
 
+  // Regroup recurring meetings now that every new instance is in
+  const seriesCount = synced > 0 ? rebuildMeetingSeries(db) : null;
+
   console.log(`\n✅ Gong sync complete!`);
   console.log(`   Synced: ${synced}`);
   console.log(`   Skipped: ${skipped} (already synced)`);
   if (failed > 0) {
     console.log(`   Failed: ${failed}`);
   }
+  if (seriesCount !== null) {
+    console.log(`   Meeting series: ${seriesCount}`);
+  }
 
   db.close();
 }
@@ -1,9 +1,18 @@
 import { config } from "dotenv";
 import Database from "better-sqlite3";
-import { readFileSync, mkdirSync, existsSync } from "fs";
+import { mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { parseTranscript as parseZoomTranscript, extractSpeakers as extractZoomSpeakers } from "@/lib/zoom/transform";
 import type { ZoomParticipant, ZoomParticipantsResponse } from "@/types/zoom";
+import { initSchema } from "@/lib/db";
+import { computeVisibility, type RecordingVisibility } from "@/lib/auth/visibility";
+import { reindexRecordingSearch } from "@/lib/search/fts";
+import { rebuildTranscriptChunks } from "@/lib/search/chunks";
+import { runKeywordTrackersForRecording } from "@/lib/search/trackers";
+import { rebuildConversationStats } from "@/lib/analytics/conversation";
+import { redactTranscript, saveTranscriptRedactions } from "@/lib/redaction";
+import { checkAlertsForRecording } from "@/lib/alerts";
+import { zoomSeriesKey, rebuildMeetingSeries } from "@/lib/series";
 
 // Load .env.local file
 config({ path: join(process.cwd(), ".env.local") });
@@ -30,6 +39,7 @@ interface ZoomMeeting {
   duration: number;
   recording_files: ZoomRecordingFile[];
   agenda?: string;
+  host_email?: string;
 }
 
 interface ZoomMeetingSummary {
@@ -84,7 +94,6 @@ interface Speaker {
 
 // Config
 const DB_PATH = join(process.cwd(), "data", "recordings.db");
-const SCHEMA_PATH = join(process.cwd(), "src", "lib", "db", "schema.sql");
 
 // Zoom API
 async function getZoomAccessToken(): Promise<string> {
@@ -449,8 +458,7 @@ function initDb(): Database.Database {
   db.pragma("journal_mode = WAL");
   db.pragma("foreign_keys = ON");
 
-  const schema = readFileSync(SCHEMA_PATH, "utf-8");
-  db.exec(schema);
+  initSchema(db);
 
   return db;
 }
@@ -466,11 +474,29 @@ function upsertRecording(
     space: string;
     source: string;
     createdAt: string;
+    visibility: RecordingVisibility;
+    ownerEmail?: string;
+    // Links instances of a recurring meeting (see src/lib/series)
+    seriesKey: string | null;
   }
 ): void {
+  // Update in place so summaries, clips and manual visibility survive a re-sync
   db.prepare(
-    `INSERT OR REPLACE INTO recordings (id, title, description, video_url, duration, space, source, created_at, synced_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO recordings (id, title, description, video_url, duration, space, source, created_at, synced_at, visibility, owner_email, series_key)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       title = excluded.title,
+       description = excluded.description,
+       video_url = excluded.video_url,
+       duration = excluded.duration,
+       space = excluded.space,
+       source = excluded.source,
+       created_at = excluded.created_at,
+       synced_at = excluded.synced_at,
+       owner_email = excluded.owner_email,
+       series_key = excluded.series_key,
+       visibility = CASE WHEN recordings.visibility_source = 'manual'
+         THEN recordings.visibility ELSE excluded.visibility END`
   ).run(
     recording.id,
     recording.title,
@@ -480,16 +506,44 @@ function upsertRecording(
     recording.space,
     recording.source,
     recording.createdAt,
-    new Date().toISOString()
+    new Date().toISOString(),
+    recording.visibility,
+    recording.ownerEmail?.toLowerCase() ?? null,
+    recording.seriesKey
   );
 }
 
-function deleteRecordingData(db: Database.Database, recordingId: string): void {
+function isStored(db: Database.Database, recordingId: string): boolean {
+  return db.prepare(`SELECT 1 FROM recordings WHERE id = ?`).get(recordingId) !== undefined;
+}
+
+function hasTranscript(db: Database.Database, recordingId: string): boolean {
+  return db.prepare(`SELECT 1 FROM segments WHERE recording_id = ? LIMIT 1`).get(recordingId) !== undefined;
+}
+
+function getStoredVisibility(db: Database.Database, recordingId: string): RecordingVisibility | undefined {
+  const row = db.prepare(`SELECT visibility FROM recordings WHERE id = ?`).get(recordingId) as
+    | { visibility: RecordingVisibility | null }
+    | undefined;
+  return row?.visibility ?? undefined;
+}
+
+// keepParticipants leaves the stored participants, for when they couldn't be fetched
+function deleteRecordingData(
+  db: Database.Database,
+  recordingId: string,
+  options: { keepParticipants?: boolean } = {}
+): void {
   db.prepare(`DELETE FROM segments WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM segment_originals WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM transcript_redactions WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM transcript_translations WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM speakers WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM video_files WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM chat_messages WHERE recording_id = ?`).run(recordingId);
-  db.prepare(`DELETE FROM participants WHERE recording_id = ?`).run(recordingId);
+  if (!options.keepParticipants) {
+    db.prepare(`DELETE FROM participants WHERE recording_id = ?`).run(recordingId);
+  }
 }
 
 function insertSegments(
@@ -699,12 +753,40 @@ async function processRecording(
         : Promise.resolve({ success: false, content: null }),
     ]);
 
+    // Redacted before anything is stored, so the original text only reaches segment_originals
+    const segments = transcriptContent ? parseZoomTranscript(transcriptContent) : [];
+    const redacted = await redactTranscript(recordingId, segments);
+
     // Use summary, or agenda, or fallback to date
     const description =
       summary ||
       meeting.agenda ||
       undefined;
 
+    // Participants determine visibility, so fetch them before writing the recording
+    let participants: ZoomParticipant[] = [];
+    let participantsFailed = false;
+    try {
+      participants = await getMeetingParticipants(accessToken, meeting.uuid);
+    } catch (err) {
+      console.warn(`   ⚠ Failed to fetch participants: ${err instanceof Error ? err.message : err}`);
+      participantsFailed = true;
+    }
+
+    // Without participants there's no telling who may see the recording, so
+    // keep what was stored; a new recording stays with its owner until a
+    // re-sync can fetch them
+    const visibility = participantsFailed
+      ? getStoredVisibility(db, recordingId) ?? "private"
+      : computeVisibility({
+          participantEmails: participants.map((p) => p.email),
+        });
+
+    // Alerts are checked when a recording is first ingested (domain rules
+    // need only participants) and when its transcript first arrives, not on
+    // --force re-syncs
+    const isNew = !isStored(db, recordingId);
+
     // Insert/update recording
     upsertRecording(db, {
       id: recordingId,
@@ -715,10 +797,15 @@ async function processRecording(
       space: "Zoom Meetings",
       source: "zoom",
       createdAt: meeting.start_time,
+      visibility,
+      ownerEmail: meeting.host_email,
+      seriesKey: zoomSeriesKey(meeting),
     });
 
+    const hadTranscript = hasTranscript(db, recordingId);
+
     // Clear existing segments, speakers, and video files
-    deleteRecordingData(db, recordingId);
+    deleteRecordingData(db, recordingId, { keepParticipants: participantsFailed });
 
     // Save all video views
     const allVideoFiles = findAllVideoFiles(details.recording_files);
@@ -736,12 +823,15 @@ async function processRecording(
     // Process transcript
     let transcriptInfo = "no transcript";
     if (transcriptContent) {
-      const segments = parseZoomTranscript(transcriptContent);
       const speakers = extractZoomSpeakers(segments);
 
-      insertSegments(db, recordingId, segments);
+      insertSegments(db, recordingId, redacted.segments);
+      saveTranscriptRedactions(db, recordingId, redacted, (id) => `${recordingId}-${id}`);
       insertSpeakers(db, recordingId, speakers);
       transcriptInfo = `${segments.length} segments, ${speakers.length} speakers`;
+      if (redacted.redactions.length > 0) {
+        transcriptInfo += `, ${redacted.redactions.length} redactions`;
+      }
     }
 
     // Process chat messages
@@ -756,21 +846,28 @@ async function processRecording(
       chatInfo = "chat fetch failed";
     }
 
-    // Fetch and store participants
+    // Store participants
     let participantInfo = "no participants";
-    try {
-      const participants = await getMeetingParticipants(accessToken, meeting.uuid);
-      if (participants.length > 0) {
-        insertParticipants(db, recordingId, participants);
-        participantInfo = `${participants.length} participants`;
-      }
-    } catch (err) {
-      console.warn(`   ⚠ Failed to fetch participants: ${err instanceof Error ? err.message : err}`);
+    if (participants.length > 0) {
+      insertParticipants(db, recordingId, participants);
+      participantInfo = `${participants.length} participants`;
+    } else if (participantsFailed) {
       participantInfo = "participants fetch failed";
     }
 
+    reindexRecordingSearch(db, recordingId);
+    rebuildTranscriptChunks(db, recordingId);
+    runKeywordTrackersForRecording(db, recordingId);
+    rebuildConversationStats(db, recordingId);
+
+    let alertInfo = "";
+    if (isNew || (transcriptContent && !hadTranscript)) {
+      const alerts = await checkAlertsForRecording(db, recordingId);
+      if (alerts > 0) alertInfo = `, ${alerts} alerts`;
+    }
+
     console.log(
-      `   ✓ "${meeting.topic}" - ${transcriptInfo}, ${chatInfo}, ${participantInfo}, ${allVideoFiles.length} views`
+      `   ✓ "${meeting.topic}" - ${transcriptInfo}, ${chatInfo}, ${participantInfo}, ${allVideoFiles.length} views, ${visibility}${alertInfo}`
     );
 
     return { synced: true, skipped: false, topic: meeting.topic };
@@ -827,12 +924,18 @@ async function sync(): Promise<void> {
   const skipped = results.filter((r) => r.skipped).length;
   const failed = results.filter((r) => !r.synced && !r.skipped).length;
 
+  // Regroup recurring meetings now that every new instance is in
+  const seriesCount = synced > 0 ? rebuildMeetingSeries(db) : null;
+
   console.log(`\n✅ Sync complete!`);
   console.log(`   Synced: ${synced}`);
   console.log(`   Skipped: ${skipped} (already synced or no video)`);
   if (failed > 0) {
     console.log(`   Failed: ${failed}`);
   }
+  if (seriesCount !== null) {
+    console.log(`   Meeting series: ${seriesCount}`);
+  }
 
   db.close();
 }
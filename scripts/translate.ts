@@ -0,0 +1,169 @@
+#!/usr/bin/env tsx
+/**
+ * Backfill transcript translations
+ *
+ * Queues a translation job for every recording with a transcript that isn't
+ * in the target language and hasn't been translated into it yet, then works
+ * through the batch with a few concurrent workers. Failed jobs are retried
+ * with backoff and rate limits pause all workers. Stopping with Ctrl-C lets
+ * running jobs finish; the rest stay queued and `npm run jobs` picks them up
+ * later.
+ *
+ * Usage:
+ *   npm run translate -- --language=en                 # Target language (required)
+ *   npm run translate -- --language=en --from=de,fr,ja # Only calls in these languages
+ *   npm run translate -- --since=2025-01-01            # Recorded on or after (also --until)
+ *   npm run translate -- --source=gong                 # Only one source
+ *   npm run translate -- --limit=50                    # Newest N recordings
+ *   npm run translate -- --concurrency=4               # Recordings at a time (default 2)
+ *   npm run translate -- --enqueue-only                # Queue for `npm run jobs`
+ */
+
+import { config } from "dotenv";
+import { existsSync } from "fs";
+import { join } from "path";
+import { getDb } from "@/lib/db";
+import {
+  enqueueTranslationBackfill,
+  getBatchProgress,
+  getJobHandlers,
+  runJobs,
+  type TranslateJobPayload,
+} from "@/lib/jobs";
+import { isTranscriptLanguage, languageLabel, normalizeLanguage, TRANSCRIPT_LANGUAGES } from "@/lib/translation/languages";
+
+// Load .env.local file
+config({ path: join(process.cwd(), ".env.local") });
+
+const DB_PATH = join(process.cwd(), "data", "recordings.db");
+
+function getArg(name: string): string | undefined {
+  const arg = process.argv.find((a) => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+}
+
+function parseNumericArg(name: string): number | undefined {
+  const value = parseInt(getArg(name) ?? "", 10);
+  return Number.isNaN(value) || value < 1 ? undefined : value;
+}
+
+function parseDateArg(name: string): string | undefined {
+  const value = getArg(name);
+  if (value !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    console.error(`❌ --${name} must be a date like 2025-01-01`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+async function translate(): Promise<void> {
+  if (!existsSync(DB_PATH)) {
+    console.error(`❌ No database at ${DB_PATH}. Run npm run sync first.`);
+    process.exit(1);
+  }
+
+  const language = normalizeLanguage(getArg("language"));
+  if (!language || !isTranscriptLanguage(language)) {
+    console.error(
+      `❌ --language must be one of ${TRANSCRIPT_LANGUAGES.map((l) => l.code).join(", ")}`
+    );
+    process.exit(1);
+  }
+  const from = getArg("from")
+    ?.split(",")
+    .map(normalizeLanguage)
+    .filter((code): code is string => code !== null);
+
+  const db = getDb();
+  const { batchId, matched, queued } = enqueueTranslationBackfill(db, {
+    language,
+    from,
+    since: parseDateArg("since"),
+    until: parseDateArg("until"),
+    source: getArg("source"),
+    limit: parseNumericArg("limit"),
+  });
+
+  console.log(`🌐 ${matched} recordings to translate into ${languageLabel(language)}, ${queued} queued as ${batchId}`);
+  if (matched > queued) {
+    console.log(`   ${matched - queued} already have a translation job pending`);
+  }
+  if (queued === 0) return;
+  if (process.argv.includes("--enqueue-only")) {
+    console.log("\nRun npm run jobs to process the queue.");
+    return;
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => {
+    if (controller.signal.aborted) process.exit(130);
+    console.log("\n⏸  Finishing running jobs (Ctrl-C again to quit now)...");
+    controller.abort();
+  });
+
+  const start = Date.now();
+  const titles = new Map<string, string>();
+  const titleOf = (payload: string) => {
+    const { recordingId } = JSON.parse(payload) as TranslateJobPayload;
+    if (!titles.has(recordingId)) {
+      const row = db
+        .prepare(`SELECT coalesce(custom_title, title) AS title FROM recordings WHERE id = ?`)
+        .get(recordingId) as { title: string } | undefined;
+      titles.set(recordingId, row?.title ?? recordingId);
+    }
+    return titles.get(recordingId)!;
+  };
+
+  console.log("");
+  const result = await runJobs(db, getJobHandlers(), {
+    batchId,
+    concurrency: parseNumericArg("concurrency"),
+    signal: controller.signal,
+    onEvent: (event) => {
+      const progress = getBatchProgress(db, batchId);
+      const done = progress.succeeded + progress.failed;
+      const prefix = `[${done.toString().padStart(String(progress.total).length)}/${progress.total}]`;
+      const title = titleOf(event.job.payload);
+
+      switch (event.type) {
+        case "succeeded": {
+          const elapsed = Date.now() - start;
+          const eta = done > 0 ? formatDuration((elapsed / done) * (progress.total - done)) : "?";
+          console.log(`${prefix} ✅ ${title} (eta ${eta})`);
+          break;
+        }
+        case "failed":
+          console.log(`${prefix} ❌ ${title}: ${event.error}`);
+          break;
+        case "retrying":
+          console.log(`${prefix} 🔁 ${title}: ${event.error} (retrying at ${event.retryAt.toLocaleTimeString()})`);
+          break;
+        case "rate-limited":
+          console.log(`${prefix} ⏳ Rate limited, pausing until ${event.resumeAt.toLocaleTimeString()}`);
+          break;
+      }
+    },
+  });
+
+  const progress = getBatchProgress(db, batchId);
+  console.log(
+    `\n${result.failed > 0 ? "⚠️ " : "✅"} ${progress.succeeded}/${progress.total} translated, ${progress.failed} failed in ${formatDuration(Date.now() - start)}`
+  );
+  if (progress.queued > 0) {
+    console.log(`   ${progress.queued} still queued; run npm run jobs to continue`);
+  }
+  if (progress.failed > 0) {
+    console.log("   See npm run jobs -- --status, and --retry-failed to try them again");
+  }
+}
+
+translate().catch((error) => {
+  console.error("❌ Translation backfill failed:", error);
+  process.exit(1);
+});
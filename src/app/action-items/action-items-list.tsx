@@ -0,0 +1,200 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { CheckIcon } from "@heroicons/react/20/solid";
+import { LocalDateTime } from "@/components/local-datetime";
+import { formatTime, type ActionItem, type ActionItemStatus } from "@/types/video";
+
+export type ActionItemStatusFilter = ActionItemStatus | "all";
+
+interface ActionItemsListProps {
+  initialItems: ActionItem[];
+  owners: { email: string; name: string; open_count: number }[];
+  series: { id: string; title: string; open_count: number }[];
+  filters: { status: ActionItemStatusFilter; owner: string; series: string };
+  viewerEmail: string;
+  // YYYY-MM-DD, for overdue items
+  today: string;
+}
+
+const STATUSES: { value: ActionItemStatusFilter; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "done", label: "Done" },
+  { value: "all", label: "All" },
+];
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" };
+
+const selectClass =
+  "rounded-lg border border-white/10 bg-zinc-900 px-2 py-1.5 text-xs text-zinc-400 outline-none focus:border-indigo-500 light:border-zinc-300 light:bg-white light:text-zinc-600";
+
+function formatDueDate(dueDate: string): string {
+  // Date-only, so format it in UTC to keep the day
+  return new Date(`${dueDate}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function ActionItemsList({
+  initialItems,
+  owners,
+  series,
+  filters,
+  viewerEmail,
+  today,
+}: ActionItemsListProps) {
+  const router = useRouter();
+  const [items, setItems] = useState(initialItems);
+  const [error, setError] = useState<string | null>(null);
+
+  const setFilter = (name: keyof typeof filters, value: string) => {
+    const next = { ...filters, [name]: value };
+    const params = new URLSearchParams();
+    if (next.status !== "open") params.set("status", next.status);
+    if (next.owner) params.set("owner", next.owner);
+    if (next.series) params.set("series", next.series);
+    const queryString = params.toString();
+    router.push(`/action-items${queryString ? `?${queryString}` : ""}`);
+  };
+
+  // Items stay in the list once toggled, so a misclick is easy to undo
+  const toggle = async (item: ActionItem) => {
+    const status: ActionItemStatus = item.status === "done" ? "open" : "done";
+    setError(null);
+    setItems((current) => current.map((i) => (i.id === item.id ? { ...i, status } : i)));
+    try {
+      const response = await fetch(`/api/action-items/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json() as { actionItem?: ActionItem; error?: string };
+      if (!response.ok || !data.actionItem) {
+        throw new Error(data.error || "Failed to update action item");
+      }
+      setItems((current) => current.map((i) => (i.id === item.id ? data.actionItem! : i)));
+    } catch (err) {
+      setItems((current) => current.map((i) => (i.id === item.id ? item : i)));
+      setError(err instanceof Error ? err.message : "Failed to update action item");
+    }
+  };
+
+  const ownerOptions = owners.some((owner) => owner.email === viewerEmail)
+    ? owners
+    : [{ email: viewerEmail, name: viewerEmail, open_count: 0 }, ...owners];
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-1 rounded-lg bg-zinc-800/50 p-1 light:bg-zinc-100">
+          {STATUSES.map((status) => (
+            <button
+              key={status.value}
+              onClick={() => setFilter("status", status.value)}
+              className={`rounded-md px-3 py-1.5 text-xs font-medium transition ${
+                filters.status === status.value
+                  ? "bg-indigo-500 text-white"
+                  : "text-zinc-400 hover:bg-zinc-700/50 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-200 light:hover:text-zinc-900"
+              }`}
+            >
+              {status.label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={filters.owner}
+          onChange={(e) => setFilter("owner", e.target.value)}
+          className={selectClass}
+          aria-label="Owner"
+        >
+          <option value="">Everyone</option>
+          {ownerOptions.map((owner) => (
+            <option key={owner.email} value={owner.email}>
+              {owner.email === viewerEmail ? "Me" : owner.name}
+              {owner.open_count > 0 ? ` · ${owner.open_count} open` : ""}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.series}
+          onChange={(e) => setFilter("series", e.target.value)}
+          className={selectClass}
+          aria-label="Meeting series"
+        >
+          <option value="">All meetings</option>
+          {series.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.title}
+              {s.open_count > 0 ? ` · ${s.open_count} open` : ""}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-400 light:text-red-600">{error}</p>}
+
+      {items.length === 0 ? (
+        <p className="mt-8 text-center text-sm text-zinc-500">
+          {filters.status === "done"
+            ? "Nothing checked off yet."
+            : filters.status === "open"
+              ? "No open action items."
+              : "No action items."}
+        </p>
+      ) : (
+        <ul className="mt-4 divide-y divide-white/5 rounded-2xl border border-white/10 bg-zinc-900/50 light:divide-zinc-100 light:border-zinc-200 light:bg-white">
+          {items.map((item) => {
+            const done = item.status === "done";
+            const overdue = !done && item.dueDate !== null && item.dueDate < today;
+            const href = `/recordings/${encodeURIComponent(item.recordingId)}${
+              item.timestamp !== null ? `?t=${Math.floor(item.timestamp)}` : ""
+            }`;
+
+            return (
+              <li key={item.id} className="flex items-start gap-3 px-4 py-3">
+                <button
+                  onClick={() => toggle(item)}
+                  role="checkbox"
+                  aria-checked={done}
+                  aria-label={done ? "Mark as open" : "Mark as done"}
+                  className={`mt-0.5 flex h-5 w-5 flex-shrink-0 items-center justify-center rounded border transition ${
+                    done
+                      ? "border-indigo-500 bg-indigo-500 text-white"
+                      : "border-zinc-600 hover:border-indigo-400 light:border-zinc-300"
+                  }`}
+                >
+                  {done && <CheckIcon className="h-4 w-4" />}
+                </button>
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm ${done ? "text-zinc-500 line-through" : ""}`}>{item.text}</p>
+                  <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs text-zinc-500">
+                    {item.owner && (
+                      <span title={item.ownerEmail ?? undefined}>
+                        {item.ownerEmail === viewerEmail ? `${item.owner} (me)` : item.owner}
+                      </span>
+                    )}
+                    {item.dueDate && (
+                      <span className={overdue ? "text-red-400 light:text-red-600" : undefined}>
+                        {overdue ? "Overdue · " : "Due "}
+                        {formatDueDate(item.dueDate)}
+                      </span>
+                    )}
+                    <Link href={href} className="truncate hover:text-indigo-400">
+                      {item.recordingTitle}
+                      {item.timestamp !== null && ` @ ${formatTime(item.timestamp)}`}
+                    </Link>
+                    <LocalDateTime iso={item.recordedAt} options={DATE_OPTIONS} />
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import {
+  dbRowToActionItem,
+  getActionItemOwners,
+  getActionItems,
+  getActionItemSeries,
+} from "@/lib/db";
+import { ActionItemsList, type ActionItemStatusFilter } from "./action-items-list";
+
+export const metadata: Metadata = {
+  title: "Action items - WorkTV",
+};
+
+export default async function ActionItemsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; owner?: string; series?: string }>;
+}) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/action-items")}`);
+  }
+
+  const { status, owner, series } = await searchParams;
+  const filters = {
+    status: (status === "done" || status === "all" ? status : "open") as ActionItemStatusFilter,
+    owner: owner ?? "",
+    series: series ?? "",
+  };
+  const items = getActionItems(viewer, {
+    status: filters.status === "all" ? undefined : filters.status,
+    ownerEmail: filters.owner || undefined,
+    series: filters.series || undefined,
+  }).map(dbRowToActionItem);
+
+  return (
+    <div className="mx-auto max-w-4xl">
+      <h1 className="text-xl font-semibold">Action items</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Follow-ups promised in your meetings, from their AI summaries. Each links to the moment it
+        came up.
+      </p>
+      <ActionItemsList
+        key={`${filters.status}|${filters.owner}|${filters.series}`}
+        initialItems={items}
+        owners={getActionItemOwners(viewer)}
+        series={getActionItemSeries(viewer)}
+        filters={filters}
+        viewerEmail={viewer.email.toLowerCase()}
+        today={new Date().toISOString().slice(0, 10)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getAIUsageTotals, type AIUsageTotalsRow } from "@/lib/db";
+import { LLM_TASKS, type LLMTask } from "@/lib/ai/client";
+import { getMonthlyBudget, getMonthlySpend } from "@/lib/ai/usage";
+
+export const metadata: Metadata = {
+  title: "AI usage - WorkTV",
+};
+
+const REPORT_DAYS = 30;
+
+const TASK_LABELS: Record<LLMTask, string> = {
+  summary: "Summaries",
+  "series-digest": "Series digests",
+  "clip-title": "Clip titles",
+  preview: "Preview picking",
+  chat: "Chat & ask",
+  redaction: "Transcript redaction",
+  translation: "Translations",
+};
+
+interface Totals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+function sumRows(rows: AIUsageTotalsRow[]): Totals {
+  return rows.reduce(
+    (totals, row) => ({
+      calls: totals.calls + row.calls,
+      inputTokens: totals.inputTokens + row.input_tokens,
+      outputTokens: totals.outputTokens + row.output_tokens,
+      cost: totals.cost + row.cost_usd,
+      unpricedCalls: totals.unpricedCalls + row.unpriced_calls,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 }
+  );
+}
+
+function groupRows<K extends string>(rows: AIUsageTotalsRow[], key: (row: AIUsageTotalsRow) => K) {
+  const groups = new Map<K, AIUsageTotalsRow[]>();
+  for (const row of rows) {
+    const k = key(row);
+    groups.set(k, [...(groups.get(k) ?? []), row]);
+  }
+  return groups;
+}
+
+function formatCost(usd: number): string {
+  return usd > 0 && usd < 1 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString("en-US");
+}
+
+const cellClass = "px-3 py-2 text-right tabular-nums";
+const headerClass = "px-3 py-2 text-right font-medium";
+
+function TotalsTable({ title, rows }: { title: string; rows: [string, Totals][] }) {
+  return (
+    <section className="mt-6 rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+      <h2 className="text-sm font-semibold">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="mt-2 text-sm text-zinc-500">No model calls yet.</p>
+      ) : (
+        <table className="mt-3 w-full text-sm">
+          <thead className="text-xs text-zinc-500">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium" />
+              <th className={headerClass}>Calls</th>
+              <th className={headerClass}>Input tokens</th>
+              <th className={headerClass}>Output tokens</th>
+              <th className={headerClass}>Est. cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 light:divide-zinc-100">
+            {rows.map(([label, totals]) => (
+              <tr key={label}>
+                <td className="px-3 py-2">{label}</td>
+                <td className={cellClass}>{totals.calls}</td>
+                <td className={cellClass}>{formatTokens(totals.inputTokens)}</td>
+                <td className={cellClass}>{formatTokens(totals.outputTokens)}</td>
+                <td className={cellClass}>
+                  {formatCost(totals.cost)}
+                  {totals.unpricedCalls > 0 && (
+                    <span className="text-zinc-500" title={`${totals.unpricedCalls} calls to models without a known price`}>
+                      {" "}+?
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default async function AIUsagePage() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/admin/ai-usage")}`);
+  }
+  if (!viewer.isAdmin) {
+    notFound();
+  }
+
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - REPORT_DAYS);
+  since.setUTCHours(0, 0, 0, 0);
+  const rows = getAIUsageTotals(since.toISOString());
+  const monthSpend = getMonthlySpend();
+  const budget = getMonthlyBudget();
+
+  const byTask = groupRows(rows, (row) => row.task);
+  const byModel = groupRows(rows, (row) => row.model);
+  const byDay = groupRows(rows, (row) => row.day);
+
+  return (
+    <div className="mx-auto max-w-5xl">
+      <h1 className="text-xl font-semibold">AI usage</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Every model call with its tokens and estimated cost at list prices, over the last{" "}
+        {REPORT_DAYS} days. Local models count as free.
+      </p>
+
+      <section className="mt-6 rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+        <h2 className="text-sm font-semibold">This month</h2>
+        <p className="mt-2 text-2xl font-semibold tabular-nums">
+          {formatCost(monthSpend)}
+          {budget !== null && (
+            <span className="text-base font-normal text-zinc-500"> of {formatCost(budget)} budget</span>
+          )}
+        </p>
+        {budget !== null ? (
+          <>
+            <div className="mt-3 h-2 overflow-hidden rounded-full bg-white/10 light:bg-zinc-100">
+              <div
+                className={`h-full rounded-full ${monthSpend >= budget ? "bg-red-500" : "bg-indigo-500"}`}
+                style={{ width: `${budget > 0 ? Math.min(100, (monthSpend / budget) * 100) : 100}%` }}
+              />
+            </div>
+            {monthSpend >= budget && (
+              <p className="mt-2 text-sm text-red-400 light:text-red-600">
+                Budget reached: new AI requests are refused until next month.
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="mt-1 text-xs text-zinc-500">
+            No budget set. Set AI_MONTHLY_BUDGET_USD to refuse AI requests once it&apos;s reached.
+          </p>
+        )}
+      </section>
+
+      <TotalsTable
+        title="By task"
+        rows={LLM_TASKS.filter((task) => byTask.has(task)).map((task) => [
+          TASK_LABELS[task],
+          sumRows(byTask.get(task)!),
+        ])}
+      />
+      <TotalsTable
+        title="By model"
+        rows={[...byModel].map(([model, modelRows]): [string, Totals] => [model, sumRows(modelRows)])}
+      />
+
+      <section className="mt-6 rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+        <h2 className="text-sm font-semibold">Estimated cost by day</h2>
+        {byDay.size === 0 ? (
+          <p className="mt-2 text-sm text-zinc-500">No model calls yet.</p>
+        ) : (
+          <table className="mt-3 w-full text-sm">
+            <thead className="text-xs text-zinc-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">Day (UTC)</th>
+                {LLM_TASKS.map((task) => (
+                  <th key={task} className={headerClass}>
+                    {TASK_LABELS[task]}
+                  </th>
+                ))}
+                <th className={headerClass}>Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5 light:divide-zinc-100">
+              {[...byDay].map(([day, dayRows]) => (
+                <tr key={day}>
+                  <td className="px-3 py-2">{day}</td>
+                  {LLM_TASKS.map((task) => {
+                    const taskRows = dayRows.filter((row) => row.task === task);
+                    return (
+                      <td key={task} className={cellClass}>
+                        {taskRows.length > 0 ? formatCost(sumRows(taskRows).cost) : "–"}
+                      </td>
+                    );
+                  })}
+                  <td className={`${cellClass} font-medium`}>{formatCost(sumRows(dayRows).cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getSummaryTemplates } from "@/lib/db";
+import { SummaryTemplatesEditor } from "./summary-templates-editor";
+
+export const metadata: Metadata = {
+  title: "Summary templates - WorkTV",
+};
+
+export default async function SummaryTemplatesPage() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/admin/summary-templates")}`);
+  }
+  if (!viewer.isAdmin) {
+    notFound();
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl">
+      <h1 className="text-xl font-semibold">Summary templates</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Each meeting type gets its own summary sections. New summaries use the highest-priority
+        template whose rules match the recording; anyone can pick a different one when
+        regenerating.
+      </p>
+      <SummaryTemplatesEditor initialTemplates={getSummaryTemplates()} />
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useState } from "react";
+import { PlusIcon, TrashIcon } from "@heroicons/react/20/solid";
+import { ConfirmModal } from "@/components/ui/confirm-modal";
+import {
+  SUMMARY_FIELDS,
+  SUMMARY_FIELD_LABELS,
+  TEMPLATE_SOURCES,
+  type SummaryTemplate,
+  type SummaryTemplateInput,
+} from "@/lib/ai/summary-templates";
+
+interface SummaryTemplatesEditorProps {
+  initialTemplates: SummaryTemplate[];
+}
+
+const NEW_TEMPLATE: SummaryTemplateInput = {
+  name: "",
+  description: "",
+  focus: "",
+  fields: ["keyPoints", "decisions", "actionItems"],
+  sections: [],
+  match: { sources: [], titlePattern: null, purposePattern: null, scope: null },
+  priority: 10,
+};
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-md border border-white/10 bg-zinc-950 px-2 py-1.5 text-sm text-zinc-200 outline-none focus:border-indigo-500 light:border-zinc-300 light:bg-white light:text-zinc-800";
+const LABEL_CLASS = "block text-xs text-zinc-400 light:text-zinc-500";
+const HEADING_CLASS = "text-xs font-semibold uppercase tracking-wide text-zinc-500";
+
+function toInput(template: SummaryTemplate): SummaryTemplateInput {
+  return {
+    name: template.name,
+    description: template.description,
+    focus: template.focus,
+    fields: template.fields,
+    sections: template.sections,
+    match: template.match,
+    priority: template.priority,
+  };
+}
+
+export function SummaryTemplatesEditor({ initialTemplates }: SummaryTemplatesEditorProps) {
+  const [templates, setTemplates] = useState(initialTemplates);
+  // null while creating a new template
+  const [selectedId, setSelectedId] = useState<string | null>(initialTemplates[0]?.id ?? null);
+  const [draft, setDraft] = useState<SummaryTemplateInput>(
+    initialTemplates[0] ? toInput(initialTemplates[0]) : NEW_TEMPLATE
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const selected = templates.find((template) => template.id === selectedId) ?? null;
+
+  const select = (template: SummaryTemplate | null) => {
+    setSelectedId(template?.id ?? null);
+    setDraft(template ? toInput(template) : NEW_TEMPLATE);
+    setError(null);
+    setSavedMessage(null);
+  };
+
+  const update = (changes: Partial<SummaryTemplateInput>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setSavedMessage(null);
+  };
+
+  const updateMatch = (changes: Partial<SummaryTemplateInput["match"]>) => {
+    update({ match: { ...draft.match, ...changes } });
+  };
+
+  const updateSection = (index: number, changes: { title?: string; instructions?: string }) => {
+    update({
+      sections: draft.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+    });
+  };
+
+  const toggle = <T,>(list: T[], item: T): T[] =>
+    list.includes(item) ? list.filter((value) => value !== item) : [...list, item];
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        selectedId ? `/api/summary-templates/${encodeURIComponent(selectedId)}` : "/api/summary-templates",
+        {
+          method: selectedId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(draft),
+        }
+      );
+      const data = await response.json() as { template?: SummaryTemplate; error?: string };
+      if (!response.ok || !data.template) {
+        throw new Error(data.error || "Failed to save template");
+      }
+
+      const saved = data.template;
+      setTemplates((prev) =>
+        prev.some((template) => template.id === saved.id)
+          ? prev.map((template) => (template.id === saved.id ? saved : template))
+          : [...prev, saved]
+      );
+      setSelectedId(saved.id);
+      setDraft(toInput(saved));
+      setSavedMessage("Saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    setConfirmDelete(false);
+    setError(null);
+    try {
+      const response = await fetch(`/api/summary-templates/${encodeURIComponent(selectedId)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to delete template");
+      }
+      const remaining = templates.filter((template) => template.id !== selectedId);
+      setTemplates(remaining);
+      select(remaining[0] ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete template");
+    }
+  };
+
+  return (
+    <div className="mt-6 grid gap-6 md:grid-cols-[14rem_1fr]">
+      <nav className="flex flex-col gap-1">
+        {templates.map((template) => (
+          <button
+            key={template.id}
+            onClick={() => select(template)}
+            className={`rounded-lg px-3 py-2 text-left text-sm transition ${
+              template.id === selectedId
+                ? "bg-indigo-500/20 text-zinc-100 light:bg-indigo-50 light:text-zinc-900"
+                : "text-zinc-400 hover:bg-white/5 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-50 light:hover:text-zinc-900"
+            }`}
+          >
+            {template.name}
+            {template.builtIn && <span className="ml-1.5 text-xs text-zinc-500">built-in</span>}
+          </button>
+        ))}
+        <button
+          onClick={() => select(null)}
+          className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-left text-sm transition ${
+            selectedId === null
+              ? "bg-indigo-500/20 text-zinc-100 light:bg-indigo-50 light:text-zinc-900"
+              : "text-indigo-400 hover:bg-white/5 light:text-indigo-600 light:hover:bg-zinc-50"
+          }`}
+        >
+          <PlusIcon className="h-4 w-4" />
+          New template
+        </button>
+      </nav>
+
+      <div className="rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className={LABEL_CLASS}>
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className={INPUT_CLASS}
+              placeholder="Customer onboarding"
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Description
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        <label className={`mt-4 ${LABEL_CLASS}`}>
+          Focus (extra guidance for the summary)
+          <textarea
+            value={draft.focus}
+            onChange={(e) => update({ focus: e.target.value })}
+            rows={2}
+            className={INPUT_CLASS}
+            placeholder="This is an onboarding call. Focus on setup progress and blockers."
+          />
+        </label>
+
+        <h3 className={`mt-6 ${HEADING_CLASS}`}>Standard fields</h3>
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-2">
+          {SUMMARY_FIELDS.map((field) => (
+            <label
+              key={field}
+              className="flex cursor-pointer items-center gap-2 text-sm text-zinc-300 light:text-zinc-700"
+            >
+              <input
+                type="checkbox"
+                checked={draft.fields.includes(field)}
+                onChange={() => update({ fields: toggle(draft.fields, field) })}
+              />
+              {SUMMARY_FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+
+        <h3 className={`mt-6 ${HEADING_CLASS}`}>Sections</h3>
+        <div className="mt-2 flex flex-col gap-3">
+          {draft.sections.map((section, i) => (
+            <div key={i} className="flex gap-2">
+              <div className="grid flex-1 gap-2 sm:grid-cols-[12rem_1fr]">
+                <input
+                  type="text"
+                  value={section.title}
+                  onChange={(e) => updateSection(i, { title: e.target.value })}
+                  className={INPUT_CLASS}
+                  placeholder="Title"
+                  aria-label="Section title"
+                />
+                <input
+                  type="text"
+                  value={section.instructions}
+                  onChange={(e) => updateSection(i, { instructions: e.target.value })}
+                  className={INPUT_CLASS}
+                  placeholder="What to list in this section"
+                  aria-label="Section instructions"
+                />
+              </div>
+              <button
+                onClick={() => update({ sections: draft.sections.filter((_, j) => j !== i) })}
+                className="mt-1 rounded-md px-2 text-zinc-500 transition hover:bg-white/10 hover:text-red-400 light:hover:bg-zinc-100"
+                title="Remove section"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ sections: [...draft.sections, { id: "", title: "", instructions: "" }] })}
+            className="flex w-fit items-center gap-1.5 rounded-md px-2 py-1 text-sm text-indigo-400 transition hover:bg-white/5 light:text-indigo-600 light:hover:bg-zinc-50"
+          >
+            <PlusIcon className="h-4 w-4" />
+            Add section
+          </button>
+        </div>
+
+        <h3 className={`mt-6 ${HEADING_CLASS}`}>Use automatically when</h3>
+        <p className="mt-1 text-xs text-zinc-500">
+          Every rule you set must match. Leave them all empty to only use this template when picked
+          by hand.
+        </p>
+        <div className="mt-3 grid gap-4 sm:grid-cols-2">
+          <label className={LABEL_CLASS}>
+            Title matches (regular expression)
+            <input
+              type="text"
+              value={draft.match.titlePattern ?? ""}
+              onChange={(e) => updateMatch({ titlePattern: e.target.value || null })}
+              className={`${INPUT_CLASS} font-mono`}
+              placeholder="onboarding|kickoff"
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Gong purpose matches (regular expression)
+            <input
+              type="text"
+              value={draft.match.purposePattern ?? ""}
+              onChange={(e) => updateMatch({ purposePattern: e.target.value || null })}
+              className={`${INPUT_CLASS} font-mono`}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Gong scope
+            <select
+              value={draft.match.scope ?? ""}
+              onChange={(e) =>
+                updateMatch({ scope: e.target.value === "" ? null : (e.target.value as "internal" | "external") })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="">Any</option>
+              <option value="external">External</option>
+              <option value="internal">Internal</option>
+            </select>
+          </label>
+          <div className={LABEL_CLASS}>
+            Source
+            <div className="mt-2 flex gap-4">
+              {TEMPLATE_SOURCES.map((source) => (
+                <label
+                  key={source}
+                  className="flex cursor-pointer items-center gap-2 text-sm capitalize text-zinc-300 light:text-zinc-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={draft.match.sources.includes(source)}
+                    onChange={() => updateMatch({ sources: toggle(draft.match.sources, source) })}
+                  />
+                  {source}
+                </label>
+              ))}
+            </div>
+          </div>
+          <label className={LABEL_CLASS}>
+            Priority (higher wins when several match)
+            <input
+              type="number"
+              step={1}
+              value={draft.priority}
+              onChange={(e) => update({ priority: parseInt(e.target.value, 10) || 0 })}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <p className="mt-4 text-sm text-red-400 light:text-red-600">{error}</p>
+        )}
+
+        <div className="mt-6 flex items-center justify-end gap-2">
+          {savedMessage && <span className="mr-auto text-sm text-zinc-500">{savedMessage}</span>}
+          {selected && !selected.builtIn && (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="rounded-md px-3 py-1.5 text-sm text-red-400 transition hover:bg-red-500/10"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !draft.name.trim()}
+            className="rounded-md bg-indigo-500 px-3 py-1.5 text-sm font-medium text-white transition hover:bg-indigo-400 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : selectedId ? "Save" : "Create"}
+          </button>
+        </div>
+      </div>
+
+      {confirmDelete && selected && (
+        <ConfirmModal
+          title="Delete template"
+          message={`Delete "${selected.name}"? Existing summaries keep their content.`}
+          confirmLabel="Delete"
+          isDestructive
+          onConfirm={handleDelete}
+          onCancel={() => setConfirmDelete(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import { PlusIcon, TrashIcon } from "@heroicons/react/20/solid";
+import { ConfirmModal } from "@/components/ui/confirm-modal";
+import {
+  ALERT_CHANNELS,
+  ALERT_RULE_KINDS,
+  ALERT_RULE_KIND_LABELS,
+  type AlertChannel,
+  type AlertRule,
+  type AlertRuleKind,
+} from "@/lib/alerts/rules";
+
+interface AlertRulesProps {
+  initialRules: AlertRule[];
+  emailConfigured: boolean;
+}
+
+interface Draft {
+  kind: AlertRuleKind;
+  value: string;
+  channels: AlertChannel[];
+  webhookUrl: string;
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-md border border-white/10 bg-zinc-950 px-2 py-1.5 text-sm text-zinc-200 outline-none focus:border-indigo-500 light:border-zinc-300 light:bg-white light:text-zinc-800";
+const LABEL_CLASS = "block text-xs text-zinc-400 light:text-zinc-500";
+
+const VALUE_LABELS: Record<AlertRuleKind, string> = {
+  phrase: "Phrase",
+  tracker: "Tracker name",
+  speaker: "Name or email",
+  domain: "Email domain",
+};
+
+const VALUE_PLACEHOLDERS: Record<AlertRuleKind, string> = {
+  phrase: "pricing change",
+  tracker: "Competitors",
+  speaker: "Jane Doe or jane@example.com",
+  domain: "acme.com",
+};
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  inbox: "Inbox",
+  email: "Email",
+  webhook: "Webhook",
+};
+
+const EMPTY_DRAFT: Draft = { kind: "phrase", value: "", channels: ["inbox"], webhookUrl: "" };
+
+export function AlertRules({ initialRules, emailConfigured }: AlertRulesProps) {
+  const [rules, setRules] = useState(initialRules);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<AlertRule | null>(null);
+
+  const toggleChannel = (channel: AlertChannel) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      channels: draft.channels.includes(channel)
+        ? draft.channels.filter((c) => c !== channel)
+        : [...draft.channels, channel],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/alerts/rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await response.json() as { rule?: AlertRule; error?: string };
+      if (!response.ok || !data.rule) {
+        throw new Error(data.error || "Failed to save alert");
+      }
+      setRules((prev) => [data.rule!, ...prev]);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save alert");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/alerts/rules/${encodeURIComponent(rule.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to update alert");
+      }
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled: !rule.enabled } : r)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update alert");
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    setConfirmDelete(null);
+    setError(null);
+    try {
+      const response = await fetch(`/api/alerts/rules/${encodeURIComponent(rule.id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to delete alert");
+      }
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete alert");
+    }
+  };
+
+  return (
+    <section className="mt-10">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-zinc-300 light:text-zinc-700">Your alert rules</h2>
+        {!draft && (
+          <button
+            onClick={() => {
+              setDraft(EMPTY_DRAFT);
+              setError(null);
+            }}
+            className="flex items-center gap-1.5 rounded-lg bg-indigo-500 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-indigo-400"
+          >
+            <PlusIcon className="h-4 w-4" />
+            New alert
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mt-3 rounded-2xl border border-white/10 bg-zinc-900/50 p-4 light:border-zinc-200 light:bg-white">
+          <div className="grid gap-3 sm:grid-cols-[12rem_1fr]">
+            <label className={LABEL_CLASS}>
+              When
+              <select
+                value={draft.kind}
+                onChange={(e) => setDraft({ ...draft, kind: e.target.value as AlertRuleKind })}
+                className={INPUT_CLASS}
+              >
+                {ALERT_RULE_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {ALERT_RULE_KIND_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={LABEL_CLASS}>
+              {VALUE_LABELS[draft.kind]}
+              <input
+                value={draft.value}
+                onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+                placeholder={VALUE_PLACEHOLDERS[draft.kind]}
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+
+          <div className="mt-3">
+            <span className={LABEL_CLASS}>Notify me by</span>
+            <div className="mt-1 flex gap-4">
+              {ALERT_CHANNELS.map((channel) => (
+                <label key={channel} className="flex items-center gap-1.5 text-sm text-zinc-300 light:text-zinc-700">
+                  <input
+                    type="checkbox"
+                    checked={draft.channels.includes(channel)}
+                    onChange={() => toggleChannel(channel)}
+                  />
+                  {CHANNEL_LABELS[channel]}
+                </label>
+              ))}
+            </div>
+            {draft.channels.includes("email") && !emailConfigured && (
+              <p className="mt-1 text-xs text-amber-400 light:text-amber-600">
+                Email isn&apos;t set up on this server (SMTP_HOST), so email alerts won&apos;t be sent.
+              </p>
+            )}
+          </div>
+
+          {draft.channels.includes("webhook") && (
+            <label className={`${LABEL_CLASS} mt-3`}>
+              Webhook URL
+              <input
+                value={draft.webhookUrl}
+                onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                placeholder="https://hooks.example.com/worktv"
+                className={INPUT_CLASS}
+              />
+            </label>
+          )}
+
+          <p className="mt-2 text-xs text-zinc-500">
+            Checked when a sync brings in a new recording or transcript. Each rule alerts once per recording.
+          </p>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-lg bg-indigo-500 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-indigo-400 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="rounded-lg px-3 py-1.5 text-xs text-zinc-400 transition hover:text-zinc-200 light:text-zinc-600 light:hover:text-zinc-900"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-400 light:text-red-600">{error}</p>}
+
+      {rules.length === 0 ? (
+        !draft && <p className="mt-4 text-sm text-zinc-500">No alert rules yet.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-white/5 rounded-2xl border border-white/10 bg-zinc-900/50 light:divide-zinc-100 light:border-zinc-200 light:bg-white">
+          {rules.map((rule) => (
+            <li key={rule.id} className={`flex items-center gap-3 px-4 py-3 ${rule.enabled ? "" : "opacity-50"}`}>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm">
+                  <span className="text-zinc-400 light:text-zinc-500">{ALERT_RULE_KIND_LABELS[rule.kind]}</span>{" "}
+                  <span className="font-medium">{rule.value}</span>
+                </div>
+                <p className="mt-0.5 truncate text-xs text-zinc-500">
+                  {rule.channels.map((c) => CHANNEL_LABELS[c]).join(", ")}
+                  {rule.webhookUrl && ` · ${rule.webhookUrl}`}
+                </p>
+              </div>
+              <button
+                onClick={() => handleToggle(rule)}
+                className="shrink-0 text-xs text-zinc-400 transition hover:text-zinc-200 light:text-zinc-600 light:hover:text-zinc-900"
+              >
+                {rule.enabled ? "Pause" : "Resume"}
+              </button>
+              <button
+                onClick={() => setConfirmDelete(rule)}
+                className="shrink-0 rounded p-1 text-zinc-500 transition hover:text-red-400"
+                aria-label={`Delete alert for ${rule.value}`}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {confirmDelete && (
+        <ConfirmModal
+          title="Delete alert"
+          message={`Stop alerting on "${confirmDelete.value}"? Past notifications stay in your inbox.`}
+          confirmLabel="Delete"
+          isDestructive
+          onConfirm={() => handleDelete(confirmDelete)}
+          onCancel={() => setConfirmDelete(null)}
+        />
+      )}
+    </section>
+  );
+}
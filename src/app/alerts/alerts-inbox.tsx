@@ -0,0 +1,102 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { LocalDateTime } from "@/components/local-datetime";
+import type { NotificationRow } from "@/lib/db";
+
+interface AlertsInboxProps {
+  initialNotifications: NotificationRow[];
+}
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = {
+  month: "short",
+  day: "numeric",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+// Notification URLs are absolute (they also go out by email); link within the app
+function toAppPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+export function AlertsInbox({ initialNotifications }: AlertsInboxProps) {
+  const [notifications, setNotifications] = useState(initialNotifications);
+  const [error, setError] = useState<string | null>(null);
+  const unread = notifications.filter((n) => !n.read_at).length;
+
+  const markRead = async (ids?: number[]) => {
+    setError(null);
+    try {
+      const response = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(ids ? { ids } : {}),
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to mark notifications read");
+      }
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((n) => (!n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: readAt } : n))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to mark notifications read");
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium text-zinc-300 light:text-zinc-700">
+          Inbox{unread > 0 && <span className="ml-2 text-indigo-400">{unread} unread</span>}
+        </h2>
+        {unread > 0 && (
+          <button
+            onClick={() => markRead()}
+            className="text-xs text-zinc-400 transition hover:text-zinc-200 light:text-zinc-600 light:hover:text-zinc-900"
+          >
+            Mark all read
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-2 text-sm text-red-400 light:text-red-600">{error}</p>}
+
+      {notifications.length === 0 ? (
+        <p className="mt-4 text-sm text-zinc-500">No alerts yet.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-white/5 rounded-2xl border border-white/10 bg-zinc-900/50 light:divide-zinc-100 light:border-zinc-200 light:bg-white">
+          {notifications.map((notification) => (
+            <li key={notification.id} className="flex items-start gap-3 px-4 py-3">
+              <span
+                className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.read_at ? "bg-transparent" : "bg-indigo-400"}`}
+                aria-label={notification.read_at ? undefined : "Unread"}
+              />
+              <div className="min-w-0 flex-1">
+                <Link
+                  href={toAppPath(notification.url)}
+                  onClick={() => !notification.read_at && markRead([notification.id])}
+                  className={`text-sm hover:text-indigo-400 ${notification.read_at ? "text-zinc-400 light:text-zinc-600" : "font-medium"}`}
+                >
+                  {notification.title}
+                </Link>
+                <p className="mt-0.5 line-clamp-2 text-xs text-zinc-500">{notification.body}</p>
+              </div>
+              <div className="shrink-0 text-xs text-zinc-500">
+                <LocalDateTime iso={notification.created_at} options={DATE_OPTIONS} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
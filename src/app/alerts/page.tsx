@@ -0,0 +1,30 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getAlertRules, getNotifications } from "@/lib/db";
+import { getSmtpConfig } from "@/lib/alerts/smtp";
+import { AlertsInbox } from "./alerts-inbox";
+import { AlertRules } from "./alert-rules";
+
+export const metadata: Metadata = {
+  title: "Alerts - WorkTV",
+};
+
+export default async function AlertsPage() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/alerts")}`);
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl">
+      <h1 className="text-xl font-semibold">Alerts</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Get notified when a newly synced recording mentions a phrase, fires a tracker, hears from a
+        speaker or includes someone from another company. Only recordings you can see will alert you.
+      </p>
+      <AlertsInbox initialNotifications={getNotifications(viewer.email)} />
+      <AlertRules initialRules={getAlertRules(viewer.email)} emailConfigured={getSmtpConfig() !== null} />
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+export interface AnalyticsFilterValues {
+  period: string;
+  person: string;
+  series: string;
+}
+
+interface AnalyticsFiltersProps {
+  filters: AnalyticsFilterValues;
+  periods: { value: string; label: string }[];
+  defaultPeriod: string;
+  people: { person: string; name: string; email: string | null }[];
+  series: { id: string; title: string }[];
+}
+
+const selectClass =
+  "rounded-lg border border-white/10 bg-zinc-900 px-2 py-1.5 text-xs text-zinc-400 outline-none focus:border-indigo-500 light:border-zinc-300 light:bg-white light:text-zinc-600";
+
+export function AnalyticsFilters({ filters, periods, defaultPeriod, people, series }: AnalyticsFiltersProps) {
+  const router = useRouter();
+
+  const setFilter = (name: keyof AnalyticsFilterValues, value: string) => {
+    const next = { ...filters, [name]: value };
+    const params = new URLSearchParams();
+    if (next.period !== defaultPeriod) params.set("period", next.period);
+    if (next.person) params.set("person", next.person);
+    if (next.series) params.set("series", next.series);
+    const queryString = params.toString();
+    router.push(`/analytics${queryString ? `?${queryString}` : ""}`);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex gap-1 rounded-lg bg-zinc-800/50 p-1 light:bg-zinc-100">
+        {periods.map((period) => (
+          <button
+            key={period.value}
+            onClick={() => setFilter("period", period.value)}
+            className={`rounded-md px-3 py-1.5 text-xs font-medium transition ${
+              filters.period === period.value
+                ? "bg-indigo-500 text-white"
+                : "text-zinc-400 hover:bg-zinc-700/50 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-200 light:hover:text-zinc-900"
+            }`}
+          >
+            {period.label}
+          </button>
+        ))}
+      </div>
+      <select
+        value={filters.person}
+        onChange={(e) => setFilter("person", e.target.value)}
+        className={selectClass}
+        aria-label="Person"
+      >
+        <option value="">Everyone</option>
+        {people.map((person) => (
+          <option key={person.person} value={person.person}>
+            {person.name}
+            {person.email && person.email !== person.name.toLowerCase() ? ` (${person.email})` : ""}
+          </option>
+        ))}
+      </select>
+      <select
+        value={filters.series}
+        onChange={(e) => setFilter("series", e.target.value)}
+        className={selectClass}
+        aria-label="Meeting series"
+      >
+        <option value="">All meetings</option>
+        {series.map((s) => (
+          <option key={s.id} value={s.id}>
+            {s.title}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import {
+  getConversationPeople,
+  getConversationSeries,
+  getConversationTrend,
+  type ConversationAnalyticsFilters,
+} from "@/lib/db";
+import { wordsPerMinute } from "@/lib/analytics/conversation";
+import { LocalDateTime } from "@/components/local-datetime";
+import { formatTime } from "@/types/video";
+import { AnalyticsFilters, type AnalyticsFilterValues } from "./analytics-filters";
+import { fillWeeks, formatWeek, Stat, TrendChart, trendPoints, weekStart } from "./trend";
+
+export const metadata: Metadata = {
+  title: "Analytics - WorkTV",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = [
+  { value: "30d", label: "30 days", days: 30 },
+  { value: "90d", label: "90 days", days: 90 },
+  { value: "1y", label: "Year", days: 364 },
+];
+const DEFAULT_PERIOD = "90d";
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" };
+
+const cardClass =
+  "rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white";
+
+function perMeeting(total: number, meetings: number): number {
+  return meetings > 0 ? total / meetings : 0;
+}
+
+function formatPace(words: number, talkTime: number): string {
+  const pace = wordsPerMinute(words, talkTime);
+  return pace === null ? "–" : `${Math.round(pace)}`;
+}
+
+export default async function AnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ period?: string; person?: string; series?: string }>;
+}) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/analytics")}`);
+  }
+
+  const { period: periodParam, person, series } = await searchParams;
+  const period = PERIODS.find((p) => p.value === periodParam) ?? PERIODS.find((p) => p.value === DEFAULT_PERIOD)!;
+  const filterValues: AnalyticsFilterValues = {
+    period: period.value,
+    person: person?.toLowerCase() ?? "",
+    series: series ?? "",
+  };
+
+  const now = new Date();
+  const filters: ConversationAnalyticsFilters = {
+    since: new Date(`${weekStart(new Date(now.getTime() - period.days * DAY_MS))}T00:00:00Z`).toISOString(),
+    person: filterValues.person || undefined,
+    series: filterValues.series || undefined,
+  };
+  const trend = getConversationTrend(viewer, filters);
+  const people = getConversationPeople(viewer, filters);
+  const seriesRows = getConversationSeries(viewer, filters);
+  const personRow = filters.person ? people.find((row) => row.person === filters.person) : undefined;
+
+  const totals = trend.reduce(
+    (sum, week) => ({
+      meetings: sum.meetings + week.meetings,
+      talkTime: sum.talkTime + week.talk_time,
+      turns: sum.turns + week.turns,
+      interruptions: sum.interruptions + week.interruptions,
+      questions: sum.questions + week.questions,
+      words: sum.words + week.words,
+      longestMonologue: Math.max(sum.longestMonologue, week.longest_monologue),
+    }),
+    { meetings: 0, talkTime: 0, turns: 0, interruptions: 0, questions: 0, words: 0, longestMonologue: 0 }
+  );
+
+  const personHref = (key: string) => {
+    const params = new URLSearchParams();
+    if (period.value !== DEFAULT_PERIOD) params.set("period", period.value);
+    params.set("person", key);
+    return `/analytics?${params}`;
+  };
+
+  const weeks = fillWeeks(trend, now, Math.ceil(period.days / 7) + 1);
+  return (
+    <div className="mx-auto max-w-5xl">
+      <h1 className="text-xl font-semibold">Conversation analytics</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        How meetings you can see are going: who does the talking, how long they hold the floor,
+        interruptions, questions and pace, from every transcript.
+        {personRow && (
+          <>
+            {" "}
+            Showing {personRow.name}&apos;s own speech and the people in their meetings.{" "}
+            <Link
+              href={`/analytics/people/${encodeURIComponent(personRow.person)}`}
+              className="text-indigo-400 hover:text-indigo-300 light:text-indigo-600"
+            >
+              Speaking coach →
+            </Link>
+          </>
+        )}
+      </p>
+
+      <div className="mt-6">
+        <AnalyticsFilters
+          filters={filterValues}
+          periods={PERIODS}
+          defaultPeriod={DEFAULT_PERIOD}
+          people={getConversationPeople(viewer, {})}
+          series={getConversationSeries(viewer, {})}
+        />
+      </div>
+
+      {totals.meetings === 0 ? (
+        <p className="mt-6 text-sm text-zinc-500">No meetings with transcripts match these filters.</p>
+      ) : (
+        <>
+          <section className={`mt-6 ${cardClass}`}>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-6">
+              <Stat label={totals.meetings === 1 ? "meeting" : "meetings"} value={`${totals.meetings}`} />
+              {personRow ? (
+                <Stat label="talk ratio" value={`${Math.round(personRow.talk_ratio * 100)}%`} />
+              ) : (
+                <Stat label="turns per meeting" value={perMeeting(totals.turns, totals.meetings).toFixed(0)} />
+              )}
+              <Stat label="longest monologue" value={formatTime(totals.longestMonologue)} />
+              <Stat
+                label="interruptions per meeting"
+                value={perMeeting(totals.interruptions, totals.meetings).toFixed(1)}
+              />
+              <Stat label="questions per meeting" value={perMeeting(totals.questions, totals.meetings).toFixed(1)} />
+              <Stat label="words per minute" value={formatPace(totals.words, totals.talkTime)} />
+            </div>
+          </section>
+
+          <section className={`mt-6 ${cardClass}`}>
+            <h2 className="text-sm font-semibold">Per week</h2>
+            <div className="mt-4 grid gap-6 sm:grid-cols-2">
+              {filters.person ? (
+                <TrendChart
+                  title="Talk ratio"
+                  points={trendPoints(
+                    weeks,
+                    (week) => (week.talk_ratio ?? 0) * 100,
+                    (value) => `${Math.round(value)}% of the talking`
+                  )}
+                />
+              ) : (
+                <TrendChart
+                  title="Talk time per meeting"
+                  points={trendPoints(
+                    weeks,
+                    (week) => perMeeting(week.talk_time, week.meetings),
+                    (value) => formatTime(value)
+                  )}
+                />
+              )}
+              <TrendChart
+                title="Interruptions per meeting"
+                points={trendPoints(
+                  weeks,
+                  (week) => perMeeting(week.interruptions, week.meetings),
+                  (value) => value.toFixed(1)
+                )}
+              />
+              <TrendChart
+                title="Questions per meeting"
+                points={trendPoints(
+                  weeks,
+                  (week) => perMeeting(week.questions, week.meetings),
+                  (value) => value.toFixed(1)
+                )}
+              />
+              <TrendChart
+                title="Words per minute"
+                points={trendPoints(
+                  weeks,
+                  (week) => wordsPerMinute(week.words, week.talk_time),
+                  (value) => `${Math.round(value)} wpm`
+                )}
+              />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-zinc-500">
+              <span>{formatWeek(weeks[0].week)}</span>
+              <span>This week</span>
+            </div>
+          </section>
+
+          <section className={`mt-6 ${cardClass}`}>
+            <h2 className="text-sm font-semibold">People</h2>
+            <div className="mt-2 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-zinc-500">
+                    <th className="py-2 pr-3 font-medium">Speaker</th>
+                    <th className="px-3 py-2 text-right font-medium">Meetings</th>
+                    <th className="px-3 py-2 text-right font-medium">Talk ratio</th>
+                    <th className="px-3 py-2 text-right font-medium">Longest monologue</th>
+                    <th className="px-3 py-2 text-right font-medium">Turns / meeting</th>
+                    <th className="px-3 py-2 text-right font-medium">Interruptions / meeting</th>
+                    <th className="px-3 py-2 text-right font-medium">Questions / meeting</th>
+                    <th className="py-2 pl-3 text-right font-medium">WPM</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 light:divide-zinc-100">
+                  {people.map((row) => (
+                    <tr key={row.person} className={row.person === filters.person ? "text-indigo-300 light:text-indigo-600" : ""}>
+                      <td className="py-2 pr-3">
+                        <Link
+                          href={personHref(row.person)}
+                          className="hover:text-indigo-400"
+                          title={row.email ?? undefined}
+                        >
+                          {row.name}
+                        </Link>
+                        <Link
+                          href={`/analytics/people/${encodeURIComponent(row.person)}`}
+                          className="ml-2 text-xs text-zinc-500 hover:text-indigo-400"
+                        >
+                          Coach
+                        </Link>
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums">{row.meetings}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{Math.round(row.talk_ratio * 100)}%</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{formatTime(row.longest_monologue)}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{perMeeting(row.turns, row.meetings).toFixed(0)}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">
+                        {perMeeting(row.interruptions, row.meetings).toFixed(1)}
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums">
+                        {perMeeting(row.questions, row.meetings).toFixed(1)}
+                      </td>
+                      <td className="py-2 pl-3 text-right tabular-nums">{formatPace(row.words, row.talk_time)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {seriesRows.length > 0 && (
+            <section className={`mt-6 ${cardClass}`}>
+              <h2 className="text-sm font-semibold">Meeting series</h2>
+              <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-500">
+                      <th className="py-2 pr-3 font-medium">Series</th>
+                      <th className="px-3 py-2 text-right font-medium">Meetings</th>
+                      <th className="px-3 py-2 text-right font-medium">Speakers</th>
+                      <th className="px-3 py-2 text-right font-medium">Talk time / meeting</th>
+                      <th className="px-3 py-2 text-right font-medium">Interruptions / meeting</th>
+                      <th className="px-3 py-2 text-right font-medium">Questions / meeting</th>
+                      <th className="px-3 py-2 text-right font-medium">WPM</th>
+                      <th className="py-2 pl-3 text-right font-medium">Last met</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5 light:divide-zinc-100">
+                    {seriesRows.map((row) => (
+                      <tr key={row.id}>
+                        <td className="py-2 pr-3">
+                          <Link href={`/series/${encodeURIComponent(row.id)}`} className="hover:text-indigo-400">
+                            {row.title}
+                          </Link>
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">{row.meetings}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">{row.speakers.toFixed(1)}</td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {formatTime(perMeeting(row.talk_time, row.meetings))}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {perMeeting(row.interruptions, row.meetings).toFixed(1)}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">
+                          {perMeeting(row.questions, row.meetings).toFixed(1)}
+                        </td>
+                        <td className="px-3 py-2 text-right tabular-nums">{formatPace(row.words, row.talk_time)}</td>
+                        <td className="py-2 pl-3 text-right text-xs text-zinc-500">
+                          <LocalDateTime iso={row.last_meeting} options={DATE_OPTIONS} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getCoachingMeetings, getConversationPeople, getConversationTrend } from "@/lib/db";
+import { wordsPerMinute } from "@/lib/analytics/conversation";
+import {
+  fillerRate,
+  formatPatience,
+  formatPercent,
+  letFinish,
+  letFinishRate,
+  topFillers,
+} from "@/lib/analytics/coaching";
+import { LocalDateTime } from "@/components/local-datetime";
+import { fillWeeks, formatWeek, Stat, TrendChart, trendPoints, weekStart } from "../../trend";
+
+export const metadata: Metadata = {
+  title: "Speaking coach - WorkTV",
+};
+
+// Most recent weeks shown in the trend
+const TREND_WEEKS = 26;
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" };
+
+const cardClass =
+  "rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white";
+
+export default async function PersonCoachingPage({ params }: { params: Promise<{ person: string }> }) {
+  const { person: rawPerson } = await params;
+  const person = decodeURIComponent(rawPerson).toLowerCase();
+
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent(`/analytics/people/${rawPerson}`)}`);
+  }
+
+  const profile = getConversationPeople(viewer, { person }).find((row) => row.person === person);
+  if (!profile) {
+    notFound();
+  }
+
+  const now = new Date();
+  const since = new Date(`${weekStart(now)}T00:00:00Z`);
+  since.setUTCDate(since.getUTCDate() - (TREND_WEEKS - 1) * 7);
+  const trend = getConversationTrend(viewer, { person, since: since.toISOString() });
+  const weeks = fillWeeks(trend, now, TREND_WEEKS);
+  const meetings = getCoachingMeetings(viewer, person);
+
+  const totals = trend.reduce(
+    (sum, week) => ({
+      meetings: sum.meetings + week.meetings,
+      words: sum.words + week.words,
+      talkTime: sum.talkTime + week.talk_time,
+      fillerWords: sum.fillerWords + week.filler_words,
+      responses: sum.responses + week.responses,
+      pauseTotal: sum.pauseTotal + week.pause_total,
+      interruptions: sum.interruptions + week.interruptions,
+      customerResponses: sum.customerResponses + week.customer_responses,
+      customerInterruptions: sum.customerInterruptions + week.customer_interruptions,
+    }),
+    {
+      meetings: 0,
+      words: 0,
+      talkTime: 0,
+      fillerWords: 0,
+      responses: 0,
+      pauseTotal: 0,
+      interruptions: 0,
+      customerResponses: 0,
+      customerInterruptions: 0,
+    }
+  );
+  const pace = wordsPerMinute(totals.words, totals.talkTime);
+  const fillers = fillerRate(totals.fillerWords, totals.words);
+  const finish = letFinish(totals);
+
+  return (
+    <div className="mx-auto max-w-5xl">
+      <Link
+        href={`/analytics?person=${encodeURIComponent(person)}`}
+        className="text-xs text-zinc-500 hover:text-indigo-400"
+      >
+        ← Analytics
+      </Link>
+      <h1 className="mt-1 text-xl font-semibold">{profile.name}</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        {profile.email && <>{profile.email} · </>}
+        Speaking coach over the last {TREND_WEEKS} weeks, from meetings you can see
+      </p>
+
+      {totals.meetings === 0 ? (
+        <p className="mt-6 text-sm text-zinc-500">No meetings in the last {TREND_WEEKS} weeks.</p>
+      ) : (
+        <>
+          <section className={`mt-6 ${cardClass}`}>
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-5">
+              <Stat label={totals.meetings === 1 ? "meeting" : "meetings"} value={`${totals.meetings}`} />
+              <Stat label="filler words per 100" value={fillers === null ? "–" : fillers.toFixed(1)} />
+              <Stat label="words per minute" value={pace === null ? "–" : `${Math.round(pace)}`} />
+              <Stat
+                label="pause before responding"
+                value={formatPatience(totals.responses > 0 ? totals.pauseTotal / totals.responses : null)}
+              />
+              <Stat
+                label={finish.ofCustomers ? "lets customers finish" : "lets others finish"}
+                value={formatPercent(finish.rate)}
+              />
+            </div>
+          </section>
+
+          <section className={`mt-6 ${cardClass}`}>
+            <h2 className="text-sm font-semibold">Per week</h2>
+            <div className="mt-4 grid gap-6 sm:grid-cols-2">
+              <TrendChart
+                title="Filler words per 100 words"
+                points={trendPoints(
+                  weeks,
+                  (week) => fillerRate(week.filler_words, week.words),
+                  (value) => value.toFixed(1)
+                )}
+              />
+              <TrendChart
+                title="Words per minute"
+                points={trendPoints(
+                  weeks,
+                  (week) => wordsPerMinute(week.words, week.talk_time),
+                  (value) => `${Math.round(value)} wpm`
+                )}
+              />
+              <TrendChart
+                title="Pause before responding"
+                points={trendPoints(
+                  weeks,
+                  (week) => (week.responses > 0 ? week.pause_total / week.responses : null),
+                  (value) => formatPatience(value)
+                )}
+              />
+              <TrendChart
+                title={finish.ofCustomers ? "Lets customers finish" : "Lets others finish"}
+                points={trendPoints(
+                  weeks,
+                  (week) =>
+                    finish.ofCustomers
+                      ? letFinishRate(week.customer_responses, week.customer_interruptions)
+                      : letFinishRate(week.responses, week.interruptions),
+                  (value) => formatPercent(value)
+                )}
+              />
+            </div>
+            <div className="mt-1 flex justify-between text-xs text-zinc-500">
+              <span>{formatWeek(weeks[0].week)}</span>
+              <span>This week</span>
+            </div>
+          </section>
+        </>
+      )}
+
+      <section className={`mt-6 ${cardClass}`}>
+        <h2 className="text-sm font-semibold">Recent meetings</h2>
+        <div className="mt-2 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500">
+                <th className="py-2 pr-3 font-medium">Meeting</th>
+                <th className="px-3 py-2 text-right font-medium">Talk ratio</th>
+                <th className="px-3 py-2 text-right font-medium">Fillers / 100</th>
+                <th className="px-3 py-2 text-right font-medium">WPM</th>
+                <th className="px-3 py-2 text-right font-medium">Pause</th>
+                <th className="py-2 pl-3 text-right font-medium">Lets finish</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5 light:divide-zinc-100">
+              {meetings.map((meeting) => {
+                const rate = fillerRate(meeting.filler_words ?? 0, meeting.words);
+                const meetingFinish = letFinish({
+                  responses: meeting.responses ?? 0,
+                  interruptions: meeting.interruptions,
+                  customerResponses: meeting.customer_responses ?? 0,
+                  customerInterruptions: meeting.customer_interruptions ?? 0,
+                });
+                const used = topFillers(meeting.fillers ? (JSON.parse(meeting.fillers) as Record<string, number>) : {});
+                return (
+                  <tr key={`${meeting.recording_id}-${meeting.speaker}`}>
+                    <td className="py-2 pr-3">
+                      <Link
+                        href={`/recordings/${encodeURIComponent(meeting.recording_id)}`}
+                        className="hover:text-indigo-400"
+                      >
+                        {meeting.title}
+                      </Link>
+                      <div className="text-xs text-zinc-500">
+                        <LocalDateTime iso={meeting.created_at} options={DATE_OPTIONS} />
+                        {used.length > 0 && <> · {used.map(([filler, count]) => `"${filler}" ×${count}`).join(", ")}</>}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{formatPercent(meeting.talk_ratio)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{rate === null ? "–" : rate.toFixed(1)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">
+                      {meeting.words_per_minute === null ? "–" : Math.round(meeting.words_per_minute)}
+                    </td>
+                    <td className="px-3 py-2 text-right tabular-nums">{formatPatience(meeting.patience)}</td>
+                    <td
+                      className="py-2 pl-3 text-right tabular-nums"
+                      title={meetingFinish.ofCustomers ? "Of customers" : "Of everyone"}
+                    >
+                      {formatPercent(meetingFinish.rate)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+// Weekly bar charts shared by the analytics pages
+
+export interface TrendPoint {
+  week: string;
+  value: number | null;
+  label: string;
+}
+
+// Monday (UTC) of the week `date` falls in, as YYYY-MM-DD
+export function weekStart(date: Date): string {
+  const monday = new Date(date);
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+// The last `weeks` weeks, including ones without meetings (row is null)
+export function fillWeeks<T extends { week: string }>(
+  trend: T[],
+  now: Date,
+  weeks: number
+): { week: string; row: T | null }[] {
+  const byWeek = new Map(trend.map((row) => [row.week, row]));
+  const filled = [];
+  const cursor = new Date(`${weekStart(now)}T00:00:00Z`);
+  cursor.setUTCDate(cursor.getUTCDate() - (weeks - 1) * 7);
+  for (let i = 0; i < weeks; i++) {
+    const week = cursor.toISOString().slice(0, 10);
+    filled.push({ week, row: byWeek.get(week) ?? null });
+    cursor.setUTCDate(cursor.getUTCDate() + 7);
+  }
+  return filled;
+}
+
+// One value per filled week; weeks without data (or a null value) show empty
+export function trendPoints<T extends { week: string }>(
+  weeks: { week: string; row: T | null }[],
+  value: (row: T) => number | null,
+  label: (value: number) => string
+): TrendPoint[] {
+  return weeks.map(({ week, row }) => {
+    const computed = row ? value(row) : null;
+    return { week, value: computed, label: computed === null ? "no meetings" : label(computed) };
+  });
+}
+
+export function formatWeek(week: string): string {
+  return new Date(`${week}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function TrendChart({ title, points }: { title: string; points: TrendPoint[] }) {
+  const max = Math.max(0, ...points.map((point) => point.value ?? 0));
+  return (
+    <div>
+      <h3 className="text-xs font-medium text-zinc-500">{title}</h3>
+      <div className="mt-2 flex h-20 items-end gap-0.5">
+        {points.map((point) => (
+          <div
+            key={point.week}
+            className="group relative flex h-full flex-1 items-end"
+            title={`Week of ${formatWeek(point.week)}: ${point.label}`}
+          >
+            <div
+              className={`w-full rounded-t ${point.value ? "bg-indigo-500 group-hover:bg-indigo-400" : "bg-white/5 light:bg-zinc-100"}`}
+              style={{ height: point.value && max > 0 ? `${(point.value / max) * 100}%` : "2px" }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-lg font-semibold tabular-nums">{value}</div>
+      <div className="text-xs text-zinc-500">{label}</div>
+    </div>
+  );
+}
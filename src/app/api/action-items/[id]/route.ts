@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { dbRowToActionItem, getActionItemById, updateActionItemStatus } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+
+// Check an item off (or reopen it); anyone who can see the recording can
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const itemId = Number(id);
+    if (!Number.isInteger(itemId) || !getActionItemById(viewer, itemId)) {
+      return NextResponse.json({ error: "Action item not found" }, { status: 404 });
+    }
+
+    const body = await request.json() as { status?: unknown };
+    if (body.status !== "open" && body.status !== "done") {
+      return NextResponse.json(
+        { error: 'status must be "open" or "done"' },
+        { status: 400 }
+      );
+    }
+
+    updateActionItemStatus(itemId, body.status, viewer.email);
+    return NextResponse.json({ actionItem: dbRowToActionItem(getActionItemById(viewer, itemId)!) });
+  } catch (error) {
+    console.error("Failed to update action item:", error);
+    return NextResponse.json({ error: "Failed to update action item" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { dbRowToActionItem, getActionItems } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+
+// Action items across the recordings the viewer can see
+// ?status=open|done (default open, "all" for both), ?owner=<email>, ?series=<series id>
+export async function GET(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") ?? "open";
+    if (status !== "open" && status !== "done" && status !== "all") {
+      return NextResponse.json(
+        { error: 'status must be "open", "done" or "all"' },
+        { status: 400 }
+      );
+    }
+
+    const rows = getActionItems(viewer, {
+      status: status === "all" ? undefined : status,
+      ownerEmail: searchParams.get("owner") || undefined,
+      series: searchParams.get("series") || undefined,
+    });
+    return NextResponse.json({ actionItems: rows.map(dbRowToActionItem) });
+  } catch (error) {
+    console.error("Failed to fetch action items:", error);
+    return NextResponse.json({ error: "Failed to fetch action items" }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { deleteAlertRule, setAlertRuleEnabled } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+
+// Pause or resume a rule; other users' rules look like missing ones
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json() as { enabled?: unknown };
+    if (typeof body.enabled !== "boolean") {
+      return NextResponse.json({ error: "enabled must be a boolean" }, { status: 400 });
+    }
+
+    if (!setAlertRuleEnabled(id, viewer.email, body.enabled)) {
+      return NextResponse.json({ error: "Alert rule not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to update alert rule:", error);
+    return NextResponse.json({ error: "Failed to update alert rule" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    if (!deleteAlertRule(id, viewer.email)) {
+      return NextResponse.json({ error: "Alert rule not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete alert rule:", error);
+    return NextResponse.json({ error: "Failed to delete alert rule" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+import { getAlertRules, insertAlertRule } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { parseAlertRuleInput } from "@/lib/alerts";
+
+// Alert rules are personal: everyone sees and manages only their own
+export async function GET() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ rules: getAlertRules(viewer.email) });
+  } catch (error) {
+    console.error("Failed to fetch alert rules:", error);
+    return NextResponse.json({ error: "Failed to fetch alert rules" }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const parsed = parseAlertRuleInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const rule = insertAlertRule(`alert-${nanoid(8)}`, parsed.rule, viewer.email);
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create alert rule:", error);
+    return NextResponse.json({ error: "Failed to create alert rule" }, { status: 500 });
+  }
+}
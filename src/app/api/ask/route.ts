@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { getViewer } from "@/lib/auth";
+import { askLibrary } from "@/lib/ai/ask";
+import { getLLMClient } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+
+const MAX_QUESTION_LENGTH = 1000;
+
+// Answer a question from the viewer's recordings, citing transcript passages
+export async function POST(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { question, source } = body as { question?: unknown; source?: unknown };
+
+    if (typeof question !== "string" || !question.trim()) {
+      return NextResponse.json({ error: "question is required" }, { status: 400 });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        { error: `question must be at most ${MAX_QUESTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const sourceFilter = source === "zoom" || source === "gong" ? source : "all";
+    const result = await askLibrary(viewer, question.trim(), {
+      source: sourceFilter,
+      client: trackUsage(getLLMClient("chat"), { task: "chat" }),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 });
+    }
+    console.error("Failed to answer question:", error);
+    return NextResponse.json({ error: "Failed to answer question" }, { status: 500 });
+  }
+}
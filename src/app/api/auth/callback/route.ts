@@ -0,0 +1,83 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { nanoid } from "nanoid";
+import { upsertUserOnLogin } from "@/lib/db";
+import { isAdminEmail } from "@/lib/auth";
+import {
+  exchangeCodeForUser,
+  isEmailDomainAllowed,
+  OIDC_STATE_COOKIE,
+  type OidcLoginState,
+} from "@/lib/auth/oidc";
+import {
+  createSessionToken,
+  sanitizeReturnTo,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_SECONDS,
+} from "@/lib/auth/session";
+
+function parseLoginState(value: string | undefined): OidcLoginState | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as Partial<OidcLoginState>;
+    if (typeof parsed.state !== "string" || typeof parsed.codeVerifier !== "string") {
+      return null;
+    }
+    return {
+      state: parsed.state,
+      codeVerifier: parsed.codeVerifier,
+      returnTo: sanitizeReturnTo(parsed.returnTo),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const url = new URL(request.url);
+  const code = url.searchParams.get("code");
+  const state = url.searchParams.get("state");
+  const loginState = parseLoginState(request.cookies.get(OIDC_STATE_COOKIE)?.value);
+
+  const fail = (reason: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${reason}`, url.origin));
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: "/api/auth" });
+    return response;
+  };
+
+  if (!code || !state || !loginState || loginState.state !== state) {
+    return fail("state");
+  }
+
+  try {
+    const redirectUri = new URL("/api/auth/callback", url.origin).toString();
+    const userInfo = await exchangeCodeForUser(code, redirectUri, loginState.codeVerifier);
+
+    if (!isEmailDomainAllowed(userInfo.email)) {
+      return fail("domain");
+    }
+
+    const user = upsertUserOnLogin({
+      id: `user-${nanoid(12)}`,
+      email: userInfo.email,
+      name: userInfo.name ?? null,
+      idpSubject: userInfo.sub,
+      role: isAdminEmail(userInfo.email) ? "admin" : "member",
+    });
+
+    const token = await createSessionToken({ userId: user.id, email: user.email });
+
+    const response = NextResponse.redirect(new URL(loginState.returnTo, url.origin));
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: "/api/auth" });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: url.protocol === "https:",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    console.error("Failed to complete sign-in:", error);
+    return fail("callback");
+  }
+}
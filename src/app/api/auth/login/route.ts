@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { createAuthorizationRequest, OIDC_STATE_COOKIE } from "@/lib/auth/oidc";
+import { sanitizeReturnTo } from "@/lib/auth/session";
+
+// Pending logins expire if the user doesn't finish at the IdP within 10 minutes
+const LOGIN_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const returnTo = sanitizeReturnTo(url.searchParams.get("returnTo"));
+  const redirectUri = new URL("/api/auth/callback", url.origin).toString();
+
+  try {
+    const { url: authorizationUrl, loginState } = await createAuthorizationRequest(
+      redirectUri,
+      returnTo
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(OIDC_STATE_COOKIE, JSON.stringify(loginState), {
+      httpOnly: true,
+      secure: url.protocol === "https:",
+      sameSite: "lax",
+      path: "/api/auth",
+      maxAge: LOGIN_STATE_MAX_AGE_SECONDS,
+    });
+    return response;
+  } catch (error) {
+    console.error("Failed to start sign-in:", error);
+    return NextResponse.redirect(new URL("/login?error=config", url.origin));
+  }
+}
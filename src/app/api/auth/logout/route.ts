@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth/session";
+
+// POST only, so a cross-site link or image can't sign the user out
+export async function POST(request: Request) {
+  const response = NextResponse.redirect(new URL("/login", request.url), 303);
+  response.cookies.delete({ name: SESSION_COOKIE, path: "/" });
+  return response;
+}
@@ -1,20 +1,25 @@
 import { NextResponse } from "next/server";
 import { getClipById, getRecordingById, deleteClip, dbRowToClip } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ clipId: string }> }
 ) {
   const { clipId } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
-    const clipRow = getClipById(clipId);
+    const clipRow = getClipById(viewer, clipId);
 
     if (!clipRow) {
       return NextResponse.json({ error: "Clip not found" }, { status: 404 });
     }
 
-    const recording = getRecordingById(clipRow.recording_id);
+    const recording = getRecordingById(viewer, clipRow.recording_id);
     const clip = {
       ...dbRowToClip(clipRow),
       recordingTitle: recording?.title ?? "Unknown Recording",
@@ -35,8 +40,17 @@ export async function DELETE(
   { params }: { params: Promise<{ clipId: string }> }
 ) {
   const { clipId } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
+    // Only clips on recordings the viewer can see may be deleted
+    if (!getClipById(viewer, clipId)) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
     const deleted = deleteClip(clipId);
 
     if (!deleted) {
@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
 import { getAllClipsWithRecordingTitle, dbRowToClip } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 export async function GET() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
   try {
-    const clipRows = getAllClipsWithRecordingTitle();
+    const clipRows = getAllClipsWithRecordingTitle(viewer);
     const clips = clipRows.map((row) => ({
       ...dbRowToClip(row),
       recordingTitle: row.recording_title,
@@ -1,13 +1,23 @@
 import { NextResponse } from "next/server";
 import { generateClipTitle } from "@/lib/ai/summarize";
+import { getLLMClient } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+import { getViewer } from "@/lib/auth";
+import { getRecordingById } from "@/lib/db";
 import type { TranscriptSegment } from "@/types/video";
 
 export async function POST(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
   try {
     const body = await request.json();
-    const { clipSegments, fullTranscript } = body as {
+    const { clipSegments, fullTranscript, recordingId } = body as {
       clipSegments: TranscriptSegment[];
       fullTranscript?: TranscriptSegment[];
+      recordingId?: string;
     };
 
     if (!clipSegments || !Array.isArray(clipSegments)) {
@@ -17,13 +27,26 @@ export async function POST(request: Request) {
       );
     }
 
+    // The spend is filed against the recording, so it has to be one the
+    // viewer can see
+    if (recordingId !== undefined && !getRecordingById(viewer, recordingId)) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
     if (clipSegments.length === 0) {
       return NextResponse.json({ title: "" });
     }
 
-    const title = await generateClipTitle(clipSegments, fullTranscript);
+    const title = await generateClipTitle(
+      clipSegments,
+      fullTranscript,
+      trackUsage(getLLMClient("clip-title"), { task: "clip-title", recordingId })
+    );
     return NextResponse.json({ title });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 });
+    }
     console.error("Error generating clip title:", error);
     return NextResponse.json(
       { error: "Failed to generate clip title" },
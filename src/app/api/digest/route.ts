@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { setWeeklyDigestEnabled } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import {
+  buildWeeklyDigest,
+  getDigestPeriod,
+  renderDigestHtml,
+  renderDigestMarkdown,
+} from "@/lib/digest";
+
+// The viewer's digest for the past week: JSON, or the email with ?format=html|markdown
+export async function GET(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const digest = buildWeeklyDigest(viewer, getDigestPeriod());
+    const format = new URL(request.url).searchParams.get("format");
+    if (format === "html") {
+      return new NextResponse(renderDigestHtml(digest), {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+    if (format === "markdown") {
+      return new NextResponse(renderDigestMarkdown(digest), {
+        headers: { "Content-Type": "text/markdown; charset=utf-8" },
+      });
+    }
+    return NextResponse.json({ digest });
+  } catch (error) {
+    console.error("Failed to build digest:", error);
+    return NextResponse.json({ error: "Failed to build digest" }, { status: 500 });
+  }
+}
+
+// Turn the weekly email on or off
+export async function PATCH(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json() as { weeklyEmail?: unknown };
+    if (typeof body.weeklyEmail !== "boolean") {
+      return NextResponse.json({ error: "weeklyEmail must be a boolean" }, { status: 400 });
+    }
+
+    if (!setWeeklyDigestEnabled(viewer.email, body.weeklyEmail)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to update digest settings:", error);
+    return NextResponse.json({ error: "Failed to update digest settings" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { markNotificationsRead } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+
+// Body { ids: number[] } marks those notifications read; without ids, all of them
+export async function POST(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const { ids } = await request.json().catch(() => ({})) as { ids?: unknown };
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => Number.isInteger(id)))) {
+      return NextResponse.json({ error: "ids must be an array of notification ids" }, { status: 400 });
+    }
+
+    const updated = markNotificationsRead(viewer.email, ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error("Failed to mark notifications read:", error);
+    return NextResponse.json({ error: "Failed to mark notifications read" }, { status: 500 });
+  }
+}
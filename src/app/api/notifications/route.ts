@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { countUnreadNotifications, getNotifications } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+
+export async function GET() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({
+      notifications: getNotifications(viewer.email),
+      unread: countUnreadNotifications(viewer.email),
+    });
+  } catch (error) {
+    console.error("Failed to fetch notifications:", error);
+    return NextResponse.json({ error: "Failed to fetch notifications" }, { status: 500 });
+  }
+}
@@ -1,9 +1,15 @@
 import { NextResponse } from "next/server";
 import { getAllUniqueParticipants } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 export async function GET() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
   try {
-    const participants = getAllUniqueParticipants();
+    const participants = getAllUniqueParticipants(viewer);
     return NextResponse.json(participants);
   } catch (error) {
     console.error("Failed to fetch participants:", error);
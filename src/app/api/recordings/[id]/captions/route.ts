@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { getRecordingById, getSegmentsByRecordingId } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { getStoredTranslation, isTranscriptLanguage } from "@/lib/translation";
+import { applyTranslation, generateVttFromTranscript } from "@/types/video";
+
+// The transcript as WebVTT, for a caption track or download. With ?language=
+// it's the cached translation into that language (see ../transcript/translation)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const language = new URL(request.url).searchParams.get("language");
+  if (language !== null && !isTranscriptLanguage(language)) {
+    return NextResponse.json({ error: "Unsupported language" }, { status: 400 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    let segments = getSegmentsByRecordingId(id).map((s) => ({
+      id: s.id,
+      startTime: s.start_time,
+      endTime: s.end_time,
+      speaker: s.speaker,
+      text: s.text,
+    }));
+    if (segments.length === 0) {
+      return NextResponse.json({ error: "No transcript available for this recording" }, { status: 404 });
+    }
+
+    if (language !== null && language !== recording.language) {
+      const translation = getStoredTranslation(id, language);
+      if (!translation) {
+        return NextResponse.json({ error: "Translation not found" }, { status: 404 });
+      }
+      segments = applyTranslation(segments, translation);
+    }
+
+    const filename = `${id.replace(/[^\w-]/g, "_")}${language ? `.${language}` : ""}.vtt`;
+    return new NextResponse(generateVttFromTranscript(segments), {
+      headers: {
+        "Content-Type": "text/vtt; charset=utf-8",
+        "Content-Disposition": `inline; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to generate captions:", error);
+    return NextResponse.json({ error: "Failed to generate captions" }, { status: 500 });
+  }
+}
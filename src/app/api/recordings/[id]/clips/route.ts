@@ -6,15 +6,20 @@ import {
   insertClip,
   dbRowToClip,
 } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: recordingId } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
-    const recording = getRecordingById(recordingId);
+    const recording = getRecordingById(viewer, recordingId);
     if (!recording) {
       return NextResponse.json(
         { error: "Recording not found" },
@@ -40,9 +45,13 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: recordingId } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
-    const recording = getRecordingById(recordingId);
+    const recording = getRecordingById(viewer, recordingId);
     if (!recording) {
       return NextResponse.json(
         { error: "Recording not found" },
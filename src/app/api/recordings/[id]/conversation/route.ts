@@ -0,0 +1,166 @@
+import { NextResponse } from "next/server";
+import {
+  getRecordingById,
+  getSegmentsByRecordingId,
+  getChatMessagesByRecordingId,
+  getParticipantsByRecordingId,
+  getConversationMessages,
+  insertConversationMessage,
+  deleteConversationMessages,
+  type ConversationMessageRow,
+} from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { answerRecordingQuestion, type TimestampCitation } from "@/lib/ai/recording-chat";
+import { getLLMClient } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+
+const MAX_QUESTION_LENGTH = 1000;
+
+function toConversationMessage(row: ConversationMessageRow) {
+  let citations: TimestampCitation[] = [];
+  if (row.citations) {
+    try {
+      citations = JSON.parse(row.citations) as TimestampCitation[];
+    } catch {
+      console.error("Failed to parse stored citations for message:", row.id);
+    }
+  }
+
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    citations,
+    createdAt: row.created_at,
+  };
+}
+
+// The signed-in user's Q&A conversation about this recording
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    if (!getRecordingById(viewer, id)) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    const messages = getConversationMessages(id, viewer.email).map(toConversationMessage);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Failed to load conversation:", error);
+    return NextResponse.json({ error: "Failed to load conversation" }, { status: 500 });
+  }
+}
+
+// Ask a follow-up question; both the question and the answer are saved
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    const body = await request.json() as { question?: unknown };
+    const question = typeof body.question === "string" ? body.question.trim() : "";
+    if (!question) {
+      return NextResponse.json({ error: "question is required" }, { status: 400 });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        { error: `question must be at most ${MAX_QUESTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const segments = getSegmentsByRecordingId(id);
+    if (segments.length === 0) {
+      return NextResponse.json(
+        { error: "No transcript available for this recording" },
+        { status: 400 }
+      );
+    }
+
+    const history = getConversationMessages(id, viewer.email);
+    const result = await answerRecordingQuestion(
+      {
+        title: recording.custom_title ?? recording.title,
+        createdAt: recording.created_at,
+        segments: segments.map((seg) => ({
+          startTime: seg.start_time,
+          speaker: seg.speaker,
+          text: seg.text,
+        })),
+        chatMessages: getChatMessagesByRecordingId(id),
+        participants: getParticipantsByRecordingId(id),
+      },
+      history.map((row) => ({ role: row.role, content: row.content })),
+      question,
+      trackUsage(getLLMClient("chat"), { task: "chat", recordingId: id })
+    );
+
+    // Saved only once answered, so a failed request leaves no dangling question
+    const questionRow = insertConversationMessage({
+      recordingId: id,
+      userEmail: viewer.email,
+      role: "user",
+      content: question,
+    });
+    const answerRow = insertConversationMessage({
+      recordingId: id,
+      userEmail: viewer.email,
+      role: "assistant",
+      content: result.answer,
+      citations: JSON.stringify(result.citations),
+    });
+
+    return NextResponse.json({
+      messages: [toConversationMessage(questionRow), toConversationMessage(answerRow)],
+    });
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 });
+    }
+    console.error("Failed to answer question:", error);
+    return NextResponse.json({ error: "Failed to answer question" }, { status: 500 });
+  }
+}
+
+// Start over: clear the signed-in user's conversation
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    if (!getRecordingById(viewer, id)) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    deleteConversationMessages(id, viewer.email);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to clear conversation:", error);
+    return NextResponse.json({ error: "Failed to clear conversation" }, { status: 500 });
+  }
+}
@@ -5,12 +5,21 @@ import {
 } from "@/lib/zoom/recordings";
 import { transformZoomMeeting } from "@/lib/zoom/transform";
 import { updateRecordingCustomTitle, getRecordingById } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  // Reads straight from Zoom, bypassing visibility, so it's admin-only
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
 
   try {
     const details = await getRecordingDetails(id);
@@ -43,13 +52,17 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
     const body = await request.json() as { customTitle?: string };
     const { customTitle } = body;
 
     // Verify recording exists
-    const recording = getRecordingById(id);
+    const recording = getRecordingById(viewer, id);
     if (!recording) {
       return NextResponse.json(
         { error: "Recording not found" },
@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import {
+  getRecordingById,
+  getSeriesDigest,
+  getSummaryByRecordingId,
+  upsertSeriesDigest,
+} from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import {
+  generateSeriesDigest,
+  getDigestPreviousInstances,
+  parseStoredSeriesDigest,
+} from "@/lib/ai/series-digest";
+import { getLLMClient, getModelId } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+import { parseStoredSummary } from "@/lib/ai/summary-schema";
+
+// The digest comparing this meeting with the previous instances the viewer can see
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json(
+        { error: "Recording not found" },
+        { status: 404 }
+      );
+    }
+
+    const previous = getDigestPreviousInstances(viewer, recording);
+    const digestRow = getSeriesDigest(id, previous.map((instance) => instance.id));
+    const digest = digestRow ? parseStoredSeriesDigest(digestRow.content) : null;
+    if (!digestRow || !digest) {
+      return NextResponse.json(
+        { error: "Series digest not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      digest,
+      model: digestRow.model,
+      generatedAt: digestRow.generated_at,
+    });
+  } catch (error) {
+    console.error("Failed to fetch series digest:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch series digest" },
+      { status: 500 }
+    );
+  }
+}
+
+// Generate (or regenerate) the digest from the stored summaries
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json(
+        { error: "Recording not found" },
+        { status: 404 }
+      );
+    }
+
+    const summaryRow = getSummaryByRecordingId(id);
+    const summary = summaryRow ? parseStoredSummary(summaryRow.content) : null;
+    if (!summary) {
+      return NextResponse.json(
+        { error: "Summarize this meeting first" },
+        { status: 400 }
+      );
+    }
+
+    const previous = getDigestPreviousInstances(viewer, recording);
+    if (previous.length === 0) {
+      return NextResponse.json(
+        { error: "No earlier meeting in this series has a summary" },
+        { status: 400 }
+      );
+    }
+
+    const client = trackUsage(getLLMClient("series-digest"), { task: "series-digest", recordingId: id });
+    const digest = await generateSeriesDigest(
+      viewer,
+      {
+        id,
+        title: recording.custom_title || recording.title,
+        createdAt: recording.created_at,
+        summary,
+      },
+      previous,
+      client
+    );
+
+    upsertSeriesDigest({
+      recordingId: id,
+      previousIds: previous.map((instance) => instance.id),
+      content: JSON.stringify(digest),
+      model: getModelId(client),
+    });
+
+    return NextResponse.json({
+      digest,
+      model: getModelId(client),
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 });
+    }
+    console.error("Failed to generate series digest:", error);
+    return NextResponse.json(
+      { error: "Failed to generate series digest", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
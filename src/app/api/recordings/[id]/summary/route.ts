@@ -1,19 +1,37 @@
 import { NextResponse } from "next/server";
 import {
+  getRecordingById,
   getSegmentsByRecordingId,
   getSummaryByRecordingId,
+  getSummaryTemplateById,
+  getSummaryTemplates,
   upsertSummary,
 } from "@/lib/db";
-import { generateTranscriptSummary, SUMMARY_MODEL } from "@/lib/ai/summarize";
-import type { AISummary } from "@/types/video";
+import { getViewer } from "@/lib/auth";
+import { generateTranscriptSummary } from "@/lib/ai/summarize";
+import { getLLMClient, getModelId } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+import { parseStoredSummary } from "@/lib/ai/summary-schema";
+import { recordingToTemplateMeeting, selectSummaryTemplate } from "@/lib/ai/summary-templates";
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
+    if (!getRecordingById(viewer, id)) {
+      return NextResponse.json(
+        { error: "Recording not found" },
+        { status: 404 }
+      );
+    }
+
     const summaryRow = getSummaryByRecordingId(id);
 
     if (!summaryRow) {
@@ -23,7 +41,10 @@ export async function GET(
       );
     }
 
-    const summary = JSON.parse(summaryRow.content) as AISummary;
+    const summary = parseStoredSummary(summaryRow.content);
+    if (!summary) {
+      throw new Error(`Invalid stored summary for recording ${id}`);
+    }
     return NextResponse.json({
       summary,
       model: summaryRow.model,
@@ -38,13 +59,26 @@ export async function GET(
   }
 }
 
+// Regenerate; the body may name a template, otherwise one is picked for the meeting
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
 
   try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json(
+        { error: "Recording not found" },
+        { status: 404 }
+      );
+    }
+
     // Get transcript segments
     const segments = getSegmentsByRecordingId(id);
 
@@ -55,6 +89,19 @@ export async function POST(
       );
     }
 
+    // Without a templateId, use the template that matches this meeting
+    const body = await request.json().catch(() => ({})) as { templateId?: unknown };
+    const templateId = typeof body.templateId === "string" ? body.templateId : "";
+    const template = templateId
+      ? getSummaryTemplateById(templateId)
+      : selectSummaryTemplate(getSummaryTemplates(), recordingToTemplateMeeting(recording));
+    if (!template) {
+      return NextResponse.json(
+        { error: "Summary template not found" },
+        { status: 400 }
+      );
+    }
+
     // Transform to the expected format
     const transcriptSegments = segments.map((s) => ({
       id: s.id,
@@ -65,21 +112,28 @@ export async function POST(
     }));
 
     // Generate new summary
-    const summary = await generateTranscriptSummary(transcriptSegments);
+    const client = trackUsage(getLLMClient("summary"), { task: "summary", recordingId: id });
+    const summary = await generateTranscriptSummary(transcriptSegments, client, {
+      meetingDate: recording.created_at,
+      template,
+    });
 
     // Save to database
     upsertSummary({
       recordingId: id,
       content: JSON.stringify(summary),
-      model: SUMMARY_MODEL,
+      model: getModelId(client),
     });
 
     return NextResponse.json({
       summary,
-      model: SUMMARY_MODEL,
+      model: getModelId(client),
       generatedAt: new Date().toISOString(),
     });
   } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 });
+    }
     console.error("Failed to regenerate summary:", error);
     return NextResponse.json(
       { error: "Failed to regenerate summary", details: String(error) },
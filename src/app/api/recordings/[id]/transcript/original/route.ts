@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getRecordingById, getSegmentOriginals } from "@/lib/db";
+import { canViewUnredacted, getViewer } from "@/lib/auth";
+
+// Text of the recording's redacted segments as it was spoken
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!canViewUnredacted(viewer)) {
+    return NextResponse.json({ error: "Unredacted transcript access required" }, { status: 403 });
+  }
+
+  try {
+    if (!getRecordingById(viewer, id)) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ originals: getSegmentOriginals(id) });
+  } catch (error) {
+    console.error("Failed to load original transcript:", error);
+    return NextResponse.json({ error: "Failed to load original transcript" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { getRecordingById, getSegmentsByRecordingId } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { getLLMClient } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+import {
+  countUntranslated,
+  getStoredTranslation,
+  isTranscriptLanguage,
+  languageLabel,
+  translateRecording,
+} from "@/lib/translation";
+
+// The cached translation into ?language=
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const language = new URL(request.url).searchParams.get("language") ?? "";
+  if (!isTranscriptLanguage(language)) {
+    return NextResponse.json({ error: "Unsupported language" }, { status: 400 });
+  }
+
+  try {
+    if (!getRecordingById(viewer, id)) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+
+    const translation = getStoredTranslation(id, language);
+    if (!translation) {
+      return NextResponse.json({ error: "Translation not found" }, { status: 404 });
+    }
+    return NextResponse.json(translation);
+  } catch (error) {
+    console.error("Failed to fetch translation:", error);
+    return NextResponse.json({ error: "Failed to fetch translation" }, { status: 500 });
+  }
+}
+
+// Translate into the body's language; a cached translation is returned as is
+// unless the body asks to regenerate it, or to retry the lines it couldn't
+// translate (retryUntranslated)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({})) as {
+    language?: unknown;
+    regenerate?: unknown;
+    retryUntranslated?: unknown;
+  };
+  const language = typeof body.language === "string" ? body.language : "";
+  if (!isTranscriptLanguage(language)) {
+    return NextResponse.json({ error: "Unsupported language" }, { status: 400 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+    }
+    if (recording.language === language) {
+      return NextResponse.json(
+        { error: `The transcript is already in ${languageLabel(language)}` },
+        { status: 400 }
+      );
+    }
+
+    if (getSegmentsByRecordingId(id).length === 0) {
+      return NextResponse.json(
+        { error: "No transcript available for this recording" },
+        { status: 400 }
+      );
+    }
+
+    const cached = body.regenerate === true ? null : getStoredTranslation(id, language);
+    if (cached && !(body.retryUntranslated === true && countUntranslated(cached) > 0)) {
+      return NextResponse.json(cached);
+    }
+
+    const client = trackUsage(getLLMClient("translation"), { task: "translation", recordingId: id });
+    return NextResponse.json(
+      await translateRecording(recording, language, client, { previous: cached ?? undefined })
+    );
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      return NextResponse.json({ error: error.message }, { status: 402 });
+    }
+    console.error("Failed to translate transcript:", error);
+    return NextResponse.json({ error: "Failed to translate transcript" }, { status: 500 });
+  }
+}
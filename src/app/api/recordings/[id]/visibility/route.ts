@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import {
+  getRecordingById,
+  getRecordingShares,
+  updateRecordingVisibility,
+} from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { canManageVisibility, isRecordingVisibility } from "@/lib/auth/visibility";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json(
+        { error: "Recording not found" },
+        { status: 404 }
+      );
+    }
+
+    const canManage = canManageVisibility(viewer, recording);
+    return NextResponse.json({
+      visibility: recording.visibility,
+      visibilitySource: recording.visibility_source,
+      ownerEmail: recording.owner_email,
+      // The share list is only disclosed to people who can change it
+      shares: canManage ? getRecordingShares(id) : [],
+      canManage,
+    });
+  } catch (error) {
+    console.error("Failed to fetch visibility:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch visibility" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    const recording = getRecordingById(viewer, id);
+    if (!recording) {
+      return NextResponse.json(
+        { error: "Recording not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageVisibility(viewer, recording)) {
+      return NextResponse.json(
+        { error: "Only the owner or an admin can change visibility" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json() as { visibility?: unknown; shares?: unknown };
+    const { visibility, shares = [] } = body;
+
+    if (!isRecordingVisibility(visibility)) {
+      return NextResponse.json(
+        { error: "visibility must be one of org, participants, private, shared" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(shares) || !shares.every((s) => typeof s === "string" && s.includes("@"))) {
+      return NextResponse.json(
+        { error: "shares must be an array of email addresses" },
+        { status: 400 }
+      );
+    }
+
+    updateRecordingVisibility(id, visibility, shares);
+
+    return NextResponse.json({
+      visibility,
+      visibilitySource: "manual",
+      ownerEmail: recording.owner_email,
+      shares: getRecordingShares(id),
+      canManage: true,
+    });
+  } catch (error) {
+    console.error("Failed to update visibility:", error);
+    return NextResponse.json(
+      { error: "Failed to update visibility" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,9 +4,15 @@ import {
   getSpeakersByRecordingIds,
   getSummariesByRecordingIds,
 } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 import type { AISummary } from "@/types/video";
 
 export async function GET(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
   const { searchParams } = new URL(request.url);
   const source = searchParams.get("source") as "zoom" | "gong" | "all" | null;
   const cursor = searchParams.get("cursor") ?? undefined;
@@ -16,7 +22,7 @@ export async function GET(request: Request) {
 
   const sourceFilter = source === "zoom" || source === "gong" ? source : "all";
 
-  const result = getRecordingsPaginated(sourceFilter, limit, cursor);
+  const result = getRecordingsPaginated(viewer, sourceFilter, limit, cursor);
 
   const speakersByRecording = getSpeakersByRecordingIds(
     result.items.map((r) => r.id)
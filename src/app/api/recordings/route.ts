@@ -1,8 +1,18 @@
 import { NextResponse } from "next/server";
 import { listRecordings } from "@/lib/zoom/recordings";
 import { transformZoomMeetingToListItem } from "@/lib/zoom/transform";
+import { getViewer } from "@/lib/auth";
 
 export async function GET(request: Request) {
+  // Reads straight from Zoom, bypassing visibility, so it's admin-only
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
   const { searchParams } = new URL(request.url);
   const from = searchParams.get("from") ?? undefined;
   const to = searchParams.get("to") ?? undefined;
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import {
+  searchRecordingsWithContext,
+  getTranscriptHitsByRecordingIds,
+} from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { hasStructuredFilters, parseSearchQuery } from "@/lib/search/query";
+import { isPassageSearchMode, searchPassages } from "@/lib/search/hybrid";
+
+// Ranked search results with every transcript hit, grouped per recording.
+// With ?mode=keyword|semantic|hybrid, returns timestamped transcript passages
+// ranked by keyword match, embedding similarity, or both.
+export async function GET(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() ?? "";
+  const source = searchParams.get("source");
+  const parsedLimit = parseInt(searchParams.get("hitsPerRecording") || "50", 10);
+  const hitsPerRecording = Math.min(Math.max(Number.isNaN(parsedLimit) ? 50 : parsedLimit, 1), 200);
+
+  const { tokens, filters } = parseSearchQuery(query);
+  if (!filters.text && !hasStructuredFilters(filters)) {
+    return NextResponse.json({ error: "Query parameter q is required" }, { status: 400 });
+  }
+
+  const sourceFilter = source === "zoom" || source === "gong" ? source : "all";
+  const mode = searchParams.get("mode");
+
+  if (mode !== null) {
+    if (!isPassageSearchMode(mode)) {
+      return NextResponse.json(
+        { error: "mode must be keyword, semantic or hybrid" },
+        { status: 400 }
+      );
+    }
+    if (!filters.text) {
+      return NextResponse.json(
+        { error: "Passage search needs words to search for" },
+        { status: 400 }
+      );
+    }
+
+    const parsedPassageLimit = parseInt(searchParams.get("limit") || "20", 10);
+    const limit = Math.min(Math.max(Number.isNaN(parsedPassageLimit) ? 20 : parsedPassageLimit, 1), 100);
+
+    try {
+      const result = await searchPassages(viewer, filters, { mode, source: sourceFilter, limit });
+      return NextResponse.json({ query, tokens, ...result });
+    } catch (error) {
+      console.error("Failed to search passages:", error);
+      return NextResponse.json({ error: "Failed to search passages" }, { status: 500 });
+    }
+  }
+
+  try {
+    const recordings = searchRecordingsWithContext(viewer, filters, sourceFilter);
+    const hitsByRecording = getTranscriptHitsByRecordingIds(
+      viewer,
+      filters.text,
+      recordings.map((r) => r.id),
+      hitsPerRecording
+    );
+
+    const results = recordings.map((recording) => {
+      const transcriptHits = hitsByRecording[recording.id];
+      return {
+        id: recording.id,
+        title: recording.custom_title ?? recording.title,
+        source: recording.source,
+        duration: recording.duration,
+        createdAt: recording.created_at,
+        matchType: recording.match_type,
+        matchText: recording.match_text,
+        matchTime: recording.match_time,
+        hitCount: transcriptHits?.count ?? 0,
+        hits: (transcriptHits?.hits ?? []).map((hit) => ({
+          segmentId: hit.segment_id,
+          startTime: hit.start_time,
+          speaker: hit.speaker,
+          snippet: hit.snippet,
+        })),
+      };
+    });
+
+    return NextResponse.json({ query, tokens, results });
+  } catch (error) {
+    console.error("Failed to search recordings:", error);
+    return NextResponse.json({ error: "Failed to search recordings" }, { status: 500 });
+  }
+}
@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import { getAllUniqueSpeakers } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 export async function GET() {
-  const speakers = getAllUniqueSpeakers();
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  const speakers = getAllUniqueSpeakers(viewer);
   return NextResponse.json(speakers);
 }
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import {
+  deleteSummaryTemplate,
+  getSummaryTemplateById,
+  updateSummaryTemplate,
+} from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { parseSummaryTemplateInput } from "@/lib/ai/summary-templates";
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const parsed = parseSummaryTemplateInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const template = updateSummaryTemplate(id, parsed.template);
+    if (!template) {
+      return NextResponse.json({ error: "Summary template not found" }, { status: 404 });
+    }
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error("Failed to update summary template:", error);
+    return NextResponse.json(
+      { error: "Failed to update summary template" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const template = getSummaryTemplateById(id);
+    if (!template) {
+      return NextResponse.json({ error: "Summary template not found" }, { status: 404 });
+    }
+    if (template.builtIn) {
+      return NextResponse.json(
+        { error: "Built-in templates can be edited but not deleted" },
+        { status: 400 }
+      );
+    }
+
+    deleteSummaryTemplate(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete summary template:", error);
+    return NextResponse.json(
+      { error: "Failed to delete summary template" },
+      { status: 500 }
+    );
+  }
+}
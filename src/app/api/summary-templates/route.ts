@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+import { getSummaryTemplates, insertSummaryTemplate } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { parseSummaryTemplateInput } from "@/lib/ai/summary-templates";
+
+// Everyone can list templates (to pick one when regenerating a summary)
+export async function GET() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ templates: getSummaryTemplates() });
+  } catch (error) {
+    console.error("Failed to fetch summary templates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch summary templates" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const parsed = parseSummaryTemplateInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const template = insertSummaryTemplate(`template-${nanoid(8)}`, parsed.template);
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create summary template:", error);
+    return NextResponse.json(
+      { error: "Failed to create summary template" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import {
+  deleteKeywordTracker,
+  getKeywordTrackerById,
+  isKeywordTrackerNameTaken,
+  updateKeywordTracker,
+} from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { parseKeywordTrackerInput } from "@/lib/search/trackers";
+
+// Changing the phrases reruns the tracker over every transcript
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const parsed = parseKeywordTrackerInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (isKeywordTrackerNameTaken(parsed.tracker.name, id)) {
+      return NextResponse.json({ error: "A tracker with this name already exists" }, { status: 409 });
+    }
+
+    const tracker = updateKeywordTracker(id, parsed.tracker);
+    if (!tracker) {
+      return NextResponse.json({ error: "Tracker not found" }, { status: 404 });
+    }
+    return NextResponse.json({ tracker });
+  } catch (error) {
+    console.error("Failed to update tracker:", error);
+    return NextResponse.json({ error: "Failed to update tracker" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  try {
+    if (!getKeywordTrackerById(id)) {
+      return NextResponse.json({ error: "Tracker not found" }, { status: 404 });
+    }
+
+    deleteKeywordTracker(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete tracker:", error);
+    return NextResponse.json({ error: "Failed to delete tracker" }, { status: 500 });
+  }
+}
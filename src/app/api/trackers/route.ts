@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { nanoid } from "nanoid";
+import { getKeywordTrackers, insertKeywordTracker, isKeywordTrackerNameTaken } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { parseKeywordTrackerInput } from "@/lib/search/trackers";
+
+// Everyone can list trackers, with mention counts over the recordings they can see
+export async function GET() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ trackers: getKeywordTrackers(viewer) });
+  } catch (error) {
+    console.error("Failed to fetch trackers:", error);
+    return NextResponse.json({ error: "Failed to fetch trackers" }, { status: 500 });
+  }
+}
+
+// Creating a tracker runs it over every transcript before responding
+export async function POST(request: Request) {
+  const viewer = await getViewer();
+  if (!viewer) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+  }
+  if (!viewer.isAdmin) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+
+  try {
+    const parsed = parseKeywordTrackerInput(await request.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (isKeywordTrackerNameTaken(parsed.tracker.name)) {
+      return NextResponse.json({ error: "A tracker with this name already exists" }, { status: 409 });
+    }
+
+    const tracker = insertKeywordTracker(`tracker-${nanoid(8)}`, parsed.tracker, viewer.email);
+    return NextResponse.json({ tracker }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create tracker:", error);
+    return NextResponse.json({ error: "Failed to create tracker" }, { status: 500 });
+  }
+}
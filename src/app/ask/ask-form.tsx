@@ -0,0 +1,151 @@
+"use client";
+
+import { useState, type FormEvent, type ReactNode } from "react";
+import Link from "next/link";
+import { ArrowPathIcon, SparklesIcon } from "@heroicons/react/20/solid";
+import { formatTime } from "@/types/video";
+
+interface Citation {
+  index: number;
+  recordingId: string;
+  recordingTitle: string;
+  createdAt: string;
+  startTime: number;
+  url: string;
+  text: string;
+}
+
+interface AskResponse {
+  question: string;
+  answer: string;
+  citations: Citation[];
+  passageCount: number;
+  warning?: string;
+}
+
+// Replace [n] markers with links to the cited moment
+function renderAnswer(answer: string, citations: Citation[]): ReactNode[] {
+  const byIndex = new Map(citations.map((citation) => [citation.index, citation]));
+
+  return answer.split(/(\[\d+\])/g).map((part, i) => {
+    const marker = part.match(/^\[(\d+)\]$/);
+    const citation = marker ? byIndex.get(parseInt(marker[1], 10)) : undefined;
+    if (!citation) return part;
+
+    return (
+      <Link
+        key={i}
+        href={citation.url}
+        title={`${citation.recordingTitle} at ${formatTime(citation.startTime)}`}
+        className="mx-0.5 inline-flex items-center rounded bg-indigo-500/20 px-1 align-baseline font-mono text-xs text-indigo-300 transition hover:bg-indigo-500/30 light:bg-indigo-100 light:text-indigo-700 light:hover:bg-indigo-200"
+      >
+        {citation.index}
+      </Link>
+    );
+  });
+}
+
+export function AskForm() {
+  const [question, setQuestion] = useState("");
+  const [result, setResult] = useState<AskResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/ask", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question }),
+      });
+      const data = await response.json() as AskResponse & { error?: string };
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to answer question");
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to answer question");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="What did Acme say about SSO pricing last quarter?"
+          className="flex-1 rounded-lg border border-white/10 bg-zinc-900 px-4 py-2 text-sm text-zinc-100 placeholder-zinc-500 focus:border-indigo-500 focus:outline-none light:border-zinc-300 light:bg-white light:text-zinc-900"
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !question.trim()}
+          className="flex items-center gap-2 rounded-lg bg-indigo-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isLoading ? (
+            <ArrowPathIcon className="h-4 w-4 animate-spin" />
+          ) : (
+            <SparklesIcon className="h-4 w-4" />
+          )}
+          Ask
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-4 rounded-md bg-red-500/10 px-3 py-2 text-sm text-red-400 light:bg-red-50 light:text-red-700">
+          {error}
+        </p>
+      )}
+
+      {result && !error && (
+        <div className="mt-6 rounded-xl border border-white/10 bg-zinc-900/50 p-6 light:border-zinc-200 light:bg-white">
+          {result.warning && (
+            <p className="mb-4 text-xs text-amber-400 light:text-amber-700">{result.warning}</p>
+          )}
+          <div className="whitespace-pre-wrap text-sm leading-relaxed text-zinc-200 light:text-zinc-800">
+            {renderAnswer(result.answer, result.citations)}
+          </div>
+
+          {result.citations.length > 0 && (
+            <div className="mt-6 border-t border-white/10 pt-4 light:border-zinc-200">
+              <h2 className="text-xs font-medium uppercase tracking-wide text-zinc-500">Sources</h2>
+              <ol className="mt-2 flex flex-col gap-2">
+                {result.citations.map((citation) => (
+                  <li key={citation.index}>
+                    <Link
+                      href={citation.url}
+                      className="flex gap-3 rounded-md px-2 py-1.5 text-sm transition hover:bg-white/5 light:hover:bg-zinc-50"
+                    >
+                      <span className="shrink-0 font-mono text-xs text-indigo-400 light:text-indigo-600">
+                        [{citation.index}]
+                      </span>
+                      <span className="min-w-0">
+                        <span className="font-medium text-zinc-200 light:text-zinc-800">
+                          {citation.recordingTitle}
+                        </span>
+                        <span className="ml-2 text-xs text-zinc-500">
+                          {citation.createdAt.slice(0, 10)} · {formatTime(citation.startTime)}
+                        </span>
+                        <span className="mt-0.5 line-clamp-2 block text-xs text-zinc-400 light:text-zinc-500">
+                          {citation.text}
+                        </span>
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import { AskForm } from "./ask-form";
+
+export const metadata: Metadata = {
+  title: "Ask - WorkTV",
+};
+
+export default function AskPage() {
+  return (
+    <div className="mx-auto max-w-3xl">
+      <h1 className="text-xl font-semibold">Ask your recordings</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Answers are drawn from call transcripts you can see. Every claim links to the moment it
+        came from.
+      </p>
+      <AskForm />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { redirect, notFound } from "next/navigation";
 import type { Metadata } from "next";
 import { getClipById, getRecordingById, dbRowToClip } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
 
 function formatDuration(seconds: number): string {
   const mins = Math.floor(seconds / 60);
@@ -15,13 +16,14 @@ export async function generateMetadata({
   params: Promise<{ clipId: string }>;
 }): Promise<Metadata> {
   const { clipId } = await params;
-  const clipRow = getClipById(clipId);
+  const viewer = await getViewer();
+  const clipRow = viewer ? getClipById(viewer, clipId) : undefined;
 
-  if (!clipRow) {
+  if (!viewer || !clipRow) {
     return { title: "Clip Not Found" };
   }
 
-  const recording = getRecordingById(clipRow.recording_id);
+  const recording = getRecordingById(viewer, clipRow.recording_id);
   const clip = dbRowToClip(clipRow);
   const duration = formatDuration(clip.endTime - clip.startTime);
   const recordingTitle = recording?.custom_title ?? recording?.title ?? "Recording";
@@ -51,8 +53,12 @@ export default async function ClipRedirectPage({
   params: Promise<{ clipId: string }>;
 }) {
   const { clipId } = await params;
-  const clipRow = getClipById(clipId);
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent(`/c/${clipId}`)}`);
+  }
 
+  const clipRow = getClipById(viewer, clipId);
   if (!clipRow) {
     notFound();
   }
@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+
+export function DigestEmailToggle({
+  initialEnabled,
+  emailConfigured,
+}: {
+  initialEnabled: boolean;
+  emailConfigured: boolean;
+}) {
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/digest", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weeklyEmail: !enabled }),
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to update digest settings");
+      }
+      setEnabled(!enabled);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update digest settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+      <label className="flex items-center gap-2 text-zinc-300 light:text-zinc-700">
+        <input type="checkbox" checked={enabled} onChange={handleToggle} disabled={isSaving} />
+        Email me this every week
+      </label>
+      <a
+        href="/api/digest?format=html"
+        target="_blank"
+        className="text-xs text-zinc-500 transition hover:text-indigo-400"
+      >
+        Preview email
+      </a>
+      {enabled && !emailConfigured && (
+        <span className="text-xs text-amber-400 light:text-amber-600">
+          Email isn&apos;t set up on this server yet (SMTP_HOST)
+        </span>
+      )}
+      {error && <span className="text-xs text-red-400 light:text-red-600">{error}</span>}
+    </div>
+  );
+}
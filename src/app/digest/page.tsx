@@ -0,0 +1,133 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getUserByEmail } from "@/lib/db";
+import { getSmtpConfig } from "@/lib/alerts/smtp";
+import { buildWeeklyDigest, getDigestPeriod, isDigestEmpty } from "@/lib/digest";
+import { LocalDateTime } from "@/components/local-datetime";
+import { formatTime } from "@/types/video";
+import { DigestEmailToggle } from "./digest-email-toggle";
+
+export const metadata: Metadata = {
+  title: "Your week - WorkTV",
+};
+
+const DAY_OPTIONS: Intl.DateTimeFormatOptions = { weekday: "short", month: "short", day: "numeric" };
+
+function recordingHref(id: string, time?: number | null): string {
+  return `/recordings/${encodeURIComponent(id)}${time !== null && time !== undefined ? `?t=${Math.floor(time)}` : ""}`;
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="mt-6">
+      <h2 className="text-sm font-semibold text-zinc-300 light:text-zinc-700">{title}</h2>
+      <ul className="mt-2 divide-y divide-white/5 rounded-2xl border border-white/10 bg-zinc-900/50 light:divide-zinc-100 light:border-zinc-200 light:bg-white">
+        {children}
+      </ul>
+    </section>
+  );
+}
+
+export default async function DigestPage() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/digest")}`);
+  }
+
+  const digest = buildWeeklyDigest(viewer, getDigestPeriod(new Date()));
+  const user = getUserByEmail(viewer.email);
+
+  return (
+    <div className="mx-auto max-w-4xl">
+      <h1 className="text-xl font-semibold">Your week</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Meetings you were in since{" "}
+        <LocalDateTime iso={digest.period.since} options={DAY_OPTIONS} />, clips made from them,
+        mentions of the trackers you follow with a tracker alert, and your open action items.
+      </p>
+      <DigestEmailToggle
+        initialEnabled={user?.weekly_digest !== 0}
+        emailConfigured={getSmtpConfig() !== null}
+      />
+
+      {isDigestEmpty(digest) && (
+        <p className="mt-6 text-sm text-zinc-500">Nothing for you this week.</p>
+      )}
+
+      {digest.meetings.length > 0 && (
+        <Section title="Your meetings">
+          {digest.meetings.map((meeting) => (
+            <li key={meeting.id} className="px-4 py-3">
+              <Link href={recordingHref(meeting.id)} className="text-sm font-medium transition hover:text-indigo-400">
+                {meeting.title}
+              </Link>
+              <span className="ml-2 text-xs text-zinc-500">
+                <LocalDateTime iso={meeting.createdAt} options={DAY_OPTIONS} />
+              </span>
+              {meeting.brief && (
+                <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">{meeting.brief}</p>
+              )}
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {digest.clips.length > 0 && (
+        <Section title="New clips">
+          {digest.clips.map((clip) => (
+            <li key={clip.id} className="flex items-baseline gap-3 px-4 py-3">
+              <Link href={`/c/${encodeURIComponent(clip.id)}`} className="min-w-0 flex-1 truncate text-sm transition hover:text-indigo-400">
+                {clip.title || "Untitled clip"}
+              </Link>
+              <span className="shrink-0 text-xs text-zinc-500">
+                {clip.recordingTitle} · {formatTime(clip.startTime)}–{formatTime(clip.endTime)}
+              </span>
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {digest.trackers.length > 0 && (
+        <Section title="Trackers you follow">
+          {digest.trackers.map((tracker) => (
+            <li key={tracker.name} className="px-4 py-3">
+              <div className="text-sm">
+                <span className="font-medium">{tracker.name}</span>
+                <span className="ml-2 text-xs text-zinc-500">
+                  {tracker.hits} {tracker.hits === 1 ? "mention" : "mentions"}
+                </span>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {tracker.recordings.map((recording) => (
+                  <li key={recording.id} className="text-xs text-zinc-400 light:text-zinc-600">
+                    <Link href={recordingHref(recording.id, recording.firstTime)} className="transition hover:text-indigo-400">
+                      {recording.title}
+                    </Link>{" "}
+                    · {recording.hits}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {digest.actionItems.length > 0 && (
+        <Section title="Your open action items">
+          {digest.actionItems.map((item) => (
+            <li key={item.id} className="flex items-baseline gap-3 px-4 py-3">
+              <Link href={recordingHref(item.recordingId, item.timestamp)} className="min-w-0 flex-1 text-sm transition hover:text-indigo-400">
+                {item.text}
+              </Link>
+              <span className="shrink-0 text-xs text-zinc-500">
+                {[item.recordingTitle, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(" · ")}
+              </span>
+            </li>
+          ))}
+        </Section>
+      )}
+    </div>
+  );
+}
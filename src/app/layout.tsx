@@ -4,6 +4,7 @@ import Link from "next/link";
 import { Geist, Geist_Mono } from "next/font/google";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
 import { SearchProvider } from "./recordings/search-context";
 import "./globals.css";
 
@@ -46,7 +47,44 @@ export default function RootLayout({
                   </Link>
                   <div id="nav-title" className="flex flex-1 justify-center" />
                   <div className="flex items-center gap-3">
+                    <Link
+                      href="/ask"
+                      className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+                    >
+                      Ask
+                    </Link>
+                    <Link
+                      href="/digest"
+                      className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+                    >
+                      Your week
+                    </Link>
+                    <Link
+                      href="/action-items"
+                      className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+                    >
+                      Action items
+                    </Link>
+                    <Link
+                      href="/trackers"
+                      className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+                    >
+                      Trackers
+                    </Link>
+                    <Link
+                      href="/analytics"
+                      className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+                    >
+                      Analytics
+                    </Link>
+                    <Link
+                      href="/alerts"
+                      className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+                    >
+                      Alerts
+                    </Link>
                     <ThemeToggle />
+                    <UserMenu />
                   </div>
                 </div>
               </header>
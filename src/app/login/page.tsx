@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { getCurrentUser } from "@/lib/auth";
+import { sanitizeReturnTo } from "@/lib/auth/session";
+
+export const metadata: Metadata = {
+  title: "Sign in - WorkTV",
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  config: "Sign-in is not configured for this deployment.",
+  state: "Your sign-in attempt expired. Please try again.",
+  domain: "Your account's email domain is not allowed to access WorkTV.",
+  callback: "We couldn't complete sign-in with your identity provider.",
+};
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ returnTo?: string; error?: string }>;
+}) {
+  const { returnTo, error } = await searchParams;
+  const destination = sanitizeReturnTo(returnTo);
+
+  const user = await getCurrentUser();
+  if (user) {
+    redirect(destination);
+  }
+
+  const errorMessage = error ? ERROR_MESSAGES[error] ?? ERROR_MESSAGES.callback : null;
+
+  return (
+    <div className="mx-auto mt-24 max-w-sm rounded-xl border border-white/10 bg-zinc-900/50 p-8 text-center light:border-zinc-200 light:bg-white">
+      <h1 className="text-xl font-semibold">Sign in to WorkTV</h1>
+      <p className="mt-2 text-sm text-zinc-400 light:text-zinc-600">
+        Recordings are only available to members of your organization.
+      </p>
+      {errorMessage && (
+        <p className="mt-4 rounded-md bg-red-500/10 px-3 py-2 text-sm text-red-400 light:bg-red-50 light:text-red-700">
+          {errorMessage}
+        </p>
+      )}
+      <a
+        href={`/api/auth/login?returnTo=${encodeURIComponent(destination)}`}
+        className="mt-6 inline-flex w-full items-center justify-center rounded-lg bg-indigo-500 px-4 py-2 text-sm font-medium text-white transition hover:bg-indigo-400"
+      >
+        Continue with SSO
+      </a>
+    </div>
+  );
+}
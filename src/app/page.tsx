@@ -1,5 +1,6 @@
 import Link from "next/link";
 import { Suspense } from "react";
+import { redirect } from "next/navigation";
 import {
   searchRecordingsWithContext,
   searchRecordingsWithSpeaker,
@@ -10,9 +11,12 @@ import {
   getRecordingsBySource,
   getTotalRecordingsCount,
   getAllClipsWithRecordingTitle,
+  getTranscriptHitsByRecordingIds,
   dbRowToClip,
   type SearchResultRow,
 } from "@/lib/db";
+import { getViewer } from "@/lib/auth";
+import { parseSearchQuery } from "@/lib/search/query";
 import { isZoomConfigured } from "@/lib/zoom/auth";
 import { isGongConfigured } from "@/lib/gong/auth";
 import { SearchInput } from "./recordings/search-input";
@@ -24,6 +28,7 @@ import { LocalDateTime } from "@/components/local-datetime";
 import { RecordingPreview } from "./recordings/recording-preview";
 import { RecordingGridCard } from "./recordings/recording-grid-card";
 import { SearchMatchDisplay } from "./recordings/search-match-display";
+import { SearchHits } from "./recordings/search-hits";
 import { RecordingsInfiniteScroll } from "./recordings/recordings-infinite-scroll";
 import { SearchResultsWrapper } from "./recordings/search-results-wrapper";
 import { NavTitle } from "@/components/nav-title";
@@ -36,6 +41,11 @@ export default async function HomePage({
 }) {
   const { q, view, speaker, participant, source } = await searchParams;
 
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect("/login");
+  }
+
   // Parse speakers (can be single string or array)
   const speakers: string[] = Array.isArray(speaker) ? speaker : speaker ? [speaker] : [];
 
@@ -50,7 +60,7 @@ export default async function HomePage({
 
   // If clips view, fetch clips instead of recordings
   if (isClipsView) {
-    const clipRows = getAllClipsWithRecordingTitle();
+    const clipRows = getAllClipsWithRecordingTitle(viewer);
     const clipsWithRecordings = clipRows.map((row) => ({
       ...dbRowToClip(row),
       recordingTitle: row.recording_title,
@@ -74,23 +84,26 @@ export default async function HomePage({
   let recordings: SearchResultRow[] = [];
   let paginatedResult: { items: typeof recordings; hasMore: boolean; nextCursor: string | null } | null = null;
 
+  // Free text plus structured filters (from:, source:, has:, ...)
+  const { filters } = parseSearchQuery(q ?? "");
+
   if (speakers.length > 0) {
     // Speaker search - filter by all selected speakers (AND logic)
-    const results = searchRecordingsWithSpeaker(q ?? "", speakers, sourceFilter);
+    const results = searchRecordingsWithSpeaker(viewer, filters, speakers, sourceFilter);
     recordings = results.map((r) => ({ ...r, match_type: "speaker" as const, match_text: null, match_time: null }));
   } else if (participant) {
     // Participant search by email
-    const results = searchRecordingsWithParticipant(q ?? "", participant, sourceFilter);
+    const results = searchRecordingsWithParticipant(viewer, filters, participant, sourceFilter);
     recordings = results.map((r) => ({ ...r, match_type: "speaker" as const, match_text: null, match_time: null }));
   } else if (q) {
-    recordings = searchRecordingsWithContext(q, sourceFilter);
+    recordings = searchRecordingsWithContext(viewer, filters, sourceFilter);
   } else if (isCalendarView) {
     // Calendar view needs all recordings to display the full timeline
-    const allRecordings = getRecordingsBySource(sourceFilter);
+    const allRecordings = getRecordingsBySource(viewer, sourceFilter);
     recordings = allRecordings.map((r) => ({ ...r, match_type: "title" as const, match_text: null, match_time: null }));
   } else {
     // Use paginated query for initial load (faster)
-    const result = getRecordingsPaginated(sourceFilter, 20);
+    const result = getRecordingsPaginated(viewer, sourceFilter, 20);
     paginatedResult = {
       items: result.items.map((r) => ({ ...r, match_type: "title" as const, match_text: null, match_time: null })),
       hasMore: result.hasMore,
@@ -111,6 +124,11 @@ export default async function HomePage({
     recordings.map((r) => r.id)
   );
 
+  // Every transcript hit per result, for the expandable list view
+  const hitsByRecording = filters.text && isListView
+    ? getTranscriptHitsByRecordingIds(viewer, filters.text, recordings.map((r) => r.id))
+    : {};
+
   // Fetch summaries for grid view
   const summariesByRecording = isGridView
     ? getSummariesByRecordingIds(recordings.map((r) => r.id))
@@ -135,6 +153,7 @@ export default async function HomePage({
       posterUrl: recording.poster_url,
       previewGifUrl: recording.preview_gif_url,
       summaryBrief,
+      transcriptHits: hitsByRecording[recording.id] ?? null,
     };
   });
 
@@ -151,7 +170,7 @@ export default async function HomePage({
           <SourceFilter currentSource={sourceFilter} />
           <SearchInput defaultValue={q} defaultSpeakers={speakers} defaultParticipant={participant} />
           <span className="shrink-0 text-sm text-zinc-500">
-            {getTotalRecordingsCount(sourceFilter)} videos
+            {getTotalRecordingsCount(viewer, sourceFilter)} videos
           </span>
         </div>
       </Suspense>
@@ -255,58 +274,74 @@ export default async function HomePage({
           <section className="rounded-2xl border border-white/10 bg-zinc-900/50 p-2 light:border-zinc-200 light:bg-white">
             <div className="divide-y divide-white/10 light:divide-zinc-200">
               {recordingsWithMeta.map((recording) => (
-                <Link
-                  key={recording.id}
-                  href={`/recordings/${encodeURIComponent(recording.id)}`}
-                  className="group flex gap-4 rounded-xl p-4 transition hover:bg-white/5 light:hover:bg-zinc-50"
-                >
-                  <RecordingPreview
-                    posterUrl={recording.posterUrl}
-                    previewGifUrl={recording.previewGifUrl}
-                    title={recording.custom_title ?? recording.title}
-                    duration={recording.duration}
-                  />
-                  <div className="flex min-w-0 flex-1 flex-col justify-center">
-                    <div className="flex items-center gap-2">
-                      <span className="truncate text-sm font-semibold text-zinc-50 light:text-zinc-900">
-                        {recording.custom_title ?? recording.title}
-                      </span>
-                      <span
-                        className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium ${
-                          recording.source === "gong"
-                            ? "bg-violet-500/20 text-violet-400 light:bg-violet-100 light:text-violet-600"
-                            : "bg-blue-500/20 text-blue-400 light:bg-blue-100 light:text-blue-600"
-                        }`}
-                      >
-                        {recording.source === "gong" ? "Gong" : "Zoom"}
-                      </span>
-                    </div>
-                    {recording.description && (
-                      <div className="mt-0.5 line-clamp-1 text-xs text-zinc-400 light:text-zinc-500">
-                        {recording.description}
+                <div key={recording.id}>
+                  <Link
+                    href={`/recordings/${encodeURIComponent(recording.id)}${
+                      q && recording.match_time !== null ? `?t=${Math.floor(recording.match_time)}` : ""
+                    }`}
+                    className="group flex gap-4 rounded-xl p-4 transition hover:bg-white/5 light:hover:bg-zinc-50"
+                  >
+                    <RecordingPreview
+                      posterUrl={recording.posterUrl}
+                      previewGifUrl={recording.previewGifUrl}
+                      title={recording.custom_title ?? recording.title}
+                      duration={recording.duration}
+                      hitCount={recording.transcriptHits?.count}
+                    />
+                    <div className="flex min-w-0 flex-1 flex-col justify-center">
+                      <div className="flex items-center gap-2">
+                        <span className="truncate text-sm font-semibold text-zinc-50 light:text-zinc-900">
+                          {recording.custom_title ?? recording.title}
+                        </span>
+                        <span
+                          className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium ${
+                            recording.source === "gong"
+                              ? "bg-violet-500/20 text-violet-400 light:bg-violet-100 light:text-violet-600"
+                              : "bg-blue-500/20 text-blue-400 light:bg-blue-100 light:text-blue-600"
+                          }`}
+                        >
+                          {recording.source === "gong" ? "Gong" : "Zoom"}
+                        </span>
                       </div>
-                    )}
-                    {q && recording.match_text && (
-                      <SearchMatchDisplay
-                        matchType={recording.match_type}
-                        matchText={recording.match_text}
-                        matchTime={recording.match_time}
-                        query={q}
-                      />
-                    )}
-                    <div className="mt-1 flex items-center gap-2 text-xs text-zinc-500">
-                      {recording.speakers.length > 0 && (
-                        <>
-                          <span>
-                            {recording.speakers.map((s) => s.name).join(", ")}
-                          </span>
-                          <span className="text-zinc-600">·</span>
-                        </>
+                      {recording.description && (
+                        <div className="mt-0.5 line-clamp-1 text-xs text-zinc-400 light:text-zinc-500">
+                          {recording.description}
+                        </div>
                       )}
-                      <LocalDateTime iso={recording.created_at} />
+                      {q && recording.match_text && (
+                        <SearchMatchDisplay
+                          matchType={recording.match_type}
+                          matchText={recording.match_text}
+                          matchTime={recording.match_time}
+                          query={filters.text}
+                        />
+                      )}
+                      <div className="mt-1 flex items-center gap-2 text-xs text-zinc-500">
+                        {recording.speakers.length > 0 && (
+                          <>
+                            <span>
+                              {recording.speakers.map((s) => s.name).join(", ")}
+                            </span>
+                            <span className="text-zinc-600">·</span>
+                          </>
+                        )}
+                        <LocalDateTime iso={recording.created_at} />
+                      </div>
                     </div>
-                  </div>
-                </Link>
+                  </Link>
+                  {recording.transcriptHits && (
+                    <SearchHits
+                      recordingId={recording.id}
+                      hitCount={recording.transcriptHits.count}
+                      hits={recording.transcriptHits.hits.map((hit) => ({
+                        segmentId: hit.segment_id,
+                        startTime: hit.start_time,
+                        speaker: hit.speaker,
+                        snippet: hit.snippet,
+                      }))}
+                    />
+                  )}
+                </div>
               ))}
             </div>
           </section>
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { notFound } from "next/navigation";
+import { notFound, redirect } from "next/navigation";
 import {
   getRecordingById,
   getSegmentsByRecordingId,
@@ -12,6 +12,14 @@ import {
   isMediaUrlExpired,
   getClipById,
   getClipsByRecordingId,
+  getRecordingShares,
+  getTrackersByRecordingId,
+  getTopicsByRecordingId,
+  getTopicSpansByRecordingId,
+  getInteractionStatsByRecordingId,
+  getConversationStatsByRecordingId,
+  getTranscriptRedactions,
+  getSeriesDigest,
   dbRowToRecording,
   dbRowToClip,
   type RecordingRow,
@@ -23,7 +31,19 @@ import { RecordingPlayer } from "./recording-player";
 import { LocalDateTime } from "@/components/local-datetime";
 import { NavTitle } from "@/components/nav-title";
 import { EditableTitle } from "@/components/editable-title";
-import type { AISummary, Clip } from "@/types/video";
+import { VisibilityControl } from "@/components/visibility-control";
+import { canViewUnredacted, getViewer } from "@/lib/auth";
+import { parseStoredSummary } from "@/lib/ai/summary-schema";
+import { getDigestPreviousInstances, parseStoredSeriesDigest } from "@/lib/ai/series-digest";
+import type { SeriesContext } from "@/components/summary/series-digest";
+import { canManageVisibility, type RecordingVisibility } from "@/lib/auth/visibility";
+import type {
+  AISummary,
+  Clip,
+  RecordingInsights,
+  SpeakerConversationStats,
+  TranscriptRedaction,
+} from "@/types/video";
 
 const VIEW_TYPE_LABELS: Record<string, string> = {
   shared_screen_with_speaker_view: "Screen + Speaker",
@@ -38,10 +58,10 @@ export default async function RecordingPage({
   searchParams,
 }: {
   params: Promise<{ id: string }>;
-  searchParams: Promise<{ clip?: string }>;
+  searchParams: Promise<{ clip?: string; t?: string }>;
 }) {
   const { id: rawId } = await params;
-  const { clip: clipId } = await searchParams;
+  const { clip: clipId, t } = await searchParams;
   const id = decodeURIComponent(rawId);
 
   // Try mock data first (for demo IDs)
@@ -50,8 +70,13 @@ export default async function RecordingPage({
     return <RecordingPageContent recording={mockRecording} relatedRecordings={[]} videoViews={[]} summary={null} activeClip={null} clips={[]} participants={[]} />;
   }
 
-  // Try SQLite database
-  const row = getRecordingById(id);
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent(`/recordings/${rawId}`)}`);
+  }
+
+  // Try SQLite database (recordings the viewer can't see are indistinguishable from missing ones)
+  const row = getRecordingById(viewer, id);
   if (!row) {
     notFound();
   }
@@ -59,31 +84,63 @@ export default async function RecordingPage({
   const segments = getSegmentsByRecordingId(id);
   const speakers = getSpeakersByRecordingId(id);
   const participants = getParticipantsByRecordingId(id);
-  const relatedRecordings = getRelatedRecordings(row.title, id);
+  const relatedRecordings = getRelatedRecordings(viewer, id);
   const videoFiles = getVideoFilesByRecordingId(id);
   const chatMessages = getChatMessagesByRecordingId(id);
   const summaryRow = getSummaryByRecordingId(id);
   const clipRows = getClipsByRecordingId(id);
   const clips = clipRows.map(dbRowToClip);
+  const insights: RecordingInsights = {
+    trackers: getTrackersByRecordingId(id),
+    topics: getTopicsByRecordingId(id),
+    topicSpans: getTopicSpansByRecordingId(id),
+    stats: getInteractionStatsByRecordingId(id),
+  };
+  const conversation = getConversationStatsByRecordingId(id);
+  const redactions = getTranscriptRedactions(id);
 
   // Get active clip if specified
   let activeClip: Clip | null = null;
   if (clipId) {
-    const clipRow = getClipById(clipId);
+    const clipRow = getClipById(viewer, clipId);
     if (clipRow && clipRow.recording_id === id) {
       activeClip = dbRowToClip(clipRow);
     }
   }
 
+  // Start position in seconds (e.g. from a search hit), ignored when a clip is active
+  const parsedStartTime = t ? parseFloat(t) : NaN;
+  const startTime = !activeClip && parsedStartTime >= 0 ? parsedStartTime : null;
+
   let summary: AISummary | null = null;
   if (summaryRow) {
-    try {
-      summary = JSON.parse(summaryRow.content) as AISummary;
-    } catch {
+    summary = parseStoredSummary(summaryRow.content);
+    if (!summary) {
       console.error("Failed to parse stored summary for recording:", id);
     }
   }
 
+  // Recurring meetings open with a digest of what changed since last time
+  let series: SeriesContext | null = null;
+  const previousInstance = relatedRecordings.find((related) => related.created_at < row.created_at);
+  if (previousInstance) {
+    const digestRow = getSeriesDigest(
+      id,
+      getDigestPreviousInstances(viewer, row).map((instance) => instance.id)
+    );
+    series = {
+      previous: { id: previousInstance.id, createdAt: previousInstance.created_at },
+      digest: digestRow ? parseStoredSeriesDigest(digestRow.content) : null,
+    };
+  }
+
+  const canManage = canManageVisibility(viewer, row);
+  const access = {
+    visibility: row.visibility ?? "org",
+    shares: canManage ? getRecordingShares(id) : [],
+    canManage,
+  };
+
   // Get fresh access token for video playback (returns null if Zoom not configured)
   let accessToken: string | undefined;
   try {
@@ -125,6 +182,13 @@ export default async function RecordingPage({
       activeClip={activeClip}
       clips={clips}
       participants={participants}
+      insights={insights}
+      access={access}
+      startTime={startTime}
+      series={series}
+      conversation={conversation}
+      redactions={redactions}
+      canViewUnredacted={canViewUnredacted(viewer)}
     />
   );
 }
@@ -148,6 +212,13 @@ function RecordingPageContent({
   activeClip,
   clips,
   participants,
+  insights,
+  access,
+  startTime = null,
+  series = null,
+  conversation = [],
+  redactions = [],
+  canViewUnredacted = false,
 }: {
   recording: {
     id: string;
@@ -160,6 +231,7 @@ function RecordingPageContent({
     space: string;
     source?: string;
     mediaType?: "video" | "audio";
+    language?: string;
     createdAt: string;
     speakers: { id: string; name: string; color: string }[];
     transcript: {
@@ -183,6 +255,13 @@ function RecordingPageContent({
   activeClip: Clip | null;
   clips: Clip[];
   participants: ParticipantRow[];
+  insights?: RecordingInsights;
+  access?: { visibility: RecordingVisibility; shares: string[]; canManage: boolean };
+  startTime?: number | null;
+  series?: SeriesContext | null;
+  conversation?: SpeakerConversationStats[];
+  redactions?: TranscriptRedaction[];
+  canViewUnredacted?: boolean;
 }) {
   return (
     <div className="flex flex-col gap-6">
@@ -226,13 +305,32 @@ function RecordingPageContent({
         </div>
       </NavTitle>
 
-      <RecordingPlayer recording={recording} videoViews={videoViews} summary={summary} activeClip={activeClip} clips={clips} participants={participants} />
+      {access && (
+        <div className="-mb-4 flex justify-end">
+          <VisibilityControl
+            recordingId={recording.id}
+            visibility={access.visibility}
+            shares={access.shares}
+            canManage={access.canManage}
+          />
+        </div>
+      )}
+
+      <RecordingPlayer recording={recording} videoViews={videoViews} summary={summary} activeClip={activeClip} clips={clips} participants={participants} insights={insights} startTime={startTime} series={series} conversation={conversation} redactions={redactions} canViewUnredacted={canViewUnredacted} />
 
       {relatedRecordings.length > 0 && (
         <section className="rounded-2xl border border-white/10 bg-zinc-900/50 p-4 light:border-zinc-200 light:bg-white">
-          <h2 className="mb-3 text-sm font-semibold text-zinc-300 light:text-zinc-700">
-            Other instances of this meeting
-          </h2>
+          <div className="mb-3 flex items-baseline justify-between">
+            <h2 className="text-sm font-semibold text-zinc-300 light:text-zinc-700">
+              Other instances of this meeting
+            </h2>
+            <Link
+              href={`/series/${encodeURIComponent(relatedRecordings[0].series_id!)}`}
+              className="text-xs text-zinc-500 transition hover:text-indigo-400"
+            >
+              Attendance and length trends →
+            </Link>
+          </div>
           <div className="divide-y divide-white/10 light:divide-zinc-200">
             {relatedRecordings.map((related) => (
               <Link
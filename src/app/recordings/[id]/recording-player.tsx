@@ -1,22 +1,30 @@
 "use client";
 
-import { useRef, useCallback, useState, useEffect } from "react";
+import { useRef, useCallback, useState, useEffect, useMemo } from "react";
 import type { Recording, Clip } from "@/types/video";
+import { applyTranslation } from "@/types/video";
 import { useVideoPlayer } from "@/hooks/use-video-player";
+import { useRedactionBleep } from "@/hooks/use-redaction-bleep";
+import { useTranscriptTranslation } from "@/hooks/use-transcript-translation";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
-import { VideoPlayer } from "@/components/video/video-player";
+import { VideoPlayer, type CaptionTrack } from "@/components/video/video-player";
 import { AudioPlayer } from "@/components/video/audio-player";
 import { VideoControls } from "@/components/video/video-controls";
 import { TranscriptPanel } from "@/components/video/transcript-panel";
 import { SpeakerTimeline } from "@/components/video/speaker-timeline";
 import { SummaryPanel } from "@/components/summary/summary-panel";
+import type { SeriesContext } from "@/components/summary/series-digest";
 import { CaptionOverlay } from "@/components/video/caption-overlay";
+import { LanguageSelect } from "@/components/video/language-select";
 import { ClipCreator } from "@/components/video/clip-creator";
 import { ClipsPanel } from "@/components/video/clips-panel";
 import { ClipSuccessModal } from "@/components/video/clip-success-modal";
 import { ParticipantsPanel } from "@/components/video/participants-panel";
-import type { AISummary } from "@/types/video";
+import { CoachingPanel } from "@/components/video/coaching-panel";
+import { CallInsights } from "@/components/video/call-insights";
+import type { AISummary, RecordingInsights, SpeakerConversationStats, TranscriptRedaction } from "@/types/video";
 import type { ParticipantRow } from "@/lib/db";
+import { languageLabel } from "@/lib/translation/languages";
 
 interface VideoView {
   viewType: string;
@@ -31,51 +39,136 @@ interface RecordingPlayerProps {
   activeClip?: Clip | null;
   clips?: Clip[];
   participants?: ParticipantRow[];
+  // Tracker mentions, Gong topics and interaction stats
+  insights?: RecordingInsights;
+  // Seconds to start playback from (the ?t= URL parameter)
+  startTime?: number | null;
+  // Recurring meetings: the previous instance and the digest comparing with it
+  series?: SeriesContext | null;
+  // Per-speaker conversation metrics computed at sync time
+  conversation?: SpeakerConversationStats[];
+  // Personal data redacted from the transcript, bleeped during playback
+  redactions?: TranscriptRedaction[];
+  // Whether the viewer may read the transcript before redaction
+  canViewUnredacted?: boolean;
 }
 
-type LeftPanelTab = "summary" | "transcript" | "clips" | "participants";
+type LeftPanelTab = "summary" | "transcript" | "clips" | "participants" | "coaching";
 
-export function RecordingPlayer({ recording, videoViews = [], summary, activeClip, clips = [], participants = [] }: RecordingPlayerProps) {
+export function RecordingPlayer({ recording, videoViews = [], summary, activeClip, clips = [], participants = [], insights, startTime = null, series = null, conversation = [], redactions = [], canViewUnredacted = false }: RecordingPlayerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const [currentViewIndex, setCurrentViewIndex] = useState(0);
-  const [leftPanelTab, setLeftPanelTab] = useState<LeftPanelTab>("summary");
+  // Linking to a moment (e.g. a search hit) opens the transcript at that point
+  const [leftPanelTab, setLeftPanelTab] = useState<LeftPanelTab>(startTime !== null ? "transcript" : "summary");
   const [captionsEnabled, setCaptionsEnabled] = useState(false);
   const [showLeftPanel, setShowLeftPanel] = useState(true);
   const [isCreatingClip, setIsCreatingClip] = useState(false);
   const [localClips, setLocalClips] = useState<Clip[]>(clips);
   const [createdClipUrl, setCreatedClipUrl] = useState<string | null>(null);
+  // Follows the summary panel so regenerated chapters show on the progress bar
+  const [chapters, setChapters] = useState(summary?.chapters ?? []);
+  const handleSummaryChange = useCallback((updated: AISummary) => {
+    setChapters(updated.chapters);
+  }, []);
 
   const isAudioOnly = recording.mediaType === "audio";
   const mediaRef = isAudioOnly ? audioRef : videoRef;
+  useRedactionBleep(mediaRef, redactions);
 
   const hasTranscript = recording.transcript.length > 0;
 
+  // Transcript and captions in the viewer's language, translated on demand
+  const {
+    language,
+    setLanguage,
+    translation,
+    isTranslating,
+    error: translationError,
+    untranslatedCount,
+    retryUntranslated,
+  } = useTranscriptTranslation(recording.id, recording.language);
+  const translated = useMemo(
+    () => (translation ? applyTranslation(recording.transcript, translation) : recording.transcript),
+    [recording.transcript, translation]
+  );
+  const captionsUrl = `/api/recordings/${encodeURIComponent(recording.id)}/captions`;
+  const captionTracks = useMemo(() => {
+    const tracks: CaptionTrack[] = [
+      {
+        src: captionsUrl,
+        srcLang: recording.language ?? "und",
+        label: recording.language ? languageLabel(recording.language) : "Original",
+      },
+    ];
+    if (translation) {
+      tracks.push({
+        src: `${captionsUrl}?language=${translation.language}`,
+        srcLang: translation.language,
+        label: languageLabel(translation.language),
+      });
+    }
+    return tracks;
+  }, [captionsUrl, recording.language, translation]);
+
+  // Text before redaction by segment id, loaded when a permitted viewer asks.
+  // It's shown as spoken, untranslated
+  const [originals, setOriginals] = useState<Map<string, string> | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [originalError, setOriginalError] = useState<string | null>(null);
+  const transcript = useMemo(
+    () =>
+      showOriginal && originals
+        ? recording.transcript.map((segment) => ({ ...segment, text: originals.get(segment.id) ?? segment.text }))
+        : translated,
+    [recording.transcript, translated, showOriginal, originals]
+  );
+
+  const toggleOriginal = useCallback(async () => {
+    if (showOriginal || originals) {
+      setShowOriginal((prev) => !prev);
+      return;
+    }
+    setOriginalError(null);
+    try {
+      const response = await fetch(`/api/recordings/${encodeURIComponent(recording.id)}/transcript/original`);
+      const data = await response.json() as { originals?: { segmentId: string; text: string }[]; error?: string };
+      if (!response.ok || !data.originals) {
+        throw new Error(data.error || "Failed to load original transcript");
+      }
+      setOriginals(new Map(data.originals.map((original) => [original.segmentId, original.text])));
+      setShowOriginal(true);
+    } catch (error) {
+      setOriginalError(error instanceof Error ? error.message : "Failed to load original transcript");
+    }
+  }, [recording.id, showOriginal, originals]);
+
   // Toggle captions
   const toggleCaptions = useCallback(() => {
     setCaptionsEnabled((prev) => !prev);
   }, []);
 
-  // Seek to clip start when activeClip is set and video loads
+  // Seek to clip start (or the linked start time) when the media loads
+  const initialTime = activeClip?.startTime ?? startTime;
   useEffect(() => {
-    if (!activeClip) return;
-    const video = videoRef.current;
-    if (!video) return;
+    if (initialTime === null) return;
+    const media = mediaRef.current;
+    if (!media) return;
 
     const handleLoadedMetadata = () => {
-      video.currentTime = activeClip.startTime;
+      media.currentTime = initialTime;
     };
 
-    if (video.readyState >= 1) {
-      video.currentTime = activeClip.startTime;
+    if (media.readyState >= 1) {
+      media.currentTime = initialTime;
     } else {
-      video.addEventListener("loadedmetadata", handleLoadedMetadata, { once: true });
+      media.addEventListener("loadedmetadata", handleLoadedMetadata, { once: true });
     }
 
     return () => {
-      video.removeEventListener("loadedmetadata", handleLoadedMetadata);
+      media.removeEventListener("loadedmetadata", handleLoadedMetadata);
     };
-  }, [activeClip]);
+  }, [initialTime, mediaRef]);
 
   // Use the selected view's URL, or fall back to recording.videoUrl
   const currentVideoUrl = videoViews.length > 0
@@ -210,6 +303,21 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
                   </svg>
                   Participants
                 </button>
+                {conversation.length > 0 && (
+                  <button
+                    onClick={() => setLeftPanelTab("coaching")}
+                    className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+                      leftPanelTab === "coaching"
+                        ? "border-b-2 border-indigo-400 text-zinc-200 light:text-zinc-900"
+                        : "text-zinc-500 hover:text-zinc-300 light:hover:text-zinc-700"
+                    }`}
+                  >
+                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                    </svg>
+                    Coaching
+                  </button>
+                )}
               </div>
               <button
                 onClick={() => setShowLeftPanel(false)}
@@ -230,14 +338,70 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
                   recordingId={recording.id}
                   hasTranscript={hasTranscript}
                   embedded
+                  onSeek={seekAndPlay}
+                  onSummaryChange={handleSummaryChange}
+                  series={series}
                 />
               )}
               {leftPanelTab === "transcript" && (
-                <TranscriptPanel
-                  segments={recording.transcript}
-                  currentTime={state.currentTime}
-                  onSeek={seekAndPlay}
-                />
+                <>
+                  <div className="mb-3 flex items-center justify-between gap-2 text-xs text-zinc-500">
+                    <div className="flex items-center gap-2">
+                      <LanguageSelect
+                        value={language}
+                        sourceLanguage={recording.language}
+                        onChange={setLanguage}
+                        disabled={showOriginal}
+                      />
+                      <span>{translationError ?? (isTranslating ? "Translating..." : null)}</span>
+                    </div>
+                    <a
+                      href={translation ? `${captionsUrl}?language=${translation.language}` : captionsUrl}
+                      download
+                      className="shrink-0 text-zinc-400 hover:text-indigo-400 light:text-zinc-600"
+                    >
+                      Download .vtt
+                    </a>
+                  </div>
+                  {translation && untranslatedCount > 0 && !showOriginal && (
+                    <div className="mb-3 flex items-center justify-between gap-2 text-xs text-amber-400 light:text-amber-700">
+                      <span>
+                        {untranslatedCount} line{untranslatedCount !== 1 ? "s" : ""} couldn&apos;t be translated and{" "}
+                        {untranslatedCount !== 1 ? "are" : "is"} shown as spoken
+                      </span>
+                      <button
+                        onClick={retryUntranslated}
+                        disabled={isTranslating}
+                        className="shrink-0 text-zinc-400 hover:text-indigo-400 disabled:opacity-50 light:text-zinc-600"
+                      >
+                        Retry
+                      </button>
+                    </div>
+                  )}
+                  {redactions.length > 0 && (
+                    <div className="mb-3 flex items-center justify-between gap-2 text-xs text-zinc-500">
+                      <span>
+                        {originalError ??
+                          (showOriginal
+                            ? "Showing personal data as it was spoken"
+                            : `${redactions.length} item${redactions.length !== 1 ? "s" : ""} of personal data redacted and bleeped`)}
+                      </span>
+                      {canViewUnredacted && (
+                        <button
+                          onClick={toggleOriginal}
+                          className="shrink-0 text-zinc-400 hover:text-indigo-400 light:text-zinc-600"
+                        >
+                          {showOriginal ? "Show redacted" : "Show original"}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <TranscriptPanel
+                    segments={transcript}
+                    currentTime={state.currentTime}
+                    onSeek={seekAndPlay}
+                  />
+                </>
               )}
               {leftPanelTab === "clips" && (
                 <ClipsPanel
@@ -255,6 +419,9 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
               {leftPanelTab === "participants" && (
                 <ParticipantsPanel participants={participants} />
               )}
+              {leftPanelTab === "coaching" && (
+                <CoachingPanel speakers={conversation} />
+              )}
             </div>
           </div>
         </div>
@@ -294,11 +461,16 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
                   poster={recording.posterUrl}
                   isPlaying={state.isPlaying}
                   onClick={togglePlay}
+                  captionTracks={hasTranscript ? captionTracks : []}
                 />
                 <CaptionOverlay
-                  segments={recording.transcript}
+                  segments={translated}
                   currentTime={state.currentTime}
                   enabled={captionsEnabled}
+                  language={language}
+                  sourceLanguage={recording.language}
+                  onLanguageChange={setLanguage}
+                  isTranslating={isTranslating}
                 />
               </>
             )}
@@ -316,6 +488,8 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
             hasCaptions={hasTranscript && !isAudioOnly}
             activeClip={activeClip}
             clips={localClips}
+            chapters={chapters}
+            trackers={insights?.trackers}
             onTogglePlay={togglePlay}
             onSeek={seek}
             onVolumeChange={setVolume}
@@ -336,6 +510,7 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
               duration={state.duration}
               currentTime={state.currentTime}
               transcript={recording.transcript}
+              redactions={redactions}
               onClose={() => setIsCreatingClip(false)}
               onClipCreated={(clip) => {
                 setLocalClips((prev) => [...prev, clip as Clip]);
@@ -381,6 +556,20 @@ export function RecordingPlayer({ recording, videoViews = [], summary, activeCli
                 currentTime={state.currentTime}
                 onSeek={seek}
                 participants={participants.map(p => ({ name: p.name, email: p.email }))}
+                topics={insights?.topicSpans}
+                conversation={conversation}
+              />
+            </div>
+          )}
+
+          {insights && (
+            <div className="mt-4">
+              <CallInsights
+                trackers={insights.trackers}
+                topics={insights.topics}
+                stats={insights.stats}
+                currentTime={state.currentTime}
+                onSeek={seek}
               />
             </div>
           )}
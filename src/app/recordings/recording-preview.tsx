@@ -3,6 +3,8 @@ interface RecordingPreviewProps {
   previewGifUrl?: string | null;
   title: string;
   duration: number;
+  // Number of transcript hits when shown as a search result
+  hitCount?: number;
 }
 
 function formatDuration(seconds: number): string {
@@ -21,6 +23,7 @@ export function RecordingPreview({
   previewGifUrl,
   title,
   duration,
+  hitCount,
 }: RecordingPreviewProps) {
   return (
     <div className="relative aspect-video w-48 flex-shrink-0 overflow-hidden rounded-lg bg-zinc-800 light:bg-zinc-200">
@@ -66,6 +69,12 @@ export function RecordingPreview({
       <div className="absolute bottom-1 right-1 rounded bg-black/80 px-1 py-0.5 text-[10px] font-medium text-white">
         {formatDuration(duration)}
       </div>
+      {/* Search hit count badge */}
+      {hitCount !== undefined && hitCount > 0 && (
+        <div className="absolute right-1 top-1 rounded bg-yellow-400/90 px-1 py-0.5 text-[10px] font-semibold text-zinc-900">
+          {hitCount} hit{hitCount !== 1 ? "s" : ""}
+        </div>
+      )}
       {/* Play indicator when GIF is available - hidden on hover */}
       {previewGifUrl && (
         <div className="absolute left-1 top-1 rounded bg-black/60 p-0.5 group-hover:opacity-0">
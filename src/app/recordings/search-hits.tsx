@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChevronDownIcon } from "@heroicons/react/20/solid";
+import { highlightSnippet } from "@/lib/highlight";
+import { formatTime } from "@/types/video";
+
+interface SearchHit {
+  segmentId: string;
+  startTime: number;
+  speaker: string | null;
+  snippet: string;
+}
+
+interface SearchHitsProps {
+  recordingId: string;
+  hitCount: number;
+  hits: SearchHit[];
+}
+
+// Expandable list of every transcript moment matching the search;
+// each hit links to the recording at that timestamp
+export function SearchHits({ recordingId, hitCount, hits }: SearchHitsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (hitCount === 0) return null;
+
+  return (
+    <div className="pb-3 pl-56 pr-4">
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        className="flex items-center gap-1 text-xs font-medium text-indigo-400 transition hover:text-indigo-300 light:text-indigo-600 light:hover:text-indigo-500"
+        aria-expanded={isExpanded}
+      >
+        <ChevronDownIcon
+          className={`h-4 w-4 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+        />
+        {hitCount} mention{hitCount !== 1 ? "s" : ""} in transcript
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-2 flex flex-col gap-1 border-l border-white/10 pl-3 light:border-zinc-200">
+          {hits.map((hit) => (
+            <li key={hit.segmentId}>
+              <Link
+                href={`/recordings/${encodeURIComponent(recordingId)}?t=${Math.floor(hit.startTime)}`}
+                className="flex gap-2 rounded-md px-2 py-1 text-xs text-zinc-400 transition hover:bg-white/5 light:text-zinc-500 light:hover:bg-zinc-50"
+              >
+                <span className="shrink-0 font-mono text-indigo-400 light:text-indigo-600">
+                  {formatTime(hit.startTime)}
+                </span>
+                {hit.speaker && (
+                  <span className="shrink-0 text-zinc-500 light:text-zinc-400">{hit.speaker}:</span>
+                )}
+                <span className="line-clamp-2">{highlightSnippet(hit.snippet)}</span>
+              </Link>
+            </li>
+          ))}
+          {hitCount > hits.length && (
+            <li className="px-2 py-1 text-xs text-zinc-500">
+              and {hitCount - hits.length} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,13 @@ import {
   useMemo,
 } from "react";
 import { useSearch } from "./search-context";
+import {
+  isChipToken,
+  searchTokenLabel,
+  serializeSearchQuery,
+  tokenizeSearchQuery,
+  type SearchToken,
+} from "@/lib/search/query";
 
 interface Speaker {
   name: string;
@@ -27,6 +34,32 @@ type FilterItem =
   | { type: "speaker"; data: Speaker }
   | { type: "participant"; data: Participant };
 
+// Split query text into filter chips and the free text left in the input
+function splitQuery(value: string): { chips: SearchToken[]; text: string } {
+  const tokens = tokenizeSearchQuery(value);
+  return {
+    chips: tokens.filter(isChipToken),
+    text: tokens
+      .filter((token) => !isChipToken(token))
+      .map((token) => token.raw)
+      .join(" "),
+  };
+}
+
+function hasOpenQuote(value: string): boolean {
+  return (value.match(/"/g)?.length ?? 0) % 2 === 1;
+}
+
+function chipClassName(token: SearchToken): string {
+  if (token.type === "invalid") {
+    return "bg-red-500/20 text-red-300 hover:bg-red-500/30 light:bg-red-100 light:text-red-700 light:hover:bg-red-200";
+  }
+  if (token.type === "term" || ("negated" in token && token.negated)) {
+    return "bg-rose-500/20 text-rose-300 hover:bg-rose-500/30 light:bg-rose-100 light:text-rose-700 light:hover:bg-rose-200";
+  }
+  return "bg-sky-500/20 text-sky-300 hover:bg-sky-500/30 light:bg-sky-100 light:text-sky-700 light:hover:bg-sky-200";
+}
+
 export function SearchInput({
   defaultValue,
   defaultSpeakers,
@@ -39,7 +72,10 @@ export function SearchInput({
   const router = useRouter();
   const searchParams = useSearchParams();
   const { startSearching } = useSearch();
-  const [query, setQuery] = useState(defaultValue ?? "");
+  const [query, setQuery] = useState(() => splitQuery(defaultValue ?? "").text);
+  const [chips, setChips] = useState<SearchToken[]>(
+    () => splitQuery(defaultValue ?? "").chips
+  );
   const [selectedSpeakers, setSelectedSpeakers] = useState<string[]>(
     defaultSpeakers ?? []
   );
@@ -57,11 +93,12 @@ export function SearchInput({
 
   // Sync state with URL params when they change (e.g., clicking "Clear")
   useEffect(() => {
-    const urlQuery = searchParams.get("q") ?? "";
+    const urlQuery = splitQuery(searchParams.get("q") ?? "");
     const urlSpeakers = searchParams.getAll("speaker");
     const urlParticipant = searchParams.get("participant");
     // eslint-disable-next-line react-hooks/set-state-in-effect
-    setQuery(urlQuery);
+    setQuery(urlQuery.text);
+    setChips(urlQuery.chips);
     setSelectedSpeakers(urlSpeakers);
     setSelectedParticipant(urlParticipant);
   }, [searchParams]);
@@ -179,6 +216,15 @@ export function SearchInput({
 
       setShowDropdown(false);
       setMentionQuery("");
+
+      // Turn completed filter tokens into chips as soon as a space is typed
+      if (/\s$/.test(value) && !hasOpenQuote(value)) {
+        const split = splitQuery(value);
+        if (split.chips.length > 0) {
+          setChips((current) => [...current, ...split.chips]);
+          setQuery(split.text ? `${split.text} ` : "");
+        }
+      }
     },
     []
   );
@@ -223,7 +269,8 @@ export function SearchInput({
         const source = searchParams.get("source");
         if (view) params.set("view", view);
         if (source) params.set("source", source);
-        if (newQuery) params.set("q", newQuery);
+        const fullQuery = serializeSearchQuery(chips, newQuery);
+        if (fullQuery) params.set("q", fullQuery);
         // Add speakers or participant
         if (newSpeakers.length > 0) {
           for (const s of newSpeakers) {
@@ -235,7 +282,7 @@ export function SearchInput({
         router.push(`/?${params.toString()}`);
       });
     },
-    [query, selectedSpeakers, selectedParticipant, searchParams, router, startSearching, startTransition]
+    [query, chips, selectedSpeakers, selectedParticipant, searchParams, router, startSearching, startTransition]
   );
 
   const removeSpeaker = useCallback(
@@ -252,7 +299,8 @@ export function SearchInput({
         const source = searchParams.get("source");
         if (view) params.set("view", view);
         if (source) params.set("source", source);
-        if (query.trim()) params.set("q", query.trim());
+        const fullQuery = serializeSearchQuery(chips, query);
+        if (fullQuery) params.set("q", fullQuery);
         // Add remaining speakers
         for (const s of newSpeakers) {
           params.append("speaker", s);
@@ -262,7 +310,7 @@ export function SearchInput({
 
       inputRef.current?.focus();
     },
-    [selectedSpeakers, query, searchParams, router, startSearching, startTransition]
+    [selectedSpeakers, query, chips, searchParams, router, startSearching, startTransition]
   );
 
   const removeParticipant = useCallback(() => {
@@ -277,15 +325,53 @@ export function SearchInput({
       const source = searchParams.get("source");
       if (view) params.set("view", view);
       if (source) params.set("source", source);
-      if (query.trim()) params.set("q", query.trim());
+      const fullQuery = serializeSearchQuery(chips, query);
+      if (fullQuery) params.set("q", fullQuery);
       router.push(`/?${params.toString()}`);
     });
 
     inputRef.current?.focus();
-  }, [query, searchParams, router, startSearching, startTransition]);
+  }, [query, chips, searchParams, router, startSearching, startTransition]);
+
+  const removeChip = useCallback(
+    (index: number) => {
+      const newChips = chips.filter((_, i) => i !== index);
+      setChips(newChips);
+
+      // Navigate without the removed filter
+      startSearching();
+      startTransition(() => {
+        const params = new URLSearchParams();
+        // Preserve view, source, speaker and participant params
+        const view = searchParams.get("view");
+        const source = searchParams.get("source");
+        if (view) params.set("view", view);
+        if (source) params.set("source", source);
+        const fullQuery = serializeSearchQuery(newChips, query);
+        if (fullQuery) params.set("q", fullQuery);
+        if (selectedSpeakers.length > 0) {
+          for (const s of selectedSpeakers) {
+            params.append("speaker", s);
+          }
+        } else if (selectedParticipant) {
+          params.set("participant", selectedParticipant);
+        }
+        router.push(`/?${params.toString()}`);
+      });
+
+      inputRef.current?.focus();
+    },
+    [chips, query, selectedSpeakers, selectedParticipant, searchParams, router, startSearching, startTransition]
+  );
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // Backspace in an empty input removes the last filter chip
+      if (e.key === "Backspace" && !query && chips.length > 0) {
+        e.preventDefault();
+        removeChip(chips.length - 1);
+        return;
+      }
       if (!showDropdown) return;
 
       if (e.key === "ArrowDown") {
@@ -305,7 +391,7 @@ export function SearchInput({
         setShowDropdown(false);
       }
     },
-    [showDropdown, filteredItems, highlightedIndex, selectItem]
+    [query, chips, removeChip, showDropdown, filteredItems, highlightedIndex, selectItem]
   );
 
   function handleSubmit(e: React.FormEvent) {
@@ -314,6 +400,12 @@ export function SearchInput({
       selectItem(filteredItems[highlightedIndex]);
       return;
     }
+    // Pull any filter tokens still in the input into chips
+    const split = splitQuery(query);
+    const newChips = [...chips, ...split.chips];
+    setChips(newChips);
+    setQuery(split.text);
+
     startSearching();
     startTransition(() => {
       const params = new URLSearchParams();
@@ -322,7 +414,8 @@ export function SearchInput({
       const source = searchParams.get("source");
       if (view) params.set("view", view);
       if (source) params.set("source", source);
-      if (query.trim()) params.set("q", query.trim());
+      const fullQuery = serializeSearchQuery(newChips, split.text);
+      if (fullQuery) params.set("q", fullQuery);
       // Add all speakers or participant
       if (selectedSpeakers.length > 0) {
         for (const s of selectedSpeakers) {
@@ -335,7 +428,7 @@ export function SearchInput({
     });
   }
 
-  const hasFilter = selectedSpeakers.length > 0 || selectedParticipant;
+  const hasFilter = selectedSpeakers.length > 0 || selectedParticipant || chips.length > 0;
 
   return (
     <form onSubmit={handleSubmit} className="relative flex-1">
@@ -387,13 +480,32 @@ export function SearchInput({
             </svg>
           </button>
         )}
+        {chips.map((chip, index) => (
+          <button
+            key={`${chip.raw}-${index}`}
+            type="button"
+            onClick={() => removeChip(index)}
+            title={chip.type === "invalid" ? chip.reason : chip.raw}
+            className={`flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium transition ${chipClassName(chip)}`}
+          >
+            <span>{searchTokenLabel(chip)}</span>
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 16 16"
+              fill="currentColor"
+              className="h-3 w-3"
+            >
+              <path d="M5.28 4.22a.75.75 0 00-1.06 1.06L6.94 8l-2.72 2.72a.75.75 0 101.06 1.06L8 9.06l2.72 2.72a.75.75 0 101.06-1.06L9.06 8l2.72-2.72a.75.75 0 00-1.06-1.06L8 6.94 5.28 4.22z" />
+            </svg>
+          </button>
+        ))}
         <input
           ref={inputRef}
           type="text"
           placeholder={
             hasFilter
               ? "Add more filters or search..."
-              : "Search recordings... (type @ to filter by speaker)"
+              : "Search recordings... (@speaker, from:2025-01-01, has:clips, -word)"
           }
           value={query}
           onChange={handleInputChange}
@@ -1,10 +1,11 @@
 "use client";
 
-import { highlightText } from "@/lib/highlight";
+import { highlightSnippet, highlightText } from "@/lib/highlight";
 import { formatTime } from "@/types/video";
 
 interface SearchMatchDisplayProps {
-  matchType: "title" | "custom_title" | "transcript" | "speaker";
+  matchType: "title" | "custom_title" | "summary" | "transcript" | "speaker";
+  // FTS snippet with marked terms, or the speaker name for speaker matches
   matchText: string;
   matchTime: number | null;
   query: string;
@@ -21,12 +22,14 @@ export function SearchMatchDisplay({
       ? `@${formatTime(matchTime ?? 0)}`
       : matchType === "speaker"
         ? "Speaker"
-        : "Title";
+        : matchType === "summary"
+          ? "Summary"
+          : "Title";
 
   return (
     <div className="mt-1 line-clamp-1 text-xs text-zinc-400 light:text-zinc-500">
       <span className="text-zinc-500 light:text-zinc-400">{label}: </span>
-      {highlightText(matchText, query)}
+      {matchType === "speaker" ? highlightText(matchText, query) : highlightSnippet(matchText)}
     </div>
   );
 }
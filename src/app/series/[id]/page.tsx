@@ -0,0 +1,143 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getMeetingSeriesById, getSeriesInstances, type SeriesInstanceRow } from "@/lib/db";
+import { SERIES_DETECTION_LABELS } from "@/lib/series";
+import { LocalDateTime } from "@/components/local-datetime";
+
+export const metadata: Metadata = {
+  title: "Meeting series - WorkTV",
+};
+
+// Most recent instances shown in the trends
+const TREND_INSTANCES = 26;
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+  year: "numeric",
+  hour: "numeric",
+  minute: "2-digit",
+};
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function formatMinutes(seconds: number): string {
+  return `${Math.round(seconds / 60)} min`;
+}
+
+// One bar per instance, oldest on the left
+function InstanceTrend({
+  title,
+  instances,
+  value,
+  format,
+}: {
+  title: string;
+  instances: SeriesInstanceRow[];
+  value: (instance: SeriesInstanceRow) => number;
+  format: (value: number) => string;
+}) {
+  const max = Math.max(1, ...instances.map(value));
+  const average = instances.reduce((sum, instance) => sum + value(instance), 0) / instances.length;
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+      <div className="flex items-baseline justify-between">
+        <h2 className="text-sm font-semibold">{title}</h2>
+        <span className="text-xs text-zinc-500">Average {format(average)}</span>
+      </div>
+      <div className="mt-4 flex h-24 items-end gap-1">
+        {instances.map((instance) => (
+          <Link
+            key={instance.id}
+            href={`/recordings/${encodeURIComponent(instance.id)}`}
+            className="group flex h-full flex-1 items-end"
+            title={`${formatDate(instance.created_at)}: ${format(value(instance))}`}
+          >
+            <div
+              className={`w-full rounded-t ${value(instance) > 0 ? "bg-indigo-500 group-hover:bg-indigo-400" : "bg-white/5 light:bg-zinc-100"}`}
+              style={{ height: value(instance) > 0 ? `${(value(instance) / max) * 100}%` : "2px" }}
+            />
+          </Link>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-xs text-zinc-500">
+        <span>{formatDate(instances[0].created_at)}</span>
+        <span>{formatDate(instances[instances.length - 1].created_at)}</span>
+      </div>
+    </section>
+  );
+}
+
+export default async function SeriesPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: rawId } = await params;
+  const id = decodeURIComponent(rawId);
+
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent(`/series/${rawId}`)}`);
+  }
+
+  // Series without an instance the viewer can see are indistinguishable from missing ones
+  const series = getMeetingSeriesById(viewer, id);
+  if (!series) {
+    notFound();
+  }
+
+  const instances = getSeriesInstances(viewer, id);
+  const recent = instances.slice(-TREND_INSTANCES);
+
+  return (
+    <div className="mx-auto max-w-4xl">
+      <h1 className="text-xl font-semibold">{series.title}</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        {instances.length} meeting{instances.length !== 1 ? "s" : ""} ·{" "}
+        {SERIES_DETECTION_LABELS[series.detected_by]}
+      </p>
+
+      <div className="mt-6 grid gap-4 sm:grid-cols-2">
+        <InstanceTrend
+          title="Attendance"
+          instances={recent}
+          value={(instance) => instance.attendees}
+          format={(value) => `${Math.round(value)} people`}
+        />
+        <InstanceTrend
+          title="Length"
+          instances={recent}
+          value={(instance) => instance.duration}
+          format={formatMinutes}
+        />
+      </div>
+
+      <section className="mt-6 rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+        <h2 className="text-sm font-semibold">Meetings</h2>
+        <ul className="mt-2 divide-y divide-white/5 light:divide-zinc-100">
+          {[...instances].reverse().map((instance) => (
+            <li key={instance.id} className="flex items-start justify-between gap-3 py-2 text-sm">
+              <div className="min-w-0">
+                <Link href={`/recordings/${encodeURIComponent(instance.id)}`} className="hover:text-indigo-400">
+                  {instance.custom_title ?? instance.title}
+                </Link>
+                <p className="mt-0.5 text-xs text-zinc-500">
+                  <LocalDateTime iso={instance.created_at} options={DATE_OPTIONS} />
+                </p>
+              </div>
+              <div className="shrink-0 text-right text-xs tabular-nums text-zinc-500">
+                <div>{formatMinutes(instance.duration)}</div>
+                <div>
+                  {instance.attendees} attendee{instance.attendees !== 1 ? "s" : ""}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import {
+  getKeywordTrackerById,
+  getKeywordTrackerRecordings,
+  getKeywordTrackerTrend,
+} from "@/lib/db";
+import { LocalDateTime } from "@/components/local-datetime";
+import { formatTime } from "@/types/video";
+
+export const metadata: Metadata = {
+  title: "Tracker - WorkTV",
+};
+
+// Most recent weeks shown in the trend
+const TREND_WEEKS = 26;
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" };
+
+// Monday (UTC) of the week `date` falls in, as YYYY-MM-DD
+function weekStart(date: Date): string {
+  const monday = new Date(date);
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+// The last TREND_WEEKS weeks, including ones without mentions
+function fillWeeks(
+  trend: { week: string; mentions: number; recordings: number }[],
+  now: Date
+): { week: string; mentions: number; recordings: number }[] {
+  const byWeek = new Map(trend.map((row) => [row.week, row]));
+  const weeks = [];
+  const cursor = new Date(`${weekStart(now)}T00:00:00Z`);
+  cursor.setUTCDate(cursor.getUTCDate() - (TREND_WEEKS - 1) * 7);
+  for (let i = 0; i < TREND_WEEKS; i++) {
+    const week = cursor.toISOString().slice(0, 10);
+    weeks.push(byWeek.get(week) ?? { week, mentions: 0, recordings: 0 });
+    cursor.setUTCDate(cursor.getUTCDate() + 7);
+  }
+  return weeks;
+}
+
+function formatWeek(week: string): string {
+  return new Date(`${week}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export default async function TrackerPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: rawId } = await params;
+  const id = decodeURIComponent(rawId);
+
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent(`/trackers/${rawId}`)}`);
+  }
+
+  const tracker = getKeywordTrackerById(id);
+  if (!tracker) {
+    notFound();
+  }
+
+  const weeks = fillWeeks(getKeywordTrackerTrend(viewer, id), new Date());
+  const maxMentions = Math.max(1, ...weeks.map((week) => week.mentions));
+  const recordings = getKeywordTrackerRecordings(viewer, id);
+  const totalMentions = recordings.reduce((sum, recording) => sum + recording.mentions, 0);
+
+  return (
+    <div className="mx-auto max-w-4xl">
+      <Link href="/trackers" className="text-xs text-zinc-500 hover:text-indigo-400">
+        ← Trackers
+      </Link>
+      <h1 className="mt-1 text-xl font-semibold">{tracker.name}</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">{tracker.phrases.join(", ")}</p>
+
+      <section className="mt-6 rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-sm font-semibold">Mentions per week</h2>
+          <span className="text-xs text-zinc-500">
+            {totalMentions} in {recordings.length} recording{recordings.length !== 1 ? "s" : ""} overall
+          </span>
+        </div>
+        <div className="mt-4 flex h-32 items-end gap-1">
+          {weeks.map((week) => (
+            <div
+              key={week.week}
+              className="group relative flex h-full flex-1 items-end"
+              title={`Week of ${formatWeek(week.week)}: ${week.mentions} mentions in ${week.recordings} recordings`}
+            >
+              <div
+                className={`w-full rounded-t ${week.mentions > 0 ? "bg-indigo-500 group-hover:bg-indigo-400" : "bg-white/5 light:bg-zinc-100"}`}
+                style={{ height: week.mentions > 0 ? `${(week.mentions / maxMentions) * 100}%` : "2px" }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="mt-1 flex justify-between text-xs text-zinc-500">
+          <span>{formatWeek(weeks[0].week)}</span>
+          <span>This week</span>
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-2xl border border-white/10 bg-zinc-900/50 p-5 light:border-zinc-200 light:bg-white">
+        <h2 className="text-sm font-semibold">Recordings</h2>
+        {recordings.length === 0 ? (
+          <p className="mt-2 text-sm text-zinc-500">No mentions in recordings you can see.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-white/5 light:divide-zinc-100">
+            {recordings.map((recording) => (
+              <li key={recording.id} className="flex items-start justify-between gap-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <Link
+                    href={`/recordings/${encodeURIComponent(recording.id)}?t=${Math.floor(recording.first_mention)}`}
+                    className="hover:text-indigo-400"
+                  >
+                    {recording.custom_title ?? recording.title}
+                  </Link>
+                  <p className="mt-0.5 truncate text-xs text-zinc-500">
+                    {recording.matched_phrases.split(",").join(", ")} · first at{" "}
+                    {formatTime(recording.first_mention)}
+                  </p>
+                </div>
+                <div className="shrink-0 text-right text-xs text-zinc-500">
+                  <div className="tabular-nums">
+                    {recording.mentions} mention{recording.mentions !== 1 ? "s" : ""}
+                  </div>
+                  <LocalDateTime iso={recording.created_at} options={DATE_OPTIONS} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import { getViewer } from "@/lib/auth";
+import { getKeywordTrackers } from "@/lib/db";
+import { TrackersList } from "./trackers-list";
+
+export const metadata: Metadata = {
+  title: "Trackers - WorkTV",
+};
+
+export default async function TrackersPage() {
+  const viewer = await getViewer();
+  if (!viewer) {
+    redirect(`/login?returnTo=${encodeURIComponent("/trackers")}`);
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl">
+      <h1 className="text-xl font-semibold">Trackers</h1>
+      <p className="mt-1 text-sm text-zinc-400 light:text-zinc-600">
+        Keyword groups followed across every Zoom and Gong transcript. Mentions show on each
+        recording&apos;s progress bar and can be searched with <code>tracker:&quot;Name&quot;</code>.
+      </p>
+      <TrackersList initialTrackers={getKeywordTrackers(viewer)} canEdit={viewer.isAdmin} />
+    </div>
+  );
+}
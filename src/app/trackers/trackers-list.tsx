@@ -0,0 +1,209 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { PencilIcon, PlusIcon, TrashIcon } from "@heroicons/react/20/solid";
+import { ConfirmModal } from "@/components/ui/confirm-modal";
+import { LocalDateTime } from "@/components/local-datetime";
+import type { KeywordTrackerSummary } from "@/lib/db";
+import type { KeywordTracker } from "@/lib/search/trackers";
+
+interface TrackersListProps {
+  initialTrackers: KeywordTrackerSummary[];
+  canEdit: boolean;
+}
+
+// null id while creating a new tracker
+interface Draft {
+  id: string | null;
+  name: string;
+  phrases: string;
+}
+
+const INPUT_CLASS =
+  "mt-1 w-full rounded-md border border-white/10 bg-zinc-950 px-2 py-1.5 text-sm text-zinc-200 outline-none focus:border-indigo-500 light:border-zinc-300 light:bg-white light:text-zinc-800";
+const LABEL_CLASS = "block text-xs text-zinc-400 light:text-zinc-500";
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" };
+
+export function TrackersList({ initialTrackers, canEdit }: TrackersListProps) {
+  const [trackers, setTrackers] = useState(initialTrackers);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<KeywordTrackerSummary | null>(null);
+
+  // Counts depend on visibility, so reload them rather than patching locally
+  const refresh = async () => {
+    const response = await fetch("/api/trackers");
+    const data = await response.json() as { trackers?: KeywordTrackerSummary[] };
+    if (response.ok && data.trackers) setTrackers(data.trackers);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        draft.id ? `/api/trackers/${encodeURIComponent(draft.id)}` : "/api/trackers",
+        {
+          method: draft.id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: draft.name, phrases: draft.phrases }),
+        }
+      );
+      const data = await response.json() as { tracker?: KeywordTracker; error?: string };
+      if (!response.ok || !data.tracker) {
+        throw new Error(data.error || "Failed to save tracker");
+      }
+      setDraft(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save tracker");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (tracker: KeywordTrackerSummary) => {
+    setConfirmDelete(null);
+    setError(null);
+    try {
+      const response = await fetch(`/api/trackers/${encodeURIComponent(tracker.id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to delete tracker");
+      }
+      setTrackers((prev) => prev.filter((t) => t.id !== tracker.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete tracker");
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      {canEdit && !draft && (
+        <button
+          onClick={() => {
+            setDraft({ id: null, name: "", phrases: "" });
+            setError(null);
+          }}
+          className="flex items-center gap-1.5 rounded-lg bg-indigo-500 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-indigo-400"
+        >
+          <PlusIcon className="h-4 w-4" />
+          New tracker
+        </button>
+      )}
+
+      {draft && (
+        <div className="rounded-2xl border border-white/10 bg-zinc-900/50 p-4 light:border-zinc-200 light:bg-white">
+          <label className={LABEL_CLASS}>
+            Name
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Competitors"
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className={`${LABEL_CLASS} mt-3`}>
+            Phrases, separated by commas or new lines
+            <textarea
+              value={draft.phrases}
+              onChange={(e) => setDraft({ ...draft, phrases: e.target.value })}
+              placeholder="Okta, Auth0, Clerk"
+              rows={3}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <p className="mt-2 text-xs text-zinc-500">
+            Matched as whole words, ignoring case. Saving runs the tracker over every transcript.
+          </p>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-lg bg-indigo-500 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-indigo-400 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="rounded-lg px-3 py-1.5 text-xs text-zinc-400 transition hover:text-zinc-200 light:text-zinc-600 light:hover:text-zinc-900"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-400 light:text-red-600">{error}</p>}
+
+      {trackers.length === 0 ? (
+        <p className="mt-8 text-center text-sm text-zinc-500">
+          No trackers yet.{canEdit ? "" : " An admin can add them."}
+        </p>
+      ) : (
+        <ul className="mt-4 divide-y divide-white/5 rounded-2xl border border-white/10 bg-zinc-900/50 light:divide-zinc-100 light:border-zinc-200 light:bg-white">
+          {trackers.map((tracker) => (
+            <li key={tracker.id} className="flex items-start gap-3 px-4 py-3">
+              <div className="min-w-0 flex-1">
+                <Link
+                  href={`/trackers/${encodeURIComponent(tracker.id)}`}
+                  className="text-sm font-medium hover:text-indigo-400"
+                >
+                  {tracker.name}
+                </Link>
+                <p className="mt-0.5 truncate text-xs text-zinc-500">{tracker.phrases.join(", ")}</p>
+              </div>
+              <div className="shrink-0 text-right text-xs text-zinc-500">
+                <div className="tabular-nums">
+                  {tracker.mentions} mention{tracker.mentions !== 1 ? "s" : ""} in {tracker.recordings} recording
+                  {tracker.recordings !== 1 ? "s" : ""}
+                </div>
+                {tracker.lastMentionedAt && (
+                  <div>
+                    Last <LocalDateTime iso={tracker.lastMentionedAt} options={DATE_OPTIONS} />
+                  </div>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    onClick={() => {
+                      setDraft({ id: tracker.id, name: tracker.name, phrases: tracker.phrases.join(", ") });
+                      setError(null);
+                    }}
+                    className="rounded p-1 text-zinc-500 transition hover:text-zinc-200 light:hover:text-zinc-900"
+                    aria-label={`Edit ${tracker.name}`}
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(tracker)}
+                    className="rounded p-1 text-zinc-500 transition hover:text-red-400"
+                    aria-label={`Delete ${tracker.name}`}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {confirmDelete && (
+        <ConfirmModal
+          title="Delete tracker"
+          message={`Delete "${confirmDelete.name}" and its ${confirmDelete.mentions} mentions? Transcripts are not affected.`}
+          confirmLabel="Delete"
+          isDestructive
+          onConfirm={() => handleDelete(confirmDelete)}
+          onCancel={() => setConfirmDelete(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect, useRef, type FormEvent, type ReactNode } from "react";
+import { ArrowPathIcon, PaperAirplaneIcon } from "@heroicons/react/20/solid";
+
+interface TimestampCitation {
+  label: string;
+  startTime: number;
+}
+
+interface ConversationMessage {
+  id: number;
+  role: "user" | "assistant";
+  content: string;
+  citations: TimestampCitation[];
+  createdAt: string;
+}
+
+interface RecordingChatProps {
+  recordingId: string;
+  onSeek?: (time: number) => void;
+}
+
+// Replace [m:ss] citations with buttons that seek the player
+function renderAnswer(
+  message: ConversationMessage,
+  onSeek?: (time: number) => void
+): ReactNode[] {
+  const byLabel = new Map(message.citations.map((citation) => [citation.label, citation]));
+
+  return message.content.split(/(\[\d+:\d{2}(?::\d{2})?\])/g).map((part, i) => {
+    const citation = byLabel.get(part);
+    if (!citation) return part;
+
+    return (
+      <button
+        key={i}
+        onClick={() => onSeek?.(citation.startTime)}
+        className="mx-0.5 rounded bg-indigo-500/20 px-1 font-mono text-xs text-indigo-300 transition hover:bg-indigo-500/30 light:bg-indigo-100 light:text-indigo-700 light:hover:bg-indigo-200"
+        title="Jump to this moment"
+      >
+        {citation.label.slice(1, -1)}
+      </button>
+    );
+  });
+}
+
+// Follow-up questions about this recording, saved per user
+export function RecordingChat({ recordingId, onSeek }: RecordingChatProps) {
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
+  const [question, setQuestion] = useState("");
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Load the saved conversation when the recording changes
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/recordings/${encodeURIComponent(recordingId)}/conversation`)
+      .then(async (response) => {
+        const data = await response.json() as { messages?: ConversationMessage[]; error?: string };
+        if (!response.ok) throw new Error(data.error || "Failed to load conversation");
+        if (!cancelled) setMessages(data.messages ?? []);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load conversation");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [recordingId]);
+
+  // Keep the latest answer in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages, isAsking]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || isAsking) return;
+
+    setIsAsking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/recordings/${encodeURIComponent(recordingId)}/conversation`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question: trimmed }),
+      });
+      const data = await response.json() as { messages?: ConversationMessage[]; error?: string };
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to answer question");
+      }
+      setMessages((prev) => [...prev, ...(data.messages ?? [])]);
+      setQuestion("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to answer question");
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const clearConversation = async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/recordings/${encodeURIComponent(recordingId)}/conversation`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to clear conversation");
+      }
+      setMessages([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to clear conversation");
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-white/10 pt-4 light:border-zinc-200">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Ask about this call
+        </h4>
+        {messages.length > 0 && (
+          <button
+            onClick={clearConversation}
+            disabled={isAsking}
+            className="rounded-lg px-2 py-1 text-xs text-zinc-500 transition hover:bg-zinc-800 hover:text-zinc-300 disabled:opacity-50 light:hover:bg-zinc-100 light:hover:text-zinc-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {(messages.length > 0 || isAsking) && (
+        <div ref={listRef} className="mt-3 flex max-h-96 flex-col gap-3 overflow-y-auto">
+          {messages.map((message) =>
+            message.role === "user" ? (
+              <div
+                key={message.id}
+                className="ml-8 self-end rounded-lg bg-indigo-500/20 px-3 py-2 text-sm text-zinc-200 light:bg-indigo-50 light:text-zinc-800"
+              >
+                {message.content}
+              </div>
+            ) : (
+              <div
+                key={message.id}
+                className="mr-8 whitespace-pre-wrap text-sm leading-relaxed text-zinc-300 light:text-zinc-600"
+              >
+                {renderAnswer(message, onSeek)}
+              </div>
+            )
+          )}
+          {isAsking && (
+            <div className="flex items-center gap-2 text-sm text-zinc-500">
+              <ArrowPathIcon className="h-4 w-4 animate-spin text-indigo-400" />
+              Thinking...
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 rounded-lg bg-red-500/10 p-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="What did they decide about pricing?"
+          disabled={isAsking}
+          className="flex-1 rounded-lg border border-white/10 bg-zinc-900 px-3 py-1.5 text-sm text-zinc-100 placeholder-zinc-500 focus:border-indigo-500 focus:outline-none disabled:opacity-50 light:border-zinc-300 light:bg-white light:text-zinc-900"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="flex items-center rounded-lg bg-indigo-500 px-3 py-1.5 text-white transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          title="Ask"
+        >
+          <PaperAirplaneIcon className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { LocalDateTime } from "@/components/local-datetime";
+import {
+  formatTime,
+  type SeriesActionItemStatus,
+  type SeriesDigest,
+} from "@/types/video";
+
+// A recurring meeting's place in its series, for the digest at the top of the summary
+export interface SeriesContext {
+  // The most recent earlier instance the viewer can see
+  previous: { id: string; createdAt: string };
+  // Stored digest for the viewer's instances, if one was generated
+  digest: SeriesDigest | null;
+}
+
+const STATUS_STYLES: Record<SeriesActionItemStatus, { icon: string; label: string; className: string }> = {
+  addressed: { icon: "✓", label: "Addressed", className: "text-emerald-400 light:text-emerald-600" },
+  "not-addressed": { icon: "✗", label: "Not addressed", className: "text-red-400 light:text-red-600" },
+  unclear: { icon: "?", label: "Didn't come up", className: "text-zinc-500" },
+};
+
+const DATE_OPTIONS: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+
+function Timestamp({ time, onSeek }: { time: number | null; onSeek?: (time: number) => void }) {
+  if (time === null) return null;
+  return (
+    <button
+      onClick={() => onSeek?.(time)}
+      className="shrink-0 font-mono text-xs text-indigo-400 transition hover:text-indigo-300 light:text-indigo-600 light:hover:text-indigo-500"
+      title="Jump to this moment"
+    >
+      {formatTime(time)}
+    </button>
+  );
+}
+
+// Generated on first view when there's no stored digest
+export function SeriesDigestCard({
+  recordingId,
+  series,
+  onSeek,
+}: {
+  recordingId: string;
+  series: SeriesContext;
+  onSeek?: (time: number) => void;
+}) {
+  const [digest, setDigest] = useState(series.digest);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const autoGenerated = useRef(false);
+
+  const generate = useCallback(async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/recordings/${encodeURIComponent(recordingId)}/series-digest`, {
+        method: "POST",
+      });
+      const data = await response.json().catch(() => ({})) as { digest?: SeriesDigest; error?: string };
+      if (!response.ok || !data.digest) {
+        throw new Error(data.error || `Failed to compare with the previous meeting (${response.status})`);
+      }
+      setDigest(data.digest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to compare with the previous meeting");
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [recordingId]);
+
+  useEffect(() => {
+    if (!digest && !autoGenerated.current) {
+      autoGenerated.current = true;
+      generate();
+    }
+  }, [digest, generate]);
+
+  const previous = digest?.previous[0] ?? series.previous;
+  const previousLink = (
+    <Link
+      href={`/recordings/${encodeURIComponent(previous.id)}`}
+      className="text-indigo-400 transition hover:text-indigo-300 light:text-indigo-600 light:hover:text-indigo-500"
+    >
+      <LocalDateTime iso={previous.createdAt} options={DATE_OPTIONS} />
+    </Link>
+  );
+
+  return (
+    <div className="mb-4 rounded-xl border border-indigo-500/20 bg-indigo-500/5 p-3 light:border-indigo-200 light:bg-indigo-50/50">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+          Since {previousLink}
+        </h4>
+        {digest && (
+          <button
+            onClick={generate}
+            disabled={isGenerating}
+            className="text-xs text-zinc-500 transition hover:text-zinc-300 disabled:opacity-50 light:hover:text-zinc-700"
+          >
+            {isGenerating ? "Regenerating..." : "Regenerate"}
+          </button>
+        )}
+      </div>
+
+      {!digest && isGenerating && (
+        <p className="mt-2 text-sm text-zinc-400">Comparing with the previous meeting...</p>
+      )}
+
+      {error && (
+        <p className="mt-2 flex items-center gap-3 text-sm text-red-400">
+          <span className="flex-1">{error}</span>
+          {!digest && (
+            <button
+              onClick={generate}
+              disabled={isGenerating}
+              className="rounded-lg bg-red-500/20 px-3 py-1 text-xs transition hover:bg-red-500/30 disabled:opacity-50"
+            >
+              Retry
+            </button>
+          )}
+        </p>
+      )}
+
+      {digest && (
+        <>
+          {digest.brief && (
+            <p className="mt-2 text-sm leading-relaxed text-zinc-300 light:text-zinc-600">{digest.brief}</p>
+          )}
+
+          {digest.whatsNew.length > 0 && (
+            <div className="mt-3">
+              <h5 className="text-xs font-medium text-zinc-500">What&apos;s new</h5>
+              <ul className="mt-1 space-y-1">
+                {digest.whatsNew.map((item, i) => (
+                  <li key={i} className="flex gap-2 text-sm text-zinc-300 light:text-zinc-600">
+                    <span className="text-zinc-500">+</span>
+                    <span className="flex-1">{item.text}</span>
+                    <Timestamp time={item.timestamp} onSeek={onSeek} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {digest.changedDecisions.length > 0 && (
+            <div className="mt-3">
+              <h5 className="text-xs font-medium text-zinc-500">Changed decisions</h5>
+              <ul className="mt-1 space-y-1">
+                {digest.changedDecisions.map((item, i) => (
+                  <li key={i} className="flex gap-2 text-sm text-zinc-300 light:text-zinc-600">
+                    <span className="text-amber-400">↻</span>
+                    <span className="flex-1">
+                      {item.text}
+                      {item.previously && (
+                        <span className="block text-xs text-zinc-500">was: {item.previously}</span>
+                      )}
+                    </span>
+                    <Timestamp time={item.timestamp} onSeek={onSeek} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {digest.actionItems.length > 0 && (
+            <div className="mt-3">
+              <h5 className="text-xs font-medium text-zinc-500">Action items from last time</h5>
+              <ul className="mt-1 space-y-1">
+                {digest.actionItems.map((item, i) => {
+                  const status = STATUS_STYLES[item.status];
+                  return (
+                    <li key={i} className="flex gap-2 text-sm text-zinc-300 light:text-zinc-600">
+                      <span className={status.className} title={status.label}>
+                        {status.icon}
+                      </span>
+                      <span className="flex-1">
+                        {item.text}
+                        {item.owner && <span className="ml-2 text-xs text-zinc-500">{item.owner}</span>}
+                        {item.notes && <span className="block text-xs text-zinc-500">{item.notes}</span>}
+                      </span>
+                      <Timestamp time={item.timestamp} onSeek={onSeek} />
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {digest.whatsNew.length === 0 &&
+            digest.changedDecisions.length === 0 &&
+            digest.actionItems.length === 0 &&
+            !digest.brief && (
+              <p className="mt-2 text-sm text-zinc-500">Nothing changed since the previous meeting.</p>
+            )}
+        </>
+      )}
+    </div>
+  );
+}
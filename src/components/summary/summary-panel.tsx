@@ -1,7 +1,10 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { AISummary } from "@/types/video";
+import { formatTime, type AISummary, type SummaryMoment, type SummarySentiment } from "@/types/video";
+import type { SummaryTemplate } from "@/lib/ai/summary-templates";
+import { RecordingChat } from "./recording-chat";
+import { SeriesDigestCard, type SeriesContext } from "./series-digest";
 
 interface SummaryPanelProps {
   summary: AISummary | null;
@@ -9,23 +12,84 @@ interface SummaryPanelProps {
   hasTranscript: boolean;
   onToggleVisibility?: () => void;
   embedded?: boolean;
+  // Seeks the player when a chapter or timestamp citation is clicked
+  onSeek?: (time: number) => void;
+  // Called after regeneration, e.g. to refresh chapter markers on the progress bar
+  onSummaryChange?: (summary: AISummary) => void;
+  // Set for recurring meetings with an earlier instance
+  series?: SeriesContext | null;
 }
 
-export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisibility, embedded = false }: SummaryPanelProps) {
+const SENTIMENT_STYLES: Record<SummarySentiment, string> = {
+  positive: "bg-emerald-500/15 text-emerald-400 light:bg-emerald-50 light:text-emerald-700",
+  neutral: "bg-zinc-500/15 text-zinc-400 light:bg-zinc-100 light:text-zinc-600",
+  negative: "bg-red-500/15 text-red-400 light:bg-red-50 light:text-red-700",
+  mixed: "bg-amber-500/15 text-amber-400 light:bg-amber-50 light:text-amber-700",
+};
+
+function TimestampButton({ time, onSeek }: { time: number | null; onSeek?: (time: number) => void }) {
+  if (time === null) return null;
+  return (
+    <button
+      onClick={() => onSeek?.(time)}
+      className="shrink-0 font-mono text-xs text-indigo-400 transition hover:text-indigo-300 light:text-indigo-600 light:hover:text-indigo-500"
+      title="Jump to this moment"
+    >
+      {formatTime(time)}
+    </button>
+  );
+}
+
+function MomentList({
+  title,
+  items,
+  bullet,
+  onSeek,
+}: {
+  title: string;
+  items: SummaryMoment[];
+  bullet: string;
+  onSeek?: (time: number) => void;
+}) {
+  if (items.length === 0) return null;
+  return (
+    <div className="mt-4">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-zinc-500">{title}</h4>
+      <ul className="mt-2 space-y-1">
+        {items.map((item, i) => (
+          <li key={i} className="flex gap-2 text-sm text-zinc-300 light:text-zinc-600">
+            <span className="text-zinc-500">{bullet}</span>
+            <span className="flex-1">{item.text}</span>
+            <TimestampButton time={item.timestamp} onSeek={onSeek} />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisibility, embedded = false, onSeek, onSummaryChange, series = null }: SummaryPanelProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [currentSummary, setCurrentSummary] = useState(summary);
   const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<SummaryTemplate[]>([]);
+  // "" lets the server pick the template that matches the meeting
+  const [templateId, setTemplateId] = useState("");
+  // Bumped on regeneration; the stored series digest was built from the old summary
+  const [summaryRevision, setSummaryRevision] = useState(0);
 
   // Track which recordings we've attempted auto-generation for
   const autoGeneratedFor = useRef<Set<string>>(new Set());
 
-  const generateSummary = useCallback(async () => {
+  const generateSummary = useCallback(async (withTemplateId = "") => {
     setIsGenerating(true);
     setError(null);
 
     try {
       const response = await fetch(`/api/recordings/${encodeURIComponent(recordingId)}/summary`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(withTemplateId ? { templateId: withTemplateId } : {}),
       });
 
       if (!response.ok) {
@@ -39,21 +103,45 @@ export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisi
         throw new Error(errorMessage);
       }
 
-      const data = await response.json() as { summary: { brief: string; keyPoints: string[]; nextSteps: string[] } };
+      const data = await response.json() as { summary: AISummary };
       setCurrentSummary(data.summary);
+      setSummaryRevision((revision) => revision + 1);
+      onSummaryChange?.(data.summary);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to generate summary");
     } finally {
       setIsGenerating(false);
     }
-  }, [recordingId]);
+  }, [recordingId, onSummaryChange]);
 
   // Reset state when navigating to a different recording
   useEffect(() => {
     setCurrentSummary(summary);
     setError(null);
+    setTemplateId("");
+    setSummaryRevision(0);
   }, [summary, recordingId]);
 
+  // Templates for the picker next to Regenerate
+  useEffect(() => {
+    if (!hasTranscript) return;
+    let cancelled = false;
+
+    fetch("/api/summary-templates")
+      .then(async (response) => {
+        if (!response.ok) return;
+        const data = await response.json() as { templates?: SummaryTemplate[] };
+        if (!cancelled) setTemplates(data.templates ?? []);
+      })
+      .catch(() => {
+        // Without the list, regenerating still auto-detects the template
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [hasTranscript]);
+
   // Auto-generate summary if none exists and transcript is available
   useEffect(() => {
     if (
@@ -113,7 +201,7 @@ export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisi
       <div className="flex items-center justify-between gap-3">
         <span className="flex-1 text-sm text-red-400">{error}</span>
         <button
-          onClick={generateSummary}
+          onClick={() => generateSummary()}
           className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs text-red-400 transition hover:bg-red-500/30"
         >
           Retry
@@ -160,11 +248,64 @@ export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisi
         </div>
       )}
 
+      {series && (
+        <SeriesDigestCard
+          key={`${recordingId}-${summaryRevision}`}
+          recordingId={recordingId}
+          series={summaryRevision === 0 ? series : { ...series, digest: null }}
+          onSeek={onSeek}
+        />
+      )}
+
       {/* Brief */}
       <p className="text-sm leading-relaxed text-zinc-300 light:text-zinc-600">
         {currentSummary.brief}
       </p>
 
+      {currentSummary.sentiment && (
+        <p className="mt-3 flex items-start gap-2 text-xs text-zinc-400 light:text-zinc-500">
+          <span
+            className={`shrink-0 rounded-full px-2 py-0.5 font-medium capitalize ${SENTIMENT_STYLES[currentSummary.sentiment.overall]}`}
+          >
+            {currentSummary.sentiment.overall}
+          </span>
+          <span>{currentSummary.sentiment.notes}</span>
+        </p>
+      )}
+
+      {/* Chapters */}
+      {currentSummary.chapters.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
+            Chapters
+          </h4>
+          <ol className="mt-2 space-y-0.5">
+            {currentSummary.chapters.map((chapter, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => onSeek?.(chapter.startTime)}
+                  className="flex w-full gap-3 rounded-md px-2 py-1 text-left transition hover:bg-white/5 light:hover:bg-zinc-50"
+                >
+                  <span className="w-12 shrink-0 font-mono text-xs leading-5 text-indigo-400 light:text-indigo-600">
+                    {formatTime(chapter.startTime)}
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium text-zinc-200 light:text-zinc-800">
+                      {chapter.title}
+                    </span>
+                    {chapter.summary && (
+                      <span className="block text-xs text-zinc-400 light:text-zinc-500">
+                        {chapter.summary}
+                      </span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* Key Points */}
       {currentSummary.keyPoints.length > 0 && (
         <div className="mt-4">
@@ -185,36 +326,67 @@ export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisi
         </div>
       )}
 
-      {/* Next Steps */}
-      {currentSummary.nextSteps.length > 0 && (
+      {currentSummary.sections.map((section) => (
+        <MomentList key={section.id} title={section.title} items={section.items} bullet="•" onSeek={onSeek} />
+      ))}
+
+      <MomentList title="Decisions" items={currentSummary.decisions} bullet="✓" onSeek={onSeek} />
+      <MomentList title="Open Questions" items={currentSummary.openQuestions} bullet="?" onSeek={onSeek} />
+      <MomentList title="Risks & Objections" items={currentSummary.risks} bullet="!" onSeek={onSeek} />
+
+      {/* Action Items */}
+      {currentSummary.actionItems.length > 0 && (
         <div className="mt-4">
           <h4 className="text-xs font-semibold uppercase tracking-wide text-zinc-500">
-            Next Steps
+            Action Items
           </h4>
           <ul className="mt-2 space-y-1">
-            {currentSummary.nextSteps.map((step, i) => {
-              // Handle both string and object formats
-              const text = typeof step === "string"
-                ? step
-                : (step as { action?: string; owner?: string }).action || JSON.stringify(step);
-              return (
-                <li
-                  key={i}
-                  className="flex gap-2 text-sm text-zinc-300 light:text-zinc-600"
-                >
-                  <span className="text-indigo-400">→</span>
-                  <span>{text}</span>
-                </li>
-              );
-            })}
+            {currentSummary.actionItems.map((item, i) => (
+              <li
+                key={i}
+                className="flex gap-2 text-sm text-zinc-300 light:text-zinc-600"
+              >
+                <span className="text-indigo-400">→</span>
+                <span className="flex-1">
+                  {item.text}
+                  {(item.owner || item.dueDate) && (
+                    <span className="ml-2 text-xs text-zinc-500">
+                      {[item.owner, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(" · ")}
+                    </span>
+                  )}
+                </span>
+                <TimestampButton time={item.timestamp} onSeek={onSeek} />
+              </li>
+            ))}
           </ul>
         </div>
       )}
 
-      {/* Regenerate button */}
-      <div className="mt-4 flex justify-end">
+      {/* Template picker and regenerate button */}
+      <div className="mt-4 flex items-center justify-end gap-2">
+        {currentSummary.template && (
+          <span className="mr-auto text-xs text-zinc-500">
+            {currentSummary.template.name} template
+          </span>
+        )}
+        {templates.length > 0 && (
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            disabled={isGenerating}
+            className="rounded-lg border border-white/10 bg-zinc-900 px-2 py-1 text-xs text-zinc-400 outline-none focus:border-indigo-500 disabled:opacity-50 light:border-zinc-300 light:bg-white light:text-zinc-600"
+            title="Template to regenerate with"
+          >
+            <option value="">Auto-detect template</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        )}
         <button
-          onClick={generateSummary}
+          onClick={() => generateSummary(templateId)}
           disabled={isGenerating}
           className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs text-zinc-400 transition hover:bg-zinc-800 hover:text-zinc-200 disabled:opacity-50 light:hover:bg-zinc-100 light:hover:text-zinc-700"
         >
@@ -234,6 +406,8 @@ export function SummaryPanel({ summary, recordingId, hasTranscript, onToggleVisi
           {isGenerating ? "Regenerating..." : "Regenerate"}
         </button>
       </div>
+
+      <RecordingChat recordingId={recordingId} onSeek={onSeek} />
     </>
   );
 
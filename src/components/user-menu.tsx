@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { getCurrentUser } from "@/lib/auth";
+
+export async function UserMenu() {
+  const user = await getCurrentUser();
+  if (!user) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      {user.role === "admin" && (
+        <>
+          <Link
+            href="/admin/summary-templates"
+            className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+          >
+            Templates
+          </Link>
+          <Link
+            href="/admin/ai-usage"
+            className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+          >
+            AI usage
+          </Link>
+        </>
+      )}
+      <span
+        className="hidden text-sm text-zinc-400 sm:inline light:text-zinc-600"
+        title={user.email}
+      >
+        {user.name ?? user.email}
+      </span>
+      <form action="/api/auth/logout" method="post">
+        <button
+          type="submit"
+          className="rounded-lg px-2 py-1.5 text-sm text-zinc-400 transition hover:bg-white/10 hover:text-zinc-200 light:text-zinc-600 light:hover:bg-zinc-100 light:hover:text-zinc-900"
+        >
+          Sign out
+        </button>
+      </form>
+    </div>
+  );
+}
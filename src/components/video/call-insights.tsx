@@ -0,0 +1,118 @@
+"use client";
+
+import Link from "next/link";
+import {
+  formatTime,
+  type InteractionStats,
+  type RecordingTopic,
+  type RecordingTracker,
+} from "@/types/video";
+
+interface CallInsightsProps {
+  trackers: RecordingTracker[];
+  topics: RecordingTopic[];
+  stats: InteractionStats | null;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+function searchHref(key: "tracker" | "topic", name: string): string {
+  return `/?q=${encodeURIComponent(`${key}:"${name}"`)}`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-white/5 bg-zinc-800/50 px-3 py-2 light:border-zinc-200 light:bg-zinc-50">
+      <div className="text-xs text-zinc-500">{label}</div>
+      <div className="mt-0.5 text-sm font-medium tabular-nums text-zinc-200 light:text-zinc-900">{value}</div>
+    </div>
+  );
+}
+
+// Tracker mentions (Gong and keyword), Gong topics and interaction stats for a call
+export function CallInsights({ trackers, topics, stats, currentTime, onSeek }: CallInsightsProps) {
+  if (trackers.length === 0 && topics.length === 0 && !stats) {
+    return null;
+  }
+
+  // Clicking a tracker steps through its mentions from the playhead on
+  const seekToNextMention = (tracker: RecordingTracker) => {
+    const next =
+      tracker.occurrences.find((occurrence) => occurrence.startTime > currentTime + 1) ??
+      tracker.occurrences[0];
+    if (next) onSeek(next.startTime);
+  };
+
+  const questions =
+    stats && (stats.companyQuestions !== null || stats.nonCompanyQuestions !== null)
+      ? `${stats.companyQuestions ?? 0} / ${stats.nonCompanyQuestions ?? 0}`
+      : null;
+
+  return (
+    <div className="space-y-4">
+      {stats && (
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {stats.talkRatio !== null && (
+            <Stat label="Company talk ratio" value={`${Math.round(stats.talkRatio * 100)}%`} />
+          )}
+          {stats.longestMonologue !== null && (
+            <Stat label="Longest monologue" value={formatTime(stats.longestMonologue)} />
+          )}
+          {stats.interactivity !== null && (
+            <Stat label="Interactivity" value={stats.interactivity.toFixed(1)} />
+          )}
+          {questions && <Stat label="Questions (us / them)" value={questions} />}
+        </div>
+      )}
+
+      {trackers.length > 0 && (
+        <div>
+          <div className="mb-2 text-xs font-medium text-zinc-400 light:text-zinc-500">Trackers</div>
+          <div className="flex flex-wrap gap-1.5">
+            {trackers.map((tracker) => (
+              <span
+                key={tracker.id ?? tracker.name}
+                className="flex items-center overflow-hidden rounded-full border border-emerald-500/30 text-xs light:border-emerald-600/30"
+              >
+                <button
+                  onClick={() => seekToNextMention(tracker)}
+                  disabled={tracker.occurrences.length === 0}
+                  className="flex items-center gap-1.5 py-0.5 pl-2.5 pr-2 text-emerald-300 transition hover:bg-emerald-500/10 disabled:cursor-default light:text-emerald-700"
+                  title={tracker.occurrences.length > 0 ? "Jump to the next mention" : undefined}
+                >
+                  {tracker.name}
+                  <span className="tabular-nums text-zinc-500">{tracker.count}</span>
+                </button>
+                <Link
+                  href={tracker.id ? `/trackers/${encodeURIComponent(tracker.id)}` : searchHref("tracker", tracker.name)}
+                  className="border-l border-emerald-500/30 px-2 py-0.5 text-zinc-500 transition hover:text-zinc-200 light:border-emerald-600/30 light:hover:text-zinc-900"
+                  title={`Other calls where "${tracker.name}" came up`}
+                >
+                  ↗
+                </Link>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {topics.length > 0 && (
+        <div>
+          <div className="mb-2 text-xs font-medium text-zinc-400 light:text-zinc-500">Topics discussed</div>
+          <div className="flex flex-wrap gap-1.5">
+            {topics.map((topic) => (
+              <Link
+                key={topic.name}
+                href={searchHref("topic", topic.name)}
+                className="rounded-full bg-zinc-800 px-2.5 py-0.5 text-xs text-zinc-300 transition hover:bg-zinc-700 hover:text-zinc-100 light:bg-zinc-100 light:text-zinc-600 light:hover:bg-zinc-200 light:hover:text-zinc-900"
+                title={`Other calls that covered ${topic.name}`}
+              >
+                {topic.name} <span className="tabular-nums text-zinc-500">{formatTime(topic.duration)}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
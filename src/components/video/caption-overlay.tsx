@@ -2,26 +2,55 @@
 
 import type { TranscriptSegment } from "@/types/video";
 import { findCurrentSegment } from "@/types/video";
+import { LanguageSelect } from "./language-select";
 
 interface CaptionOverlayProps {
   segments: TranscriptSegment[];
   currentTime: number;
   enabled: boolean;
+  // Caption language switcher, shown when onLanguageChange is set; null
+  // language is the one spoken
+  language?: string | null;
+  sourceLanguage?: string;
+  onLanguageChange?: (language: string | null) => void;
+  isTranslating?: boolean;
 }
 
-export function CaptionOverlay({ segments, currentTime, enabled }: CaptionOverlayProps) {
+export function CaptionOverlay({
+  segments,
+  currentTime,
+  enabled,
+  language = null,
+  sourceLanguage,
+  onLanguageChange,
+  isTranslating = false,
+}: CaptionOverlayProps) {
   if (!enabled) return null;
 
   const currentSegment = findCurrentSegment(segments, currentTime);
-  if (!currentSegment) return null;
 
   return (
-    <div className="pointer-events-none absolute inset-x-0 bottom-12 flex justify-center px-4">
-      <div className="max-w-[80%] rounded bg-black/80 px-4 py-2 text-center">
-        <span className="text-sm font-medium text-white">
-          {currentSegment.text}
-        </span>
-      </div>
-    </div>
+    <>
+      {onLanguageChange && (
+        <div className="absolute right-3 top-3 flex items-center gap-2">
+          {isTranslating && <span className="text-xs text-white/80">Translating...</span>}
+          <LanguageSelect
+            value={language}
+            sourceLanguage={sourceLanguage}
+            onChange={onLanguageChange}
+            className="rounded-lg border border-white/20 bg-black/70 px-2 py-1 text-xs text-white outline-none focus:border-indigo-500"
+          />
+        </div>
+      )}
+      {currentSegment && (
+        <div className="pointer-events-none absolute inset-x-0 bottom-12 flex justify-center px-4">
+          <div className="max-w-[80%] rounded bg-black/80 px-4 py-2 text-center">
+            <span className="text-sm font-medium text-white">
+              {currentSegment.text}
+            </span>
+          </div>
+        </div>
+      )}
+    </>
   );
 }
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useCallback, useRef, useEffect, useMemo } from "react";
-import { formatTime, type TranscriptSegment } from "@/types/video";
+import { formatTime, type TranscriptRedaction, type TranscriptSegment } from "@/types/video";
+import { useRedactionBleep } from "@/hooks/use-redaction-bleep";
 
 interface ClipCreatorProps {
   recordingId: string;
@@ -9,6 +10,8 @@ interface ClipCreatorProps {
   duration: number;
   currentTime: number;
   transcript: TranscriptSegment[];
+  // Bleeped in the preview like in the player
+  redactions?: TranscriptRedaction[];
   onClose: () => void;
   onClipCreated: (clip: { id: string; startTime: number; endTime: number; title: string | null }) => void;
 }
@@ -19,10 +22,12 @@ export function ClipCreator({
   duration,
   currentTime,
   transcript,
+  redactions = [],
   onClose,
   onClipCreated,
 }: ClipCreatorProps) {
   const previewRef = useRef<HTMLVideoElement>(null);
+  useRedactionBleep(previewRef, redactions);
   const transcriptContainerRef = useRef<HTMLDivElement>(null);
 
   // Use actual video duration from the preview element, fallback to prop
@@ -77,6 +82,7 @@ export function ClipCreator({
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
+            recordingId,
             clipSegments,
             fullTranscript: transcript,
           }),
@@ -103,7 +109,7 @@ export function ClipCreator({
       clearTimeout(timeoutId);
       controller.abort();
     };
-  }, [clipSegments, draggingHandle, transcript, userEditedTitle]);
+  }, [recordingId, clipSegments, draggingHandle, transcript, userEditedTitle]);
 
   // Get transcript segments that are visible around the clip range
   const visibleSegments = transcript.filter(
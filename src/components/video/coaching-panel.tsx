@@ -0,0 +1,111 @@
+"use client";
+
+import Link from "next/link";
+import {
+  fillerRate,
+  formatPatience,
+  formatPercent,
+  letFinish,
+  topFillers,
+} from "@/lib/analytics/coaching";
+import type { SpeakerConversationStats } from "@/types/video";
+
+interface CoachingPanelProps {
+  // Per speaker, most talk time first
+  speakers: SpeakerConversationStats[];
+}
+
+function Metric({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div>
+      <div className="text-sm font-semibold tabular-nums text-zinc-200 light:text-zinc-900">{value}</div>
+      <div className="text-xs text-zinc-500">{label}</div>
+      {detail && <div className="mt-0.5 truncate text-[11px] text-zinc-500">{detail}</div>}
+    </div>
+  );
+}
+
+export function CoachingPanel({ speakers }: CoachingPanelProps) {
+  if (speakers.length === 0) {
+    return (
+      <div className="flex h-[450px] items-center justify-center text-sm text-zinc-500">
+        No transcript to coach from
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-[450px] flex-col">
+      <p className="mb-3 text-sm text-zinc-400 light:text-zinc-500">
+        Filler words, pace, the pause before responding, and how often each speaker let the previous one finish
+      </p>
+
+      <div className="flex-1 space-y-2 overflow-y-auto">
+        {speakers.map((speaker) => {
+          const fillers = fillerRate(speaker.fillerWords, speaker.words);
+          const used = topFillers(speaker.fillers);
+          const finish = letFinish(speaker);
+          const person = (speaker.email ?? speaker.speaker).toLowerCase();
+          return (
+            <div
+              key={speaker.speaker}
+              className="rounded-lg border border-white/5 bg-zinc-800/50 p-3 light:border-zinc-200 light:bg-zinc-50"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-zinc-200 light:text-zinc-900">
+                    {speaker.speaker}
+                    {speaker.external && (
+                      <span className="ml-2 rounded bg-amber-500/10 px-1.5 py-0.5 text-[10px] font-medium uppercase text-amber-400 light:text-amber-600">
+                        Customer
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-zinc-500">
+                    {formatPercent(speaker.talkRatio)} of the talking
+                  </div>
+                </div>
+                <Link
+                  href={`/analytics/people/${encodeURIComponent(person)}`}
+                  className="shrink-0 text-xs text-zinc-500 hover:text-indigo-400"
+                >
+                  Trend →
+                </Link>
+              </div>
+
+              <div className="mt-3 grid grid-cols-4 gap-3">
+                <Metric
+                  label="fillers / 100 words"
+                  value={fillers === null ? "–" : fillers.toFixed(1)}
+                  detail={used.map(([filler, count]) => `"${filler}" ×${count}`).join(", ")}
+                />
+                <Metric
+                  label="words / minute"
+                  value={speaker.wordsPerMinute === null ? "–" : `${Math.round(speaker.wordsPerMinute)}`}
+                />
+                <Metric
+                  label="pause before responding"
+                  value={formatPatience(speaker.patience)}
+                  detail={
+                    speaker.responses > 0
+                      ? `${speaker.responses} response${speaker.responses !== 1 ? "s" : ""}`
+                      : undefined
+                  }
+                />
+                <Metric
+                  label={finish.ofCustomers ? "lets customers finish" : "lets others finish"}
+                  value={formatPercent(finish.rate)}
+                  detail={
+                    speaker.interruptions > 0
+                      ? `${speaker.interruptions} interruption${speaker.interruptions !== 1 ? "s" : ""}`
+                      : undefined
+                  }
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { languageLabel, TRANSCRIPT_LANGUAGES } from "@/lib/translation/languages";
+
+const SELECT_CLASS =
+  "rounded-lg border border-white/10 bg-zinc-900 px-2 py-1 text-xs text-zinc-400 outline-none focus:border-indigo-500 disabled:opacity-50 light:border-zinc-300 light:bg-white light:text-zinc-600";
+
+interface LanguageSelectProps {
+  // null for the language the recording was spoken in
+  value: string | null;
+  sourceLanguage?: string;
+  onChange: (language: string | null) => void;
+  disabled?: boolean;
+  // Replaces the default styling
+  className?: string;
+}
+
+export function LanguageSelect({ value, sourceLanguage, onChange, disabled, className = SELECT_CLASS }: LanguageSelectProps) {
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled}
+      className={className}
+      title="Transcript language"
+      aria-label="Transcript language"
+    >
+      <option value="">{sourceLanguage ? `Original (${languageLabel(sourceLanguage)})` : "Original"}</option>
+      {TRANSCRIPT_LANGUAGES.filter((language) => language.code !== sourceLanguage).map((language) => (
+        <option key={language.code} value={language.code}>
+          {language.label}
+        </option>
+      ))}
+    </select>
+  );
+}
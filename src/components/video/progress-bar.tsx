@@ -1,7 +1,7 @@
 "use client";
 
 import { useCallback, useRef } from "react";
-import type { Clip } from "@/types/video";
+import { formatTime, type Clip, type RecordingTracker, type SummaryChapter } from "@/types/video";
 
 interface ProgressBarProps {
   currentTime: number;
@@ -9,9 +9,19 @@ interface ProgressBarProps {
   onSeek: (time: number) => void;
   activeClip?: Clip | null;
   clips?: Clip[];
+  chapters?: SummaryChapter[];
+  trackers?: RecordingTracker[];
 }
 
-export function ProgressBar({ currentTime, duration, onSeek, activeClip, clips = [] }: ProgressBarProps) {
+export function ProgressBar({
+  currentTime,
+  duration,
+  onSeek,
+  activeClip,
+  clips = [],
+  chapters = [],
+  trackers = [],
+}: ProgressBarProps) {
   const barRef = useRef<HTMLDivElement>(null);
 
   const handleClick = useCallback(
@@ -52,6 +62,44 @@ export function ProgressBar({ currentTime, duration, onSeek, activeClip, clips =
           className="absolute inset-y-0 left-0 rounded-full bg-indigo-500"
           style={{ width: `${progress}%` }}
         />
+        {/* Chapter boundaries (the first chapter starts at the beginning) */}
+        {duration > 0 &&
+          chapters
+            .filter((chapter) => chapter.startTime > 0 && chapter.startTime < duration)
+            .map((chapter) => (
+              <div
+                key={`${chapter.startTime}-${chapter.title}`}
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onSeek(chapter.startTime);
+                }}
+                className="absolute -inset-y-2 z-10 w-2 -translate-x-1/2"
+                style={{ left: `${(chapter.startTime / duration) * 100}%` }}
+                title={`${formatTime(chapter.startTime)} ${chapter.title}`}
+              >
+                <div className="mx-auto h-full w-0.5 bg-zinc-950/80 light:bg-zinc-100" />
+              </div>
+            ))}
+        {/* Tracker mentions, as dots above the bar */}
+        {duration > 0 &&
+          trackers.flatMap((tracker) =>
+            tracker.occurrences
+              .filter((occurrence) => occurrence.startTime < duration)
+              .map((occurrence) => (
+                <div
+                  key={`${tracker.id ?? tracker.name}-${occurrence.startTime}`}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onSeek(occurrence.startTime);
+                  }}
+                  className="absolute -top-2.5 z-10 -translate-x-1/2 p-0.5"
+                  style={{ left: `${(occurrence.startTime / duration) * 100}%` }}
+                  title={`${formatTime(occurrence.startTime)} ${tracker.name}`}
+                >
+                  <div className="h-1.5 w-1.5 rounded-full bg-emerald-400 light:bg-emerald-600" />
+                </div>
+              ))
+          )}
         {/* Playhead */}
         <div
           className="absolute top-1/2 h-3 w-3 -translate-y-1/2 rounded-full bg-white opacity-0 shadow transition-opacity group-hover:opacity-100 light:bg-zinc-700"
@@ -1,6 +1,7 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import type { SpeakerConversationStats } from "@/types/video";
 
 interface Speaker {
   id: string;
@@ -21,6 +22,12 @@ interface Participant {
   email: string | null;
 }
 
+interface TopicSpan {
+  name: string;
+  startTime: number;
+  endTime: number;
+}
+
 interface SpeakerTimelineProps {
   segments: TranscriptSegment[];
   speakers: Speaker[];
@@ -28,8 +35,13 @@ interface SpeakerTimelineProps {
   currentTime: number;
   onSeek: (time: number) => void;
   participants?: Participant[];
+  topics?: TopicSpan[];
+  // Computed at sync time; replaces the in-browser share of the call when present
+  conversation?: SpeakerConversationStats[];
 }
 
+const TOPIC_COLORS = ["#0ea5e9", "#14b8a6", "#a855f7", "#f97316", "#84cc16", "#f43f5e"];
+
 interface SpeakerStats {
   name: string;
   color: string;
@@ -45,6 +57,8 @@ export function SpeakerTimeline({
   currentTime,
   onSeek,
   participants = [],
+  topics = [],
+  conversation = [],
 }: SpeakerTimelineProps) {
   const [hoveredSpeaker, setHoveredSpeaker] = useState<string | null>(null);
 
@@ -60,7 +74,14 @@ export function SpeakerTimeline({
     return emailMap;
   }, [participants]);
 
+  const conversationBySpeaker = useMemo(
+    () => new Map(conversation.map((stats) => [stats.speaker, stats])),
+    [conversation]
+  );
+
   const getEmailForSpeaker = (speakerName: string): string | null => {
+    const resolved = conversationBySpeaker.get(speakerName)?.email;
+    if (resolved) return resolved;
     const lowerName = speakerName.toLowerCase();
     // Try exact match
     if (speakerEmails.has(lowerName)) {
@@ -122,6 +143,12 @@ export function SpeakerTimeline({
       .sort((a, b) => b.totalTime - a.totalTime);
   }, [segments, speakers, duration]);
 
+  // Each topic keeps one color wherever it comes up
+  const topicColors = useMemo(() => {
+    const names = [...new Set(topics.map((topic) => topic.name))];
+    return new Map(names.map((name, i) => [name, TOPIC_COLORS[i % TOPIC_COLORS.length]]));
+  }, [topics]);
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -169,10 +196,39 @@ export function SpeakerTimeline({
         </div>
       </div>
 
+      {/* Topics (Gong) */}
+      {topics.length > 0 && duration > 0 && (
+        <div>
+          <div className="mb-2 text-xs font-medium text-zinc-400 light:text-zinc-500">Topics</div>
+          <div className="relative h-5 w-full overflow-hidden rounded bg-zinc-800/50 light:bg-zinc-200">
+            {topics.map((topic) => (
+              <button
+                key={`${topic.name}-${topic.startTime}`}
+                onClick={() => onSeek(topic.startTime)}
+                className="absolute top-0 h-full truncate px-1 text-left text-[10px] font-medium leading-5 text-white opacity-70 transition-opacity hover:opacity-100"
+                style={{
+                  left: `${(topic.startTime / duration) * 100}%`,
+                  width: `${((topic.endTime - topic.startTime) / duration) * 100}%`,
+                  backgroundColor: topicColors.get(topic.name),
+                }}
+                title={`${topic.name}: ${formatTime(topic.startTime)} - ${formatTime(topic.endTime)}`}
+              >
+                {topic.name}
+              </button>
+            ))}
+            <div
+              className="pointer-events-none absolute top-0 h-full w-0.5 bg-white shadow-lg light:bg-zinc-900"
+              style={{ left: `${(currentTime / duration) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Speaker stats */}
       <div className="space-y-2">
         {speakerStats.map((speaker) => {
           const email = getEmailForSpeaker(speaker.name);
+          const stats = conversationBySpeaker.get(speaker.name);
           return (
           <div key={speaker.name} className="group">
             <div className="mb-1 flex items-center justify-between text-xs">
@@ -195,9 +251,19 @@ export function SpeakerTimeline({
                 )}
               </div>
               <span className="text-zinc-500">
-                {formatTime(speaker.totalTime)} ({speaker.percentage.toFixed(0)}%)
+                {formatTime(speaker.totalTime)} (
+                {stats ? `${Math.round(stats.talkRatio * 100)}% of the talking` : `${speaker.percentage.toFixed(0)}%`})
               </span>
             </div>
+            {stats && (
+              <div className="mb-1 text-[11px] text-zinc-500">
+                {stats.turns} turn{stats.turns !== 1 ? "s" : ""} · longest {formatTime(stats.longestMonologue)}
+                {stats.interruptions > 0 &&
+                  ` · ${stats.interruptions} interruption${stats.interruptions !== 1 ? "s" : ""}`}
+                {stats.questions > 0 && ` · ${stats.questions} question${stats.questions !== 1 ? "s" : ""}`}
+                {stats.wordsPerMinute !== null && ` · ${Math.round(stats.wordsPerMinute)} wpm`}
+              </div>
+            )}
             {/* Individual speaker timeline - click to jump */}
             <div
               className="relative h-2 w-full cursor-pointer overflow-hidden rounded bg-zinc-800/50 light:bg-zinc-200"
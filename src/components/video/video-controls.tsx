@@ -3,7 +3,7 @@
 import { ProgressBar } from "./progress-bar";
 import { VolumeControl } from "./volume-control";
 import { PlaybackSpeed } from "./playback-speed";
-import { formatTime, type Clip } from "@/types/video";
+import { formatTime, type Clip, type RecordingTracker, type SummaryChapter } from "@/types/video";
 
 interface VideoControlsProps {
   isPlaying: boolean;
@@ -17,6 +17,8 @@ interface VideoControlsProps {
   hasCaptions?: boolean;
   activeClip?: Clip | null;
   clips?: Clip[];
+  chapters?: SummaryChapter[];
+  trackers?: RecordingTracker[];
   onTogglePlay: () => void;
   onSeek: (time: number) => void;
   onVolumeChange: (volume: number) => void;
@@ -38,6 +40,8 @@ export function VideoControls({
   hasCaptions,
   activeClip,
   clips,
+  chapters,
+  trackers,
   onTogglePlay,
   onSeek,
   onVolumeChange,
@@ -56,6 +60,8 @@ export function VideoControls({
           onSeek={onSeek}
           activeClip={activeClip}
           clips={clips}
+          chapters={chapters}
+          trackers={trackers}
         />
       </div>
 
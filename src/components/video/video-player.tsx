@@ -2,15 +2,25 @@
 
 import { forwardRef, useImperativeHandle, useRef } from "react";
 
+// A WebVTT file for the video's text tracks, e.g. a translated transcript
+export interface CaptionTrack {
+  src: string;
+  srcLang: string;
+  label: string;
+}
+
 interface VideoPlayerProps {
   src: string;
   poster?: string;
   isPlaying?: boolean;
   onClick?: () => void;
+  // Exposed to the browser (picture-in-picture, native fullscreen); the
+  // player draws its own captions with CaptionOverlay
+  captionTracks?: CaptionTrack[];
 }
 
 export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
-  function VideoPlayer({ src, poster, isPlaying, onClick }, ref) {
+  function VideoPlayer({ src, poster, isPlaying, onClick, captionTracks = [] }, ref) {
     const videoRef = useRef<HTMLVideoElement>(null);
 
     // Forward the ref
@@ -26,7 +36,11 @@ export const VideoPlayer = forwardRef<HTMLVideoElement, VideoPlayerProps>(
           playsInline
           onClick={onClick}
           className="h-full w-full cursor-pointer"
-        />
+        >
+          {captionTracks.map((track) => (
+            <track key={track.src} kind="subtitles" src={track.src} srcLang={track.srcLang} label={track.label} />
+          ))}
+        </video>
 
         {/* Play button overlay */}
         {!isPlaying && (
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { LockClosedIcon, UserGroupIcon, UsersIcon, GlobeAltIcon } from "@heroicons/react/20/solid";
+import {
+  RECORDING_VISIBILITIES,
+  VISIBILITY_LABELS,
+  type RecordingVisibility,
+} from "@/lib/auth/visibility";
+
+interface VisibilityControlProps {
+  recordingId: string;
+  visibility: RecordingVisibility;
+  shares: string[];
+  canManage: boolean;
+}
+
+const VISIBILITY_ICONS: Record<RecordingVisibility, typeof LockClosedIcon> = {
+  org: GlobeAltIcon,
+  participants: UserGroupIcon,
+  private: LockClosedIcon,
+  shared: UsersIcon,
+};
+
+export function VisibilityControl({
+  recordingId,
+  visibility: initialVisibility,
+  shares: initialShares,
+  canManage,
+}: VisibilityControlProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [visibility, setVisibility] = useState(initialVisibility);
+  const [shares, setShares] = useState(initialShares);
+  const [draftVisibility, setDraftVisibility] = useState(initialVisibility);
+  const [draftShares, setDraftShares] = useState(initialShares.join(", "));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const Icon = VISIBILITY_ICONS[visibility];
+  const badge = (
+    <span className="flex items-center gap-1.5 text-xs text-zinc-400 light:text-zinc-500">
+      <Icon className="h-4 w-4" />
+      {VISIBILITY_LABELS[visibility]}
+      {shares.length > 0 && visibility !== "org" && visibility !== "private" && (
+        <span className="text-zinc-500">+{shares.length} shared</span>
+      )}
+    </span>
+  );
+
+  if (!canManage) {
+    return badge;
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/recordings/${encodeURIComponent(recordingId)}/visibility`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            visibility: draftVisibility,
+            shares: draftShares
+              .split(/[\s,]+/)
+              .map((e) => e.trim())
+              .filter(Boolean),
+          }),
+        }
+      );
+
+      const data = await response.json() as { visibility?: RecordingVisibility; shares?: string[]; error?: string };
+      if (!response.ok || !data.visibility) {
+        throw new Error(data.error || "Failed to save");
+      }
+
+      setVisibility(data.visibility);
+      setShares(data.shares ?? []);
+      setDraftShares((data.shares ?? []).join(", "));
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="rounded-md px-2 py-1 transition hover:bg-white/10 light:hover:bg-zinc-100"
+        title="Change who can see this recording"
+      >
+        {badge}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 rounded-xl border border-white/10 bg-zinc-900 p-4 shadow-xl light:border-zinc-200 light:bg-white">
+          <p className="mb-3 text-sm font-medium text-zinc-200 light:text-zinc-800">
+            Who can see this recording
+          </p>
+          <div className="flex flex-col gap-2">
+            {RECORDING_VISIBILITIES.map((option) => (
+              <label
+                key={option}
+                className="flex cursor-pointer items-center gap-2 text-sm text-zinc-300 light:text-zinc-700"
+              >
+                <input
+                  type="radio"
+                  name="visibility"
+                  value={option}
+                  checked={draftVisibility === option}
+                  onChange={() => setDraftVisibility(option)}
+                />
+                {VISIBILITY_LABELS[option]}
+              </label>
+            ))}
+          </div>
+
+          {(draftVisibility === "participants" || draftVisibility === "shared") && (
+            <label className="mt-3 block text-xs text-zinc-400 light:text-zinc-500">
+              Also share with (emails)
+              <textarea
+                value={draftShares}
+                onChange={(e) => setDraftShares(e.target.value)}
+                rows={3}
+                className="mt-1 w-full rounded-md border border-white/10 bg-zinc-950 px-2 py-1.5 text-sm text-zinc-200 outline-none focus:border-indigo-500 light:border-zinc-300 light:bg-white light:text-zinc-800"
+                placeholder="teammate@example.com"
+              />
+            </label>
+          )}
+
+          {error && (
+            <p className="mt-2 text-xs text-red-400 light:text-red-600">{error}</p>
+          )}
+
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              onClick={() => setIsOpen(false)}
+              className="rounded-md px-3 py-1.5 text-sm text-zinc-400 transition hover:text-zinc-200 light:hover:text-zinc-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="rounded-md bg-indigo-500 px-3 py-1.5 text-sm font-medium text-white transition hover:bg-indigo-400 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, type RefObject } from "react";
+import type { TranscriptRedaction } from "@/types/video";
+
+const BLEEP_FREQUENCY_HZ = 1000;
+// Relative to the media's volume
+const BLEEP_GAIN = 0.15;
+
+function isRedacted(redactions: TranscriptRedaction[], time: number): boolean {
+  return redactions.some((redaction) => time >= redaction.startTime && time < redaction.endTime);
+}
+
+// Mutes the media while it plays a redacted stretch of audio and plays a bleep
+// in its place. The media element itself is muted, so no control can unmute
+// it mid-bleep: muting or unmuting during a bleep only changes what's
+// restored once it's over.
+export function useRedactionBleep(
+  mediaRef: RefObject<HTMLMediaElement | null>,
+  redactions: TranscriptRedaction[]
+) {
+  useEffect(() => {
+    const media = mediaRef.current;
+    if (!media || redactions.length === 0) return;
+
+    let bleeping = false;
+    // The viewer's own mute setting, restored after each bleep
+    let viewerMuted = media.muted;
+    let context: AudioContext | null = null;
+    let gain: GainNode | null = null;
+    let tone: OscillatorNode | null = null;
+    let frame: number | null = null;
+
+    const stopTone = () => {
+      tone?.stop();
+      tone?.disconnect();
+      tone = null;
+    };
+
+    // Heard while bleeping, playing and not muted by the viewer
+    const syncTone = () => {
+      if (!bleeping || media.paused || viewerMuted) {
+        stopTone();
+        return;
+      }
+      try {
+        if (!context || !gain) {
+          context = new AudioContext();
+          gain = context.createGain();
+          gain.connect(context.destination);
+        }
+        void context.resume();
+        gain.gain.value = BLEEP_GAIN * media.volume;
+        if (!tone) {
+          tone = context.createOscillator();
+          tone.frequency.value = BLEEP_FREQUENCY_HZ;
+          tone.connect(gain);
+          tone.start();
+        }
+      } catch {
+        // Without Web Audio the muting alone still hides the speech
+      }
+    };
+
+    const update = () => {
+      const redacted = isRedacted(redactions, media.currentTime);
+      if (redacted !== bleeping) {
+        bleeping = redacted;
+        if (bleeping) {
+          viewerMuted = media.muted;
+          media.muted = true;
+        } else {
+          media.muted = viewerMuted;
+        }
+      }
+      syncTone();
+    };
+
+    // Checked every frame while playing; timeupdate covers background tabs,
+    // where animation frames stop
+    const tick = () => {
+      update();
+      frame = requestAnimationFrame(tick);
+    };
+    const handlePlay = () => {
+      if (frame === null) tick();
+    };
+    const handlePause = () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      update();
+    };
+
+    // The only unmuting during a bleep is the viewer's, toggling their setting
+    const handleVolumeChange = () => {
+      if (bleeping && !media.muted) {
+        viewerMuted = !viewerMuted;
+        media.muted = true;
+      }
+      syncTone();
+    };
+
+    media.addEventListener("play", handlePlay);
+    media.addEventListener("pause", handlePause);
+    media.addEventListener("ended", handlePause);
+    media.addEventListener("seeked", update);
+    media.addEventListener("timeupdate", update);
+    media.addEventListener("volumechange", handleVolumeChange);
+    if (!media.paused) handlePlay();
+    else update();
+
+    return () => {
+      media.removeEventListener("play", handlePlay);
+      media.removeEventListener("pause", handlePause);
+      media.removeEventListener("ended", handlePause);
+      media.removeEventListener("seeked", update);
+      media.removeEventListener("timeupdate", update);
+      media.removeEventListener("volumechange", handleVolumeChange);
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (bleeping) media.muted = viewerMuted;
+      stopTone();
+      void context?.close();
+    };
+  }, [mediaRef, redactions]);
+}
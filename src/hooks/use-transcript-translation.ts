@@ -0,0 +1,75 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { isTranscriptLanguage } from "@/lib/translation/languages";
+import type { TranscriptTranslation } from "@/types/video";
+
+// The viewer's last chosen language, across recordings
+const STORAGE_KEY = "transcript-language";
+
+// The language the transcript and captions are shown in (null for the
+// language it was spoken in) and its translation, generated on first use.
+// Recordings known to be in another language open in the viewer's last choice.
+// Lines the model couldn't translate are counted and can be retried.
+export function useTranscriptTranslation(recordingId: string, sourceLanguage?: string) {
+  const [language, setLanguageState] = useState<string | null>(null);
+  const [translation, setTranslation] = useState<TranscriptTranslation | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to ask again for the lines left untranslated
+  const [retry, setRetry] = useState(0);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && sourceLanguage && stored !== sourceLanguage && isTranscriptLanguage(stored)) {
+      setLanguageState(stored);
+    }
+  }, [sourceLanguage]);
+
+  const setLanguage = useCallback((next: string | null) => {
+    setLanguageState(next);
+    setRetry(0);
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, next);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    if (retry === 0) setTranslation(null);
+    if (!language || language === sourceLanguage) return;
+
+    let cancelled = false;
+    setIsTranslating(true);
+    (async () => {
+      try {
+        // Returns the cached translation when there is one
+        const response = await fetch(`/api/recordings/${encodeURIComponent(recordingId)}/transcript/translation`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ language, retryUntranslated: retry > 0 }),
+        });
+        const data = await response.json() as Partial<TranscriptTranslation> & { error?: string };
+        if (!response.ok || !data.segments) {
+          throw new Error(data.error || "Failed to translate transcript");
+        }
+        if (!cancelled) setTranslation(data as TranscriptTranslation);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to translate transcript");
+      } finally {
+        if (!cancelled) setIsTranslating(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      setIsTranslating(false);
+    };
+  }, [recordingId, language, sourceLanguage, retry]);
+
+  const untranslatedCount = translation?.segments.filter((segment) => segment.untranslated).length ?? 0;
+  const retryUntranslated = useCallback(() => setRetry((count) => count + 1), []);
+
+  return { language, setLanguage, translation, isTranslating, error, untranslatedCount, retryUntranslated };
+}
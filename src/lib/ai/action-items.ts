@@ -0,0 +1,131 @@
+// Action items tracked across recordings
+// Summaries name owners the way they were addressed in the meeting ("Sam",
+// "Sam Lee"); they're resolved to a participant's email so one person's
+// items can be listed across every meeting. A regenerated summary rarely
+// words an item the same way twice, so stored items are matched to the new
+// ones by their words rather than their exact text.
+
+import type { AISummary } from "@/types/video";
+
+export interface OwnerCandidate {
+  name: string;
+  email: string | null;
+}
+
+export interface ExtractedActionItem {
+  text: string;
+  owner: string | null;
+  ownerEmail: string | null;
+  dueDate: string | null;
+  timestamp: number | null;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, " ")
+    .replace(/[^\p{L}\p{N}@.\s'-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// The email of the one participant the owner can refer to: an exact name
+// match, or failing that a unique first-name match. Shared owners ("Sam and
+// Alex", "the team") and ambiguous first names stay unresolved.
+export function resolveOwnerEmail(owner: string | null, participants: OwnerCandidate[]): string | null {
+  if (!owner) return null;
+  const name = normalizeName(owner);
+  if (!name) return null;
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(name)) return name;
+
+  // The same person often joins more than once
+  const people = new Map<string, string>();
+  for (const participant of participants) {
+    if (participant.email) people.set(participant.email.toLowerCase(), normalizeName(participant.name));
+  }
+
+  const matching = (match: (fullName: string, email: string) => boolean) =>
+    [...people].filter(([email, fullName]) => match(fullName, email)).map(([email]) => email);
+
+  const exact = matching((fullName) => fullName === name);
+  if (exact.length > 0) return exact.length === 1 ? exact[0] : null;
+
+  if (name.includes(" ")) return null;
+  const byFirstName = matching(
+    (fullName, email) => fullName.split(" ")[0] === name || email.split("@")[0] === name
+  );
+  return byFirstName.length === 1 ? byFirstName[0] : null;
+}
+
+export interface StoredActionItem {
+  id: number;
+  text: string;
+  timestamp: number | null;
+}
+
+// Share of words two items must have in common to count as the same item
+const MIN_ITEM_SIMILARITY = 0.5;
+// Words that don't tell one item from another
+const ITEM_STOPWORDS = new Set(["a", "an", "and", "by", "for", "of", "on", "the", "to", "with"]);
+
+function itemWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => !ITEM_STOPWORDS.has(word))
+  );
+}
+
+function itemSimilarity(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter((word) => b.has(word)).length;
+  const total = new Set([...a, ...b]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+// Pair stored items with extracted ones describing the same task, most alike
+// first: identical text, then the same words ("Send the deck." / "send deck"),
+// then a large enough overlap ("Send Acme the pricing deck" / "Send the
+// updated pricing deck to Acme"). Returns stored ids by extracted item index.
+export function matchActionItems(stored: StoredActionItem[], items: ExtractedActionItem[]): Map<number, number> {
+  const storedWords = stored.map((item) => itemWords(item.text));
+  const pairs: { index: number; id: number; score: number }[] = [];
+  items.forEach((item, index) => {
+    const words = itemWords(item.text);
+    stored.forEach((existing, i) => {
+      const score = existing.text === item.text ? 2 : itemSimilarity(words, storedWords[i]);
+      if (score < MIN_ITEM_SIMILARITY) return;
+      // Near the same moment breaks ties between similar items
+      const nearby =
+        existing.timestamp !== null && item.timestamp !== null && Math.abs(existing.timestamp - item.timestamp) < 60;
+      pairs.push({ index, id: existing.id, score: score + (nearby ? 0.01 : 0) });
+    });
+  });
+
+  const matches = new Map<number, number>();
+  const used = new Set<number>();
+  for (const pair of pairs.sort((a, b) => b.score - a.score)) {
+    if (matches.has(pair.index) || used.has(pair.id)) continue;
+    matches.set(pair.index, pair.id);
+    used.add(pair.id);
+  }
+  return matches;
+}
+
+export function extractActionItems(
+  summary: Pick<AISummary, "actionItems">,
+  participants: OwnerCandidate[]
+): ExtractedActionItem[] {
+  const seen = new Set<string>();
+  const items: ExtractedActionItem[] = [];
+  for (const item of summary.actionItems) {
+    const text = item.text.trim();
+    if (!text || seen.has(text)) continue;
+    seen.add(text);
+    items.push({
+      text,
+      owner: item.owner,
+      ownerEmail: resolveOwnerEmail(item.owner, participants),
+      dueDate: item.dueDate,
+      timestamp: item.timestamp,
+    });
+  }
+  return items;
+}
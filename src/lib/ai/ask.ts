@@ -0,0 +1,251 @@
+// Ask-the-library: answer a question from retrieved transcript passages
+// Passages come from hybrid passage search over everything the viewer can
+// see, and the model must cite them as [n]; citations that don't point at a
+// retrieved passage are dropped so every link in the answer is grounded.
+
+import type { Viewer } from "@/lib/auth/visibility";
+import type { Embedder } from "@/lib/search/embeddings";
+import { searchPassages, type Passage } from "@/lib/search/hybrid";
+import { parseSearchQuery, type SearchFilters } from "@/lib/search/query";
+import { formatTime } from "@/types/video";
+import { getLLMClient, type LLMClient } from "./client";
+
+export interface AskCitation {
+  // The [n] marker used in the answer
+  index: number;
+  recordingId: string;
+  recordingTitle: string;
+  createdAt: string;
+  startTime: number;
+  url: string;
+  text: string;
+}
+
+export interface AskResult {
+  question: string;
+  answer: string;
+  // Only the passages the answer cites, in marker order
+  citations: AskCitation[];
+  passageCount: number;
+  model: string | null;
+  warning?: string;
+}
+
+const DEFAULT_PASSAGE_LIMIT = 12;
+const MAX_ANSWER_TOKENS = 1024;
+
+const NO_PASSAGES_ANSWER =
+  "I couldn't find any recordings that discuss this. Try different wording or a wider date range.";
+
+// Question words and filler that would otherwise dominate keyword retrieval
+const STOPWORDS = new Set(
+  `a about above after again all also am an and any are as at be been before being between both
+  but by can could did do does doing during each few for from had has have having he her here hers
+  him his how i if in into is it its me more most my no nor not of off on once only or other our
+  ours out over own said same say says she should so some such talk talked than that the their
+  them then there these they this those through to too under until up us very was we were what
+  when where which while who whom why will with would you your discuss discussed mention mentioned
+  tell anyone anybody someone somebody ever`.split(/\s+/)
+);
+
+const SYSTEM_PROMPT = `You answer questions about a company's recorded meetings using only the transcript passages provided.
+
+Rules:
+- Every claim must be followed by the number of the passage that supports it, like [2] or [1][4].
+- Only cite passages by the numbers given. Never invent quotes, people or numbers.
+- If the passages don't answer the question, say so plainly rather than guessing.
+- Be concise: a short paragraph or a few bullet points.`;
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utcDate(year: number, month: number, day: number = 1): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+function addDays(date: Date, days: number): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days);
+}
+
+// Turn "last quarter", "this month", "yesterday" etc. into from/before dates
+// (UTC, end exclusive) and remove the phrase from the question text
+export function resolveRelativeDates(
+  text: string,
+  now: Date = new Date()
+): { text: string; from: string | null; before: string | null } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const quarterStart = month - (month % 3);
+  const today = utcDate(year, month, now.getUTCDate());
+  // Weeks start on Monday
+  const weekStart = addDays(today, -((today.getUTCDay() + 6) % 7));
+
+  const ranges: [RegExp, Date, Date][] = [
+    [/\blast quarter\b/i, utcDate(year, quarterStart - 3), utcDate(year, quarterStart)],
+    [/\bthis quarter\b/i, utcDate(year, quarterStart), utcDate(year, quarterStart + 3)],
+    [/\blast month\b/i, utcDate(year, month - 1), utcDate(year, month)],
+    [/\bthis month\b/i, utcDate(year, month), utcDate(year, month + 1)],
+    [/\blast week\b/i, addDays(weekStart, -7), weekStart],
+    [/\bthis week\b/i, weekStart, addDays(weekStart, 7)],
+    [/\blast year\b/i, utcDate(year - 1, 0), utcDate(year, 0)],
+    [/\bthis year\b/i, utcDate(year, 0), utcDate(year + 1, 0)],
+    [/\byesterday\b/i, addDays(today, -1), today],
+    [/\btoday\b/i, today, addDays(today, 1)],
+  ];
+
+  for (const [pattern, from, before] of ranges) {
+    if (pattern.test(text)) {
+      return {
+        text: text.replace(pattern, " ").replace(/\s+/g, " ").trim(),
+        from: toDateString(from),
+        before: toDateString(before),
+      };
+    }
+  }
+
+  return { text, from: null, before: null };
+}
+
+// Keywords for retrieval: quoted phrases are kept, filler words dropped
+export function extractQuestionKeywords(text: string): string {
+  const phrases = text.match(/"[^"]*"/g) ?? [];
+  const words = (text.replace(/"[^"]*"/g, " ").match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => word.length > 1 && !STOPWORDS.has(word.toLowerCase())
+  );
+  return [...phrases, ...words].join(" ");
+}
+
+// Search filters for a question. Explicit filters (source:gong, from:…) may be
+// typed into the question and win over relative phrases like "last quarter".
+export function questionToFilters(
+  question: string,
+  now: Date = new Date()
+): { filters: SearchFilters; question: string } {
+  const { filters } = parseSearchQuery(question);
+  const relative = resolveRelativeDates(filters.text, now);
+
+  return {
+    question: filters.text,
+    filters: {
+      ...filters,
+      text: extractQuestionKeywords(relative.text),
+      from: filters.from ?? relative.from,
+      before: filters.before ?? relative.before,
+    },
+  };
+}
+
+export function buildPassageUrl(recordingId: string, startTime: number): string {
+  return `/recordings/${encodeURIComponent(recordingId)}?t=${Math.floor(startTime)}`;
+}
+
+function formatPassagesForPrompt(passages: Passage[]): string {
+  return passages
+    .map((passage, i) => {
+      const date = passage.createdAt.slice(0, 10);
+      return `[${i + 1}] "${passage.recordingTitle}" (${date}, at ${formatTime(passage.startTime)})\n${passage.text}`;
+    })
+    .join("\n\n");
+}
+
+// Keep the [n] markers that name a retrieved passage; drop the rest
+export function extractCitations(
+  answer: string,
+  passages: Passage[]
+): { answer: string; citations: AskCitation[] } {
+  const cited = new Set<number>();
+  const cleaned = answer
+    .replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, (_marker, list: string) => {
+      const valid = list
+        .split(",")
+        .map((n) => parseInt(n.trim(), 10))
+        .filter((n) => n >= 1 && n <= passages.length);
+      valid.forEach((n) => cited.add(n));
+      return valid.map((n) => `[${n}]`).join("");
+    })
+    .replace(/[ \t]+([.,;:])/g, "$1")
+    .trim();
+
+  const citations = [...cited]
+    .sort((a, b) => a - b)
+    .map((index) => {
+      const passage = passages[index - 1];
+      return {
+        index,
+        recordingId: passage.recordingId,
+        recordingTitle: passage.recordingTitle,
+        createdAt: passage.createdAt,
+        startTime: passage.startTime,
+        url: buildPassageUrl(passage.recordingId, passage.startTime),
+        text: passage.text,
+      };
+    });
+
+  return { answer: cleaned, citations };
+}
+
+export async function askLibrary(
+  viewer: Viewer,
+  question: string,
+  options: {
+    client?: LLMClient;
+    embedder?: Embedder;
+    source?: "zoom" | "gong" | "all";
+    limit?: number;
+    now?: Date;
+  } = {}
+): Promise<AskResult> {
+  const now = options.now ?? new Date();
+  const { filters, question: cleanQuestion } = questionToFilters(question, now);
+
+  const search = await searchPassages(viewer, filters, {
+    mode: "hybrid",
+    source: options.source,
+    limit: options.limit ?? DEFAULT_PASSAGE_LIMIT,
+    embedder: options.embedder,
+    matchAny: true,
+  });
+  const passages = search.passages;
+
+  if (passages.length === 0) {
+    return {
+      question: cleanQuestion,
+      answer: NO_PASSAGES_ANSWER,
+      citations: [],
+      passageCount: 0,
+      model: null,
+      warning: search.warning,
+    };
+  }
+
+  const client = options.client ?? getLLMClient("chat");
+  const response = await client.complete({
+    system: SYSTEM_PROMPT,
+    maxTokens: MAX_ANSWER_TOKENS,
+    messages: [
+      {
+        role: "user",
+        content: `Today is ${toDateString(now)}.
+
+Transcript passages:
+---
+${formatPassagesForPrompt(passages)}
+---
+
+Question: ${cleanQuestion}`,
+      },
+    ],
+  });
+
+  const { answer, citations } = extractCitations(response.text, passages);
+
+  return {
+    question: cleanQuestion,
+    answer,
+    citations,
+    passageCount: passages.length,
+    model: response.model,
+    warning: search.warning,
+  };
+}
@@ -0,0 +1,336 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { estimateTokens } from "./tokens";
+
+// Minimal chat-completion interface used by every AI feature, so callers
+// can be handed a stub model instead of a real provider. Each task picks its
+// provider with LLM_PROVIDER, or LLM_<TASK>_PROVIDER for just that task
+// (e.g. LLM_PREVIEW_PROVIDER):
+//   - "anthropic" (default): Claude (ANTHROPIC_API_KEY)
+//   - "openai": any OpenAI-compatible endpoint, including llama.cpp's server
+//     (OPENAI_BASE_URL, OPENAI_API_KEY)
+//   - "ollama": a local Ollama server (OLLAMA_URL)
+//   - "fake": deterministic canned replies; needs no model or network
+// LLM_MODEL, LLM_BASE_URL and LLM_API_KEY (or their LLM_<TASK>_ forms) set
+// the model, endpoint and key, and LLM_CONTEXT_TOKENS the model's context
+// window when ./tokens.ts doesn't know it.
+
+export const LLM_TASKS = ["summary", "series-digest", "clip-title", "preview", "chat", "redaction", "translation"] as const;
+export type LLMTask = (typeof LLM_TASKS)[number];
+
+export const LLM_PROVIDERS = ["anthropic", "openai", "ollama", "fake"] as const;
+export type LLMProvider = (typeof LLM_PROVIDERS)[number];
+
+export interface LLMImage {
+  type: "image";
+  mediaType: "image/gif" | "image/png" | "image/jpeg" | "image/webp";
+  // Base64-encoded
+  data: string;
+}
+
+export type LLMContentPart = { type: "text"; text: string } | LLMImage;
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string | LLMContentPart[];
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  // Overrides the client's default model
+  model?: string;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Provider-qualified, see getModelId()
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMClient {
+  readonly provider: LLMProvider;
+  readonly defaultModel: string;
+  // Context window of the default model, when configured (see ./tokens.ts)
+  readonly contextTokens?: number;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface LLMClientOptions {
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  contextTokens?: number;
+}
+
+export const DEFAULT_MODEL = "claude-haiku-4-5-20251001";
+
+// Preview picking compares images, which the smaller model is weaker at
+const DEFAULT_ANTHROPIC_MODELS: Partial<Record<LLMTask, string>> = {
+  preview: "claude-sonnet-4-20250514",
+};
+const DEFAULT_OPENAI_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_OLLAMA_MODEL = "llama3.1";
+const FAKE_MODEL = "fake";
+
+// The provider asked us to slow down (rate limited or overloaded)
+export class LLMRateLimitError extends Error {
+  constructor(public retryAfterSeconds: number | null) {
+    super(
+      retryAfterSeconds !== null
+        ? `LLM rate limit exceeded. Retry after ${retryAfterSeconds} seconds`
+        : "LLM rate limit exceeded"
+    );
+    this.name = "LLMRateLimitError";
+  }
+}
+
+// Stored with generated content (e.g. summaries.model). Claude models keep
+// their bare names, which is what rows from before other providers hold.
+export function getModelId(client: LLMClient, model: string = client.defaultModel): string {
+  return client.provider === "anthropic" ? model : `${client.provider}:${model}`;
+}
+
+function messageText(content: LLMMessage["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+function parseRetryAfter(value: string | null | undefined): number | null {
+  const seconds = parseInt(value ?? "", 10);
+  return Number.isNaN(seconds) ? null : seconds;
+}
+
+export function createAnthropicClient(options: LLMClientOptions = {}): LLMClient {
+  const apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("ANTHROPIC_API_KEY environment variable is required");
+  }
+  const anthropic = new Anthropic({ apiKey, ...(options.baseUrl ? { baseURL: options.baseUrl } : {}) });
+  const client: LLMClient = {
+    provider: "anthropic",
+    defaultModel: options.model ?? DEFAULT_MODEL,
+    contextTokens: options.contextTokens,
+    async complete(request) {
+      const model = request.model ?? client.defaultModel;
+      let response: Anthropic.Message;
+      try {
+        response = await anthropic.messages.create({
+          model,
+          max_tokens: request.maxTokens,
+          ...(request.system ? { system: request.system } : {}),
+          messages: request.messages.map((message) => ({
+            role: message.role,
+            content:
+              typeof message.content === "string"
+                ? message.content
+                : message.content.map((part) =>
+                    part.type === "text"
+                      ? part
+                      : {
+                          type: "image" as const,
+                          source: { type: "base64" as const, media_type: part.mediaType, data: part.data },
+                        }
+                  ),
+          })),
+        });
+      } catch (error) {
+        // 429 rate limited, 529 overloaded (after the SDK's own retries)
+        if (error instanceof Anthropic.APIError && (error.status === 429 || error.status === 529)) {
+          throw new LLMRateLimitError(parseRetryAfter(error.headers?.get("retry-after")));
+        }
+        throw error;
+      }
+
+      const content = response.content[0];
+      if (!content || content.type !== "text") {
+        throw new Error("Unexpected response type from Claude");
+      }
+
+      return {
+        text: content.text,
+        model: getModelId(client, response.model),
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      };
+    },
+  };
+  return client;
+}
+
+// Chat Completions API, as served by OpenAI, llama.cpp, vLLM, Ollama and
+// most hosted gateways
+export function createOpenAICompatibleClient(
+  options: LLMClientOptions & { provider?: "openai" | "ollama" } = {}
+): LLMClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_OPENAI_URL).replace(/\/$/, "");
+  const provider = options.provider ?? "openai";
+  if (provider === "openai" && baseUrl === DEFAULT_OPENAI_URL && !options.apiKey) {
+    throw new Error("OPENAI_API_KEY environment variable is required");
+  }
+
+  const client: LLMClient = {
+    provider,
+    defaultModel: options.model ?? DEFAULT_OPENAI_MODEL,
+    contextTokens: options.contextTokens,
+    async complete(request) {
+      const model = request.model ?? client.defaultModel;
+      const messages = [
+        ...(request.system ? [{ role: "system", content: request.system }] : []),
+        ...request.messages.map((message) => ({
+          role: message.role,
+          content:
+            typeof message.content === "string"
+              ? message.content
+              : message.content.map((part) =>
+                  part.type === "text"
+                    ? part
+                    : { type: "image_url", image_url: { url: `data:${part.mediaType};base64,${part.data}` } }
+                ),
+        })),
+      ];
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, max_tokens: request.maxTokens, messages }),
+      });
+      if (response.status === 429 || response.status === 503) {
+        throw new LLMRateLimitError(parseRetryAfter(response.headers.get("retry-after")));
+      }
+      if (!response.ok) {
+        throw new Error(`${provider} completion failed: ${response.status} ${await response.text()}`);
+      }
+
+      const data = (await response.json()) as {
+        model?: string;
+        choices?: { message?: { content?: string | null } }[];
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error(`Unexpected response from ${provider}`);
+      }
+
+      return {
+        text,
+        model: getModelId(client, data.model ?? model),
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      };
+    },
+  };
+  return client;
+}
+
+export function createOllamaClient(options: LLMClientOptions = {}): LLMClient {
+  const url = (options.baseUrl ?? DEFAULT_OLLAMA_URL).replace(/\/$/, "");
+  return createOpenAICompatibleClient({
+    provider: "ollama",
+    baseUrl: `${url}/v1`,
+    model: options.model ?? DEFAULT_OLLAMA_MODEL,
+    apiKey: options.apiKey,
+    contextTokens: options.contextTokens,
+  });
+}
+
+// Summary prompts ask for JSON with a "brief", redaction prompts for "items"
+// (none are found) and translation prompts for "lines" (none are translated,
+// so the original text is kept); anything else gets plain text
+function defaultFakeReply(request: LLMRequest): string {
+  const last = request.messages[request.messages.length - 1];
+  const text = last ? messageText(last.content) : "";
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (text.includes('"brief"')) {
+    return JSON.stringify({ brief: `Fake summary of a ${words}-word prompt.` });
+  }
+  if (text.includes('"items"')) {
+    return JSON.stringify({ items: [] });
+  }
+  if (text.includes('"lines"')) {
+    return JSON.stringify({ lines: [] });
+  }
+  return `Fake reply to a ${words}-word prompt`;
+}
+
+// Same request, same reply: for tests and for running without a model
+export function createFakeClient(
+  reply: (request: LLMRequest) => string = defaultFakeReply,
+  options: { model?: string } = {}
+): LLMClient {
+  const client: LLMClient = {
+    provider: "fake",
+    defaultModel: options.model ?? FAKE_MODEL,
+    async complete(request) {
+      const text = reply(request);
+      const prompt = [request.system ?? "", ...request.messages.map((m) => messageText(m.content))].join("\n");
+      return {
+        text,
+        model: getModelId(client, request.model ?? client.defaultModel),
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(text),
+      };
+    },
+  };
+  return client;
+}
+
+// LLM_<TASK>_<NAME>, e.g. LLM_CLIP_TITLE_MODEL
+function taskEnv(task: LLMTask, name: string): string | undefined {
+  return process.env[`LLM_${task.toUpperCase().replace(/-/g, "_")}_${name}`] || undefined;
+}
+
+export function getLLMClient(task: LLMTask): LLMClient {
+  // The shared settings only apply to tasks that use the shared provider
+  const ownProvider = taskEnv(task, "PROVIDER");
+  const setting = (name: string) =>
+    ownProvider ? taskEnv(task, name) : taskEnv(task, name) ?? (process.env[`LLM_${name}`] || undefined);
+  const provider = ownProvider ?? process.env.LLM_PROVIDER ?? "anthropic";
+  const model = setting("MODEL");
+  const baseUrl = setting("BASE_URL");
+  const apiKey = setting("API_KEY");
+  const contextTokens = parseInt(setting("CONTEXT_TOKENS") ?? "", 10) || undefined;
+
+  switch (provider) {
+    case "anthropic":
+      return createAnthropicClient({ model: model ?? DEFAULT_ANTHROPIC_MODELS[task], baseUrl, apiKey, contextTokens });
+    case "openai":
+      return createOpenAICompatibleClient({
+        model,
+        baseUrl: baseUrl ?? process.env.OPENAI_BASE_URL,
+        apiKey: apiKey ?? process.env.OPENAI_API_KEY,
+        contextTokens,
+      });
+    case "ollama":
+      return createOllamaClient({ model, baseUrl: baseUrl ?? process.env.OLLAMA_URL, apiKey, contextTokens });
+    case "fake":
+      return createFakeClient(undefined, { model });
+    default:
+      throw new Error(`Unknown LLM provider "${provider}" (expected one of ${LLM_PROVIDERS.join(", ")})`);
+  }
+}
+
+// Parse a JSON reply, tolerating a markdown code block wrapper
+export function parseJsonResponse<T>(text: string): T {
+  let jsonText = text.trim();
+  if (jsonText.startsWith("```")) {
+    // Remove opening ```json or ``` and closing ```
+    jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, "").replace(/\n?```\s*$/, "");
+  }
+
+  try {
+    return JSON.parse(jsonText) as T;
+  } catch {
+    throw new Error(`Failed to parse model response as JSON: ${jsonText.slice(0, 200)}`);
+  }
+}
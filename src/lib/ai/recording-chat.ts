@@ -0,0 +1,236 @@
+// Follow-up questions about a single recording
+// The model sees the transcript, meeting chat and participant list, each line
+// prefixed with its [m:ss] timestamp, and cites those timestamps. Cited times
+// are snapped to the line they name; anything that doesn't match a line is
+// dropped, so every citation seeks to a real moment in the call.
+//
+// Calls too long for the model's input budget (see tokens.ts) are cut down to
+// excerpts: the lines sharing the most words with the question, with a few
+// lines either side, or evenly spaced lines when nothing matches.
+
+import { formatTime } from "@/types/video";
+import { extractQuestionKeywords } from "./ask";
+import { getLLMClient, type LLMClient, type LLMMessage } from "./client";
+import { estimateTokens, getInputTokenBudget } from "./tokens";
+
+export interface TimestampCitation {
+  // The [m:ss] marker as it appears in the answer
+  label: string;
+  startTime: number;
+}
+
+export interface RecordingChatContext {
+  title: string;
+  createdAt: string;
+  segments: { startTime: number; speaker: string; text: string }[];
+  chatMessages: { timestamp: number; sender: string; message: string }[];
+  participants: { name: string; email: string | null }[];
+}
+
+export interface RecordingChatAnswer {
+  answer: string;
+  citations: TimestampCitation[];
+  model: string;
+}
+
+const MAX_ANSWER_TOKENS = 1024;
+// Earlier turns sent back to the model; older ones are dropped
+const MAX_HISTORY_MESSAGES = 12;
+// How far a cited time may be from the line it names
+const CITATION_TOLERANCE_SECONDS = 2;
+// Lines kept either side of a relevant line when the call is trimmed
+const EXCERPT_CONTEXT_LINES = 3;
+
+const TIMESTAMP_MARKER = /\[(\d{1,3}):(\d{2})(?::(\d{2}))?\]/g;
+
+interface PromptLine {
+  section: "transcript" | "chat";
+  text: string;
+  tokens: number;
+}
+
+function keywordsOf(text: string): string[] {
+  return [...new Set(extractQuestionKeywords(text).replace(/"/g, " ").toLowerCase().split(/\s+/))].filter(Boolean);
+}
+
+function wordsOf(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+// Indexes of the lines to send, within `budget` tokens: every line when they
+// fit, otherwise windows around the lines matching the most keywords
+function selectLines(lines: PromptLine[], keywords: string[], budget: number): Set<number> {
+  const selected = new Set<number>();
+  const total = lines.reduce((sum, line) => sum + line.tokens, 0);
+  if (total <= budget) {
+    lines.forEach((_line, index) => selected.add(index));
+    return selected;
+  }
+
+  let used = 0;
+  const add = (index: number): boolean => {
+    if (selected.has(index)) return true;
+    if (used + lines[index].tokens > budget) return false;
+    selected.add(index);
+    used += lines[index].tokens;
+    return true;
+  };
+
+  const scored = lines
+    .map((line, index) => {
+      const words = wordsOf(line.text);
+      return { index, score: keywords.filter((keyword) => words.has(keyword)).length };
+    })
+    .filter((line) => line.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  for (const { index } of scored) {
+    if (!add(index)) break;
+    for (let offset = 1; offset <= EXCERPT_CONTEXT_LINES; offset++) {
+      for (const neighbor of [index - offset, index + offset]) {
+        if (lines[neighbor]?.section === lines[index].section) add(neighbor);
+      }
+    }
+  }
+
+  // Nothing (else) matched, e.g. "what was decided?": spread the rest of the
+  // budget evenly over the call
+  const stride = Math.max(1, Math.ceil(total / Math.max(1, budget - used)));
+  for (let index = 0; index < lines.length; index += stride) {
+    add(index);
+  }
+  return selected;
+}
+
+function formatSection(lines: PromptLine[], selected: Set<number>, section: PromptLine["section"]): string {
+  const parts: string[] = [];
+  let previous: number | null = null;
+  lines.forEach((line, index) => {
+    if (line.section !== section || !selected.has(index)) return;
+    if (previous !== null && index !== previous + 1) parts.push("...");
+    parts.push(line.text);
+    previous = index;
+  });
+  return parts.join("\n");
+}
+
+function buildSystemPrompt(context: RecordingChatContext, keywords: string[], budget: number): string {
+  const lines: PromptLine[] = [
+    ...context.segments.map((seg) => ({
+      section: "transcript" as const,
+      text: `[${formatTime(seg.startTime)}] ${seg.speaker}: ${seg.text}`,
+    })),
+    ...context.chatMessages.map((msg) => ({
+      section: "chat" as const,
+      text: `[${formatTime(msg.timestamp)}] ${msg.sender}: ${msg.message}`,
+    })),
+  ].map((line) => ({ ...line, tokens: estimateTokens(line.text) + 1 }));
+  const participants = context.participants
+    .map((p) => (p.email ? `${p.name} <${p.email}>` : p.name))
+    .join("\n");
+
+  const selected = selectLines(lines, keywords, budget - estimateTokens(participants));
+  const transcript = formatSection(lines, selected, "transcript");
+  const chat = formatSection(lines, selected, "chat");
+  const trimmed = selected.size < lines.length;
+
+  return `You answer questions about one recorded meeting: "${context.title}" (${context.createdAt.slice(0, 10)}).
+
+Rules:
+- Use only the transcript, chat and participant list below. If they don't answer the question, say so.
+- Cite the moment supporting each claim with its timestamp exactly as written, like [12:34].
+- Be concise: a short paragraph or a few bullet points.${
+    trimmed
+      ? "\n- The meeting is too long to include in full. Below are the excerpts most relevant to the question, with ... marking skipped lines; if the answer may be in a skipped part, say so."
+      : ""
+  }
+
+PARTICIPANTS:
+---
+${participants || "(not recorded)"}
+---
+
+TRANSCRIPT:
+---
+${transcript}
+---
+
+MEETING CHAT:
+---
+${chat || "(none)"}
+---`;
+}
+
+// Keep [m:ss] markers that name a transcript or chat line, snapped to that line
+export function extractTimestampCitations(
+  answer: string,
+  anchors: number[]
+): { answer: string; citations: TimestampCitation[] } {
+  const citations = new Map<string, TimestampCitation>();
+
+  const cleaned = answer
+    .replace(TIMESTAMP_MARKER, (_marker, first: string, second: string, third?: string) => {
+      // [m:ss] or [h:mm:ss]
+      const seconds =
+        third !== undefined
+          ? parseInt(first, 10) * 3600 + parseInt(second, 10) * 60 + parseInt(third, 10)
+          : parseInt(first, 10) * 60 + parseInt(second, 10);
+      // formatTime floors, so the line usually starts just after the cited second
+      let nearest: number | null = null;
+      for (const anchor of anchors) {
+        if (Math.abs(anchor - seconds) > CITATION_TOLERANCE_SECONDS) continue;
+        if (nearest === null || Math.abs(anchor - seconds) < Math.abs(nearest - seconds)) {
+          nearest = anchor;
+        }
+      }
+      if (nearest === null) return "";
+
+      const label = `[${formatTime(nearest)}]`;
+      if (!citations.has(label)) citations.set(label, { label, startTime: nearest });
+      return label;
+    })
+    .replace(/[ \t]+([.,;:])/g, "$1")
+    .trim();
+
+  return { answer: cleaned, citations: [...citations.values()] };
+}
+
+export async function answerRecordingQuestion(
+  context: RecordingChatContext,
+  history: LLMMessage[],
+  question: string,
+  client: LLMClient = getLLMClient("chat"),
+  // Overrides the model's input budget, in tokens
+  options: { maxInputTokens?: number } = {}
+): Promise<RecordingChatAnswer> {
+  // The conversation sent to the model must open with a user turn
+  const recent = history.slice(-MAX_HISTORY_MESSAGES);
+  while (recent.length > 0 && recent[0].role !== "user") recent.shift();
+
+  // The conversation goes out in full; the transcript gets what's left.
+  // Follow-ups like "what about pricing?" lean on the previous question
+  const conversationTokens = [...recent.map((m) => m.content), question].reduce(
+    (sum, content) => sum + estimateTokens(typeof content === "string" ? content : ""),
+    0
+  );
+  const budget =
+    (options.maxInputTokens ?? getInputTokenBudget(client, MAX_ANSWER_TOKENS)) - conversationTokens;
+  const previousQuestion = [...recent].reverse().find((m) => m.role === "user")?.content;
+  const keywords = keywordsOf(
+    [question, typeof previousQuestion === "string" ? previousQuestion : ""].join(" ")
+  );
+
+  const response = await client.complete({
+    system: buildSystemPrompt(context, keywords, budget),
+    maxTokens: MAX_ANSWER_TOKENS,
+    messages: [...recent, { role: "user", content: question }],
+  });
+
+  const anchors = [
+    ...context.segments.map((seg) => seg.startTime),
+    ...context.chatMessages.map((msg) => msg.timestamp),
+  ];
+  const { answer, citations } = extractTimestampCitations(response.text, anchors);
+
+  return { answer, citations, model: response.model };
+}
@@ -0,0 +1,98 @@
+// Model pass for transcript redaction
+// The rules in src/lib/redaction/rules.ts miss personal data that doesn't
+// follow a pattern (an address read out without a street suffix, a card
+// number split across "and the rest is..."). With PII_REDACTION=model the
+// transcript is also sent to a model, which quotes what it finds; quotes are
+// located back in the segment text, so the model can't rewrite the transcript.
+
+import type { RedactionMatch } from "@/lib/redaction/rules";
+import type { RedactionKind } from "@/types/video";
+import { getLLMClient, parseJsonResponse, type LLMClient } from "./client";
+
+// Segment text per request, in characters
+const MAX_BATCH_CHARS = 12000;
+const MAX_REDACTION_TOKENS = 2048;
+
+const KINDS: RedactionKind[] = ["email", "phone", "card", "ssn", "address", "number"];
+
+const REDACTION_PROMPT = `These are numbered lines from a meeting transcript. Find personal data spoken in them: email addresses, phone numbers, payment card numbers, social security numbers, postal addresses, and other account or ID numbers. Don't include names, company names, prices, dates or other numbers that don't identify someone.
+
+Transcript:
+---
+{lines}
+---
+
+Reply with JSON only, quoting each item exactly as it appears in its line:
+{"items": [{"line": 3, "text": "four one five five five five oh one three four", "kind": "phone"}]}
+
+"kind" is one of: ${KINDS.join(", ")}. Reply {"items": []} when there is none.`;
+
+interface ModelItem {
+  line?: unknown;
+  text?: unknown;
+  kind?: unknown;
+}
+
+// Split into requests of at most MAX_BATCH_CHARS, by segment index
+function batches(texts: string[]): number[][] {
+  const result: number[][] = [];
+  let current: number[] = [];
+  let size = 0;
+  texts.forEach((text, index) => {
+    if (current.length > 0 && size + text.length > MAX_BATCH_CHARS) {
+      result.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(index);
+    size += text.length;
+  });
+  if (current.length > 0) result.push(current);
+  return result;
+}
+
+// Every occurrence of the quote in the text, ignoring case
+function locate(text: string, quote: string): { start: number; end: number }[] {
+  const haystack = text.toLowerCase();
+  const needle = quote.toLowerCase();
+  const found: { start: number; end: number }[] = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    found.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return found;
+}
+
+// Matches per segment text, in the same order
+export async function detectPersonalDataWithModel(
+  texts: string[],
+  client: LLMClient = getLLMClient("redaction")
+): Promise<RedactionMatch[][]> {
+  const matches: RedactionMatch[][] = texts.map(() => []);
+
+  for (const batch of batches(texts)) {
+    const lines = batch.map((index, line) => `${line + 1}. ${texts[index]}`).join("\n");
+    const response = await client.complete({
+      maxTokens: MAX_REDACTION_TOKENS,
+      messages: [
+        {
+          role: "user",
+          content: REDACTION_PROMPT.replace("{lines}", () => lines),
+        },
+      ],
+    });
+
+    const { items } = parseJsonResponse<{ items?: ModelItem[] }>(response.text);
+    for (const item of Array.isArray(items) ? items : []) {
+      const index = typeof item.line === "number" ? batch[item.line - 1] : undefined;
+      if (index === undefined || typeof item.text !== "string" || !item.text.trim()) continue;
+      const kind = KINDS.find((k) => k === item.kind) ?? "number";
+      for (const range of locate(texts[index], item.text.trim())) {
+        matches[index].push({ kind, ...range });
+      }
+    }
+  }
+
+  return matches;
+}
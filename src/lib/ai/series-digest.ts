@@ -0,0 +1,222 @@
+// Series digests
+// For a recurring meeting, what changed since the previous instance(s): new
+// topics, decisions that were revised, and whether last time's action items
+// were followed up. Digests compare stored summaries rather than transcripts,
+// so they're a single small request. Only instances the viewer can see are
+// compared against, and digests are stored per set of instances (see
+// series_digests), so one viewer's digest never draws on a meeting another
+// can't see.
+
+import type { Viewer } from "@/lib/auth/visibility";
+import {
+  getActionItems,
+  getRelatedRecordings,
+  getSummariesByRecordingIds,
+  type RecordingRow,
+} from "@/lib/db";
+import {
+  formatTime,
+  type AISummary,
+  type SeriesActionItemStatus,
+  type SeriesDigest,
+  type SeriesDigestActionItem,
+  type SummaryMoment,
+} from "@/types/video";
+import { getLLMClient, parseJsonResponse, type LLMClient } from "./client";
+import { formatSummaryForPrompt } from "./summarize";
+import { parseStoredSummary, parseTimestamp } from "./summary-schema";
+
+// Earlier instances compared against; the most recent one carries the action
+// items, the one before gives decisions more history
+const PREVIOUS_INSTANCES = 2;
+const MAX_DIGEST_TOKENS = 2048;
+
+const STATUSES: SeriesActionItemStatus[] = ["addressed", "not-addressed", "unclear"];
+
+export interface DigestInstance {
+  id: string;
+  title: string;
+  createdAt: string;
+  summary: AISummary;
+}
+
+// The previous instances a digest for this recording compares against, most
+// recent first. Instances without a summary are skipped.
+export function getDigestPreviousInstances(
+  viewer: Viewer,
+  recording: RecordingRow
+): DigestInstance[] {
+  const earlier = getRelatedRecordings(viewer, recording.id).filter(
+    (related) => related.created_at < recording.created_at
+  );
+  const summaries = getSummariesByRecordingIds(earlier.map((related) => related.id));
+
+  const instances: DigestInstance[] = [];
+  for (const related of earlier) {
+    const summary = summaries[related.id] ? parseStoredSummary(summaries[related.id].content) : null;
+    if (!summary) continue;
+    instances.push({
+      id: related.id,
+      title: related.custom_title || related.title,
+      createdAt: related.created_at,
+      summary,
+    });
+    if (instances.length === PREVIOUS_INSTANCES) break;
+  }
+  return instances;
+}
+
+const DIGEST_PROMPT = `Below are summaries of meetings in a recurring series. Compare the latest meeting with the earlier one(s) and say what changed.
+
+{previous}
+
+Latest meeting ({date}):
+---
+{current}
+---
+
+1. BRIEF: In 1-2 sentences, how things moved on since the last meeting.
+2. WHAT'S NEW: Topics, updates, risks or questions in the latest meeting that weren't in the earlier ones.
+3. CHANGED DECISIONS: Decisions from the earlier meetings that the latest meeting reversed, revised or reopened, with what was decided before. Leave out decisions that still stand.
+4. ACTION ITEMS: For each action item from the most recent earlier meeting, whether the latest meeting shows it was addressed, not addressed (still pending, slipped or blocked), or unclear because it didn't come up. Add a short note when there's something to say.
+
+Return JSON only, in this shape:
+{
+  "brief": "string",
+  "whatsNew": [{"text": "string", "timestamp": "m:ss"}],
+  "changedDecisions": [{"text": "the new decision", "previously": "the earlier decision", "timestamp": "m:ss"}],
+  "actionItems": [{"text": "string", "owner": "string or null", "status": "addressed" | "not-addressed" | "unclear", "notes": "string or null", "timestamp": "m:ss or null"}]
+}
+Timestamps point into the latest meeting; copy them from its [m:ss] markers, or use null. Use empty arrays when there is nothing to report.`;
+
+function formatDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+// Action items as tracked on /action-items, so ones already checked off
+// there don't need the meeting to say so
+function formatTrackedActionItems(viewer: Viewer, recordingId: string): string {
+  const items = getActionItems(viewer, { recordingId });
+  if (items.length === 0) return "";
+  return [
+    "Action items as tracked in WorkTV:",
+    ...items.map(
+      (item) =>
+        `- [${item.status}] ${item.text}` +
+        (item.owner ? ` (owner: ${item.owner})` : "") +
+        (item.timestamp !== null ? ` [${formatTime(item.timestamp)}]` : "")
+    ),
+  ].join("\n");
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toMoment(value: unknown): SummaryMoment | null {
+  if (typeof value === "string") return value.trim() ? { text: value.trim(), timestamp: null } : null;
+  const obj = asRecord(value);
+  const text = toOptionalString(obj?.text);
+  return obj && text ? { text, timestamp: parseTimestamp(obj.timestamp ?? obj.time) } : null;
+}
+
+function toList<T>(value: unknown, convert: (item: unknown) => T | null): T[] {
+  return Array.isArray(value)
+    ? value.map(convert).filter((item): item is T => item !== null)
+    : [];
+}
+
+// Coerces model output (or a stored digest) into a SeriesDigest
+export function normalizeSeriesDigest(
+  raw: unknown,
+  previous: SeriesDigest["previous"]
+): SeriesDigest {
+  const obj = asRecord(raw);
+  if (!obj) throw new Error("Series digest is not an object");
+
+  return {
+    brief: toOptionalString(obj.brief) ?? "",
+    whatsNew: toList(obj.whatsNew, toMoment),
+    changedDecisions: toList(obj.changedDecisions, (item) => {
+      const moment = toMoment(item);
+      return moment ? { ...moment, previously: toOptionalString(asRecord(item)?.previously) } : null;
+    }),
+    actionItems: toList(obj.actionItems, (item): SeriesDigestActionItem | null => {
+      const moment = toMoment(item);
+      if (!moment) return null;
+      const fields = asRecord(item);
+      const status = STATUSES.find((s) => s === fields?.status) ?? "unclear";
+      return {
+        text: moment.text,
+        owner: toOptionalString(fields?.owner),
+        status,
+        notes: toOptionalString(fields?.notes),
+        timestamp: moment.timestamp,
+      };
+    }),
+    previous,
+  };
+}
+
+export function parseStoredSeriesDigest(content: string): SeriesDigest | null {
+  try {
+    const parsed = JSON.parse(content) as { previous?: unknown };
+    return normalizeSeriesDigest(parsed, Array.isArray(parsed.previous) ? parsed.previous : []);
+  } catch {
+    return null;
+  }
+}
+
+// previous is most recent first, as returned by getDigestPreviousInstances
+export async function generateSeriesDigest(
+  viewer: Viewer,
+  current: DigestInstance,
+  previous: DigestInstance[],
+  client: LLMClient = getLLMClient("series-digest")
+): Promise<SeriesDigest> {
+  if (previous.length === 0) {
+    throw new Error("No previous meeting to compare with");
+  }
+
+  // Oldest first, so the prompt reads in meeting order
+  const earlier = [...previous]
+    .reverse()
+    .map((instance, i, all) =>
+      [
+        `${i === all.length - 1 ? "Most recent earlier meeting" : "Earlier meeting"} (${formatDate(instance.createdAt)}, "${instance.title}"):`,
+        "---",
+        formatSummaryForPrompt(instance.summary),
+        ...(i === all.length - 1 ? [formatTrackedActionItems(viewer, instance.id)] : []),
+        "---",
+      ]
+        .filter(Boolean)
+        .join("\n")
+    )
+    .join("\n\n");
+
+  const prompt = DIGEST_PROMPT
+    .replace("{previous}", () => earlier)
+    .replace("{date}", () => formatDate(current.createdAt))
+    .replace("{current}", () => formatSummaryForPrompt(current.summary));
+
+  const response = await client.complete({
+    maxTokens: MAX_DIGEST_TOKENS,
+    messages: [
+      {
+        role: "user",
+        content: prompt,
+      },
+    ],
+  });
+
+  return normalizeSeriesDigest(
+    parseJsonResponse<unknown>(response.text),
+    previous.map(({ id, title, createdAt }) => ({ id, title, createdAt }))
+  );
+}
@@ -1,14 +1,28 @@
-import Anthropic from "@anthropic-ai/sdk";
 import type { TranscriptSegment, AISummary } from "@/types/video";
-
-const MODEL = "claude-haiku-4-5-20251001";
-
-function getClient(): Anthropic {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error("ANTHROPIC_API_KEY environment variable is required");
-  }
-  return new Anthropic({ apiKey });
+import { formatTime, SUMMARY_VERSION } from "@/types/video";
+import { getLLMClient, parseJsonResponse, type LLMClient } from "./client";
+import { normalizeSummary } from "./summary-schema";
+import {
+  GENERAL_TEMPLATE,
+  templateSections,
+  type SummaryField,
+  type SummaryTemplate,
+} from "./summary-templates";
+import { estimateTokens, getInputTokenBudget, getModelLimits } from "./tokens";
+
+// Section summaries requested at once for long transcripts
+const SECTION_CONCURRENCY = 3;
+const SECTION_OUTPUT_TOKENS = 2048;
+// Call context sent with a clip when titling it
+const CLIP_CONTEXT_TOKENS = 4000;
+
+export interface SummarizeOptions {
+  // Transcript tokens per request; defaults to what fits the model's context
+  maxInputTokens?: number;
+  // When the meeting happened (ISO), so relative due dates can be resolved
+  meetingDate?: string;
+  // Which fields and sections to ask for; defaults to the general template
+  template?: SummaryTemplate;
 }
 
 function formatTranscriptForPrompt(segments: TranscriptSegment[]): string {
@@ -17,40 +31,169 @@ function formatTranscriptForPrompt(segments: TranscriptSegment[]): string {
     .join("\n");
 }
 
-const SUMMARY_PROMPT = `Summarize this meeting transcript.
+// Lines prefixed with [m:ss] so the model can cite where things happened
+function formatTimedTranscriptForPrompt(segments: TranscriptSegment[]): string {
+  return segments
+    .map((seg) => `[${formatTime(seg.startTime)}] ${seg.speaker}: ${seg.text}`)
+    .join("\n");
+}
+
+// Split items into consecutive groups whose estimated cost fits `budget`.
+// An item bigger than the budget gets a group of its own.
+function groupByBudget<T>(items: T[], budget: number, cost: (item: T) => number): T[][] {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let used = 0;
+
+  for (const item of items) {
+    const itemCost = cost(item);
+    if (current.length > 0 && used + itemCost > budget) {
+      groups.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(item);
+    used += itemCost;
+  }
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+}
 
-1. BRIEF: Write a 1-2 sentence summary of what this meeting was about and who participated.
+// Consecutive transcript sections that each fit in one request
+export function splitTranscriptByBudget(
+  segments: TranscriptSegment[],
+  maxTokens: number
+): TranscriptSegment[][] {
+  // +1 for the newline joining lines
+  return groupByBudget(segments, maxTokens, (seg) => estimateTokens(formatTimedTranscriptForPrompt([seg])) + 1);
+}
 
-2. KEY POINTS: List up to 10 key points discussed. Be specific and concrete - avoid vague phrases.
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-3. NEXT STEPS: List any action items, follow-ups, or commitments made. Include who is responsible if mentioned. If none, return empty array.
+const FIELD_INSTRUCTIONS: Record<SummaryField, string> = {
+  keyPoints: "KEY POINTS: List up to {keyPointLimit} key points discussed. Be specific and concrete - avoid vague phrases.",
+  chapters:
+    "CHAPTERS: Split {scope} into chapters where the topic changes (roughly every 5-15 minutes). Give each a short title, the timestamp of its first line, and a one-sentence summary.",
+  decisions: "DECISIONS: List decisions that were explicitly made or agreed on.",
+  openQuestions: "OPEN QUESTIONS: List questions raised that were left unanswered or need follow-up.",
+  risks:
+    "RISKS: List risks, concerns, blockers or objections raised (e.g. pricing pushback, competitor mentions, timeline doubts).",
+  actionItems:
+    "ACTION ITEMS: List action items, follow-ups, or commitments made. Include the owner if mentioned and a due date if one was given ({dateHint}).",
+  sentiment: "SENTIMENT: Rate the overall tone and explain it in one sentence.",
+};
+
+const FIELD_FORMATS: Record<SummaryField, string> = {
+  keyPoints: `"keyPoints": ["string"]`,
+  chapters: `"chapters": [{"title": "string", "start": "m:ss", "summary": "string"}]`,
+  decisions: `"decisions": [{"text": "string", "timestamp": "m:ss"}]`,
+  openQuestions: `"openQuestions": [{"text": "string", "timestamp": "m:ss"}]`,
+  risks: `"risks": [{"text": "string", "timestamp": "m:ss"}]`,
+  actionItems: `"actionItems": [{"text": "string", "owner": "string or null", "dueDate": "YYYY-MM-DD or null", "timestamp": "m:ss"}]`,
+  sentiment: `"sentiment": {"overall": "positive" | "neutral" | "negative" | "mixed", "notes": "string"}`,
+};
+
+// The JSON shape for a template: its standard fields, then its own sections
+// keyed by id
+function buildFormat(template: SummaryTemplate): string {
+  const fields = [`"brief": "string"`, ...template.fields.map((field) => FIELD_FORMATS[field])];
+  if (template.sections.length > 0) {
+    const sections = template.sections
+      .map((section) => `"${section.id}": [{"text": "string", "timestamp": "m:ss"}]`)
+      .join(", ");
+    fields.push(`"sections": {${sections}}`);
+  }
+
+  return `Return JSON only, in this shape:
+{
+  ${fields.join(",\n  ")}
+}
+Timestamps must be copied from the [m:ss] line prefixes. Use empty arrays when there is nothing to report.`;
+}
+
+// Numbered instructions for the template's fields and sections, after its focus
+function buildInstructions(
+  template: SummaryTemplate,
+  scope: string,
+  keyPointLimit: number,
+  meetingDate?: string
+): string {
+  const dateHint = meetingDate
+    ? `the meeting took place on ${meetingDate.slice(0, 10)}; resolve relative dates like "Friday" from it`
+    : "only when stated as a specific date";
+  const steps = [
+    `BRIEF: Write a 1-2 sentence summary of what ${scope} was about and who participated.`,
+    ...template.fields.map((field) =>
+      FIELD_INSTRUCTIONS[field]
+        .replace("{scope}", scope)
+        .replace("{keyPointLimit}", String(keyPointLimit))
+        .replace("{dateHint}", dateHint)
+    ),
+    ...template.sections.map((section) => `${section.title.toUpperCase()}: ${section.instructions}`),
+  ];
+
+  return [template.focus, steps.map((step, i) => `${i + 1}. ${step}`).join("\n\n")]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+const SUMMARY_PROMPT = `Summarize this meeting transcript.
+
+{instructions}
 
 Meeting transcript:
 ---
 {transcript}
 ---
 
-Return JSON only: {"brief": "string", "keyPoints": ["string", ...], "nextSteps": ["string", ...]}
-All values must be strings. Do not use objects.`;
+{format}`;
 
-export async function generateTranscriptSummary(
-  segments: TranscriptSegment[]
-): Promise<AISummary> {
-  if (segments.length === 0) {
-    return {
-      brief: "No transcript available for this recording.",
-      keyPoints: [],
-      nextSteps: [],
-    };
-  }
+const SECTION_PROMPT = `Summarize one section of a longer meeting transcript. This is section {index} of {total}, covering {range} of the call.
 
-  const client = getClient();
-  const transcript = formatTranscriptForPrompt(segments);
-  const prompt = SUMMARY_PROMPT.replace("{transcript}", transcript);
+{instructions}
+
+Transcript section:
+---
+{transcript}
+---
+
+{format}`;
+
+const MERGE_PROMPT = `Below are summaries of consecutive sections of one meeting, in order. Combine them into a single summary of the whole meeting.
+
+Rewrite the brief and sentiment for the whole meeting and keep up to 10 of the most important key points. Keep every other item, merging duplicates and keeping their timestamps.
+
+Section summaries:
+---
+{sections}
+---
 
-  const response = await client.messages.create({
-    model: MODEL,
-    max_tokens: 8192, // Max output for Haiku 4.5
+{format}`;
+
+async function requestSummary(
+  client: LLMClient,
+  template: SummaryTemplate,
+  prompt: string,
+  maxTokens: number
+): Promise<AISummary> {
+  const response = await client.complete({
+    maxTokens,
     messages: [
       {
         role: "user",
@@ -59,53 +202,151 @@ export async function generateTranscriptSummary(
     ],
   });
 
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response type from Claude");
-  }
+  // Validates the shape and coerces loosely-typed fields
+  return normalizeSummary(parseJsonResponse<unknown>(response.text), template);
+}
+
+interface SectionSummary {
+  startTime: number;
+  endTime: number;
+  summary: AISummary;
+}
 
-  // Strip markdown code block wrapper if present
-  let jsonText = content.text.trim();
-  if (jsonText.startsWith("```")) {
-    // Remove opening ```json or ``` and closing ```
-    jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, "").replace(/\n?```\s*$/, "");
+// A summary as plain text for a follow-up prompt, with [m:ss] timestamps
+export function formatSummaryForPrompt(summary: AISummary): string {
+  const at = (timestamp: number | null) => (timestamp !== null ? ` [${formatTime(timestamp)}]` : "");
+  const list = (label: string, items: string[]) =>
+    items.length > 0 ? [`${label}:`, ...items.map((item) => `- ${item}`)] : [];
+
+  return [
+    `Brief: ${summary.brief}`,
+    ...(summary.sentiment ? [`Sentiment: ${summary.sentiment.overall} - ${summary.sentiment.notes}`] : []),
+    ...list("Key points", summary.keyPoints),
+    ...list("Decisions", summary.decisions.map((d) => d.text + at(d.timestamp))),
+    ...list("Open questions", summary.openQuestions.map((q) => q.text + at(q.timestamp))),
+    ...list("Risks", summary.risks.map((r) => r.text + at(r.timestamp))),
+    ...list(
+      "Action items",
+      summary.actionItems.map(
+        (item) =>
+          item.text +
+          (item.owner ? ` (owner: ${item.owner})` : "") +
+          (item.dueDate ? ` (due: ${item.dueDate})` : "") +
+          at(item.timestamp)
+      )
+    ),
+    ...summary.sections.flatMap((section) =>
+      list(`${section.title} (${section.id})`, section.items.map((item) => item.text + at(item.timestamp)))
+    ),
+  ].join("\n");
+}
+
+function formatSectionSummary(section: SectionSummary): string {
+  return [
+    `Section ${formatTime(section.startTime)}–${formatTime(section.endTime)}`,
+    formatSummaryForPrompt(section.summary),
+  ].join("\n");
+}
+
+// Reduce step: merge section summaries into one, in rounds when they don't
+// all fit in a single request
+async function mergeSectionSummaries(
+  client: LLMClient,
+  template: SummaryTemplate,
+  sections: SectionSummary[],
+  budget: number
+): Promise<AISummary> {
+  const outputTokens = getModelLimits(client).maxOutputTokens;
+  // Chapters are already timestamped and in order, so they're concatenated
+  // rather than left to the model
+  const format = buildFormat({
+    ...template,
+    fields: template.fields.filter((field) => field !== "chapters"),
+  });
+  const mergeGroup = async (group: SectionSummary[]): Promise<AISummary> => {
+    const merged = await requestSummary(
+      client,
+      template,
+      MERGE_PROMPT
+        .replace("{sections}", () => group.map(formatSectionSummary).join("\n\n"))
+        .replace("{format}", () => format),
+      outputTokens
+    );
+    return { ...merged, chapters: group.flatMap((section) => section.summary.chapters) };
+  };
+
+  const groups = groupByBudget(sections, budget, (section) => estimateTokens(formatSectionSummary(section)) + 1);
+  // Merge everything when grouping can't make progress (tiny budgets)
+  if (groups.length === 1 || groups.length === sections.length) {
+    return mergeGroup(sections);
   }
 
-  let parsed: AISummary;
-  try {
-    parsed = JSON.parse(jsonText) as AISummary;
-  } catch {
-    throw new Error(`Failed to parse Claude's response as JSON: ${jsonText.slice(0, 200)}`);
+  const merged = await mapWithConcurrency(groups, SECTION_CONCURRENCY, async (group) => ({
+    startTime: group[0].startTime,
+    endTime: group[group.length - 1].endTime,
+    summary: group.length === 1 ? group[0].summary : await mergeGroup(group),
+  }));
+  return mergeSectionSummaries(client, template, merged, budget);
+}
+
+// Transcripts that fit the model's context are summarized in one request.
+// Longer ones are split into sections that are summarized separately (map)
+// and then merged into the final summary (reduce).
+export async function generateTranscriptSummary(
+  segments: TranscriptSegment[],
+  client: LLMClient = getLLMClient("summary"),
+  options: SummarizeOptions = {}
+): Promise<AISummary> {
+  const template = options.template ?? GENERAL_TEMPLATE;
+
+  if (segments.length === 0) {
+    return {
+      version: SUMMARY_VERSION,
+      brief: "No transcript available for this recording.",
+      keyPoints: [],
+      chapters: [],
+      decisions: [],
+      openQuestions: [],
+      risks: [],
+      actionItems: [],
+      sentiment: null,
+      sections: templateSections(template),
+      template: { id: template.id, name: template.name },
+    };
   }
 
-  // Validate the response shape
-  if (
-    typeof parsed.brief !== "string" ||
-    !Array.isArray(parsed.keyPoints) ||
-    !Array.isArray(parsed.nextSteps)
-  ) {
-    throw new Error("Invalid summary response format");
+  const budget = options.maxInputTokens ?? getInputTokenBudget(client);
+  const transcript = formatTimedTranscriptForPrompt(segments);
+
+  if (estimateTokens(transcript) <= budget) {
+    const prompt = SUMMARY_PROMPT
+      .replace("{instructions}", () => buildInstructions(template, "this meeting", 10, options.meetingDate))
+      .replace("{format}", () => buildFormat(template))
+      .replace("{transcript}", () => transcript);
+    return requestSummary(client, template, prompt, getModelLimits(client).maxOutputTokens);
   }
 
-  // Normalize: ensure all array items are strings
-  const normalizeToString = (item: unknown): string => {
-    if (typeof item === "string") return item;
-    if (typeof item === "object" && item !== null) {
-      const obj = item as Record<string, unknown>;
-      return obj.action as string || obj.text as string || JSON.stringify(item);
-    }
-    return String(item);
-  };
+  const sections = splitTranscriptByBudget(segments, budget);
+  const sectionSummaries = await mapWithConcurrency(sections, SECTION_CONCURRENCY, async (section, i) => {
+    const startTime = section[0].startTime;
+    const endTime = section[section.length - 1].endTime;
+    const prompt = SECTION_PROMPT
+      .replace("{index}", String(i + 1))
+      .replace("{total}", String(sections.length))
+      .replace("{range}", `${formatTime(startTime)}–${formatTime(endTime)}`)
+      .replace("{instructions}", () => buildInstructions(template, "this section", 8, options.meetingDate))
+      .replace("{format}", () => buildFormat(template))
+      .replace("{transcript}", () => formatTimedTranscriptForPrompt(section));
+    return {
+      startTime,
+      endTime,
+      summary: await requestSummary(client, template, prompt, SECTION_OUTPUT_TOKENS),
+    };
+  });
 
-  return {
-    brief: parsed.brief,
-    keyPoints: parsed.keyPoints.map(normalizeToString),
-    nextSteps: parsed.nextSteps.map(normalizeToString),
-  };
+  return mergeSectionSummaries(client, template, sectionSummaries, budget);
 }
 
-export { MODEL as SUMMARY_MODEL };
-
 const CLIP_TITLE_PROMPT = `Generate a short, descriptive title for a video clip.
 
 The primary speaker in this clip is: {speaker}
@@ -131,9 +372,51 @@ The title should:
 
 Return only the title text in format "FirstName: key moment description", nothing else.`;
 
+// The whole call when it fits the budget, otherwise the conversation around
+// the clip, widened alternately before and after it at segment boundaries
+export function buildClipContext(
+  fullTranscript: TranscriptSegment[],
+  clipStartTime: number,
+  maxTokens: number
+): string {
+  const fullText = formatTranscriptForPrompt(fullTranscript);
+  if (estimateTokens(fullText) <= maxTokens) return fullText;
+
+  const cost = (seg: TranscriptSegment) => estimateTokens(formatTranscriptForPrompt([seg])) + 1;
+  const found = fullTranscript.findIndex((seg) => seg.startTime >= clipStartTime);
+  const center = found === -1 ? fullTranscript.length - 1 : found;
+
+  let first = center;
+  let last = center;
+  let used = cost(fullTranscript[center]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (last + 1 < fullTranscript.length && used + cost(fullTranscript[last + 1]) <= maxTokens) {
+      last++;
+      used += cost(fullTranscript[last]);
+      grew = true;
+    }
+    if (first > 0 && used + cost(fullTranscript[first - 1]) <= maxTokens) {
+      first--;
+      used += cost(fullTranscript[first]);
+      grew = true;
+    }
+  }
+
+  return [
+    first > 0 ? "...[earlier conversation omitted]..." : "",
+    formatTranscriptForPrompt(fullTranscript.slice(first, last + 1)),
+    last < fullTranscript.length - 1 ? "...[later conversation omitted]..." : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
 export async function generateClipTitle(
   clipSegments: TranscriptSegment[],
-  fullTranscript?: TranscriptSegment[]
+  fullTranscript?: TranscriptSegment[],
+  client: LLMClient = getLLMClient("clip-title")
 ): Promise<string> {
   if (clipSegments.length === 0) {
     return "";
@@ -153,27 +436,15 @@ export async function generateClipTitle(
     }
   }
 
-  const client = getClient();
   const clipTranscript = formatTranscriptForPrompt(clipSegments);
 
   // Build full context section if we have the full transcript
   let fullContext = "";
   if (fullTranscript && fullTranscript.length > clipSegments.length) {
-    const fullText = formatTranscriptForPrompt(fullTranscript);
-    // Limit context to avoid token limits (roughly 8k chars)
-    // Truncate at segment boundaries to avoid cutting mid-sentence
-    let truncatedFull = fullText;
-    if (fullText.length > 8000) {
-      const halfSegments = Math.floor(fullTranscript.length / 2);
-      const startSegments = fullTranscript.slice(0, Math.min(halfSegments, 50));
-      const endSegments = fullTranscript.slice(-Math.min(halfSegments, 50));
-      truncatedFull = formatTranscriptForPrompt(startSegments) +
-        "\n...[middle truncated]...\n" +
-        formatTranscriptForPrompt(endSegments);
-    }
-    fullContext = `FULL CALL TRANSCRIPT (for context):
+    const budget = Math.min(CLIP_CONTEXT_TOKENS, getInputTokenBudget(client, 100));
+    fullContext = `CALL TRANSCRIPT (for context):
 ---
-${truncatedFull}
+${buildClipContext(fullTranscript, clipSegments[0].startTime, budget)}
 ---`;
   }
 
@@ -182,9 +453,8 @@ ${truncatedFull}
     .replace("{speaker}", primarySpeaker)
     .replace("{fullContext}", fullContext);
 
-  const response = await client.messages.create({
-    model: MODEL,
-    max_tokens: 100,
+  const response = await client.complete({
+    maxTokens: 100,
     messages: [
       {
         role: "user",
@@ -193,10 +463,5 @@ ${truncatedFull}
     ],
   });
 
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response type from Claude");
-  }
-
-  return content.text.trim();
+  return response.text.trim();
 }
@@ -0,0 +1,165 @@
+// AISummary parsing and upgrades
+// Summaries are stored as JSON in summaries.content. Model output and stored
+// rows both go through normalizeSummary(), which coerces loosely-shaped
+// fields and upgrades version 1 rows (plain-string nextSteps, no chapters),
+// so a row the migration hasn't reached still renders. Model output keys
+// template sections by id; stored summaries keep them as a titled list.
+
+import {
+  SUMMARY_VERSION,
+  type AISummary,
+  type SummaryActionItem,
+  type SummaryChapter,
+  type SummaryMoment,
+  type SummarySection,
+  type SummarySentiment,
+} from "@/types/video";
+import { templateSections, type SummaryTemplate } from "./summary-templates";
+
+const SENTIMENTS: SummarySentiment[] = ["positive", "neutral", "negative", "mixed"];
+
+// Seconds, or "m:ss" / "h:mm:ss" as they appear in prompts → seconds
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const match = value.trim().replace(/^\[|\]$/g, "").match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  return match[3] !== undefined
+    ? parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10)
+    : parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+function asRecord(item: unknown): Record<string, unknown> | null {
+  return typeof item === "object" && item !== null && !Array.isArray(item)
+    ? (item as Record<string, unknown>)
+    : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function toText(item: unknown): string {
+  if (typeof item === "string") return item;
+  const obj = asRecord(item);
+  if (obj) {
+    return obj.action as string || obj.text as string || JSON.stringify(item);
+  }
+  return String(item);
+}
+
+function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toMoment(item: unknown): SummaryMoment | null {
+  const obj = asRecord(item);
+  const text = toText(item).trim();
+  if (!text) return null;
+  return { text, timestamp: obj ? parseTimestamp(obj.timestamp ?? obj.time) : null };
+}
+
+function toActionItem(item: unknown): SummaryActionItem | null {
+  const moment = toMoment(item);
+  if (!moment) return null;
+
+  const obj = asRecord(item);
+  const dueDate = toOptionalString(obj?.dueDate);
+  return {
+    text: moment.text,
+    owner: toOptionalString(obj?.owner),
+    dueDate: dueDate && /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? dueDate : null,
+    timestamp: moment.timestamp,
+  };
+}
+
+function toChapter(item: unknown): SummaryChapter | null {
+  const obj = asRecord(item);
+  if (!obj || typeof obj.title !== "string" || !obj.title.trim()) return null;
+
+  const startTime = parseTimestamp(obj.startTime ?? obj.start ?? obj.timestamp);
+  if (startTime === null) return null;
+  return {
+    title: obj.title.trim(),
+    startTime,
+    summary: typeof obj.summary === "string" ? obj.summary.trim() : "",
+  };
+}
+
+function toSection(item: unknown): SummarySection | null {
+  const obj = asRecord(item);
+  if (!obj || typeof obj.id !== "string" || typeof obj.title !== "string") return null;
+  return { id: obj.id, title: obj.title, items: compact(asArray(obj.items).map(toMoment)) };
+}
+
+function toTemplateRef(value: unknown): AISummary["template"] {
+  const obj = asRecord(value);
+  return obj && typeof obj.id === "string" && typeof obj.name === "string"
+    ? { id: obj.id, name: obj.name }
+    : null;
+}
+
+function compact<T>(items: (T | null)[]): T[] {
+  return items.filter((item): item is T => item !== null);
+}
+
+// `template` is the one the summary was requested with (model output only)
+export function normalizeSummary(raw: unknown, template?: SummaryTemplate): AISummary {
+  const obj = asRecord(raw);
+  // Templates choose which fields to ask for, so only the brief is required
+  if (!obj || typeof obj.brief !== "string") {
+    throw new Error("Invalid summary response format");
+  }
+
+  // Version 1 kept action items as plain strings in nextSteps
+  const actionItems = Array.isArray(obj.actionItems) ? obj.actionItems : asArray(obj.nextSteps);
+
+  const chapters = compact(asArray(obj.chapters).map(toChapter)).sort(
+    (a, b) => a.startTime - b.startTime
+  );
+
+  let sections: SummarySection[];
+  if (template) {
+    const byId = asRecord(obj.sections) ?? {};
+    sections = templateSections(
+      template,
+      Object.fromEntries(
+        template.sections.map((section) => [section.id, compact(asArray(byId[section.id]).map(toMoment))])
+      )
+    );
+  } else {
+    sections = compact(asArray(obj.sections).map(toSection));
+  }
+
+  const sentiment = asRecord(obj.sentiment);
+  const overall = sentiment?.overall as SummarySentiment | undefined;
+
+  return {
+    version: SUMMARY_VERSION,
+    brief: obj.brief,
+    keyPoints: asArray(obj.keyPoints).map(toText),
+    chapters,
+    decisions: compact(asArray(obj.decisions).map(toMoment)),
+    openQuestions: compact(asArray(obj.openQuestions).map(toMoment)),
+    risks: compact(asArray(obj.risks).map(toMoment)),
+    actionItems: compact(actionItems.map(toActionItem)),
+    sentiment:
+      overall && SENTIMENTS.includes(overall)
+        ? { overall, notes: typeof sentiment?.notes === "string" ? sentiment.notes : "" }
+        : null,
+    sections,
+    template: template ? { id: template.id, name: template.name } : toTemplateRef(obj.template),
+  };
+}
+
+// Parse summaries.content; null when the row is unreadable
+export function parseStoredSummary(content: string): AISummary | null {
+  try {
+    return normalizeSummary(JSON.parse(content));
+  } catch {
+    return null;
+  }
+}
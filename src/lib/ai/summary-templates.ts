@@ -0,0 +1,395 @@
+// Summary templates by meeting type
+// A template decides which standard summary fields are requested, adds its own
+// sections (each a list of timestamped items) and steers the model with a
+// focus paragraph. Templates live in the summary_templates table; the ones
+// below are seeded on startup and can be edited but not deleted.
+
+import type { SummarySection } from "@/types/video";
+import type { RecordingRow } from "@/lib/db";
+
+export type SummaryField =
+  | "keyPoints"
+  | "chapters"
+  | "decisions"
+  | "openQuestions"
+  | "risks"
+  | "actionItems"
+  | "sentiment";
+
+// In the order they're requested and shown
+export const SUMMARY_FIELDS: SummaryField[] = [
+  "keyPoints",
+  "chapters",
+  "decisions",
+  "openQuestions",
+  "risks",
+  "actionItems",
+  "sentiment",
+];
+
+export const SUMMARY_FIELD_LABELS: Record<SummaryField, string> = {
+  keyPoints: "Key points",
+  chapters: "Chapters",
+  decisions: "Decisions",
+  openQuestions: "Open questions",
+  risks: "Risks & objections",
+  actionItems: "Action items",
+  sentiment: "Sentiment",
+};
+
+export const TEMPLATE_SOURCES = ["zoom", "gong"];
+
+export type MeetingScope = "internal" | "external";
+
+export interface SummaryTemplateSection {
+  // Key in the model's JSON output
+  id: string;
+  title: string;
+  instructions: string;
+}
+
+// Every rule that is set must match; a template with no rules is never picked
+// automatically
+export interface SummaryTemplateMatch {
+  sources: string[];
+  // Case-insensitive regular expressions
+  titlePattern: string | null;
+  purposePattern: string | null;
+  // Gong call scope
+  scope: MeetingScope | null;
+}
+
+export interface SummaryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Extra guidance for the whole summary
+  focus: string;
+  fields: SummaryField[];
+  sections: SummaryTemplateSection[];
+  match: SummaryTemplateMatch;
+  // Higher wins when several templates match
+  priority: number;
+  builtIn: boolean;
+}
+
+export type SummaryTemplateInput = Omit<SummaryTemplate, "id" | "builtIn">;
+
+// What automatic selection looks at
+export interface TemplateMeeting {
+  source: string;
+  title: string;
+  // Gong call purpose (stored as the recording description)
+  purpose: string | null;
+  scope: MeetingScope | null;
+}
+
+export function recordingToTemplateMeeting(recording: RecordingRow): TemplateMeeting {
+  return {
+    source: recording.source,
+    title: recording.custom_title ?? recording.title,
+    purpose: recording.description,
+    scope: recording.meeting_scope,
+  };
+}
+
+export const DEFAULT_TEMPLATE_ID = "general";
+
+const NO_MATCH: SummaryTemplateMatch = {
+  sources: [],
+  titlePattern: null,
+  purposePattern: null,
+  scope: null,
+};
+
+// The Gong-style summary used when no other template matches
+export const GENERAL_TEMPLATE: SummaryTemplate = {
+  id: DEFAULT_TEMPLATE_ID,
+  name: "General meeting",
+  description: "Used when no other template matches.",
+  focus: "",
+  fields: SUMMARY_FIELDS,
+  sections: [],
+  match: NO_MATCH,
+  priority: 0,
+  builtIn: true,
+};
+
+export const BUILT_IN_SUMMARY_TEMPLATES: SummaryTemplate[] = [
+  GENERAL_TEMPLATE,
+  {
+    id: "sales-discovery",
+    name: "Sales discovery",
+    description: "External calls with prospects and customers.",
+    focus:
+      "This is a sales call. Focus on the customer's situation, needs and buying process rather than on our pitch.",
+    fields: SUMMARY_FIELDS,
+    sections: [
+      {
+        id: "painPoints",
+        title: "Pain Points",
+        instructions: "Problems the customer described, in their words where possible.",
+      },
+      {
+        id: "buyingProcess",
+        title: "Buying Process",
+        instructions:
+          "What was learned about budget, timeline, decision makers and how they will evaluate and buy.",
+      },
+      {
+        id: "competitors",
+        title: "Competitors",
+        instructions: "Competitors or alternatives mentioned, and what was said about them.",
+      },
+    ],
+    match: { ...NO_MATCH, scope: "external" },
+    priority: 10,
+    builtIn: true,
+  },
+  {
+    id: "eng-standup",
+    name: "Engineering standup",
+    description: "Daily standups and syncs.",
+    focus: "This is a short team standup. Keep it terse: who is doing what, and what is in the way.",
+    fields: ["decisions", "actionItems"],
+    sections: [
+      {
+        id: "updates",
+        title: "Updates",
+        instructions: 'One item per person, as "Name: what they did and what they are doing next".',
+      },
+      {
+        id: "blockers",
+        title: "Blockers",
+        instructions: "Anything someone is blocked on or needs help with, and who can unblock it.",
+      },
+    ],
+    match: { ...NO_MATCH, titlePattern: "stand-?up|daily sync|scrum" },
+    priority: 20,
+    builtIn: true,
+  },
+  {
+    id: "one-on-one",
+    name: "1:1",
+    description: "Manager and peer one-on-ones.",
+    focus: "This is a one-on-one. Capture what matters to both people without editorializing.",
+    fields: ["keyPoints", "decisions", "actionItems", "sentiment"],
+    sections: [
+      {
+        id: "feedback",
+        title: "Feedback",
+        instructions: "Feedback given or asked for, in either direction.",
+      },
+      {
+        id: "growth",
+        title: "Growth & Career",
+        instructions: "Career goals, development areas and support discussed.",
+      },
+    ],
+    match: { ...NO_MATCH, titlePattern: "\\b1\\s*(:|-|on|/)\\s*1\\b|one[- ]on[- ]one" },
+    priority: 20,
+    builtIn: true,
+  },
+  {
+    id: "customer-interview",
+    name: "Customer interview",
+    description: "Research and feedback interviews with customers or users.",
+    focus:
+      "This is a research interview. Report what the customer said and did, not what the interviewer suggested.",
+    fields: ["keyPoints", "chapters", "openQuestions", "sentiment"],
+    sections: [
+      {
+        id: "needs",
+        title: "Goals & Needs",
+        instructions: "What the customer is trying to get done and why.",
+      },
+      {
+        id: "painPoints",
+        title: "Pain Points",
+        instructions: "Frustrations and workarounds they described.",
+      },
+      {
+        id: "featureRequests",
+        title: "Feature Requests",
+        instructions: "Capabilities they asked for or said they were missing.",
+      },
+      {
+        id: "quotes",
+        title: "Notable Quotes",
+        instructions: "Up to 5 short verbatim quotes worth sharing with the team, with the speaker's name.",
+      },
+    ],
+    match: { ...NO_MATCH, titlePattern: "interview|user research|customer research|feedback session" },
+    priority: 30,
+    builtIn: true,
+  },
+  {
+    id: "all-hands",
+    name: "All-hands",
+    description: "Company and team all-hands, town halls and AMAs.",
+    focus: "This is a company-wide meeting. Write it for someone who missed it.",
+    fields: ["keyPoints", "chapters", "decisions"],
+    sections: [
+      {
+        id: "announcements",
+        title: "Announcements",
+        instructions: "News, launches, changes and people announcements.",
+      },
+      {
+        id: "questions",
+        title: "Q&A",
+        instructions: 'Questions from the audience with the answer given, as "Q: ... A: ...".',
+      },
+    ],
+    match: { ...NO_MATCH, titlePattern: "all[- ]hands|town ?hall|\\bama\\b|company meeting" },
+    priority: 20,
+    builtIn: true,
+  },
+];
+
+function matchesPattern(pattern: string | null, value: string | null): boolean {
+  if (!pattern) return true;
+  if (!value) return false;
+  try {
+    return new RegExp(pattern, "i").test(value);
+  } catch {
+    // Saved patterns are validated, but never let a bad one match everything
+    return false;
+  }
+}
+
+function hasMatchRules(match: SummaryTemplateMatch): boolean {
+  return (
+    match.sources.length > 0 ||
+    match.titlePattern !== null ||
+    match.purposePattern !== null ||
+    match.scope !== null
+  );
+}
+
+export function templateMatches(template: SummaryTemplate, meeting: TemplateMeeting): boolean {
+  const { match } = template;
+  if (!hasMatchRules(match)) return false;
+  return (
+    (match.sources.length === 0 || match.sources.includes(meeting.source)) &&
+    (match.scope === null || match.scope === meeting.scope) &&
+    matchesPattern(match.titlePattern, meeting.title) &&
+    matchesPattern(match.purposePattern, meeting.purpose)
+  );
+}
+
+// Highest-priority matching template, else the general one
+export function selectSummaryTemplate(
+  templates: SummaryTemplate[],
+  meeting: TemplateMeeting
+): SummaryTemplate {
+  const matched = templates
+    .filter((template) => templateMatches(template, meeting))
+    .sort((a, b) => b.priority - a.priority)[0];
+  return (
+    matched ??
+    templates.find((template) => template.id === DEFAULT_TEMPLATE_ID) ??
+    GENERAL_TEMPLATE
+  );
+}
+
+// Empty sections for every section the template defines, in template order
+export function templateSections(
+  template: SummaryTemplate,
+  items: Record<string, SummarySection["items"]> = {}
+): SummarySection[] {
+  return template.sections.map((section) => ({
+    id: section.id,
+    title: section.title,
+    items: items[section.id] ?? [],
+  }));
+}
+
+function toSectionId(title: string): string {
+  const words = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  return words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1))).join("");
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function isValidPattern(pattern: string | null): boolean {
+  if (pattern === null) return true;
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Validate a template from the admin UI; returns an error message on failure
+export function parseSummaryTemplateInput(
+  body: unknown
+): { template: SummaryTemplateInput } | { error: string } {
+  const obj = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+
+  const name = optionalString(obj.name);
+  if (!name) return { error: "name is required" };
+
+  const fields = Array.isArray(obj.fields) ? obj.fields : [];
+  if (!fields.every((field) => SUMMARY_FIELDS.includes(field as SummaryField))) {
+    return { error: `fields must be some of ${SUMMARY_FIELDS.join(", ")}` };
+  }
+
+  const sections: SummaryTemplateSection[] = [];
+  for (const raw of Array.isArray(obj.sections) ? obj.sections : []) {
+    const section = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+    const title = optionalString(section.title);
+    const instructions = optionalString(section.instructions);
+    if (!title || !instructions) {
+      return { error: "Every section needs a title and instructions" };
+    }
+    const id = optionalString(section.id) ?? toSectionId(title);
+    if (!/^[A-Za-z][A-Za-z0-9]*$/.test(id) || sections.some((s) => s.id === id)) {
+      return { error: `Section "${title}" needs a unique name` };
+    }
+    sections.push({ id, title, instructions });
+  }
+
+  const match = typeof obj.match === "object" && obj.match !== null
+    ? (obj.match as Record<string, unknown>)
+    : {};
+  const sources = Array.isArray(match.sources) ? match.sources : [];
+  if (!sources.every((source) => TEMPLATE_SOURCES.includes(source as string))) {
+    return { error: `sources must be some of ${TEMPLATE_SOURCES.join(", ")}` };
+  }
+  const scope = match.scope ?? null;
+  if (scope !== null && scope !== "internal" && scope !== "external") {
+    return { error: "scope must be internal, external or null" };
+  }
+  const titlePattern = optionalString(match.titlePattern);
+  const purposePattern = optionalString(match.purposePattern);
+  if (!isValidPattern(titlePattern) || !isValidPattern(purposePattern)) {
+    return { error: "Patterns must be valid regular expressions" };
+  }
+
+  const priority = obj.priority ?? 0;
+  if (typeof priority !== "number" || !Number.isInteger(priority)) {
+    return { error: "priority must be a whole number" };
+  }
+
+  return {
+    template: {
+      name,
+      description: optionalString(obj.description) ?? "",
+      focus: optionalString(obj.focus) ?? "",
+      // Keep the canonical order regardless of how they were sent
+      fields: SUMMARY_FIELDS.filter((field) => fields.includes(field)),
+      sections,
+      match: { sources: sources as string[], titlePattern, purposePattern, scope },
+      priority,
+    },
+  };
+}
@@ -0,0 +1,66 @@
+// Token budgeting for prompts
+// Counts are estimated from character length (no tokenizer dependency), on
+// the conservative side for transcripts, which are heavy on names and numbers.
+// Budgets are per client: its model's limits below, or the context window
+// configured with LLM_CONTEXT_TOKENS, which wins.
+
+import type { LLMClient } from "./client";
+
+// What a budget depends on
+type BudgetedClient = Pick<LLMClient, "provider" | "defaultModel" | "contextTokens">;
+
+export interface ModelLimits {
+  contextTokens: number;
+  // Output tokens requested for long-form responses such as summaries
+  maxOutputTokens: number;
+}
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  "claude-haiku-4-5-20251001": { contextTokens: 200_000, maxOutputTokens: 8192 },
+  "claude-sonnet-4-5-20250929": { contextTokens: 200_000, maxOutputTokens: 8192 },
+  "claude-sonnet-4-20250514": { contextTokens: 200_000, maxOutputTokens: 8192 },
+  "claude-opus-4-1-20250805": { contextTokens: 200_000, maxOutputTokens: 8192 },
+  "gpt-4o-mini": { contextTokens: 128_000, maxOutputTokens: 16_384 },
+  "gpt-4o": { contextTokens: 128_000, maxOutputTokens: 16_384 },
+  "gpt-4.1-mini": { contextTokens: 1_000_000, maxOutputTokens: 32_768 },
+  "gpt-4.1": { contextTokens: 1_000_000, maxOutputTokens: 32_768 },
+};
+
+// Unknown models get a budget most current models can handle
+const DEFAULT_LIMITS: ModelLimits = { contextTokens: 100_000, maxOutputTokens: 4096 };
+
+// Ollama runs every model with the server's context length (4096 tokens
+// unless OLLAMA_CONTEXT_LENGTH says otherwise), whatever the model supports,
+// and silently drops the start of prompts that don't fit
+const OLLAMA_LIMITS: ModelLimits = { contextTokens: 4096, maxOutputTokens: 1024 };
+
+const CHARS_PER_TOKEN = 3.5;
+
+// Room kept for instructions, formatting and estimation error
+const PROMPT_OVERHEAD_TOKENS = 2_000;
+const SAFETY_MARGIN = 0.85;
+
+export function getModelLimits(client: BudgetedClient): ModelLimits {
+  const known = MODEL_LIMITS[client.defaultModel];
+  if (client.contextTokens) {
+    // A quarter of the window at most goes to the reply
+    const maxOutputTokens = known?.maxOutputTokens ?? DEFAULT_LIMITS.maxOutputTokens;
+    return {
+      contextTokens: client.contextTokens,
+      maxOutputTokens: Math.min(maxOutputTokens, Math.floor(client.contextTokens / 4)),
+    };
+  }
+  return known ?? (client.provider === "ollama" ? OLLAMA_LIMITS : DEFAULT_LIMITS);
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Tokens of content (e.g. transcript) that fit in one request to the client
+export function getInputTokenBudget(client: BudgetedClient, outputTokens?: number): number {
+  const limits = getModelLimits(client);
+  const available =
+    limits.contextTokens - (outputTokens ?? limits.maxOutputTokens) - PROMPT_OVERHEAD_TOKENS;
+  return Math.max(0, Math.floor(available * SAFETY_MARGIN));
+}
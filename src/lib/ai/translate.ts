@@ -0,0 +1,125 @@
+// Transcript translation
+// Segments are sent as numbered lines and come back by line number, so a
+// translation always has the original's segments and timings. Lines the model
+// leaves out, or loses in a reply that was cut off, are asked for again in
+// smaller requests; any still missing after that keep their original text and
+// are marked untranslated.
+
+import { languageLabel } from "@/lib/translation/languages";
+import { getLLMClient, parseJsonResponse, type LLMClient } from "./client";
+
+// Segment text per request, in characters. Translations come back about as
+// long as the original, so batches stay well under the reply limit
+const MAX_BATCH_CHARS = 4000;
+const MAX_TRANSLATION_TOKENS = 4096;
+// Requests for a batch's lines, counting the retries for missing ones
+const MAX_ATTEMPTS = 3;
+
+const TRANSLATION_PROMPT = `These are numbered lines from a meeting transcript{source}. Translate each line into {language}. Keep names, product names and placeholders in square brackets like [phone number] as they are, and keep each line's meaning on that line.
+
+Transcript:
+---
+{lines}
+---
+
+Reply with JSON only, with one entry per line:
+{"lines": [{"line": 1, "text": "..."}]}`;
+
+export interface TranslatableSegment {
+  id: string;
+  text: string;
+}
+
+export interface TranslatedSegment extends TranslatableSegment {
+  // The model never returned this line; text is the original
+  untranslated?: boolean;
+}
+
+interface ModelLine {
+  line?: unknown;
+  text?: unknown;
+}
+
+// Split into requests of at most MAX_BATCH_CHARS, by segment index
+function batches(segments: TranslatableSegment[]): number[][] {
+  const result: number[][] = [];
+  let current: number[] = [];
+  let size = 0;
+  segments.forEach((segment, index) => {
+    if (current.length > 0 && size + segment.text.length > MAX_BATCH_CHARS) {
+      result.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(index);
+    size += segment.text.length;
+  });
+  if (current.length > 0) result.push(current);
+  return result;
+}
+
+// Halves of a list, for retrying a reply that may have been cut off
+function halves(indexes: number[]): number[][] {
+  if (indexes.length < 2) return [indexes];
+  const middle = Math.ceil(indexes.length / 2);
+  return [indexes.slice(0, middle), indexes.slice(middle)];
+}
+
+// The segments with their text in the target language (an ISO 639-1 code)
+export async function translateTranscript(
+  segments: TranslatableSegment[],
+  language: string,
+  client: LLMClient = getLLMClient("translation"),
+  options: { sourceLanguage?: string } = {}
+): Promise<TranslatedSegment[]> {
+  const translated: TranslatedSegment[] = segments.map((segment) => ({ id: segment.id, text: segment.text }));
+  const source = options.sourceLanguage ? ` in ${languageLabel(options.sourceLanguage)}` : "";
+
+  // Segment indexes translated, out of those asked for
+  const request = async (batch: number[]): Promise<Set<number>> => {
+    const lines = batch.map((index, line) => `${line + 1}. ${segments[index].text}`).join("\n");
+    const response = await client.complete({
+      maxTokens: MAX_TRANSLATION_TOKENS,
+      messages: [
+        {
+          role: "user",
+          content: TRANSLATION_PROMPT.replace("{source}", () => source)
+            .replace("{language}", () => languageLabel(language))
+            .replace("{lines}", () => lines),
+        },
+      ],
+    });
+
+    let parsed: { lines?: ModelLine[] };
+    try {
+      parsed = parseJsonResponse<{ lines?: ModelLine[] }>(response.text);
+    } catch {
+      // Usually a reply cut off at the token limit; its lines are retried
+      return new Set();
+    }
+    const done = new Set<number>();
+    for (const item of Array.isArray(parsed.lines) ? parsed.lines : []) {
+      const index = typeof item.line === "number" ? batch[item.line - 1] : undefined;
+      if (index === undefined || typeof item.text !== "string" || !item.text.trim()) continue;
+      translated[index].text = item.text.trim();
+      done.add(index);
+    }
+    return done;
+  };
+
+  let pending = batches(segments);
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS && pending.length > 0; attempt++) {
+    const missing: number[][] = [];
+    for (const batch of pending) {
+      const done = await request(batch);
+      const left = batch.filter((index) => !done.has(index));
+      if (left.length > 0) missing.push(...halves(left));
+    }
+    pending = missing;
+  }
+  for (const index of pending.flat()) {
+    translated[index].untranslated = true;
+  }
+
+  return translated;
+}
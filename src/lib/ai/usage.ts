@@ -0,0 +1,104 @@
+// Model usage and cost accounting
+// trackUsage() wraps an LLMClient so each call is logged to ai_usage with
+// its tokens, latency and estimated cost. With AI_MONTHLY_BUDGET_USD set,
+// calls are refused once this month's (UTC) estimated spend reaches it.
+
+import { getAISpendSince, insertAIUsage } from "@/lib/db";
+import type { LLMClient, LLMTask } from "./client";
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// List prices, matched by model name prefix (dated snapshots share a price)
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+};
+
+// Providers that run on our own hardware
+const FREE_PROVIDERS = ["ollama", "fake"];
+
+export class AIBudgetExceededError extends Error {
+  constructor(
+    public spentUsd: number,
+    public budgetUsd: number
+  ) {
+    super(
+      `Monthly AI budget of $${budgetUsd.toFixed(2)} exceeded ($${spentUsd.toFixed(2)} spent)`
+    );
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+// Estimated cost in USD of one call, or null when the model has no known
+// price. `model` is a model id as returned by getModelId().
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const separator = model.indexOf(":");
+  const provider = separator === -1 ? "anthropic" : model.slice(0, separator);
+  if (FREE_PROVIDERS.includes(provider)) return 0;
+
+  const name = model.slice(separator + 1);
+  const key = Object.keys(MODEL_PRICES)
+    .filter((prefix) => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+
+  const price = MODEL_PRICES[key];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export function getMonthlyBudget(): number | null {
+  const budget = parseFloat(process.env.AI_MONTHLY_BUDGET_USD ?? "");
+  return Number.isFinite(budget) && budget >= 0 ? budget : null;
+}
+
+export function startOfMonth(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function getMonthlySpend(now: Date = new Date()): number {
+  return getAISpendSince(startOfMonth(now).toISOString());
+}
+
+export function assertWithinBudget(): void {
+  const budget = getMonthlyBudget();
+  if (budget === null) return;
+  const spent = getMonthlySpend();
+  if (spent >= budget) {
+    throw new AIBudgetExceededError(spent, budget);
+  }
+}
+
+export function trackUsage(
+  client: LLMClient,
+  usage: { task: LLMTask; recordingId?: string | null }
+): LLMClient {
+  return {
+    provider: client.provider,
+    defaultModel: client.defaultModel,
+    async complete(request) {
+      assertWithinBudget();
+      const start = Date.now();
+      const response = await client.complete(request);
+      insertAIUsage({
+        task: usage.task,
+        recordingId: usage.recordingId,
+        model: response.model,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+        latencyMs: Date.now() - start,
+        costUsd: estimateCost(response.model, response.inputTokens, response.outputTokens),
+      });
+      return response;
+    },
+  };
+}
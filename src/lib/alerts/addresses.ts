@@ -0,0 +1,103 @@
+// Which hosts a webhook may point at
+// Alert webhooks are POSTed from the server, so a rule aimed at localhost, a
+// cloud metadata endpoint or a private network would let any user reach
+// internal services. Only public unicast addresses are allowed; hostnames
+// are checked again at delivery against what they resolve to (channels.ts).
+// No Node imports: the alerts page validates URLs with this too.
+
+// [first address, prefix length]
+const BLOCKED_IPV4: [string, number][] = [
+  ["0.0.0.0", 8], // "this network"
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // link-local, including cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+];
+
+// Hostnames that never resolve to a public address
+const PRIVATE_HOST_SUFFIXES = ["localhost", "local", "internal", "home.arpa"];
+
+function parseIPv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, "").toLowerCase();
+  // An embedded IPv4 address, as in ::ffff:127.0.0.1
+  const v4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (v4) {
+    const value = parseIPv4(v4[1]);
+    if (value === null) return null;
+    text = `${text.slice(0, v4.index)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const groupsOf = (half: string) => (half ? half.split(":") : []);
+  const head = groupsOf(halves[0]);
+  const tail = halves.length === 2 ? groupsOf(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPublicIPv4(value: number): boolean {
+  return !BLOCKED_IPV4.some(([start, prefix]) => {
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+    return ((value & mask) >>> 0) === ((parseIPv4(start)! & mask) >>> 0);
+  });
+}
+
+function isPublicIPv6(groups: number[]): boolean {
+  const [first, second] = groups;
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses go
+  // wherever the IPv4 address in them does
+  const mapped = groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff;
+  const nat64 = first === 0x64 && second === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (mapped || nat64) return isPublicIPv4(groups[6] * 0x10000 + groups[7]);
+
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) return false; // :: and ::1
+  if ((first & 0xfe00) === 0xfc00) return false; // unique local
+  if ((first & 0xffc0) === 0xfe80) return false; // link-local
+  if ((first & 0xff00) === 0xff00) return false; // multicast
+  if (first === 0x2001 && second === 0x0db8) return false; // documentation
+  return true;
+}
+
+// Whether an IP address (v4 or v6) is publicly routable. Anything that
+// doesn't parse as an address isn't.
+export function isPublicAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  if (v4 !== null) return isPublicIPv4(v4);
+  const v6 = parseIPv6(address);
+  return v6 !== null && isPublicIPv6(v6);
+}
+
+// Whether a URL hostname may be public: a public IP address, or a
+// qualified name outside the local-only suffixes. Names still need checking
+// once resolved.
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  if (host.startsWith("[")) return isPublicAddress(host);
+  if (/^[\d.]+$/.test(host)) return isPublicAddress(host);
+  // Single-label names resolve through the local search domain
+  if (!host.includes(".")) return false;
+  return !PRIVATE_HOST_SUFFIXES.some((suffix) => host === suffix || host.endsWith(`.${suffix}`));
+}
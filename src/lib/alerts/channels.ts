@@ -0,0 +1,171 @@
+// Alert delivery
+// Every channel implements NotificationChannel, so sync doesn't care where an
+// alert goes: the in-app inbox (the notifications table), email over SMTP,
+// or a JSON POST to the rule's webhook.
+
+import type Database from "better-sqlite3";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import type { LookupFunction } from "net";
+import { isPublicAddress, isPublicHostname } from "./addresses";
+import type { AlertChannel, AlertRule } from "./rules";
+import { getSmtpConfig, sendMail, type SmtpConfig } from "./smtp";
+
+export interface AlertNotification {
+  rule: AlertRule;
+  recordingId: string;
+  recordingTitle: string;
+  // What matched, e.g. the transcript line
+  text: string;
+  timestamp: number | null;
+  // Deep link to the recording at the matched moment
+  url: string;
+}
+
+export interface NotificationChannel {
+  deliver(notification: AlertNotification): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export function getAppUrl(): string {
+  return (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "");
+}
+
+export function alertTitle(notification: Pick<AlertNotification, "rule" | "recordingTitle">): string {
+  const { rule, recordingTitle } = notification;
+  switch (rule.kind) {
+    case "phrase":
+      return `"${rule.value}" was mentioned in ${recordingTitle}`;
+    case "tracker":
+      return `${rule.value} came up in ${recordingTitle}`;
+    case "speaker":
+      return `${rule.value} spoke in ${recordingTitle}`;
+    case "domain":
+      return `Someone from ${rule.value} joined ${recordingTitle}`;
+  }
+}
+
+export function createInboxChannel(db: Database.Database): NotificationChannel {
+  const insert = db.prepare(
+    `INSERT INTO notifications (user_email, rule_id, recording_id, title, body, url, timestamp, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  return {
+    async deliver(notification) {
+      insert.run(
+        notification.rule.userEmail,
+        notification.rule.id,
+        notification.recordingId,
+        alertTitle(notification),
+        notification.text,
+        notification.url,
+        notification.timestamp,
+        new Date().toISOString()
+      );
+    },
+  };
+}
+
+export function createEmailChannel(config: SmtpConfig | null = getSmtpConfig()): NotificationChannel {
+  return {
+    async deliver(notification) {
+      if (!config) {
+        throw new Error("Email alerts need SMTP_HOST to be set");
+      }
+      await sendMail(config, {
+        to: notification.rule.userEmail,
+        subject: alertTitle(notification),
+        text: [
+          notification.text,
+          "",
+          `Watch it: ${notification.url}`,
+          "",
+          `You're getting this because of your WorkTV alert. Manage alerts at ${getAppUrl()}/alerts`,
+        ].join("\n"),
+      });
+    },
+  };
+}
+
+// Resolves like dns.lookup but fails for non-public addresses, so the check
+// applies to the address actually connected to (a name can resolve
+// differently between a check and the request)
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 4);
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`), "", 4);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// POST JSON to a public URL. Redirects aren't followed: they could point
+// anywhere.
+function postWebhook(url: string, body: unknown, lookup: LookupFunction): Promise<number> {
+  const target = new URL(url);
+  if (!isPublicHostname(target.hostname)) {
+    return Promise.reject(new Error(`Webhook host ${target.hostname} isn't public`));
+  }
+  const payload = JSON.stringify(body);
+  const request = target.protocol === "https:" ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(payload) },
+        lookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(payload);
+  });
+}
+
+export interface WebhookChannelOptions {
+  // Resolves webhook hosts; the default only allows public addresses. Tests
+  // swap it to reach a local sink.
+  lookup?: LookupFunction;
+}
+
+export function createWebhookChannel({ lookup = publicOnlyLookup }: WebhookChannelOptions = {}): NotificationChannel {
+  return {
+    async deliver(notification) {
+      const { rule } = notification;
+      if (!rule.webhookUrl) {
+        throw new Error("Webhook alert rule has no URL");
+      }
+      const payload = {
+        type: "alert",
+        title: alertTitle(notification),
+        rule: { id: rule.id, kind: rule.kind, value: rule.value },
+        recording: { id: notification.recordingId, title: notification.recordingTitle },
+        match: { text: notification.text, timestamp: notification.timestamp },
+        url: notification.url,
+      };
+      const status = await postWebhook(rule.webhookUrl, payload, lookup);
+      if (status < 200 || status >= 300) {
+        throw new Error(`Webhook returned ${status}`);
+      }
+    },
+  };
+}
+
+export function getNotificationChannels(db: Database.Database): Record<AlertChannel, NotificationChannel> {
+  return {
+    inbox: createInboxChannel(db),
+    email: createEmailChannel(),
+    webhook: createWebhookChannel(),
+  };
+}
@@ -0,0 +1,92 @@
+// Alerts: saved rules checked against newly ingested transcripts (rules.ts),
+// delivered through pluggable channels (channels.ts)
+
+import type Database from "better-sqlite3";
+import {
+  canViewerSeeRecording,
+  findAlertMatch,
+  getRuleOwnerViewer,
+  type AlertChannel,
+  type AlertRule,
+  type AlertRuleKind,
+} from "./rules";
+import { getAppUrl, getNotificationChannels, type NotificationChannel } from "./channels";
+
+export * from "./rules";
+export * from "./channels";
+
+export interface AlertRuleRow {
+  id: string;
+  user_email: string;
+  kind: AlertRuleKind;
+  value: string;
+  channels: string;
+  webhook_url: string | null;
+  enabled: number;
+  created_at: string;
+}
+
+export function dbRowToAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    userEmail: row.user_email,
+    kind: row.kind,
+    value: row.value,
+    channels: JSON.parse(row.channels) as AlertChannel[],
+    webhookUrl: row.webhook_url,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+  };
+}
+
+// Check every enabled rule against a recording that was just ingested or
+// whose transcript just arrived, delivering each new match. A rule fires once
+// per recording, so re-syncs stay quiet, and a domain rule that fired on
+// ingest doesn't fire again when the transcript follows. Delivery failures are logged, not thrown: a broken
+// webhook shouldn't stop a sync. Returns the number of alerts raised.
+export async function checkAlertsForRecording(
+  db: Database.Database,
+  recordingId: string,
+  channels: Record<AlertChannel, NotificationChannel> = getNotificationChannels(db)
+): Promise<number> {
+  const recording = db
+    .prepare(`SELECT COALESCE(custom_title, title) AS title FROM recordings WHERE id = ?`)
+    .get(recordingId) as { title: string } | undefined;
+  if (!recording) return 0;
+
+  const rules = (
+    db.prepare(`SELECT * FROM alert_rules WHERE enabled = 1`).all() as AlertRuleRow[]
+  ).map(dbRowToAlertRule);
+  const claim = db.prepare(
+    `INSERT OR IGNORE INTO alert_matches (rule_id, recording_id, matched_at) VALUES (?, ?, ?)`
+  );
+
+  let raised = 0;
+  for (const rule of rules) {
+    if (!canViewerSeeRecording(db, getRuleOwnerViewer(rule.userEmail), recordingId)) continue;
+    const match = findAlertMatch(db, rule, recordingId);
+    if (!match) continue;
+    if (claim.run(rule.id, recordingId, new Date().toISOString()).changes === 0) continue;
+
+    const url = `${getAppUrl()}/recordings/${encodeURIComponent(recordingId)}${
+      match.timestamp !== null ? `?t=${Math.floor(match.timestamp)}` : ""
+    }`;
+    raised++;
+
+    for (const channel of rule.channels) {
+      try {
+        await channels[channel].deliver({
+          rule,
+          recordingId,
+          recordingTitle: recording.title,
+          text: match.text,
+          timestamp: match.timestamp,
+          url,
+        });
+      } catch (error) {
+        console.warn(`${channel} alert for ${rule.userEmail} on ${recordingId} failed:`, error);
+      }
+    }
+  }
+  return raised;
+}
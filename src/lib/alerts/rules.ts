@@ -0,0 +1,169 @@
+// Alert rules
+// Each user saves rules that are checked when a sync ingests a recording or
+// its transcript: a phrase someone said, a tracker (Gong or keyword) that
+// fired, a speaker who talked, or a participant from an external email
+// domain. A rule fires at most once per recording, and only for recordings
+// its owner can see.
+
+import type Database from "better-sqlite3";
+import { isAdminEmail } from "@/lib/auth/roles";
+import { isPublicHostname } from "./addresses";
+import { visibilityFilter, visibilityParams, type Viewer } from "@/lib/auth/visibility";
+import { createPhraseMatcher } from "@/lib/search/trackers";
+
+export const ALERT_RULE_KINDS = ["phrase", "tracker", "speaker", "domain"] as const;
+export type AlertRuleKind = (typeof ALERT_RULE_KINDS)[number];
+
+export const ALERT_CHANNELS = ["inbox", "email", "webhook"] as const;
+export type AlertChannel = (typeof ALERT_CHANNELS)[number];
+
+export const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  phrase: "Someone says",
+  tracker: "Tracker fires",
+  speaker: "Speaker talks",
+  domain: "Participant from domain",
+};
+
+export interface AlertRule {
+  id: string;
+  userEmail: string;
+  kind: AlertRuleKind;
+  value: string;
+  channels: AlertChannel[];
+  webhookUrl: string | null;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export interface AlertRuleInput {
+  kind: AlertRuleKind;
+  value: string;
+  channels: AlertChannel[];
+  webhookUrl: string | null;
+}
+
+export interface AlertMatch {
+  // What matched, e.g. the transcript line or the participant's email
+  text: string;
+  // Seconds into the recording, when the match has a moment
+  timestamp: number | null;
+}
+
+export function parseAlertRuleInput(body: unknown): { rule: AlertRuleInput } | { error: string } {
+  const obj = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+
+  const kind = obj.kind as AlertRuleKind;
+  if (!ALERT_RULE_KINDS.includes(kind)) {
+    return { error: `kind must be one of ${ALERT_RULE_KINDS.join(", ")}` };
+  }
+
+  let value = typeof obj.value === "string" ? obj.value.trim().replace(/\s+/g, " ") : "";
+  if (kind === "domain") value = value.toLowerCase().replace(/^@/, "");
+  if (!value) return { error: "value is required" };
+  if (kind === "domain" && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(value)) {
+    return { error: "Domains look like example.com" };
+  }
+
+  const channels = Array.isArray(obj.channels) ? obj.channels : [];
+  if (channels.length === 0 || !channels.every((c) => ALERT_CHANNELS.includes(c as AlertChannel))) {
+    return { error: `channels must be some of ${ALERT_CHANNELS.join(", ")}` };
+  }
+
+  let webhookUrl: string | null = null;
+  if (channels.includes("webhook")) {
+    try {
+      const url = new URL(typeof obj.webhookUrl === "string" ? obj.webhookUrl : "");
+      if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+      webhookUrl = url.toString();
+    } catch {
+      return { error: "Webhook alerts need an http(s) URL" };
+    }
+    if (!isPublicHostname(new URL(webhookUrl).hostname)) {
+      return { error: "Webhook URLs must point at a public host, not localhost or a private network" };
+    }
+  }
+
+  return {
+    rule: { kind, value, channels: [...new Set(channels as AlertChannel[])], webhookUrl },
+  };
+}
+
+function firstRow<T>(db: Database.Database, sql: string, ...params: unknown[]): T | undefined {
+  return db.prepare(sql).get(...params) as T | undefined;
+}
+
+// Where the rule matches the recording's transcript and participants, or null
+export function findAlertMatch(
+  db: Database.Database,
+  rule: Pick<AlertRule, "kind" | "value">,
+  recordingId: string
+): AlertMatch | null {
+  switch (rule.kind) {
+    case "phrase": {
+      const matches = createPhraseMatcher([rule.value]);
+      const segments = db
+        .prepare(`SELECT start_time, text FROM segments WHERE recording_id = ? ORDER BY start_time`)
+        .all(recordingId) as { start_time: number; text: string }[];
+      const segment = segments.find((s) => matches(s.text));
+      return segment ? { text: segment.text, timestamp: segment.start_time } : null;
+    }
+    case "tracker": {
+      // A Gong tracker may have a count but no stored occurrences
+      const occurrence = firstRow<{ hits: number; start_time: number | null }>(
+        db,
+        `SELECT COUNT(*) AS hits, MIN(start_time) AS start_time FROM (
+           SELECT o.start_time FROM recording_trackers t
+           LEFT JOIN tracker_occurrences o ON o.recording_id = t.recording_id AND o.tracker = t.name
+           WHERE t.recording_id = @id AND t.name = @name COLLATE NOCASE
+           UNION ALL
+           SELECT m.start_time FROM keyword_tracker_matches m
+           INNER JOIN keyword_trackers k ON k.id = m.tracker_id
+           WHERE m.recording_id = @id AND k.name = @name COLLATE NOCASE
+         )`,
+        { id: recordingId, name: rule.value }
+      );
+      return occurrence && occurrence.hits > 0
+        ? { text: `${rule.value} tracker`, timestamp: occurrence.start_time }
+        : null;
+    }
+    case "speaker": {
+      const segment = firstRow<{ start_time: number; speaker: string; text: string }>(
+        db,
+        `SELECT start_time, speaker, text FROM segments
+         WHERE recording_id = @id AND (
+           LOWER(speaker) = LOWER(@value)
+           OR LOWER(speaker) IN (SELECT LOWER(name) FROM participants WHERE recording_id = @id AND LOWER(email) = LOWER(@value))
+         )
+         ORDER BY start_time LIMIT 1`,
+        { id: recordingId, value: rule.value }
+      );
+      return segment ? { text: `${segment.speaker}: ${segment.text}`, timestamp: segment.start_time } : null;
+    }
+    case "domain": {
+      // Subdomains count: eu.acme.com matches acme.com
+      const participant = firstRow<{ email: string }>(
+        db,
+        `SELECT email FROM participants
+         WHERE recording_id = @id AND (LOWER(email) LIKE '%@' || @domain OR LOWER(email) LIKE '%.' || @domain)
+         LIMIT 1`,
+        { id: recordingId, domain: rule.value }
+      );
+      return participant ? { text: participant.email, timestamp: null } : null;
+    }
+  }
+}
+
+// The rule owner as a query viewer (admins see everything)
+export function getRuleOwnerViewer(userEmail: string): Viewer {
+  return { email: userEmail, isAdmin: isAdminEmail(userEmail) };
+}
+
+export function canViewerSeeRecording(db: Database.Database, viewer: Viewer, recordingId: string): boolean {
+  return (
+    firstRow(
+      db,
+      `SELECT 1 FROM recordings r WHERE r.id = @id AND ${visibilityFilter(viewer)}`,
+      { id: recordingId, ...visibilityParams(viewer) }
+    ) !== undefined
+  );
+}
@@ -0,0 +1,197 @@
+// Minimal SMTP client for alert and digest emails
+// Speaks just enough of RFC 5321 to hand one message to a relay:
+// EHLO, STARTTLS when offered, optional AUTH PLAIN, MAIL/RCPT/DATA. Implicit
+// TLS (port 465) is supported too. Credentials are only ever sent over TLS;
+// a relay without it is fine for unauthenticated local delivery only.
+
+import { randomBytes } from "crypto";
+import { readFileSync } from "fs";
+import net from "net";
+import tls from "tls";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+  // PEM certificates trusted besides the system ones, for relays with a
+  // private CA
+  ca: string | null;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  // Sent as multipart/alternative alongside the text when set
+  html?: string;
+}
+
+const SMTP_TIMEOUT_MS = 15_000;
+
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+  const port = parseInt(process.env.SMTP_PORT ?? "", 10) || 587;
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE === "true" || port === 465,
+    user: process.env.SMTP_USER || null,
+    pass: process.env.SMTP_PASS || null,
+    from: process.env.SMTP_FROM || `worktv@${host}`,
+    ca: process.env.SMTP_CA_FILE ? readFileSync(process.env.SMTP_CA_FILE, "utf8") : null,
+  };
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Reads one (possibly multi-line) reply per call
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  const waiting: ((reply: SmtpReply) => void)[] = [];
+  const replies: SmtpReply[] = [];
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    // A reply ends with a line whose code is followed by a space
+    let match;
+    while ((match = buffer.match(/^((?:\d{3}-[^\r\n]*\r\n)*)(\d{3})(?: [^\r\n]*)?\r\n/))) {
+      const reply = { code: parseInt(match[2], 10), text: match[0].trim() };
+      buffer = buffer.slice(match[0].length);
+      const resolve = waiting.shift();
+      if (resolve) resolve(reply);
+      else replies.push(reply);
+    }
+  });
+
+  return () =>
+    new Promise<SmtpReply>((resolve) => {
+      const reply = replies.shift();
+      if (reply) resolve(reply);
+      else waiting.push(resolve);
+    });
+}
+
+function encodeHeader(value: string): string {
+  // Non-ASCII subjects need RFC 2047 encoding
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+// The message as it goes over the wire (and into .eml files), CRLF line
+// endings, without SMTP dot-stuffing
+export function formatMessage(from: string, message: MailMessage): string {
+  const crlf = (text: string) => text.replace(/\r?\n/g, "\r\n");
+  const headers = [
+    `From: WorkTV <${from}>`,
+    `To: <${message.to}>`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (message.html === undefined) {
+    return [
+      ...headers,
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+      "",
+      crlf(message.text),
+    ].join("\r\n");
+  }
+
+  const boundary = `worktv-${randomBytes(12).toString("hex")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    crlf(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    crlf(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+// The conversation over one socket; replaced when STARTTLS upgrades it
+function openSession(socket: net.Socket) {
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+  const failed = new Promise<never>((_, reject) => socket.once("error", reject));
+  // Errors after the conversation has finished are nobody's concern
+  failed.catch(() => {});
+  const nextReply = createReplyReader(socket);
+
+  const expect = async (command: string | null, code: number): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await Promise.race([nextReply(), failed]);
+    if (reply.code !== code) {
+      throw new Error(`SMTP ${command?.split(" ")[0] ?? "greeting"} failed: ${reply.text}`);
+    }
+    return reply;
+  };
+  return { socket, expect };
+}
+
+function offersStartTls(ehlo: SmtpReply): boolean {
+  return /^250[- ]STARTTLS\b/im.test(ehlo.text);
+}
+
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const tlsOptions = {
+    servername: config.host,
+    ca: config.ca ? [...tls.rootCertificates, config.ca] : undefined,
+  };
+  let session = openSession(
+    config.secure
+      ? tls.connect({ host: config.host, port: config.port, ...tlsOptions })
+      : net.connect({ host: config.host, port: config.port })
+  );
+
+  try {
+    await session.expect(null, 220);
+    const ehlo = await session.expect("EHLO worktv", 250);
+    let encrypted = config.secure;
+    if (!encrypted && offersStartTls(ehlo)) {
+      await session.expect("STARTTLS", 220);
+      const plain = session.socket;
+      // The TLS socket reads from here on
+      plain.removeAllListeners("data");
+      plain.setTimeout(0);
+      session = openSession(tls.connect({ socket: plain, ...tlsOptions }));
+      // The server forgets everything said before the handshake
+      await session.expect("EHLO worktv", 250);
+      encrypted = true;
+    }
+
+    if (config.user && config.pass) {
+      if (!encrypted) {
+        throw new Error(
+          `SMTP server ${config.host}:${config.port} doesn't offer STARTTLS; refusing to send credentials unencrypted`
+        );
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString("base64");
+      await session.expect(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await session.expect(`MAIL FROM:<${config.from}>`, 250);
+    await session.expect(`RCPT TO:<${message.to}>`, 250);
+    await session.expect("DATA", 354);
+
+    // Dot-stuffing: a line starting with "." would end the message early
+    const data = formatMessage(config.from, message).replace(/^\./gm, "..");
+    await session.expect(`${data}\r\n.`, 250);
+    await session.expect("QUIT", 221);
+  } finally {
+    session.socket.end();
+  }
+}
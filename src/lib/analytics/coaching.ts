@@ -0,0 +1,42 @@
+// Speaking coach figures derived from the stored conversation metrics, shared
+// by the recording's coaching panel and each person's trend page
+
+// Filler words per 100 words spoken
+export function fillerRate(fillerWords: number, words: number): number | null {
+  return words > 0 ? (fillerWords / words) * 100 : null;
+}
+
+// Share of the times someone took the floor without talking over the
+// previous speaker
+export function letFinishRate(responses: number, interruptions: number): number | null {
+  return responses > 0 ? Math.max(0, 1 - interruptions / responses) : null;
+}
+
+// Customer figures when the speaker is in the org and answered a customer,
+// otherwise everyone they answered
+export function letFinish(stats: {
+  responses: number;
+  interruptions: number;
+  customerResponses: number;
+  customerInterruptions: number;
+}): { rate: number | null; ofCustomers: boolean } {
+  if (stats.customerResponses > 0) {
+    return { rate: letFinishRate(stats.customerResponses, stats.customerInterruptions), ofCustomers: true };
+  }
+  return { rate: letFinishRate(stats.responses, stats.interruptions), ofCustomers: false };
+}
+
+export function formatPatience(seconds: number | null): string {
+  return seconds === null ? "–" : `${seconds.toFixed(1)}s`;
+}
+
+export function formatPercent(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+// Most used first
+export function topFillers(fillers: Record<string, number>, limit = 3): [string, number][] {
+  return Object.entries(fillers)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+}
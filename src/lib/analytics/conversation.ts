@@ -0,0 +1,252 @@
+// Conversation analytics
+// Per-speaker metrics computed from a recording's transcript on every sync
+// and stored in conversation_speaker_stats, with call-level totals in
+// conversation_stats, so /analytics can aggregate them across meetings,
+// people and series without reading transcripts.
+//
+// Transcripts split speech into short segments, so a monologue is a run of
+// one speaker's segments, and a turn starts whenever the speaker changes.
+// Backchannels ("Yeah.", "Mm-hm") from someone else don't break a monologue
+// or count as turns. Taking the floor before the previous speaker's last
+// segment ended is an interruption.
+//
+// Coaching signals come from the same pass: filler words, patience (the pause
+// before taking the floor from someone) and, for people in the org, how often
+// they let customers (speakers from outside ORG_EMAIL_DOMAINS) finish.
+
+import type Database from "better-sqlite3";
+import { resolveOwnerEmail } from "@/lib/ai/action-items";
+import { getOrgEmailDomains, isExternalEmail } from "@/lib/auth/visibility";
+import type { SpeakerConversationStats } from "@/types/video";
+
+// Another speaker's segment this short doesn't take the floor
+const BACKCHANNEL_MAX_WORDS = 2;
+// Overlap allowed before it counts as an interruption (timing is approximate)
+const INTERRUPTION_TOLERANCE_SECONDS = 0.5;
+// Below this much speech, words per minute is mostly noise
+const MIN_SECONDS_FOR_PACE = 30;
+// A longer silence before speaking isn't a response to what was just said
+const MAX_RESPONSE_PAUSE_SECONDS = 10;
+
+// Only unambiguous uses: "like" set off by commas, "you know" ending a clause
+// but not asking ("Do you know?"), "I mean" before a comma
+const FILLERS: { name: string; pattern: RegExp }[] = [
+  { name: "um", pattern: /\b(?:um+|erm+)\b/gi },
+  { name: "uh", pattern: /\b(?:uh+|er)\b/gi },
+  { name: "like", pattern: /(?:^|,)\s*like\s*,/gi },
+  { name: "you know", pattern: /(?<!\b(?:do|did|don't|if)\s)\byou know(?=\s*(?:[,.!]|$))/gi },
+  { name: "I mean", pattern: /\bI mean\s*,/gi },
+  { name: "basically", pattern: /\bbasically\b/gi },
+  { name: "literally", pattern: /\bliterally\b/gi },
+];
+
+export interface ConversationSegment {
+  speaker: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+interface Floor {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+export interface ConversationMetrics {
+  talkTime: number;
+  longestMonologue: number;
+  turns: number;
+  interruptions: number;
+  questions: number;
+  words: number;
+  wordsPerMinute: number | null;
+  speakers: SpeakerConversationStats[];
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// "Is that right? And when?" asks two
+function countQuestions(text: string): number {
+  return (text.match(/\?+/g) ?? []).length;
+}
+
+export function countFillers(text: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const filler of FILLERS) {
+    const matches = text.match(filler.pattern)?.length ?? 0;
+    if (matches > 0) counts[filler.name] = matches;
+  }
+  return counts;
+}
+
+// Also used for pace across many meetings, from summed words and talk time
+export function wordsPerMinute(words: number, seconds: number): number | null {
+  return seconds >= MIN_SECONDS_FOR_PACE ? (words / seconds) * 60 : null;
+}
+
+export function computeConversationMetrics(
+  segments: ConversationSegment[],
+  participants: { name: string; email: string | null }[] = [],
+  orgDomains: string[] = []
+): ConversationMetrics {
+  const sorted = segments
+    .filter((segment) => segment.endTime >= segment.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const bySpeaker = new Map<string, SpeakerConversationStats>();
+  const stats = (speaker: string) => {
+    let stat = bySpeaker.get(speaker);
+    if (!stat) {
+      const email = resolveOwnerEmail(speaker, participants);
+      stat = {
+        speaker,
+        email,
+        talkTime: 0,
+        talkRatio: 0,
+        longestMonologue: 0,
+        turns: 0,
+        interruptions: 0,
+        questions: 0,
+        words: 0,
+        wordsPerMinute: null,
+        fillers: {},
+        fillerWords: 0,
+        responses: 0,
+        patience: null,
+        external: email && orgDomains.length > 0 ? isExternalEmail(email, orgDomains) : null,
+        customerResponses: 0,
+        customerInterruptions: 0,
+      };
+      bySpeaker.set(speaker, stat);
+    }
+    return stat;
+  };
+
+  // The speaker holding the floor, from when and until when
+  let floor: Floor | null = null;
+  // Total pause before responding, per speaker
+  const pauses = new Map<string, number>();
+
+  for (const segment of sorted) {
+    const stat = stats(segment.speaker);
+    const words = countWords(segment.text);
+    stat.talkTime += segment.endTime - segment.startTime;
+    stat.words += words;
+    stat.questions += countQuestions(segment.text);
+    for (const [filler, count] of Object.entries(countFillers(segment.text))) {
+      stat.fillers[filler] = (stat.fillers[filler] ?? 0) + count;
+      stat.fillerWords += count;
+    }
+
+    if (!floor) {
+      floor = { speaker: segment.speaker, start: segment.startTime, end: segment.endTime };
+      stat.turns++;
+    } else if (floor.speaker === segment.speaker) {
+      floor.end = Math.max(floor.end, segment.endTime);
+    } else if (words > BACKCHANNEL_MAX_WORDS) {
+      const pause = segment.startTime - floor.end;
+      const interrupted = pause < -INTERRUPTION_TOLERANCE_SECONDS;
+      const fromCustomer = stats(floor.speaker).external === true && stat.external === false;
+      if (interrupted) {
+        stat.interruptions++;
+        if (fromCustomer) stat.customerInterruptions++;
+      }
+      if (pause <= MAX_RESPONSE_PAUSE_SECONDS) {
+        stat.responses++;
+        pauses.set(segment.speaker, (pauses.get(segment.speaker) ?? 0) + Math.max(0, pause));
+        if (fromCustomer) stat.customerResponses++;
+      }
+      floor = { speaker: segment.speaker, start: segment.startTime, end: segment.endTime };
+      stat.turns++;
+    }
+    const holder = stats(floor.speaker);
+    holder.longestMonologue = Math.max(holder.longestMonologue, floor.end - floor.start);
+  }
+
+  const speakers = [...bySpeaker.values()];
+  const talkTime = speakers.reduce((sum, s) => sum + s.talkTime, 0);
+  for (const speaker of speakers) {
+    speaker.talkRatio = talkTime > 0 ? speaker.talkTime / talkTime : 0;
+    speaker.wordsPerMinute = wordsPerMinute(speaker.words, speaker.talkTime);
+    speaker.patience = speaker.responses > 0 ? (pauses.get(speaker.speaker) ?? 0) / speaker.responses : null;
+  }
+  speakers.sort((a, b) => b.talkTime - a.talkTime);
+
+  const words = speakers.reduce((sum, s) => sum + s.words, 0);
+  return {
+    talkTime,
+    longestMonologue: Math.max(0, ...speakers.map((s) => s.longestMonologue)),
+    turns: speakers.reduce((sum, s) => sum + s.turns, 0),
+    interruptions: speakers.reduce((sum, s) => sum + s.interruptions, 0),
+    questions: speakers.reduce((sum, s) => sum + s.questions, 0),
+    words,
+    wordsPerMinute: wordsPerMinute(words, talkTime),
+    speakers,
+  };
+}
+
+// Recompute and store one recording's metrics from its current transcript.
+// Returns the number of speakers
+export function rebuildConversationStats(db: Database.Database, recordingId: string): number {
+  const segments = db
+    .prepare(
+      `SELECT speaker, start_time AS startTime, end_time AS endTime, text
+       FROM segments WHERE recording_id = ?`
+    )
+    .all(recordingId) as ConversationSegment[];
+  const participants = db
+    .prepare(`SELECT name, email FROM participants WHERE recording_id = ?`)
+    .all(recordingId) as { name: string; email: string | null }[];
+  const metrics = computeConversationMetrics(segments, participants, getOrgEmailDomains());
+
+  const insertSpeaker = db.prepare(
+    `INSERT INTO conversation_speaker_stats
+       (recording_id, speaker, email, talk_time, talk_ratio, longest_monologue, turns, interruptions, questions, words, words_per_minute,
+        fillers, filler_words, responses, patience, external, customer_responses, customer_interruptions)
+     VALUES (@recordingId, @speaker, @email, @talkTime, @talkRatio, @longestMonologue, @turns, @interruptions, @questions, @words, @wordsPerMinute,
+        @fillers, @fillerWords, @responses, @patience, @external, @customerResponses, @customerInterruptions)`
+  );
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM conversation_speaker_stats WHERE recording_id = ?`).run(recordingId);
+    db.prepare(`DELETE FROM conversation_stats WHERE recording_id = ?`).run(recordingId);
+    if (metrics.speakers.length === 0) return;
+
+    db.prepare(
+      `INSERT INTO conversation_stats
+         (recording_id, speakers, talk_time, longest_monologue, turns, interruptions, questions, words, words_per_minute)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      recordingId,
+      metrics.speakers.length,
+      metrics.talkTime,
+      metrics.longestMonologue,
+      metrics.turns,
+      metrics.interruptions,
+      metrics.questions,
+      metrics.words,
+      metrics.wordsPerMinute
+    );
+    for (const speaker of metrics.speakers) {
+      insertSpeaker.run({
+        ...speaker,
+        recordingId,
+        fillers: JSON.stringify(speaker.fillers),
+        external: speaker.external === null ? null : Number(speaker.external),
+      });
+    }
+  })();
+  return metrics.speakers.length;
+}
+
+// Every recording with a transcript, e.g. after the metrics change
+export function rebuildAllConversationStats(db: Database.Database): number {
+  const rows = db.prepare(`SELECT DISTINCT recording_id FROM segments`).all() as { recording_id: string }[];
+  for (const row of rows) {
+    rebuildConversationStats(db, row.recording_id);
+  }
+  return rows.length;
+}
@@ -0,0 +1,46 @@
+import { cookies } from "next/headers";
+import { getUserById, type UserRow, type UserRole } from "@/lib/db";
+import { SESSION_COOKIE, verifySessionToken } from "./session";
+import { emailList, isAdminEmail } from "./roles";
+import type { Viewer } from "./visibility";
+
+export { SESSION_COOKIE } from "./session";
+export { isAdminEmail } from "./roles";
+
+export interface CurrentUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+}
+
+// The role comes from AUTH_ADMIN_EMAILS, not the row, so removing an admin
+// applies to sessions that are already open
+function toCurrentUser(row: UserRow): CurrentUser {
+  return { id: row.id, email: row.email, name: row.name, role: isAdminEmail(row.email) ? "admin" : "member" };
+}
+
+// Transcripts as spoken, before personal data was redacted, are for the
+// people listed in AUTH_PII_EMAILS. Being an admin isn't enough
+export function canViewUnredacted(viewer: Viewer): boolean {
+  return emailList(process.env.AUTH_PII_EMAILS).includes(viewer.email.toLowerCase());
+}
+
+// Resolve the signed-in user from the session cookie, or null
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const cookieStore = await cookies();
+  const session = await verifySessionToken(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  const row = getUserById(session.userId);
+  if (!row) return null;
+
+  return toCurrentUser(row);
+}
+
+// The current user as a query viewer, or null when signed out
+export async function getViewer(): Promise<Viewer | null> {
+  const user = await getCurrentUser();
+  if (!user) return null;
+  return { email: user.email, isAdmin: user.role === "admin" };
+}
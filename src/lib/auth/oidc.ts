@@ -0,0 +1,174 @@
+// OpenID Connect sign-in
+// Works with any OIDC provider. SAML connections go through an OIDC broker
+// (e.g. WorkOS, Okta, Entra ID) that exposes the same authorization code flow.
+
+export const OIDC_STATE_COOKIE = "worktv_oidc";
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  id_token?: string;
+}
+
+export interface OidcUserInfo {
+  sub: string;
+  email: string;
+  // Missing when the provider doesn't say; false when the user typed the
+  // address in themselves
+  email_verified?: boolean;
+  name?: string;
+}
+
+// Pending login stored in a short-lived cookie between redirect and callback
+export interface OidcLoginState {
+  state: string;
+  codeVerifier: string;
+  returnTo: string;
+}
+
+export function isOidcConfigured(): boolean {
+  return Boolean(
+    process.env.AUTH_ISSUER &&
+      process.env.AUTH_CLIENT_ID &&
+      process.env.AUTH_CLIENT_SECRET
+  );
+}
+
+function getOidcConfig(): { issuer: string; clientId: string; clientSecret: string } {
+  const issuer = process.env.AUTH_ISSUER;
+  const clientId = process.env.AUTH_CLIENT_ID;
+  const clientSecret = process.env.AUTH_CLIENT_SECRET;
+
+  if (!issuer || !clientId || !clientSecret) {
+    throw new Error(
+      "Missing OIDC configuration. Set AUTH_ISSUER, AUTH_CLIENT_ID and AUTH_CLIENT_SECRET environment variables."
+    );
+  }
+
+  return { issuer: issuer.replace(/\/$/, ""), clientId, clientSecret };
+}
+
+let cachedDiscovery: { issuer: string; document: OidcDiscovery } | null = null;
+
+async function discover(): Promise<OidcDiscovery> {
+  const { issuer } = getOidcConfig();
+  if (cachedDiscovery && cachedDiscovery.issuer === issuer) {
+    return cachedDiscovery.document;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: ${response.status}`);
+  }
+
+  const document = (await response.json()) as OidcDiscovery;
+  cachedDiscovery = { issuer, document };
+  return document;
+}
+
+function randomString(byteLength: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  let binary = "";
+  for (const byte of new Uint8Array(digest)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function createAuthorizationRequest(
+  redirectUri: string,
+  returnTo: string
+): Promise<{ url: string; loginState: OidcLoginState }> {
+  const { clientId } = getOidcConfig();
+  const discovery = await discover();
+
+  const loginState: OidcLoginState = {
+    state: randomString(16),
+    codeVerifier: randomString(32),
+    returnTo,
+  };
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", "openid email profile");
+  url.searchParams.set("state", loginState.state);
+  url.searchParams.set("code_challenge", await pkceChallenge(loginState.codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), loginState };
+}
+
+export async function exchangeCodeForUser(
+  code: string,
+  redirectUri: string,
+  codeVerifier: string
+): Promise<OidcUserInfo> {
+  const { clientId, clientSecret } = getOidcConfig();
+  const discovery = await discover();
+
+  const tokenResponse = await fetch(discovery.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: clientId,
+      client_secret: clientSecret,
+      code_verifier: codeVerifier,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const error = await tokenResponse.text();
+    throw new Error(`OIDC token exchange failed: ${tokenResponse.status} - ${error}`);
+  }
+
+  const tokens = (await tokenResponse.json()) as OidcTokenResponse;
+
+  // Use the userinfo endpoint rather than trusting unverified id_token claims
+  const userInfoResponse = await fetch(discovery.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+  });
+
+  if (!userInfoResponse.ok) {
+    throw new Error(`OIDC userinfo request failed: ${userInfoResponse.status}`);
+  }
+
+  const userInfo = (await userInfoResponse.json()) as Partial<OidcUserInfo>;
+  if (!userInfo.sub || !userInfo.email) {
+    throw new Error("OIDC provider did not return a subject and email");
+  }
+  // The email decides admin, PII access and visibility, so one the user
+  // could set to anything can't be used to sign in
+  if (userInfo.email_verified === false) {
+    throw new Error(`OIDC provider has not verified ${userInfo.email}`);
+  }
+
+  return { sub: userInfo.sub, email: userInfo.email.toLowerCase(), name: userInfo.name };
+}
+
+// Optional allowlist of email domains (comma-separated AUTH_ALLOWED_DOMAINS)
+export function isEmailDomainAllowed(email: string): boolean {
+  const allowed = (process.env.AUTH_ALLOWED_DOMAINS ?? "")
+    .split(",")
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowed.length === 0) return true;
+  const domain = email.split("@")[1]?.toLowerCase();
+  return Boolean(domain && allowed.includes(domain));
+}
@@ -0,0 +1,16 @@
+// Admins are configured by email (comma-separated AUTH_ADMIN_EMAILS). The env
+// is the source of truth: users.role mirrors it as of the last login, so
+// anything deciding access reads the env rather than the stored role, and
+// removing an email takes effect without waiting for that user to sign in.
+// No server-only imports, so sync scripts can use it.
+
+export function emailList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isAdminEmail(email: string): boolean {
+  return emailList(process.env.AUTH_ADMIN_EMAILS).includes(email.toLowerCase());
+}
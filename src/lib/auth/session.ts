@@ -0,0 +1,104 @@
+// Signed session cookies
+// Uses Web Crypto so the same code runs in middleware (edge) and route handlers (node)
+
+export const SESSION_COOKIE = "worktv_session";
+
+// Sessions last a week, then the user signs in again through the IdP
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export interface SessionPayload {
+  userId: string;
+  email: string;
+  expiresAt: number; // unix seconds
+}
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function isAuthSecretConfigured(): boolean {
+  return Boolean(process.env.AUTH_SECRET && process.env.AUTH_SECRET.length >= 32);
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error("AUTH_SECRET must be set to at least 32 characters");
+  }
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function createSessionToken(
+  session: Omit<SessionPayload, "expiresAt">
+): Promise<string> {
+  const payload: SessionPayload = {
+    ...session,
+    expiresAt: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey();
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Returns null for missing, tampered or expired tokens
+export async function verifySessionToken(
+  token: string | undefined
+): Promise<SessionPayload | null> {
+  if (!token || !isAuthSecretConfigured()) return null;
+
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const key = await getSigningKey();
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(body))
+    ) as SessionPayload;
+    if (typeof payload.userId !== "string" || typeof payload.expiresAt !== "number") {
+      return null;
+    }
+    if (payload.expiresAt < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Only allow same-origin relative paths as post-login destinations
+export function sanitizeReturnTo(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+  return value;
+}
@@ -0,0 +1,91 @@
+// Recording visibility policies
+// Computed at sync time from participants and source privacy flags, then
+// enforced in SQL by every recording query via visibilityFilter().
+
+export type RecordingVisibility = "org" | "participants" | "private" | "shared";
+
+export const RECORDING_VISIBILITIES: RecordingVisibility[] = [
+  "org",
+  "participants",
+  "private",
+  "shared",
+];
+
+export const VISIBILITY_LABELS: Record<RecordingVisibility, string> = {
+  org: "Everyone in the organization",
+  participants: "Participants only",
+  private: "Owner only",
+  shared: "Specific people",
+};
+
+// The signed-in user a query runs on behalf of
+export interface Viewer {
+  email: string;
+  isAdmin: boolean;
+}
+
+export function isRecordingVisibility(value: unknown): value is RecordingVisibility {
+  return typeof value === "string" && RECORDING_VISIBILITIES.includes(value as RecordingVisibility);
+}
+
+// Internal email domains (ORG_EMAIL_DOMAINS, falling back to AUTH_ALLOWED_DOMAINS)
+export function getOrgEmailDomains(): string[] {
+  const raw = process.env.ORG_EMAIL_DOMAINS ?? process.env.AUTH_ALLOWED_DOMAINS ?? "";
+  return raw
+    .split(",")
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isExternalEmail(email: string, orgDomains: string[]): boolean {
+  const domain = email.split("@")[1]?.toLowerCase();
+  return Boolean(domain) && !orgDomains.includes(domain);
+}
+
+// Private calls stay private; calls with anyone outside the org are limited
+// to the people who were on them; everything else is visible org-wide.
+export function computeVisibility(input: {
+  isPrivate?: boolean;
+  participantEmails: (string | null | undefined)[];
+  hasExternalParty?: boolean;
+}): RecordingVisibility {
+  if (input.isPrivate) return "private";
+  if (input.hasExternalParty) return "participants";
+
+  const orgDomains = getOrgEmailDomains();
+  if (orgDomains.length === 0) return "org";
+
+  const hasExternalEmail = input.participantEmails.some(
+    (email) => email && isExternalEmail(email, orgDomains)
+  );
+  return hasExternalEmail ? "participants" : "org";
+}
+
+// SQL condition restricting `alias` (a recordings table reference) to what the
+// viewer may see. Binds @viewer_email, so pass visibilityParams() to the statement.
+export function visibilityFilter(viewer: Viewer, alias: string = "r"): string {
+  if (viewer.isAdmin) return "1 = 1";
+
+  return `(
+    ${alias}.visibility IS NULL OR ${alias}.visibility = 'org'
+    OR ${alias}.owner_email = @viewer_email
+    OR (${alias}.visibility IN ('participants', 'shared') AND EXISTS (
+      SELECT 1 FROM recording_shares vs
+      WHERE vs.recording_id = ${alias}.id AND vs.email = @viewer_email))
+    OR (${alias}.visibility = 'participants' AND EXISTS (
+      SELECT 1 FROM participants vp
+      WHERE vp.recording_id = ${alias}.id AND LOWER(vp.email) = @viewer_email))
+  )`;
+}
+
+export function visibilityParams(viewer: Viewer): { viewer_email: string } {
+  return { viewer_email: viewer.email.toLowerCase() };
+}
+
+// Owners and admins can change a recording's policy and share list
+export function canManageVisibility(
+  viewer: Viewer,
+  recording: { owner_email: string | null }
+): boolean {
+  return viewer.isAdmin || recording.owner_email === viewer.email.toLowerCase();
+}
@@ -2,11 +2,87 @@ import Database from "better-sqlite3";
 import { readFileSync, existsSync, mkdirSync } from "fs";
 import { join } from "path";
 import type { Recording, TranscriptSegment, Speaker, Clip, Participant } from "@/types/video";
+import {
+  getOrgEmailDomains,
+  visibilityFilter,
+  visibilityParams,
+  type RecordingVisibility,
+  type Viewer,
+} from "@/lib/auth/visibility";
+import {
+  hasStructuredFilters,
+  type SearchFilters,
+} from "@/lib/search/query";
+import {
+  buildFtsQuery,
+  rebuildSearchIndex,
+  reindexRecordingSearch,
+  SEARCH_SCORE_SQL,
+  SEARCH_SNIPPET_SQL,
+  type SearchDocumentKind,
+} from "@/lib/search/fts";
+import { SNIPPET_MATCH_START } from "@/lib/search/snippet";
+import { rebuildAllTranscriptChunks } from "@/lib/search/chunks";
+import {
+  runKeywordTrackerOverLibrary,
+  type KeywordTracker,
+  type KeywordTrackerInput,
+} from "@/lib/search/trackers";
+import { bufferToVector, dotProduct } from "@/lib/search/embeddings";
+import { rebuildMeetingSeries, type SeriesDetection } from "@/lib/series";
+import { rebuildAllConversationStats } from "@/lib/analytics/conversation";
+import {
+  dbRowToAlertRule,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertRuleRow,
+} from "@/lib/alerts";
+import {
+  BUILT_IN_SUMMARY_TEMPLATES,
+  type MeetingScope,
+  type SummaryTemplate,
+  type SummaryTemplateInput,
+} from "@/lib/ai/summary-templates";
+import type { LLMTask } from "@/lib/ai/client";
+import { extractActionItems, matchActionItems, type StoredActionItem } from "@/lib/ai/action-items";
+import { normalizeSummary } from "@/lib/ai/summary-schema";
+import type {
+  ActionItem,
+  ActionItemStatus,
+  InteractionStats,
+  SpeakerConversationStats,
+  RecordingTopic,
+  RecordingTracker,
+  TopicSpan,
+  TranscriptRedaction,
+} from "@/types/video";
 
 const DB_PATH = join(process.cwd(), "data", "recordings.db");
 
 let db: Database.Database | null = null;
 
+// Version 1 summaries kept action items as plain strings in nextSteps and had
+// no chapters; rewrite them in the structured format (see AISummary)
+const UPGRADE_V1_SUMMARIES_SQL = `
+  UPDATE summaries
+  SET content = json_object(
+    'version', 2,
+    'brief', json_extract(content, '$.brief'),
+    'keyPoints', json(coalesce(json_extract(content, '$.keyPoints'), '[]')),
+    'chapters', json('[]'),
+    'decisions', json('[]'),
+    'openQuestions', json('[]'),
+    'risks', json('[]'),
+    'actionItems', (
+      SELECT json_group_array(
+        json_object('text', value, 'owner', NULL, 'dueDate', NULL, 'timestamp', NULL)
+      )
+      FROM json_each(summaries.content, '$.nextSteps')
+    ),
+    'sentiment', NULL
+  )
+  WHERE json_valid(content) AND json_extract(content, '$.version') IS NULL`;
+
 function runMigrations(database: Database.Database): void {
   // Get existing columns in recordings table
   const columns = database
@@ -23,53 +99,128 @@ function runMigrations(database: Database.Database): void {
   if (!columnNames.has("preview_gif_url")) {
     database.exec("ALTER TABLE recordings ADD COLUMN preview_gif_url TEXT");
   }
+
+  database.exec(UPGRADE_V1_SUMMARIES_SQL);
+  database.exec("CREATE INDEX IF NOT EXISTS idx_recordings_series ON recordings(series_id)");
+}
+
+// Add built-in summary templates that aren't there yet; edits are kept
+function seedSummaryTemplates(database: Database.Database): void {
+  const insert = database.prepare(
+    `INSERT OR IGNORE INTO summary_templates (id, name, description, focus, fields, sections, match_sources, match_title, match_purpose, match_scope, priority, built_in, created_at, updated_at)
+     VALUES (@id, @name, @description, @focus, @fields, @sections, @match_sources, @match_title, @match_purpose, @match_scope, @priority, 1, @now, @now)`
+  );
+  const now = new Date().toISOString();
+  for (const template of BUILT_IN_SUMMARY_TEMPLATES) {
+    insert.run({ ...summaryTemplateParams(template), id: template.id, now });
+  }
+}
+
+// Apply schema.sql and column migrations (shared with the sync scripts)
+export function initSchema(database: Database.Database): void {
+  const schemaPath = join(process.cwd(), "src", "lib", "db", "schema.sql");
+  const schema = readFileSync(schemaPath, "utf-8");
+
+  // Separate main schema from migration comments
+  const migrationRegex =
+    /-- MIGRATION:ADD_COLUMN:(\w+):(\w+):(.+)/g;
+  const migrations: { table: string; column: string; definition: string }[] =
+    [];
+  let match;
+  while ((match = migrationRegex.exec(schema)) !== null) {
+    migrations.push({
+      table: match[1],
+      column: match[2],
+      definition: match[3],
+    });
+  }
+
+  // Run main schema (CREATE TABLE IF NOT EXISTS statements are safe)
+  database.exec(schema);
+
+  // Run migrations with error handling (column may already exist)
+  for (const migration of migrations) {
+    try {
+      database.exec(
+        `ALTER TABLE ${migration.table} ADD COLUMN ${migration.column} ${migration.definition}`
+      );
+    } catch {
+      // Column already exists, ignore
+    }
+  }
+
+  // Run additional migrations (preview GIF columns, summary format)
+  runMigrations(database);
+  seedSummaryTemplates(database);
+
+  // Populate the search index the first time it exists on a database with data
+  const { indexed } = database
+    .prepare("SELECT EXISTS (SELECT 1 FROM search_documents) AS indexed")
+    .get() as { indexed: number };
+  if (!indexed) {
+    rebuildSearchIndex(database);
+  }
+
+  // Likewise chunk existing transcripts for semantic search
+  const { chunked, hasSegments } = database
+    .prepare(
+      `SELECT EXISTS (SELECT 1 FROM transcript_chunks) AS chunked,
+         EXISTS (SELECT 1 FROM segments) AS hasSegments`
+    )
+    .get() as { chunked: number; hasSegments: number };
+  if (!chunked && hasSegments) {
+    rebuildAllTranscriptChunks(database);
+  }
+
+  // And compute conversation analytics for them, again if they were computed
+  // before the coaching metrics existed
+  const { analyzed, beforeCoaching } = database
+    .prepare(
+      `SELECT EXISTS (SELECT 1 FROM conversation_stats) AS analyzed,
+         EXISTS (SELECT 1 FROM conversation_speaker_stats WHERE fillers IS NULL) AS beforeCoaching`
+    )
+    .get() as { analyzed: number; beforeCoaching: number };
+  if ((!analyzed && hasSegments) || beforeCoaching) {
+    rebuildAllConversationStats(database);
+  }
+
+  // Group recordings synced before series were detected
+  runBackfillOnce(database, "meeting-series", () => rebuildMeetingSeries(database));
+
+  // And pull action items out of summaries written before they were tracked
+  runBackfillOnce(database, "action-items", () => {
+    const summaries = database
+      .prepare(`SELECT recording_id, content FROM summaries`)
+      .all() as { recording_id: string; content: string }[];
+    for (const summary of summaries) {
+      syncActionItems(database, summary.recording_id, summary.content);
+    }
+  });
+}
+
+// Runs `backfill` the first time a database sees it. An empty result can be
+// legitimate (a library with no recurring meetings), so it's recorded rather
+// than inferred from the table being empty.
+function runBackfillOnce(database: Database.Database, name: string, backfill: () => void): void {
+  if (database.prepare(`SELECT 1 FROM backfills WHERE name = ?`).get(name)) return;
+  backfill();
+  database.prepare(`INSERT INTO backfills (name, ran_at) VALUES (?, ?)`).run(name, new Date().toISOString());
 }
 
 export function getDb(): Database.Database {
   if (!db) {
+    // DATABASE_PATH points elsewhere, e.g. ":memory:" in tests
+    const path = process.env.DATABASE_PATH;
     const dataDir = join(process.cwd(), "data");
-    if (!existsSync(dataDir)) {
+    if (!path && !existsSync(dataDir)) {
       mkdirSync(dataDir, { recursive: true });
     }
 
-    db = new Database(DB_PATH);
+    db = new Database(path || DB_PATH);
     db.pragma("journal_mode = WAL");
     db.pragma("foreign_keys = ON");
 
-    // Initialize schema
-    const schemaPath = join(process.cwd(), "src", "lib", "db", "schema.sql");
-    const schema = readFileSync(schemaPath, "utf-8");
-
-    // Separate main schema from migration comments
-    const migrationRegex =
-      /-- MIGRATION:ADD_COLUMN:(\w+):(\w+):(.+)/g;
-    const migrations: { table: string; column: string; definition: string }[] =
-      [];
-    let match;
-    while ((match = migrationRegex.exec(schema)) !== null) {
-      migrations.push({
-        table: match[1],
-        column: match[2],
-        definition: match[3],
-      });
-    }
-
-    // Run main schema (CREATE TABLE IF NOT EXISTS statements are safe)
-    db.exec(schema);
-
-    // Run migrations with error handling (column may already exist)
-    for (const migration of migrations) {
-      try {
-        db.exec(
-          `ALTER TABLE ${migration.table} ADD COLUMN ${migration.column} ${migration.definition}`
-        );
-      } catch {
-        // Column already exists, ignore
-      }
-    }
-
-    // Run additional migrations for preview GIFs
-    runMigrations(db);
+    initSchema(db);
   }
   return db;
 }
@@ -89,6 +240,16 @@ export interface RecordingRow {
   synced_at: string;
   poster_url: string | null;
   preview_gif_url: string | null;
+  visibility: RecordingVisibility;
+  owner_email: string | null;
+  visibility_source: "sync" | "manual";
+  // Gong call scope, when known
+  meeting_scope: MeetingScope | null;
+  // What the source says links instances of a recurring meeting (see src/lib/series)
+  series_key: string | null;
+  series_id: string | null;
+  // Spoken language (see src/lib/translation), when the source reports it
+  language: string | null;
 }
 
 export interface SegmentRow {
@@ -151,42 +312,54 @@ export interface ParticipantRow {
 }
 
 // Query functions
-export function getAllRecordings(): RecordingRow[] {
+export function getAllRecordings(viewer: Viewer): RecordingRow[] {
   const db = getDb();
   return db
-    .prepare(`SELECT * FROM recordings WHERE duration >= 60 ORDER BY created_at DESC`)
-    .all() as RecordingRow[];
+    .prepare(
+      `SELECT * FROM recordings r
+       WHERE duration >= 60 AND ${visibilityFilter(viewer)}
+       ORDER BY created_at DESC`
+    )
+    .all(visibilityParams(viewer)) as RecordingRow[];
 }
 
 export function getRecordingsBySource(
+  viewer: Viewer,
   source: "zoom" | "gong" | "all"
 ): RecordingRow[] {
   const db = getDb();
   if (source === "all") {
-    return getAllRecordings();
+    return getAllRecordings(viewer);
   }
   return db
     .prepare(
-      `SELECT * FROM recordings WHERE duration >= 60 AND source = ? ORDER BY created_at DESC`
+      `SELECT * FROM recordings r
+       WHERE duration >= 60 AND source = ? AND ${visibilityFilter(viewer)}
+       ORDER BY created_at DESC`
     )
-    .all(source) as RecordingRow[];
+    .all(source, visibilityParams(viewer)) as RecordingRow[];
 }
 
 export function getTotalRecordingsCount(
+  viewer: Viewer,
   source: "zoom" | "gong" | "all" = "all"
 ): number {
   const db = getDb();
   if (source === "all") {
     const result = db
-      .prepare(`SELECT COUNT(*) as count FROM recordings WHERE duration >= 60`)
-      .get() as { count: number };
+      .prepare(
+        `SELECT COUNT(*) as count FROM recordings r
+         WHERE duration >= 60 AND ${visibilityFilter(viewer)}`
+      )
+      .get(visibilityParams(viewer)) as { count: number };
     return result.count;
   }
   const result = db
     .prepare(
-      `SELECT COUNT(*) as count FROM recordings WHERE duration >= 60 AND source = ?`
+      `SELECT COUNT(*) as count FROM recordings r
+       WHERE duration >= 60 AND source = ? AND ${visibilityFilter(viewer)}`
     )
-    .get(source) as { count: number };
+    .get(source, visibilityParams(viewer)) as { count: number };
   return result.count;
 }
 
@@ -197,6 +370,7 @@ export interface PaginatedResult<T> {
 }
 
 export function getRecordingsPaginated(
+  viewer: Viewer,
   source: "zoom" | "gong" | "all",
   limit: number = 20,
   cursor?: string
@@ -233,12 +407,13 @@ export function getRecordingsPaginated(
 
   const rows = db
     .prepare(
-      `SELECT * FROM recordings
+      `SELECT * FROM recordings r
        WHERE duration >= 60 ${sourceFilter} ${cursorFilter}
+         AND ${visibilityFilter(viewer)}
        ORDER BY created_at DESC, id DESC
        LIMIT ?`
     )
-    .all(...params) as RecordingRow[];
+    .all(...params, visibilityParams(viewer)) as RecordingRow[];
 
   const hasMore = rows.length > limit;
   const items = hasMore ? rows.slice(0, limit) : rows;
@@ -273,121 +448,450 @@ export function updateRecordingCustomTitle(
     customTitle,
     id
   );
+  reindexRecordingSearch(db, id);
 }
 
-// Escape SQL LIKE wildcards in user input
-function escapeLikeWildcards(str: string): string {
-  return str.replace(/[%_\\]/g, "\\$&");
+type SqlParams = Record<string, string | number>;
+
+// SQL condition (on recordings alias r) for the structured parts of a search
+// query. Binds named @filter_* params, so spread `params` into the statement.
+function searchFiltersSql(filters: SearchFilters): { sql: string; params: SqlParams } {
+  const conditions: string[] = [];
+  const params: SqlParams = {};
+
+  const excluded = filters.excludedTerms
+    .map((term) => buildFtsQuery(term))
+    .filter((match): match is string => match !== null);
+  if (excluded.length > 0) {
+    conditions.push(`r.id NOT IN (
+      SELECT d.recording_id FROM search_index
+      JOIN search_documents d ON d.id = search_index.rowid
+      WHERE search_index MATCH @filter_excluded)`);
+    params.filter_excluded = excluded.map((match) => `(${match})`).join(" OR ");
+  }
+
+  if (filters.from) {
+    conditions.push("r.created_at >= @filter_from");
+    params.filter_from = filters.from;
+  }
+  if (filters.before) {
+    conditions.push("r.created_at < @filter_before");
+    params.filter_before = filters.before;
+  }
+  if (filters.source) {
+    conditions.push("r.source = @filter_source");
+    params.filter_source = filters.source;
+  }
+  if (filters.minDuration !== null) {
+    conditions.push("r.duration >= @filter_min_duration");
+    params.filter_min_duration = filters.minDuration;
+  }
+  if (filters.maxDuration !== null) {
+    conditions.push("r.duration <= @filter_max_duration");
+    params.filter_max_duration = filters.maxDuration;
+  }
+
+  const hasTables: Record<keyof SearchFilters["has"], string> = {
+    clips: "clips",
+    summary: "summaries",
+    transcript: "segments",
+  };
+  for (const [key, wanted] of Object.entries(filters.has) as [keyof SearchFilters["has"], boolean][]) {
+    conditions.push(
+      `${wanted ? "" : "NOT "}EXISTS (SELECT 1 FROM ${hasTables[key]} WHERE recording_id = r.id)`
+    );
+  }
+
+  if (filters.scope) {
+    // Sync marks calls with external parties (Gong affiliation or a non-org
+    // email) as participants-only; manual changes fall back to the emails.
+    const orgDomains = getOrgEmailDomains();
+    const domainParams = orgDomains.map((domain, i) => {
+      params[`filter_org_domain_${i}`] = domain;
+      return `@filter_org_domain_${i}`;
+    });
+    const externalEmail = orgDomains.length > 0
+      ? ` OR EXISTS (
+          SELECT 1 FROM participants sp
+          WHERE sp.recording_id = r.id AND instr(sp.email, '@') > 0
+            AND LOWER(substr(sp.email, instr(sp.email, '@') + 1)) NOT IN (${domainParams.join(", ")}))`
+      : "";
+    const isExternal = `((r.visibility_source = 'sync' AND r.visibility = 'participants')${externalEmail})`;
+    conditions.push(filters.scope === "external" ? isExternal : `NOT ${isExternal}`);
+  }
+
+  filters.participants.forEach((email, i) => {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM participants fp
+      WHERE fp.recording_id = r.id AND LOWER(fp.email) = @filter_participant_${i})`);
+    params[`filter_participant_${i}`] = email;
+  });
+  filters.excludedParticipants.forEach((email, i) => {
+    conditions.push(`NOT EXISTS (
+      SELECT 1 FROM participants fp
+      WHERE fp.recording_id = r.id AND LOWER(fp.email) = @filter_excluded_participant_${i})`);
+    params[`filter_excluded_participant_${i}`] = email;
+  });
+
+  // Tracker (Gong or keyword) and Gong topic names, case-insensitively
+  const trackerNames = `
+    SELECT LOWER(name) FROM recording_trackers WHERE recording_id = r.id
+    UNION
+    SELECT LOWER(kt.name) FROM keyword_tracker_matches km
+    INNER JOIN keyword_trackers kt ON kt.id = km.tracker_id
+    WHERE km.recording_id = r.id`;
+  const topicNames = `SELECT LOWER(name) FROM recording_topics WHERE recording_id = r.id`;
+  const namedInsights: [string[], string, string, boolean][] = [
+    [filters.trackers, trackerNames, "tracker", true],
+    [filters.excludedTrackers, trackerNames, "excluded_tracker", false],
+    [filters.topics, topicNames, "topic", true],
+    [filters.excludedTopics, topicNames, "excluded_topic", false],
+  ];
+  for (const [names, namesSql, param, wanted] of namedInsights) {
+    names.forEach((name, i) => {
+      conditions.push(`@filter_${param}_${i} ${wanted ? "" : "NOT "}IN (${namesSql})`);
+      params[`filter_${param}_${i}`] = name;
+    });
+  }
+
+  return { sql: conditions.length > 0 ? conditions.join(" AND ") : "1 = 1", params };
 }
 
-export function searchRecordings(
-  query: string,
+// Full-text search via the FTS5 index. Each matching recording is returned
+// once, with the best-scoring document (title, summary or segment) as its hit.
+function rankedSearchSql(
+  viewer: Viewer,
+  filterSql: string,
   source?: "zoom" | "gong" | "all"
-): RecordingRow[] {
-  const db = getDb();
-  const searchTerm = `%${escapeLikeWildcards(query)}%`;
+): string {
+  const sourceFilter = source && source !== "all" ? "AND r.source = @source" : "";
+
+  return `
+    WITH hits AS (
+      SELECT d.recording_id, d.kind, d.speaker, d.start_time,
+        ${SEARCH_SCORE_SQL} AS score,
+        ${SEARCH_SNIPPET_SQL} AS snippet
+      FROM search_index
+      JOIN search_documents d ON d.id = search_index.rowid
+      WHERE search_index MATCH @match
+    ),
+    best AS (
+      SELECT *, ROW_NUMBER() OVER (PARTITION BY recording_id ORDER BY score) AS hit_rank
+      FROM hits
+    )
+    SELECT r.*, best.kind AS hit_kind, best.speaker AS hit_speaker,
+      best.start_time AS hit_time, best.snippet AS hit_snippet
+    FROM best
+    INNER JOIN recordings r ON r.id = best.recording_id
+    WHERE best.hit_rank = 1 AND r.duration >= 60 ${sourceFilter}
+      AND ${filterSql}
+      AND ${visibilityFilter(viewer)}
+    ORDER BY best.score, r.created_at DESC`;
+}
 
-  // Search in titles (including custom titles) and transcript text
-  if (source && source !== "all") {
-    return db
-      .prepare(
-        `SELECT DISTINCT r.* FROM recordings r
-         LEFT JOIN segments s ON r.id = s.recording_id
-         WHERE r.duration >= 60 AND r.source = ? AND (r.title LIKE ? ESCAPE '\\' OR r.custom_title LIKE ? ESCAPE '\\' OR s.text LIKE ? ESCAPE '\\' OR s.speaker LIKE ? ESCAPE '\\')
-         ORDER BY r.created_at DESC`
-      )
-      .all(source, searchTerm, searchTerm, searchTerm, searchTerm) as RecordingRow[];
-  }
+interface RankedSearchRow extends RecordingRow {
+  hit_kind: SearchDocumentKind;
+  hit_speaker: string | null;
+  hit_time: number | null;
+  hit_snippet: string;
+}
+
+function runRankedSearch(
+  viewer: Viewer,
+  filters: SearchFilters,
+  source?: "zoom" | "gong" | "all"
+): RankedSearchRow[] {
+  const match = buildFtsQuery(filters.text);
+  if (!match) return [];
+
+  const db = getDb();
+  const filterSql = searchFiltersSql(filters);
+  return db
+    .prepare(rankedSearchSql(viewer, filterSql.sql, source))
+    .all({ match, source, ...filterSql.params, ...visibilityParams(viewer) }) as RankedSearchRow[];
+}
 
+// Recordings matching only the structured filters (no free text), newest first
+function runFilterOnlySearch(
+  viewer: Viewer,
+  filters: SearchFilters,
+  source?: "zoom" | "gong" | "all"
+): RecordingRow[] {
+  const db = getDb();
+  const filterSql = searchFiltersSql(filters);
+  const sourceFilter = source && source !== "all" ? "AND r.source = @source" : "";
   return db
     .prepare(
-      `SELECT DISTINCT r.* FROM recordings r
-       LEFT JOIN segments s ON r.id = s.recording_id
-       WHERE r.duration >= 60 AND (r.title LIKE ? ESCAPE '\\' OR r.custom_title LIKE ? ESCAPE '\\' OR s.text LIKE ? ESCAPE '\\' OR s.speaker LIKE ? ESCAPE '\\')
+      `SELECT r.* FROM recordings r
+       WHERE r.duration >= 60 ${sourceFilter}
+         AND ${filterSql.sql}
+         AND ${visibilityFilter(viewer)}
        ORDER BY r.created_at DESC`
     )
-    .all(searchTerm, searchTerm, searchTerm, searchTerm) as RecordingRow[];
+    .all({ source, ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
+}
+
+// Condition matching recordings with any indexed document for the FTS query
+// (bind buildFtsQuery() output as @match)
+const FTS_RECORDING_MATCH = `r.id IN (
+  SELECT d.recording_id FROM search_index
+  JOIN search_documents d ON d.id = search_index.rowid
+  WHERE search_index MATCH @match)`;
+
+export function searchRecordings(
+  viewer: Viewer,
+  filters: SearchFilters,
+  source?: "zoom" | "gong" | "all"
+): RecordingRow[] {
+  if (!filters.text.trim()) {
+    return hasStructuredFilters(filters) ? runFilterOnlySearch(viewer, filters, source) : [];
+  }
+  return runRankedSearch(viewer, filters, source);
 }
 
 export interface SearchResultRow extends RecordingRow {
-  match_type: "title" | "custom_title" | "transcript" | "speaker";
+  match_type: "title" | "custom_title" | "summary" | "transcript" | "speaker";
+  // Snippet with SNIPPET_MATCH_START/END around matched terms, or the speaker name
   match_text: string | null;
   match_time: number | null;
 }
 
 export function searchRecordingsWithContext(
-  query: string,
+  viewer: Viewer,
+  filters: SearchFilters,
   source?: "zoom" | "gong" | "all"
 ): SearchResultRow[] {
+  if (!filters.text.trim()) {
+    if (!hasStructuredFilters(filters)) return [];
+    return runFilterOnlySearch(viewer, filters, source).map((row) => ({
+      ...row,
+      match_type: "title" as const,
+      match_text: null,
+      match_time: null,
+    }));
+  }
+
+  return runRankedSearch(viewer, filters, source).map(
+    ({ hit_kind, hit_speaker, hit_time, hit_snippet, ...row }) => {
+      if (hit_kind !== "segment") {
+        return { ...row, match_type: hit_kind, match_text: hit_snippet, match_time: null };
+      }
+      // A segment hit with no highlighted text matched on the speaker column
+      if (!hit_snippet.includes(SNIPPET_MATCH_START)) {
+        return { ...row, match_type: "speaker" as const, match_text: hit_speaker, match_time: hit_time };
+      }
+      return { ...row, match_type: "transcript" as const, match_text: hit_snippet, match_time: hit_time };
+    }
+  );
+}
+
+export interface TranscriptHitRow {
+  recording_id: string;
+  segment_id: string;
+  start_time: number;
+  speaker: string | null;
+  snippet: string;
+  hit_count: number;
+}
+
+export interface TranscriptHits {
+  count: number;
+  hits: TranscriptHitRow[];
+}
+
+// Every transcript segment matching the query in each of the given recordings,
+// in playback order. `count` is the full number of hits; `hits` is capped at
+// `limitPerRecording` per recording.
+export function getTranscriptHitsByRecordingIds(
+  viewer: Viewer,
+  query: string,
+  recordingIds: string[],
+  limitPerRecording: number = 50
+): Record<string, TranscriptHits> {
+  const match = buildFtsQuery(query);
+  if (!match || recordingIds.length === 0) return {};
+
   const db = getDb();
-  const searchTerm = `%${escapeLikeWildcards(query)}%`;
-  const sourceFilter = source && source !== "all" ? `AND r.source = '${source}'` : "";
+  const placeholders = recordingIds.map(() => "?").join(", ");
+  const rows = db
+    .prepare(
+      `WITH hits AS (
+         SELECT d.recording_id, d.segment_id, d.start_time, d.speaker,
+           ${SEARCH_SNIPPET_SQL} AS snippet
+         FROM search_index
+         JOIN search_documents d ON d.id = search_index.rowid
+         WHERE search_index MATCH ? AND d.kind = 'segment'
+           AND d.recording_id IN (${placeholders})
+       ),
+       numbered AS (
+         SELECT *,
+           ROW_NUMBER() OVER (PARTITION BY recording_id ORDER BY start_time) AS hit_number,
+           COUNT(*) OVER (PARTITION BY recording_id) AS hit_count
+         FROM hits
+       )
+       SELECT n.recording_id, n.segment_id, n.start_time, n.speaker, n.snippet, n.hit_count
+       FROM numbered n
+       INNER JOIN recordings r ON r.id = n.recording_id
+       WHERE n.hit_number <= ? AND ${visibilityFilter(viewer)}
+       ORDER BY n.recording_id, n.start_time`
+    )
+    // Only the spoken text counts as a hit, not the speaker's name
+    .all(`text : (${match})`, ...recordingIds, limitPerRecording, visibilityParams(viewer)) as TranscriptHitRow[];
 
-  // Query that determines match type and includes context
-  const sql = `
-    SELECT DISTINCT r.*,
-      CASE
-        WHEN r.custom_title LIKE ? ESCAPE '\\' THEN 'custom_title'
-        WHEN r.title LIKE ? ESCAPE '\\' THEN 'title'
-        WHEN EXISTS (SELECT 1 FROM segments WHERE recording_id = r.id AND speaker LIKE ? ESCAPE '\\') THEN 'speaker'
-        ELSE 'transcript'
-      END as match_type,
-      CASE
-        WHEN r.custom_title LIKE ? ESCAPE '\\' THEN r.custom_title
-        WHEN r.title LIKE ? ESCAPE '\\' THEN r.title
-        WHEN EXISTS (SELECT 1 FROM segments WHERE recording_id = r.id AND speaker LIKE ? ESCAPE '\\')
-          THEN (SELECT speaker FROM segments WHERE recording_id = r.id AND speaker LIKE ? ESCAPE '\\' LIMIT 1)
-        ELSE (SELECT text FROM segments WHERE recording_id = r.id AND text LIKE ? ESCAPE '\\' LIMIT 1)
-      END as match_text,
-      CASE
-        WHEN r.custom_title LIKE ? ESCAPE '\\' OR r.title LIKE ? ESCAPE '\\' THEN NULL
-        ELSE (SELECT start_time FROM segments WHERE recording_id = r.id AND (text LIKE ? ESCAPE '\\' OR speaker LIKE ? ESCAPE '\\') LIMIT 1)
-      END as match_time
-    FROM recordings r
-    LEFT JOIN segments s ON r.id = s.recording_id
-    WHERE r.duration >= 60 ${sourceFilter}
-      AND (r.title LIKE ? ESCAPE '\\' OR r.custom_title LIKE ? ESCAPE '\\' OR s.text LIKE ? ESCAPE '\\' OR s.speaker LIKE ? ESCAPE '\\')
-    ORDER BY r.created_at DESC
-  `;
+  return rows.reduce<Record<string, TranscriptHits>>((acc, row) => {
+    if (!acc[row.recording_id]) acc[row.recording_id] = { count: row.hit_count, hits: [] };
+    acc[row.recording_id].hits.push(row);
+    return acc;
+  }, {});
+}
 
-  return db
-    .prepare(sql)
-    .all(
-      searchTerm, searchTerm, searchTerm, // match_type CASE
-      searchTerm, searchTerm, searchTerm, searchTerm, searchTerm, // match_text CASE
-      searchTerm, searchTerm, searchTerm, searchTerm, // match_time CASE
-      searchTerm, searchTerm, searchTerm, searchTerm // WHERE clause
-    ) as SearchResultRow[];
+// Semantic search passages (transcript chunks; see src/lib/search/chunks.ts)
+export interface PassageRow {
+  chunk_id: number;
+  recording_id: string;
+  start_time: number;
+  end_time: number;
+  text: string;
+  title: string;
+  custom_title: string | null;
+  source: string;
+  created_at: string;
+}
+
+function passageFiltersSql(
+  viewer: Viewer,
+  filters: SearchFilters,
+  source?: "zoom" | "gong" | "all"
+): { sql: string; params: SqlParams } {
+  const filterSql = searchFiltersSql(filters);
+  const sourceFilter = source && source !== "all" ? "AND r.source = @source" : "";
+  return {
+    sql: `r.duration >= 60 ${sourceFilter} AND ${filterSql.sql} AND ${visibilityFilter(viewer)}`,
+    params: {
+      ...(source && source !== "all" ? { source } : {}),
+      ...filterSql.params,
+      ...visibilityParams(viewer),
+    },
+  };
 }
 
-export function getRecordingById(id: string): RecordingRow | undefined {
+// Chunks containing keyword hits for the free text, best match first
+export function getKeywordRankedChunkIds(
+  viewer: Viewer,
+  filters: SearchFilters,
+  source: "zoom" | "gong" | "all" | undefined,
+  limit: number,
+  matchAny: boolean = false
+): number[] {
+  const match = buildFtsQuery(filters.text, { matchAny });
+  if (!match) return [];
+
   const db = getDb();
+  const where = passageFiltersSql(viewer, filters, source);
   return db
-    .prepare(`SELECT * FROM recordings WHERE id = ?`)
-    .get(id) as RecordingRow | undefined;
+    .prepare(
+      // MATERIALIZED keeps bm25() inside the FTS query (it can't be flattened into the join)
+      `WITH hits AS MATERIALIZED (
+         SELECT d.recording_id, d.start_time, bm25(search_index) AS score
+         FROM search_index
+         JOIN search_documents d ON d.id = search_index.rowid
+         WHERE search_index MATCH @match AND d.kind = 'segment'
+       )
+       SELECT c.id FROM hits h
+       INNER JOIN transcript_chunks c ON c.recording_id = h.recording_id
+         AND h.start_time >= c.start_time AND h.start_time <= c.end_time
+       INNER JOIN recordings r ON r.id = c.recording_id
+       WHERE ${where.sql}
+       GROUP BY c.id
+       ORDER BY MIN(h.score)
+       LIMIT @limit`
+    )
+    .pluck()
+    .all({ match: `text : (${match})`, limit, ...where.params }) as number[];
 }
 
-// Generic/default meeting titles that shouldn't be grouped as related
-const GENERIC_TITLES = [
-  "Google Calendar Meeting (not synced)",
-  "Zoom Meeting",
-  "Personal Meeting Room",
-];
+// Embedded chunks closest to `queryVector` (unit length), most similar first.
+// Scans the viewer's candidate vectors, keeping only the running top `limit`.
+export function getNearestChunkIds(
+  viewer: Viewer,
+  filters: SearchFilters,
+  source: "zoom" | "gong" | "all" | undefined,
+  model: string,
+  queryVector: Float32Array,
+  limit: number
+): { chunkId: number; similarity: number }[] {
+  const db = getDb();
+  const where = passageFiltersSql(viewer, filters, source);
+  const rows = db
+    .prepare(
+      `SELECT c.id, e.vector FROM transcript_chunks c
+       INNER JOIN chunk_embeddings e ON e.model = @model AND e.text_hash = c.text_hash
+       INNER JOIN recordings r ON r.id = c.recording_id
+       WHERE ${where.sql}`
+    )
+    .iterate({ model, ...where.params }) as IterableIterator<{ id: number; vector: Buffer }>;
+
+  const nearest: { chunkId: number; similarity: number }[] = [];
+  for (const row of rows) {
+    const similarity = dotProduct(queryVector, bufferToVector(row.vector));
+    if (nearest.length === limit && similarity <= nearest[limit - 1].similarity) continue;
 
-export function getRelatedRecordings(title: string, excludeId: string): RecordingRow[] {
-  // Don't group meetings with generic/default titles
-  if (GENERIC_TITLES.includes(title)) {
-    return [];
+    const index = nearest.findIndex((n) => similarity > n.similarity);
+    nearest.splice(index === -1 ? nearest.length : index, 0, { chunkId: row.id, similarity });
+    if (nearest.length > limit) nearest.pop();
   }
+  return nearest;
+}
+
+export function getPassagesByChunkIds(viewer: Viewer, chunkIds: number[]): PassageRow[] {
+  if (chunkIds.length === 0) return [];
 
   const db = getDb();
+  const placeholders = chunkIds.map(() => "?").join(", ");
   return db
     .prepare(
-      `SELECT * FROM recordings
-       WHERE title = ? AND id != ? AND duration >= 60
-       ORDER BY created_at DESC`
+      `SELECT c.id AS chunk_id, c.recording_id, c.start_time, c.end_time, c.text,
+         r.title, r.custom_title, r.source, r.created_at
+       FROM transcript_chunks c
+       INNER JOIN recordings r ON r.id = c.recording_id
+       WHERE c.id IN (${placeholders}) AND ${visibilityFilter(viewer)}`
+    )
+    .all(...chunkIds, visibilityParams(viewer)) as PassageRow[];
+}
+
+export function countEmbeddedChunks(model: string): number {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS count FROM transcript_chunks c
+       INNER JOIN chunk_embeddings e ON e.model = ? AND e.text_hash = c.text_hash`
+    )
+    .get(model) as { count: number };
+  return row.count;
+}
+
+// Returns undefined both for missing recordings and ones the viewer can't see
+export function getRecordingById(
+  viewer: Viewer,
+  id: string
+): RecordingRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM recordings r WHERE id = ? AND ${visibilityFilter(viewer)}`)
+    .get(id, visibilityParams(viewer)) as RecordingRow | undefined;
+}
+
+// Other instances of the recording's meeting series
+export function getRelatedRecordings(viewer: Viewer, recordingId: string): RecordingRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM recordings r
+       WHERE r.series_id = (SELECT series_id FROM recordings WHERE id = @id)
+         AND r.id != @id AND ${visibilityFilter(viewer)}
+       ORDER BY r.created_at DESC`
     )
-    .all(title, excludeId) as RecordingRow[];
+    .all({ id: recordingId, ...visibilityParams(viewer) }) as RecordingRow[];
 }
 
 export function getSegmentsByRecordingId(recordingId: string): SegmentRow[] {
@@ -399,6 +903,75 @@ export function getSegmentsByRecordingId(recordingId: string): SegmentRow[] {
     .all(recordingId) as SegmentRow[];
 }
 
+export interface TranscriptTranslationRow {
+  recording_id: string;
+  language: string;
+  // JSON array of {id, text}, one per segment
+  content: string;
+  model: string;
+  created_at: string;
+}
+
+export function getTranscriptTranslation(
+  recordingId: string,
+  language: string
+): TranscriptTranslationRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM transcript_translations WHERE recording_id = ? AND language = ?`)
+    .get(recordingId, language) as TranscriptTranslationRow | undefined;
+}
+
+// Languages the transcript has been translated into
+export function getTranscriptTranslationLanguages(recordingId: string): string[] {
+  const db = getDb();
+  return (
+    db
+      .prepare(`SELECT language FROM transcript_translations WHERE recording_id = ? ORDER BY language`)
+      .all(recordingId) as { language: string }[]
+  ).map((row) => row.language);
+}
+
+export function upsertTranscriptTranslation(translation: {
+  recordingId: string;
+  language: string;
+  content: string;
+  model: string;
+}): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT OR REPLACE INTO transcript_translations (recording_id, language, content, model, created_at)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(
+    translation.recordingId,
+    translation.language,
+    translation.content,
+    translation.model,
+    new Date().toISOString()
+  );
+}
+
+// Where personal data was redacted from the transcript, in playback order
+export function getTranscriptRedactions(recordingId: string): TranscriptRedaction[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT segment_id AS segmentId, kind, start_time AS startTime, end_time AS endTime
+       FROM transcript_redactions WHERE recording_id = ?
+       ORDER BY start_time`
+    )
+    .all(recordingId) as TranscriptRedaction[];
+}
+
+// Text before redaction of the segments that had any. Only for viewers who
+// may see it (see canViewUnredacted)
+export function getSegmentOriginals(recordingId: string): { segmentId: string; text: string }[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT segment_id AS segmentId, text FROM segment_originals WHERE recording_id = ?`)
+    .all(recordingId) as { segmentId: string; text: string }[];
+}
+
 export function getSpeakersByRecordingId(recordingId: string): SpeakerRow[] {
   const db = getDb();
   return db
@@ -426,25 +999,31 @@ export function getSpeakersByRecordingIds(
   }, {});
 }
 
-export function getAllUniqueSpeakers(): { name: string; color: string; count: number }[] {
+export function getAllUniqueSpeakers(
+  viewer: Viewer
+): { name: string; color: string; count: number }[] {
   const db = getDb();
   return db
     .prepare(
-      `SELECT name, color, COUNT(DISTINCT recording_id) as count
-       FROM speakers
-       GROUP BY name
-       ORDER BY count DESC, name ASC`
+      `SELECT sp.name, sp.color, COUNT(DISTINCT sp.recording_id) as count
+       FROM speakers sp
+       INNER JOIN recordings r ON sp.recording_id = r.id
+       WHERE ${visibilityFilter(viewer)}
+       GROUP BY sp.name
+       ORDER BY count DESC, sp.name ASC`
     )
-    .all() as { name: string; color: string; count: number }[];
+    .all(visibilityParams(viewer)) as { name: string; color: string; count: number }[];
 }
 
 export function searchRecordingsWithSpeaker(
-  query: string,
+  viewer: Viewer,
+  filters: SearchFilters,
   speakerNames: string | string[],
   source?: "zoom" | "gong" | "all"
 ): RecordingRow[] {
   const db = getDb();
-  const searchTerm = `%${escapeLikeWildcards(query)}%`;
+  const match = buildFtsQuery(filters.text);
+  const filterSql = searchFiltersSql(filters);
   const sourceFilter = source && source !== "all" ? source : null;
 
   // Normalize to array
@@ -461,22 +1040,25 @@ export function searchRecordingsWithSpeaker(
     (SELECT COUNT(DISTINCT sp.name) FROM speakers sp
      WHERE sp.recording_id = r.id AND sp.name IN (${placeholders})) = ?`;
 
-  if (query.trim()) {
+  if (match) {
     // Search with both text query and speaker filter
     const baseQuery = `
-      SELECT DISTINCT r.* FROM recordings r
-      LEFT JOIN segments s ON r.id = s.recording_id
+      SELECT r.* FROM recordings r
       WHERE r.duration >= 60
         AND ${speakerFilter}
         ${sourceFilter ? "AND r.source = ?" : ""}
-        AND (r.title LIKE ? ESCAPE '\\' OR r.custom_title LIKE ? ESCAPE '\\' OR s.text LIKE ? ESCAPE '\\' OR s.speaker LIKE ? ESCAPE '\\')
+        AND ${FTS_RECORDING_MATCH}
+        AND ${filterSql.sql}
+        AND ${visibilityFilter(viewer)}
       ORDER BY r.created_at DESC`;
 
     const params = sourceFilter
-      ? [...speakers, speakers.length, sourceFilter, searchTerm, searchTerm, searchTerm, searchTerm]
-      : [...speakers, speakers.length, searchTerm, searchTerm, searchTerm, searchTerm];
+      ? [...speakers, speakers.length, sourceFilter]
+      : [...speakers, speakers.length];
 
-    return db.prepare(baseQuery).all(...params) as RecordingRow[];
+    return db
+      .prepare(baseQuery)
+      .all(...params, { match, ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
   } else {
     // Just filter by speaker(s)
     const baseQuery = `
@@ -484,13 +1066,17 @@ export function searchRecordingsWithSpeaker(
       WHERE r.duration >= 60
         AND ${speakerFilter}
         ${sourceFilter ? "AND r.source = ?" : ""}
+        AND ${filterSql.sql}
+        AND ${visibilityFilter(viewer)}
       ORDER BY r.created_at DESC`;
 
     const params = sourceFilter
       ? [...speakers, speakers.length, sourceFilter]
       : [...speakers, speakers.length];
 
-    return db.prepare(baseQuery).all(...params) as RecordingRow[];
+    return db
+      .prepare(baseQuery)
+      .all(...params, { ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
   }
 }
 
@@ -522,55 +1108,62 @@ export function getParticipantsByRecordingIds(
   }, {});
 }
 
-export function getAllUniqueParticipants(): { email: string; name: string; count: number }[] {
+export function getAllUniqueParticipants(
+  viewer: Viewer
+): { email: string; name: string; count: number }[] {
   const db = getDb();
   return db
     .prepare(
-      `SELECT email, name, COUNT(DISTINCT recording_id) as count
-       FROM participants
-       WHERE email IS NOT NULL AND email != ''
-       GROUP BY email
-       ORDER BY count DESC, name ASC`
+      `SELECT p.email, p.name, COUNT(DISTINCT p.recording_id) as count
+       FROM participants p
+       INNER JOIN recordings r ON p.recording_id = r.id
+       WHERE p.email IS NOT NULL AND p.email != '' AND ${visibilityFilter(viewer)}
+       GROUP BY p.email
+       ORDER BY count DESC, p.name ASC`
     )
-    .all() as { email: string; name: string; count: number }[];
+    .all(visibilityParams(viewer)) as { email: string; name: string; count: number }[];
 }
 
 export function searchRecordingsWithParticipant(
-  query: string,
+  viewer: Viewer,
+  filters: SearchFilters,
   participantEmail: string,
   source?: "zoom" | "gong" | "all"
 ): RecordingRow[] {
   const db = getDb();
-  const searchTerm = `%${escapeLikeWildcards(query)}%`;
+  const match = buildFtsQuery(filters.text);
+  const filterSql = searchFiltersSql(filters);
   const sourceFilter = source && source !== "all" ? source : null;
 
-  if (query.trim()) {
+  if (match) {
     // Search with both text query and participant filter
     if (sourceFilter) {
       return db
         .prepare(
           `SELECT DISTINCT r.* FROM recordings r
            INNER JOIN participants p ON r.id = p.recording_id
-           LEFT JOIN segments s ON r.id = s.recording_id
            WHERE r.duration >= 60
              AND r.source = ?
              AND p.email = ?
-             AND (r.title LIKE ? ESCAPE '\\' OR r.custom_title LIKE ? ESCAPE '\\' OR s.text LIKE ? ESCAPE '\\' OR s.speaker LIKE ? ESCAPE '\\')
+             AND ${FTS_RECORDING_MATCH}
+             AND ${filterSql.sql}
+             AND ${visibilityFilter(viewer)}
            ORDER BY r.created_at DESC`
         )
-        .all(sourceFilter, participantEmail, searchTerm, searchTerm, searchTerm, searchTerm) as RecordingRow[];
+        .all(sourceFilter, participantEmail, { match, ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
     }
     return db
       .prepare(
         `SELECT DISTINCT r.* FROM recordings r
          INNER JOIN participants p ON r.id = p.recording_id
-         LEFT JOIN segments s ON r.id = s.recording_id
          WHERE r.duration >= 60
            AND p.email = ?
-           AND (r.title LIKE ? ESCAPE '\\' OR r.custom_title LIKE ? ESCAPE '\\' OR s.text LIKE ? ESCAPE '\\' OR s.speaker LIKE ? ESCAPE '\\')
+           AND ${FTS_RECORDING_MATCH}
+           AND ${filterSql.sql}
+           AND ${visibilityFilter(viewer)}
          ORDER BY r.created_at DESC`
       )
-      .all(participantEmail, searchTerm, searchTerm, searchTerm, searchTerm) as RecordingRow[];
+      .all(participantEmail, { match, ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
   } else {
     // Just filter by participant
     if (sourceFilter) {
@@ -579,18 +1172,22 @@ export function searchRecordingsWithParticipant(
           `SELECT DISTINCT r.* FROM recordings r
            INNER JOIN participants p ON r.id = p.recording_id
            WHERE r.duration >= 60 AND r.source = ? AND p.email = ?
+             AND ${filterSql.sql}
+             AND ${visibilityFilter(viewer)}
            ORDER BY r.created_at DESC`
         )
-        .all(sourceFilter, participantEmail) as RecordingRow[];
+        .all(sourceFilter, participantEmail, { ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
     }
     return db
       .prepare(
         `SELECT DISTINCT r.* FROM recordings r
          INNER JOIN participants p ON r.id = p.recording_id
          WHERE r.duration >= 60 AND p.email = ?
+           AND ${filterSql.sql}
+           AND ${visibilityFilter(viewer)}
          ORDER BY r.created_at DESC`
       )
-      .all(participantEmail) as RecordingRow[];
+      .all(participantEmail, { ...filterSql.params, ...visibilityParams(viewer) }) as RecordingRow[];
   }
 }
 
@@ -636,6 +1233,103 @@ export function getChatMessagesByRecordingId(recordingId: string): ChatMessageRo
     .all(recordingId) as ChatMessageRow[];
 }
 
+// Gong call insights (trackers, topics, interaction stats), written by sync-gong
+
+// Gong trackers first, then keyword trackers that matched the transcript
+export function getTrackersByRecordingId(recordingId: string): RecordingTracker[] {
+  const db = getDb();
+  const trackers = db
+    .prepare(`SELECT name, count FROM recording_trackers WHERE recording_id = ? ORDER BY count DESC, name`)
+    .all(recordingId) as { name: string; count: number }[];
+  const occurrences = db
+    .prepare(
+      `SELECT tracker, start_time, end_time FROM tracker_occurrences
+       WHERE recording_id = ? ORDER BY start_time`
+    )
+    .all(recordingId) as { tracker: string; start_time: number; end_time: number }[];
+
+  const keywordMatches = db
+    .prepare(
+      `SELECT t.id, t.name, m.start_time, m.end_time
+       FROM keyword_tracker_matches m
+       INNER JOIN keyword_trackers t ON t.id = m.tracker_id
+       WHERE m.recording_id = ?
+       ORDER BY m.start_time`
+    )
+    .all(recordingId) as { id: string; name: string; start_time: number; end_time: number }[];
+
+  const keywordTrackers = new Map<string, RecordingTracker>();
+  for (const match of keywordMatches) {
+    const tracker = keywordTrackers.get(match.id) ?? { id: match.id, name: match.name, count: 0, occurrences: [] };
+    tracker.occurrences.push({ startTime: match.start_time, endTime: match.end_time });
+    tracker.count++;
+    keywordTrackers.set(match.id, tracker);
+  }
+
+  return [
+    ...trackers.map((tracker) => ({
+      ...tracker,
+      occurrences: occurrences
+        .filter((o) => o.tracker === tracker.name)
+        .map((o) => ({ startTime: o.start_time, endTime: o.end_time })),
+    })),
+    ...[...keywordTrackers.values()].sort((a, b) => b.count - a.count),
+  ];
+}
+
+export function getTopicsByRecordingId(recordingId: string): RecordingTopic[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT name, duration FROM recording_topics WHERE recording_id = ? ORDER BY duration DESC`)
+    .all(recordingId) as RecordingTopic[];
+}
+
+export function getTopicSpansByRecordingId(recordingId: string): TopicSpan[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT name, start_time AS startTime, end_time AS endTime FROM topic_spans
+       WHERE recording_id = ? ORDER BY start_time`
+    )
+    .all(recordingId) as TopicSpan[];
+}
+
+export function getInteractionStatsByRecordingId(recordingId: string): InteractionStats | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `SELECT talk_ratio AS talkRatio, interactivity, longest_monologue AS longestMonologue,
+         company_questions AS companyQuestions, non_company_questions AS nonCompanyQuestions
+       FROM recording_interaction_stats WHERE recording_id = ?`
+    )
+    .get(recordingId) as InteractionStats | undefined;
+  return row ?? null;
+}
+
+// Per speaker, most talk time first
+export function getConversationStatsByRecordingId(recordingId: string): SpeakerConversationStats[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT speaker, email, talk_time AS talkTime, talk_ratio AS talkRatio,
+         longest_monologue AS longestMonologue, turns, interruptions, questions, words,
+         words_per_minute AS wordsPerMinute, fillers, filler_words AS fillerWords, responses,
+         patience, external, customer_responses AS customerResponses,
+         customer_interruptions AS customerInterruptions
+       FROM conversation_speaker_stats WHERE recording_id = ?
+       ORDER BY talk_time DESC`
+    )
+    .all(recordingId) as (Omit<SpeakerConversationStats, "fillers" | "external"> & {
+    fillers: string | null;
+    external: number | null;
+  })[];
+  return rows.map((row) => ({
+    ...row,
+    fillers: row.fillers ? (JSON.parse(row.fillers) as Record<string, number>) : {},
+    external: row.external === null ? null : row.external === 1,
+  }));
+}
+
 // Transform DB rows to app types
 export function dbRowToRecording(
   row: RecordingRow,
@@ -660,6 +1354,7 @@ export function dbRowToRecording(
     space: row.space,
     source: row.source || "zoom",
     mediaType: (row.media_type as "video" | "audio") || "video",
+    language: row.language ?? undefined,
     createdAt: row.created_at,
     speakers: speakers.map((s) => ({
       id: s.id,
@@ -688,12 +1383,14 @@ export function upsertRecording(recording: {
   mediaType?: string;
   mediaUrlExpiresAt?: string;
   createdAt: string;
+  visibility?: RecordingVisibility;
+  ownerEmail?: string;
 }): void {
   const db = getDb();
-  // Use INSERT ... ON CONFLICT to preserve custom_title when syncing
+  // Use INSERT ... ON CONFLICT to preserve custom_title and manual visibility when syncing
   db.prepare(
-    `INSERT INTO recordings (id, title, description, video_url, duration, space, source, media_type, media_url_expires_at, created_at, synced_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `INSERT INTO recordings (id, title, description, video_url, duration, space, source, media_type, media_url_expires_at, created_at, synced_at, visibility, owner_email)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
      ON CONFLICT(id) DO UPDATE SET
        title = excluded.title,
        description = excluded.description,
@@ -703,7 +1400,10 @@ export function upsertRecording(recording: {
        source = excluded.source,
        media_type = excluded.media_type,
        media_url_expires_at = excluded.media_url_expires_at,
-       synced_at = excluded.synced_at`
+       synced_at = excluded.synced_at,
+       owner_email = excluded.owner_email,
+       visibility = CASE WHEN recordings.visibility_source = 'manual'
+         THEN recordings.visibility ELSE excluded.visibility END`
   ).run(
     recording.id,
     recording.title,
@@ -715,13 +1415,18 @@ export function upsertRecording(recording: {
     recording.mediaType ?? "video",
     recording.mediaUrlExpiresAt ?? null,
     recording.createdAt,
-    new Date().toISOString()
+    new Date().toISOString(),
+    recording.visibility ?? "org",
+    recording.ownerEmail?.toLowerCase() ?? null
   );
 }
 
 export function deleteRecordingData(recordingId: string): void {
   const db = getDb();
   db.prepare(`DELETE FROM segments WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM segment_originals WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM transcript_redactions WHERE recording_id = ?`).run(recordingId);
+  db.prepare(`DELETE FROM transcript_translations WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM speakers WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM video_files WHERE recording_id = ?`).run(recordingId);
   db.prepare(`DELETE FROM chat_messages WHERE recording_id = ?`).run(recordingId);
@@ -866,52 +1571,109 @@ export function upsertSummary(summary: {
     summary.model,
     new Date().toISOString()
   );
+  reindexRecordingSearch(db, summary.recordingId);
+  syncActionItems(db, summary.recordingId, summary.content);
+  // Digests built from the old summary, for this meeting or a later one
+  db.prepare(
+    `DELETE FROM series_digests
+     WHERE recording_id = @id
+       OR (',' || previous_recording_ids || ',') LIKE '%,' || @id || ',%'`
+  ).run({ id: summary.recordingId });
 }
 
-// Clip functions
-export function dbRowToClip(row: ClipRow): Clip {
-  return {
-    id: row.id,
-    recordingId: row.recording_id,
-    title: row.title,
-    startTime: row.start_time,
-    endTime: row.end_time,
-    createdAt: row.created_at,
-  };
+// Series digest functions
+export interface SeriesDigestRow {
+  recording_id: string;
+  previous_recording_ids: string;
+  content: string;
+  model: string;
+  generated_at: string;
 }
 
-export function getAllClips(): ClipRow[] {
+// previousIds are the instances the digest compares against, most recent first
+export function getSeriesDigest(
+  recordingId: string,
+  previousIds: string[]
+): SeriesDigestRow | undefined {
   const db = getDb();
   return db
     .prepare(
-      `SELECT c.* FROM clips c
-       INNER JOIN recordings r ON c.recording_id = r.id
-       ORDER BY c.created_at DESC`
+      `SELECT * FROM series_digests WHERE recording_id = ? AND previous_recording_ids = ?`
     )
-    .all() as ClipRow[];
+    .get(recordingId, previousIds.join(",")) as SeriesDigestRow | undefined;
 }
 
-export interface ClipWithRecordingRow extends ClipRow {
-  recording_title: string;
+export function upsertSeriesDigest(digest: {
+  recordingId: string;
+  previousIds: string[];
+  content: string;
+  model: string;
+}): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT OR REPLACE INTO series_digests
+       (recording_id, previous_recording_ids, content, model, generated_at)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(
+    digest.recordingId,
+    digest.previousIds.join(","),
+    digest.content,
+    digest.model,
+    new Date().toISOString()
+  );
+}
+
+// Clip functions
+export function dbRowToClip(row: ClipRow): Clip {
+  return {
+    id: row.id,
+    recordingId: row.recording_id,
+    title: row.title,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    createdAt: row.created_at,
+  };
+}
+
+export function getAllClips(viewer: Viewer): ClipRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT c.* FROM clips c
+       INNER JOIN recordings r ON c.recording_id = r.id
+       WHERE ${visibilityFilter(viewer)}
+       ORDER BY c.created_at DESC`
+    )
+    .all(visibilityParams(viewer)) as ClipRow[];
+}
+
+export interface ClipWithRecordingRow extends ClipRow {
+  recording_title: string;
 }
 
-export function getAllClipsWithRecordingTitle(): ClipWithRecordingRow[] {
+export function getAllClipsWithRecordingTitle(viewer: Viewer): ClipWithRecordingRow[] {
   const db = getDb();
   return db
     .prepare(
       `SELECT c.*, COALESCE(r.custom_title, r.title) as recording_title
        FROM clips c
        INNER JOIN recordings r ON c.recording_id = r.id
+       WHERE ${visibilityFilter(viewer)}
        ORDER BY c.created_at DESC`
     )
-    .all() as ClipWithRecordingRow[];
+    .all(visibilityParams(viewer)) as ClipWithRecordingRow[];
 }
 
-export function getClipById(id: string): ClipRow | undefined {
+// Clips inherit the visibility of their recording
+export function getClipById(viewer: Viewer, id: string): ClipRow | undefined {
   const db = getDb();
   return db
-    .prepare(`SELECT * FROM clips WHERE id = ?`)
-    .get(id) as ClipRow | undefined;
+    .prepare(
+      `SELECT c.* FROM clips c
+       INNER JOIN recordings r ON c.recording_id = r.id
+       WHERE c.id = ? AND ${visibilityFilter(viewer)}`
+    )
+    .get(id, visibilityParams(viewer)) as ClipRow | undefined;
 }
 
 export function getClipsByRecordingId(recordingId: string): ClipRow[] {
@@ -971,3 +1733,1154 @@ export function deleteClip(id: string): boolean {
   return result.changes > 0;
 }
 
+
+// User functions
+export type UserRole = "member" | "admin";
+
+export interface UserRow {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  idp_subject: string | null;
+  created_at: string;
+  last_login_at: string | null;
+  // 0 when the user opted out of the weekly digest email
+  weekly_digest: number;
+}
+
+export function getUserById(id: string): UserRow | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT * FROM users WHERE id = ?`).get(id) as
+    | UserRow
+    | undefined;
+}
+
+export function getUserByEmail(email: string): UserRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM users WHERE email = ?`)
+    .get(email.toLowerCase()) as UserRow | undefined;
+}
+
+// Create the user on first sign-in, otherwise refresh profile and login time
+export function upsertUserOnLogin(user: {
+  id: string;
+  email: string;
+  name: string | null;
+  idpSubject: string;
+  role: UserRole;
+}): UserRow {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const email = user.email.toLowerCase();
+
+  db.prepare(
+    `INSERT INTO users (id, email, name, role, idp_subject, created_at, last_login_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(email) DO UPDATE SET
+       name = COALESCE(excluded.name, users.name),
+       idp_subject = excluded.idp_subject,
+       role = excluded.role,
+       last_login_at = excluded.last_login_at`
+  ).run(user.id, email, user.name, user.role, user.idpSubject, now, now);
+
+  return getUserByEmail(email)!;
+}
+
+// Visibility functions
+export function getRecordingShares(recordingId: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`SELECT email FROM recording_shares WHERE recording_id = ? ORDER BY email`)
+    .all(recordingId) as { email: string }[];
+  return rows.map((r) => r.email);
+}
+
+// Manual changes are kept across syncs (visibility_source = 'manual')
+export function updateRecordingVisibility(
+  recordingId: string,
+  visibility: RecordingVisibility,
+  shareEmails: string[]
+): void {
+  const db = getDb();
+  const emails = [...new Set(shareEmails.map((e) => e.trim().toLowerCase()).filter(Boolean))];
+  const now = new Date().toISOString();
+
+  const update = db.transaction(() => {
+    db.prepare(
+      `UPDATE recordings SET visibility = ?, visibility_source = 'manual' WHERE id = ?`
+    ).run(visibility, recordingId);
+    db.prepare(`DELETE FROM recording_shares WHERE recording_id = ?`).run(recordingId);
+    const insert = db.prepare(
+      `INSERT INTO recording_shares (recording_id, email, created_at) VALUES (?, ?, ?)`
+    );
+    for (const email of emails) {
+      insert.run(recordingId, email, now);
+    }
+  });
+
+  update();
+}
+
+// Recording conversation functions
+export interface ConversationMessageRow {
+  id: number;
+  recording_id: string;
+  user_email: string;
+  role: "user" | "assistant";
+  content: string;
+  // JSON array of TimestampCitation (assistant messages only)
+  citations: string | null;
+  created_at: string;
+}
+
+export function getConversationMessages(
+  recordingId: string,
+  userEmail: string
+): ConversationMessageRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM recording_conversation_messages
+       WHERE recording_id = ? AND user_email = ?
+       ORDER BY id`
+    )
+    .all(recordingId, userEmail.toLowerCase()) as ConversationMessageRow[];
+}
+
+export function insertConversationMessage(message: {
+  recordingId: string;
+  userEmail: string;
+  role: "user" | "assistant";
+  content: string;
+  citations?: string | null;
+}): ConversationMessageRow {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+  const userEmail = message.userEmail.toLowerCase();
+  const citations = message.citations ?? null;
+
+  const result = db
+    .prepare(
+      `INSERT INTO recording_conversation_messages
+         (recording_id, user_email, role, content, citations, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    )
+    .run(message.recordingId, userEmail, message.role, message.content, citations, createdAt);
+
+  return {
+    id: Number(result.lastInsertRowid),
+    recording_id: message.recordingId,
+    user_email: userEmail,
+    role: message.role,
+    content: message.content,
+    citations,
+    created_at: createdAt,
+  };
+}
+
+export function deleteConversationMessages(recordingId: string, userEmail: string): number {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `DELETE FROM recording_conversation_messages WHERE recording_id = ? AND user_email = ?`
+    )
+    .run(recordingId, userEmail.toLowerCase());
+  return result.changes;
+}
+
+// Summary templates
+export interface SummaryTemplateRow {
+  id: string;
+  name: string;
+  description: string;
+  focus: string;
+  fields: string;
+  sections: string;
+  match_sources: string;
+  match_title: string | null;
+  match_purpose: string | null;
+  match_scope: MeetingScope | null;
+  priority: number;
+  built_in: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export function dbRowToSummaryTemplate(row: SummaryTemplateRow): SummaryTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    focus: row.focus,
+    fields: JSON.parse(row.fields) as SummaryTemplate["fields"],
+    sections: JSON.parse(row.sections) as SummaryTemplate["sections"],
+    match: {
+      sources: JSON.parse(row.match_sources) as string[],
+      titlePattern: row.match_title,
+      purposePattern: row.match_purpose,
+      scope: row.match_scope,
+    },
+    priority: row.priority,
+    builtIn: row.built_in === 1,
+  };
+}
+
+function summaryTemplateParams(template: SummaryTemplateInput) {
+  return {
+    name: template.name,
+    description: template.description,
+    focus: template.focus,
+    fields: JSON.stringify(template.fields),
+    sections: JSON.stringify(template.sections),
+    match_sources: JSON.stringify(template.match.sources),
+    match_title: template.match.titlePattern,
+    match_purpose: template.match.purposePattern,
+    match_scope: template.match.scope,
+    priority: template.priority,
+  };
+}
+
+export function getSummaryTemplates(): SummaryTemplate[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`SELECT * FROM summary_templates ORDER BY built_in DESC, priority DESC, name`)
+    .all() as SummaryTemplateRow[];
+  return rows.map(dbRowToSummaryTemplate);
+}
+
+export function getSummaryTemplateById(id: string): SummaryTemplate | undefined {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT * FROM summary_templates WHERE id = ?`)
+    .get(id) as SummaryTemplateRow | undefined;
+  return row ? dbRowToSummaryTemplate(row) : undefined;
+}
+
+export function insertSummaryTemplate(id: string, template: SummaryTemplateInput): SummaryTemplate {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO summary_templates (id, name, description, focus, fields, sections, match_sources, match_title, match_purpose, match_scope, priority, built_in, created_at, updated_at)
+     VALUES (@id, @name, @description, @focus, @fields, @sections, @match_sources, @match_title, @match_purpose, @match_scope, @priority, 0, @now, @now)`
+  ).run({ ...summaryTemplateParams(template), id, now });
+  return { ...template, id, builtIn: false };
+}
+
+// Returns the updated template, or undefined when it doesn't exist
+export function updateSummaryTemplate(
+  id: string,
+  template: SummaryTemplateInput
+): SummaryTemplate | undefined {
+  const db = getDb();
+  const result = db.prepare(
+    `UPDATE summary_templates SET
+       name = @name, description = @description, focus = @focus, fields = @fields,
+       sections = @sections, match_sources = @match_sources, match_title = @match_title,
+       match_purpose = @match_purpose, match_scope = @match_scope, priority = @priority,
+       updated_at = @now
+     WHERE id = @id`
+  ).run({ ...summaryTemplateParams(template), id, now: new Date().toISOString() });
+  return result.changes > 0 ? getSummaryTemplateById(id) : undefined;
+}
+
+// Built-in templates can't be deleted (they'd be seeded again)
+export function deleteSummaryTemplate(id: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(`DELETE FROM summary_templates WHERE id = ? AND built_in = 0`)
+    .run(id);
+  return result.changes > 0;
+}
+
+// AI usage
+export interface AIUsageTotalsRow {
+  day: string;
+  task: LLMTask;
+  model: string;
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  // Calls whose model has no known price (not in cost_usd)
+  unpriced_calls: number;
+}
+
+export function insertAIUsage(usage: {
+  task: LLMTask;
+  recordingId?: string | null;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number | null;
+}): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO ai_usage
+       (task, recording_id, model, input_tokens, output_tokens, latency_ms, cost_usd, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    usage.task,
+    usage.recordingId ?? null,
+    usage.model,
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.latencyMs,
+    usage.costUsd,
+    new Date().toISOString()
+  );
+}
+
+// Estimated spend in USD since an ISO timestamp
+export function getAISpendSince(since: string): number {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT coalesce(sum(cost_usd), 0) AS cost FROM ai_usage WHERE created_at >= ?`)
+    .get(since) as { cost: number };
+  return row.cost;
+}
+
+// Calls, tokens and cost per day (UTC), task and model since an ISO timestamp
+export function getAIUsageTotals(since: string): AIUsageTotalsRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT substr(created_at, 1, 10) AS day, task, model,
+              count(*) AS calls,
+              sum(input_tokens) AS input_tokens,
+              sum(output_tokens) AS output_tokens,
+              coalesce(sum(cost_usd), 0) AS cost_usd,
+              sum(cost_usd IS NULL) AS unpriced_calls
+       FROM ai_usage
+       WHERE created_at >= ?
+       GROUP BY day, task, model
+       ORDER BY day DESC, task, model`
+    )
+    .all(since) as AIUsageTotalsRow[];
+}
+
+// Action item functions
+export interface ActionItemRow {
+  id: number;
+  recording_id: string;
+  text: string;
+  owner: string | null;
+  owner_email: string | null;
+  due_date: string | null;
+  timestamp: number | null;
+  status: ActionItemStatus;
+  completed_at: string | null;
+  completed_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ActionItemWithRecordingRow extends ActionItemRow {
+  recording_title: string;
+  recorded_at: string;
+}
+
+export interface ActionItemFilters {
+  status?: ActionItemStatus;
+  ownerEmail?: string;
+  // Meeting series ID (see src/lib/series)
+  series?: string;
+  recordingId?: string;
+}
+
+export function dbRowToActionItem(row: ActionItemWithRecordingRow): ActionItem {
+  return {
+    id: row.id,
+    recordingId: row.recording_id,
+    recordingTitle: row.recording_title,
+    recordedAt: row.recorded_at,
+    text: row.text,
+    owner: row.owner,
+    ownerEmail: row.owner_email,
+    dueDate: row.due_date,
+    timestamp: row.timestamp,
+    status: row.status,
+    completedAt: row.completed_at,
+    completedBy: row.completed_by,
+  };
+}
+
+// Replace a recording's action items with the ones in its summary. Stored
+// items are matched to the new ones by wording (see matchActionItems) and keep
+// their status; unmatched items are removed unless they were checked off.
+function syncActionItems(database: Database.Database, recordingId: string, content: string): void {
+  let summary;
+  try {
+    summary = normalizeSummary(JSON.parse(content));
+  } catch {
+    return;
+  }
+
+  const participants = database
+    .prepare(`SELECT name, email FROM participants WHERE recording_id = ?`)
+    .all(recordingId) as { name: string; email: string | null }[];
+  const items = extractActionItems(summary, participants);
+  const now = new Date().toISOString();
+
+  const insert = database.prepare(
+    `INSERT INTO action_items
+       (recording_id, text, owner, owner_email, due_date, timestamp, created_at, updated_at)
+     VALUES (@recordingId, @text, @owner, @ownerEmail, @dueDate, @timestamp, @now, @now)`
+  );
+  const update = database.prepare(
+    `UPDATE action_items
+     SET text = @text, owner = @owner, owner_email = @ownerEmail, due_date = @dueDate,
+       timestamp = @timestamp, updated_at = @now
+     WHERE id = @id`
+  );
+  database.transaction(() => {
+    const stored = database
+      .prepare(`SELECT id, text, timestamp, status FROM action_items WHERE recording_id = ?`)
+      .all(recordingId) as (StoredActionItem & { status: ActionItemStatus })[];
+    const matches = matchActionItems(stored, items);
+    const matched = new Set(matches.values());
+
+    // An item someone checked off stays, so the record of it isn't lost
+    // when the model leaves it out
+    const remove = database.prepare(`DELETE FROM action_items WHERE id = ?`);
+    for (const item of stored) {
+      if (!matched.has(item.id) && item.status !== "done") remove.run(item.id);
+    }
+    items.forEach((item, index) => {
+      const id = matches.get(index);
+      if (id !== undefined) {
+        update.run({ ...item, id, now });
+      } else {
+        insert.run({ ...item, recordingId, now });
+      }
+    });
+  })();
+}
+
+const ACTION_ITEM_SELECT = `
+  SELECT a.*, COALESCE(r.custom_title, r.title) AS recording_title, r.created_at AS recorded_at
+  FROM action_items a
+  INNER JOIN recordings r ON a.recording_id = r.id`;
+
+// Open items first, soonest due first, then newest meetings
+export function getActionItems(
+  viewer: Viewer,
+  filters: ActionItemFilters = {}
+): ActionItemWithRecordingRow[] {
+  const db = getDb();
+  const conditions = [visibilityFilter(viewer)];
+  if (filters.status) conditions.push("a.status = @status");
+  if (filters.ownerEmail) conditions.push("a.owner_email = @owner_email");
+  if (filters.series) conditions.push("r.series_id = @series");
+  if (filters.recordingId) conditions.push("a.recording_id = @recording_id");
+
+  return db
+    .prepare(
+      `${ACTION_ITEM_SELECT}
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY a.status = 'done', a.due_date IS NULL, a.due_date, r.created_at DESC, a.timestamp`
+    )
+    .all({
+      ...visibilityParams(viewer),
+      status: filters.status ?? null,
+      owner_email: filters.ownerEmail?.toLowerCase() ?? null,
+      series: filters.series ?? null,
+      recording_id: filters.recordingId ?? null,
+    }) as ActionItemWithRecordingRow[];
+}
+
+export function getActionItemById(
+  viewer: Viewer,
+  id: number
+): ActionItemWithRecordingRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(`${ACTION_ITEM_SELECT} WHERE a.id = @id AND ${visibilityFilter(viewer)}`)
+    .get({ id, ...visibilityParams(viewer) }) as ActionItemWithRecordingRow | undefined;
+}
+
+// People with action items, named as they appear in the participant list
+export function getActionItemOwners(
+  viewer: Viewer
+): { email: string; name: string; open_count: number }[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT a.owner_email AS email,
+         COALESCE(
+           (SELECT p.name FROM participants p WHERE lower(p.email) = a.owner_email LIMIT 1),
+           MAX(a.owner)
+         ) AS name,
+         SUM(a.status = 'open') AS open_count
+       FROM action_items a
+       INNER JOIN recordings r ON a.recording_id = r.id
+       WHERE a.owner_email IS NOT NULL AND ${visibilityFilter(viewer)}
+       GROUP BY a.owner_email
+       ORDER BY name COLLATE NOCASE`
+    )
+    .all(visibilityParams(viewer)) as { email: string; name: string; open_count: number }[];
+}
+
+// Meeting series with action items
+export function getActionItemSeries(viewer: Viewer): { id: string; title: string; open_count: number }[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT s.id AS id, s.title AS title, SUM(a.status = 'open') AS open_count
+       FROM action_items a
+       INNER JOIN recordings r ON a.recording_id = r.id
+       INNER JOIN meeting_series s ON s.id = r.series_id
+       WHERE ${visibilityFilter(viewer)}
+       GROUP BY s.id
+       ORDER BY s.title COLLATE NOCASE`
+    )
+    .all(visibilityParams(viewer)) as { id: string; title: string; open_count: number }[];
+}
+
+export function updateActionItemStatus(
+  id: number,
+  status: ActionItemStatus,
+  userEmail: string
+): void {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.prepare(
+    `UPDATE action_items
+     SET status = @status,
+       completed_at = CASE WHEN @status = 'done' THEN @now END,
+       completed_by = CASE WHEN @status = 'done' THEN @user_email END,
+       updated_at = @now
+     WHERE id = @id`
+  ).run({ id, status, now, user_email: userEmail.toLowerCase() });
+}
+
+// Keyword trackers (see src/lib/search/trackers.ts)
+
+interface KeywordTrackerRow {
+  id: string;
+  name: string;
+  phrases: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function dbRowToKeywordTracker(row: KeywordTrackerRow): KeywordTracker {
+  return {
+    id: row.id,
+    name: row.name,
+    phrases: JSON.parse(row.phrases) as string[],
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export interface KeywordTrackerSummary extends KeywordTracker {
+  // Across recordings the viewer can see
+  mentions: number;
+  recordings: number;
+  lastMentionedAt: string | null;
+}
+
+export function getKeywordTrackers(viewer: Viewer): KeywordTrackerSummary[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT t.*,
+         COUNT(r.id) AS mentions,
+         COUNT(DISTINCT r.id) AS recordings,
+         MAX(r.created_at) AS last_mentioned_at
+       FROM keyword_trackers t
+       LEFT JOIN keyword_tracker_matches m ON m.tracker_id = t.id
+       LEFT JOIN recordings r ON r.id = m.recording_id AND ${visibilityFilter(viewer)}
+       GROUP BY t.id
+       ORDER BY t.name COLLATE NOCASE`
+    )
+    .all(visibilityParams(viewer)) as (KeywordTrackerRow & {
+      mentions: number;
+      recordings: number;
+      last_mentioned_at: string | null;
+    })[];
+
+  return rows.map((row) => ({
+    ...dbRowToKeywordTracker(row),
+    mentions: row.mentions,
+    recordings: row.recordings,
+    lastMentionedAt: row.last_mentioned_at,
+  }));
+}
+
+export function getKeywordTrackerById(id: string): KeywordTracker | undefined {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM keyword_trackers WHERE id = ?`).get(id) as
+    | KeywordTrackerRow
+    | undefined;
+  return row ? dbRowToKeywordTracker(row) : undefined;
+}
+
+export function isKeywordTrackerNameTaken(name: string, exceptId?: string): boolean {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT 1 FROM keyword_trackers WHERE name = ? COLLATE NOCASE AND id != ?`)
+    .get(name, exceptId ?? "");
+  return row !== undefined;
+}
+
+// Saving a tracker runs it over every transcript
+export function insertKeywordTracker(
+  id: string,
+  tracker: KeywordTrackerInput,
+  createdBy: string
+): KeywordTracker {
+  const db = getDb();
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO keyword_trackers (id, name, phrases, created_by, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(id, tracker.name, JSON.stringify(tracker.phrases), createdBy.toLowerCase(), now, now);
+  runKeywordTrackerOverLibrary(db, id);
+  return getKeywordTrackerById(id)!;
+}
+
+export function updateKeywordTracker(id: string, tracker: KeywordTrackerInput): KeywordTracker | undefined {
+  const db = getDb();
+  const existing = getKeywordTrackerById(id);
+  if (!existing) return undefined;
+
+  db.prepare(`UPDATE keyword_trackers SET name = ?, phrases = ?, updated_at = ? WHERE id = ?`).run(
+    tracker.name,
+    JSON.stringify(tracker.phrases),
+    new Date().toISOString(),
+    id
+  );
+  if (JSON.stringify(existing.phrases) !== JSON.stringify(tracker.phrases)) {
+    runKeywordTrackerOverLibrary(db, id);
+  }
+  return getKeywordTrackerById(id);
+}
+
+export function deleteKeywordTracker(id: string): void {
+  const db = getDb();
+  db.prepare(`DELETE FROM keyword_trackers WHERE id = ?`).run(id);
+}
+
+// Mentions per week (weeks start on Monday) of recordings the viewer can see
+export function getKeywordTrackerTrend(
+  viewer: Viewer,
+  trackerId: string
+): { week: string; mentions: number; recordings: number }[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT date(r.created_at, 'weekday 0', '-6 days') AS week,
+         COUNT(*) AS mentions,
+         COUNT(DISTINCT r.id) AS recordings
+       FROM keyword_tracker_matches m
+       INNER JOIN recordings r ON r.id = m.recording_id
+       WHERE m.tracker_id = @tracker_id AND ${visibilityFilter(viewer)}
+       GROUP BY week
+       ORDER BY week`
+    )
+    .all({ tracker_id: trackerId, ...visibilityParams(viewer) }) as {
+    week: string;
+    mentions: number;
+    recordings: number;
+  }[];
+}
+
+export interface KeywordTrackerRecordingRow extends RecordingRow {
+  mentions: number;
+  first_mention: number;
+  // Comma-separated phrases that matched
+  matched_phrases: string;
+}
+
+export function getKeywordTrackerRecordings(
+  viewer: Viewer,
+  trackerId: string
+): KeywordTrackerRecordingRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT r.*, COUNT(*) AS mentions, MIN(m.start_time) AS first_mention,
+         GROUP_CONCAT(DISTINCT m.phrase) AS matched_phrases
+       FROM keyword_tracker_matches m
+       INNER JOIN recordings r ON r.id = m.recording_id
+       WHERE m.tracker_id = @tracker_id AND ${visibilityFilter(viewer)}
+       GROUP BY r.id
+       ORDER BY r.created_at DESC`
+    )
+    .all({ tracker_id: trackerId, ...visibilityParams(viewer) }) as KeywordTrackerRecordingRow[];
+}
+
+// Alerts
+export function getAlertRules(userEmail: string): AlertRule[] {
+  const db = getDb();
+  const rows = db
+    .prepare(`SELECT * FROM alert_rules WHERE user_email = ? ORDER BY created_at DESC`)
+    .all(userEmail.toLowerCase()) as AlertRuleRow[];
+  return rows.map(dbRowToAlertRule);
+}
+
+export function insertAlertRule(id: string, rule: AlertRuleInput, userEmail: string): AlertRule {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO alert_rules (id, user_email, kind, value, channels, webhook_url, enabled, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, 1, ?)`
+  ).run(id, userEmail.toLowerCase(), rule.kind, rule.value, JSON.stringify(rule.channels), rule.webhookUrl, createdAt);
+  return { ...rule, id, userEmail: userEmail.toLowerCase(), enabled: true, createdAt };
+}
+
+// Rules can only be changed by their owner; false when there's no such rule
+export function setAlertRuleEnabled(id: string, userEmail: string, enabled: boolean): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(`UPDATE alert_rules SET enabled = ? WHERE id = ? AND user_email = ?`)
+    .run(enabled ? 1 : 0, id, userEmail.toLowerCase());
+  return result.changes > 0;
+}
+
+export function deleteAlertRule(id: string, userEmail: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(`DELETE FROM alert_rules WHERE id = ? AND user_email = ?`)
+    .run(id, userEmail.toLowerCase());
+  return result.changes > 0;
+}
+
+export interface NotificationRow {
+  id: number;
+  user_email: string;
+  rule_id: string | null;
+  recording_id: string | null;
+  title: string;
+  body: string;
+  url: string;
+  timestamp: number | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+export function getNotifications(userEmail: string, limit = 100): NotificationRow[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM notifications WHERE user_email = ? ORDER BY created_at DESC, id DESC LIMIT ?`)
+    .all(userEmail.toLowerCase(), limit) as NotificationRow[];
+}
+
+export function countUnreadNotifications(userEmail: string): number {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT COUNT(*) AS count FROM notifications WHERE user_email = ? AND read_at IS NULL`)
+    .get(userEmail.toLowerCase()) as { count: number };
+  return row.count;
+}
+
+// Marks the given notifications read, or all of them when ids is omitted
+export function markNotificationsRead(userEmail: string, ids?: number[]): number {
+  const db = getDb();
+  const now = new Date().toISOString();
+  if (!ids) {
+    return db
+      .prepare(`UPDATE notifications SET read_at = ? WHERE user_email = ? AND read_at IS NULL`)
+      .run(now, userEmail.toLowerCase()).changes;
+  }
+  if (ids.length === 0) return 0;
+  return db
+    .prepare(
+      `UPDATE notifications SET read_at = ?
+       WHERE user_email = ? AND read_at IS NULL AND id IN (${ids.map(() => "?").join(", ")})`
+    )
+    .run(now, userEmail.toLowerCase(), ...ids).changes;
+}
+
+// Meeting series
+export interface MeetingSeriesRow {
+  id: string;
+  title: string;
+  detected_by: SeriesDetection;
+  updated_at: string;
+}
+
+export interface SeriesInstanceRow extends RecordingRow {
+  // Distinct participants, or speakers when the participant list is missing
+  attendees: number;
+}
+
+// Undefined when the series doesn't exist or the viewer can't see any instance
+export function getMeetingSeriesById(viewer: Viewer, id: string): MeetingSeriesRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT s.* FROM meeting_series s
+       WHERE s.id = @id
+         AND EXISTS (SELECT 1 FROM recordings r WHERE r.series_id = s.id AND ${visibilityFilter(viewer)})`
+    )
+    .get({ id, ...visibilityParams(viewer) }) as MeetingSeriesRow | undefined;
+}
+
+// Instances the viewer can see, oldest first
+export function getSeriesInstances(viewer: Viewer, seriesId: string): SeriesInstanceRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT r.*, COALESCE(
+           NULLIF((SELECT COUNT(DISTINCT LOWER(COALESCE(NULLIF(p.email, ''), p.name)))
+                   FROM participants p WHERE p.recording_id = r.id), 0),
+           (SELECT COUNT(*) FROM speakers sp WHERE sp.recording_id = r.id)
+         ) AS attendees
+       FROM recordings r
+       WHERE r.series_id = @series_id AND ${visibilityFilter(viewer)}
+       ORDER BY r.created_at`
+    )
+    .all({ series_id: seriesId, ...visibilityParams(viewer) }) as SeriesInstanceRow[];
+}
+
+// Weekly digest (see src/lib/digest)
+export interface DigestClipRow extends ClipRow {
+  recording_title: string;
+}
+
+export interface TrackerHitRow {
+  tracker: string;
+  recording_id: string;
+  recording_title: string;
+  recorded_at: string;
+  hits: number;
+  // First mention in the recording, when known
+  first_time: number | null;
+}
+
+// Meetings the person was a participant in, oldest first
+export function getMeetingsAttendedBy(
+  viewer: Viewer,
+  email: string,
+  since: string,
+  until: string
+): RecordingRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT r.* FROM recordings r
+       WHERE r.created_at >= @since AND r.created_at < @until
+         AND EXISTS (SELECT 1 FROM participants p WHERE p.recording_id = r.id AND LOWER(p.email) = @email)
+         AND ${visibilityFilter(viewer)}
+       ORDER BY r.created_at`
+    )
+    .all({ since, until, email: email.toLowerCase(), ...visibilityParams(viewer) }) as RecordingRow[];
+}
+
+// Clips made in the period from any meeting the person was in
+export function getClipsFromMeetingsAttendedBy(
+  viewer: Viewer,
+  email: string,
+  since: string,
+  until: string
+): DigestClipRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT c.*, COALESCE(r.custom_title, r.title) AS recording_title
+       FROM clips c
+       INNER JOIN recordings r ON c.recording_id = r.id
+       WHERE c.created_at >= @since AND c.created_at < @until
+         AND EXISTS (SELECT 1 FROM participants p WHERE p.recording_id = r.id AND LOWER(p.email) = @email)
+         AND ${visibilityFilter(viewer)}
+       ORDER BY c.created_at`
+    )
+    .all({ since, until, email: email.toLowerCase(), ...visibilityParams(viewer) }) as DigestClipRow[];
+}
+
+// Gong and keyword tracker names the person follows with a tracker alert
+export function getFollowedTrackers(email: string): string[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT value FROM alert_rules
+       WHERE user_email = ? AND kind = 'tracker'
+       ORDER BY value COLLATE NOCASE`
+    )
+    .all(email.toLowerCase()) as { value: string }[];
+  return rows.map((row) => row.value);
+}
+
+// Mentions of the named trackers in meetings from the period, per tracker and recording
+export function getTrackerHits(
+  viewer: Viewer,
+  trackers: string[],
+  since: string,
+  until: string
+): TrackerHitRow[] {
+  if (trackers.length === 0) return [];
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT MIN(h.tracker) AS tracker, r.id AS recording_id, COALESCE(r.custom_title, r.title) AS recording_title,
+         r.created_at AS recorded_at, SUM(h.hits) AS hits, MIN(h.start_time) AS first_time
+       FROM (
+         SELECT t.name AS tracker, t.recording_id, t.count AS hits,
+           (SELECT MIN(o.start_time) FROM tracker_occurrences o
+            WHERE o.recording_id = t.recording_id AND o.tracker = t.name) AS start_time
+         FROM recording_trackers t
+         INNER JOIN json_each(@trackers) f ON t.name = f.value COLLATE NOCASE
+         UNION ALL
+         SELECT k.name, m.recording_id, COUNT(*), MIN(m.start_time)
+         FROM keyword_tracker_matches m
+         INNER JOIN keyword_trackers k ON k.id = m.tracker_id
+         INNER JOIN json_each(@trackers) f ON k.name = f.value COLLATE NOCASE
+         GROUP BY k.id, m.recording_id
+       ) h
+       INNER JOIN recordings r ON r.id = h.recording_id
+       WHERE r.created_at >= @since AND r.created_at < @until AND ${visibilityFilter(viewer)}
+       GROUP BY LOWER(h.tracker), r.id
+       ORDER BY LOWER(h.tracker), r.created_at`
+    )
+    .all({ trackers: JSON.stringify(trackers), since, until, ...visibilityParams(viewer) }) as TrackerHitRow[];
+}
+
+export function getWeeklyDigestRecipients(): UserRow[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM users WHERE weekly_digest = 1 ORDER BY email`)
+    .all() as UserRow[];
+}
+
+// False when there's no such user
+export function setWeeklyDigestEnabled(email: string, enabled: boolean): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(`UPDATE users SET weekly_digest = ? WHERE email = ?`)
+    .run(enabled ? 1 : 0, email.toLowerCase());
+  return result.changes > 0;
+}
+
+export function getLastDigestSentAt(email: string): string | null {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT MAX(sent_at) AS sent_at FROM digest_deliveries WHERE user_email = ?`)
+    .get(email.toLowerCase()) as { sent_at: string | null };
+  return row.sent_at;
+}
+
+export function recordDigestDelivery(delivery: {
+  email: string;
+  since: string;
+  until: string;
+  sentAt?: string;
+}): void {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO digest_deliveries (user_email, period_start, period_end, sent_at)
+     VALUES (?, ?, ?, ?)`
+  ).run(
+    delivery.email.toLowerCase(),
+    delivery.since,
+    delivery.until,
+    delivery.sentAt ?? new Date().toISOString()
+  );
+}
+
+// Conversation analytics (see src/lib/analytics/conversation.ts)
+export interface ConversationAnalyticsFilters {
+  // ISO timestamp; meetings from then on
+  since?: string;
+  series?: string;
+  // Meetings this person spoke in: an email, or the speaker name for speakers
+  // that didn't resolve to a participant (see conversationPersonKey)
+  person?: string;
+}
+
+// Totals across the speakers of the matching meetings. Talk time, words and
+// counts are sums; per-meeting averages are left to the caller
+interface ConversationTotalsRow {
+  meetings: number;
+  talk_time: number;
+  turns: number;
+  interruptions: number;
+  questions: number;
+  words: number;
+  longest_monologue: number;
+}
+
+export interface ConversationTrendRow extends ConversationTotalsRow {
+  week: string;
+  // The person's average share of talk time, when filtered to a person
+  talk_ratio: number | null;
+  // Coaching sums; pause_total over responses is the average patience
+  filler_words: number;
+  responses: number;
+  pause_total: number;
+  customer_responses: number;
+  customer_interruptions: number;
+}
+
+// One person's speech in one meeting
+export interface CoachingMeetingRow {
+  recording_id: string;
+  title: string;
+  created_at: string;
+  speaker: string;
+  talk_time: number;
+  talk_ratio: number;
+  words: number;
+  words_per_minute: number | null;
+  fillers: string | null;
+  filler_words: number | null;
+  responses: number | null;
+  patience: number | null;
+  interruptions: number;
+  customer_responses: number | null;
+  customer_interruptions: number | null;
+}
+
+export interface ConversationPersonRow extends ConversationTotalsRow {
+  person: string;
+  email: string | null;
+  name: string;
+  talk_ratio: number;
+}
+
+export interface ConversationSeriesRow extends ConversationTotalsRow {
+  id: string;
+  title: string;
+  speakers: number;
+  last_meeting: string;
+}
+
+// How a speaker is grouped across meetings
+function conversationPersonKey(alias: string): string {
+  return `LOWER(COALESCE(${alias}.email, ${alias}.speaker))`;
+}
+
+function conversationConditions(viewer: Viewer, filters: ConversationAnalyticsFilters): string[] {
+  const conditions = [visibilityFilter(viewer)];
+  if (filters.since) conditions.push("r.created_at >= @since");
+  if (filters.series) conditions.push("r.series_id = @series");
+  if (filters.person) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM conversation_speaker_stats ps
+      WHERE ps.recording_id = r.id AND ${conversationPersonKey("ps")} = @person
+    )`);
+  }
+  return conditions;
+}
+
+function conversationParams(viewer: Viewer, filters: ConversationAnalyticsFilters) {
+  return {
+    ...visibilityParams(viewer),
+    since: filters.since ?? null,
+    series: filters.series ?? null,
+    person: filters.person?.toLowerCase() ?? null,
+  };
+}
+
+// Per week (weeks start on Monday); only the person's own speech when
+// filtered to a person
+export function getConversationTrend(
+  viewer: Viewer,
+  filters: ConversationAnalyticsFilters = {}
+): ConversationTrendRow[] {
+  const db = getDb();
+  const conditions = conversationConditions(viewer, filters);
+  if (filters.person) conditions.push(`${conversationPersonKey("cs")} = @person`);
+  return db
+    .prepare(
+      `SELECT date(r.created_at, 'weekday 0', '-6 days') AS week,
+         COUNT(DISTINCT cs.recording_id) AS meetings,
+         SUM(cs.talk_time) AS talk_time,
+         SUM(cs.turns) AS turns,
+         SUM(cs.interruptions) AS interruptions,
+         SUM(cs.questions) AS questions,
+         SUM(cs.words) AS words,
+         MAX(cs.longest_monologue) AS longest_monologue,
+         CASE WHEN @person IS NULL THEN NULL ELSE AVG(cs.talk_ratio) END AS talk_ratio,
+         COALESCE(SUM(cs.filler_words), 0) AS filler_words,
+         COALESCE(SUM(cs.responses), 0) AS responses,
+         COALESCE(SUM(cs.patience * cs.responses), 0) AS pause_total,
+         COALESCE(SUM(cs.customer_responses), 0) AS customer_responses,
+         COALESCE(SUM(cs.customer_interruptions), 0) AS customer_interruptions
+       FROM conversation_speaker_stats cs
+       INNER JOIN recordings r ON r.id = cs.recording_id
+       WHERE ${conditions.join(" AND ")}
+       GROUP BY week
+       ORDER BY week`
+    )
+    .all(conversationParams(viewer, filters)) as ConversationTrendRow[];
+}
+
+// Everyone who spoke in the matching meetings, most meetings first
+export function getConversationPeople(
+  viewer: Viewer,
+  filters: ConversationAnalyticsFilters = {}
+): ConversationPersonRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT ${conversationPersonKey("cs")} AS person,
+         MAX(cs.email) AS email,
+         MAX(cs.speaker) AS name,
+         COUNT(DISTINCT cs.recording_id) AS meetings,
+         SUM(cs.talk_time) AS talk_time,
+         AVG(cs.talk_ratio) AS talk_ratio,
+         SUM(cs.turns) AS turns,
+         SUM(cs.interruptions) AS interruptions,
+         SUM(cs.questions) AS questions,
+         SUM(cs.words) AS words,
+         MAX(cs.longest_monologue) AS longest_monologue
+       FROM conversation_speaker_stats cs
+       INNER JOIN recordings r ON r.id = cs.recording_id
+       WHERE ${conversationConditions(viewer, filters).join(" AND ")}
+       GROUP BY person
+       ORDER BY meetings DESC, talk_time DESC`
+    )
+    .all(conversationParams(viewer, filters)) as ConversationPersonRow[];
+}
+
+// Meeting series with analyzed meetings, most recently met first
+export function getConversationSeries(
+  viewer: Viewer,
+  filters: ConversationAnalyticsFilters = {}
+): ConversationSeriesRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT s.id AS id, s.title AS title,
+         COUNT(*) AS meetings,
+         AVG(c.speakers) AS speakers,
+         SUM(c.talk_time) AS talk_time,
+         SUM(c.turns) AS turns,
+         SUM(c.interruptions) AS interruptions,
+         SUM(c.questions) AS questions,
+         SUM(c.words) AS words,
+         MAX(c.longest_monologue) AS longest_monologue,
+         MAX(r.created_at) AS last_meeting
+       FROM conversation_stats c
+       INNER JOIN recordings r ON r.id = c.recording_id
+       INNER JOIN meeting_series s ON s.id = r.series_id
+       WHERE ${conversationConditions(viewer, filters).join(" AND ")}
+       GROUP BY s.id
+       ORDER BY last_meeting DESC`
+    )
+    .all(conversationParams(viewer, filters)) as ConversationSeriesRow[];
+}
+
+// The person's most recent meetings the viewer can see
+export function getCoachingMeetings(viewer: Viewer, person: string, limit = 20): CoachingMeetingRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT cs.recording_id, COALESCE(r.custom_title, r.title) AS title, r.created_at, cs.speaker,
+         cs.talk_time, cs.talk_ratio, cs.words, cs.words_per_minute, cs.fillers, cs.filler_words,
+         cs.responses, cs.patience, cs.interruptions, cs.customer_responses, cs.customer_interruptions
+       FROM conversation_speaker_stats cs
+       INNER JOIN recordings r ON r.id = cs.recording_id
+       WHERE ${conversationPersonKey("cs")} = @person AND ${visibilityFilter(viewer)}
+       ORDER BY r.created_at DESC
+       LIMIT @limit`
+    )
+    .all({ person: person.toLowerCase(), limit, ...visibilityParams(viewer) }) as CoachingMeetingRow[];
+}
@@ -43,6 +43,44 @@ CREATE TABLE IF NOT EXISTS segments (
 );
 
 CREATE INDEX IF NOT EXISTS idx_segments_recording ON segments(recording_id);
+
+-- Personal data redacted from transcripts at sync (see src/lib/redaction):
+-- segments.text holds the redacted text and segment_originals the text of
+-- each changed segment before redaction. Redaction times are seconds
+CREATE TABLE IF NOT EXISTS segment_originals (
+  segment_id TEXT PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_originals_recording ON segment_originals(recording_id);
+
+CREATE TABLE IF NOT EXISTS transcript_redactions (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  segment_id TEXT NOT NULL,
+  -- email, phone, card, ssn, address or number
+  kind TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_redactions_recording ON transcript_redactions(recording_id);
+
+-- Machine translations of a transcript, one per target language (ISO 639-1,
+-- see src/lib/translation). content is a JSON array of {id, text}, one per
+-- segment; translations are dropped whenever the transcript changes
+CREATE TABLE IF NOT EXISTS transcript_translations (
+  recording_id TEXT NOT NULL,
+  language TEXT NOT NULL,
+  content TEXT NOT NULL,
+  model TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (recording_id, language),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
 CREATE INDEX IF NOT EXISTS idx_speakers_recording ON speakers(recording_id);
 
 CREATE TABLE IF NOT EXISTS chat_messages (
@@ -74,6 +112,21 @@ CREATE INDEX IF NOT EXISTS idx_summaries_recording ON summaries(recording_id);
 -- MIGRATION:ADD_COLUMN:recordings:media_type:TEXT DEFAULT 'video'
 -- MIGRATION:ADD_COLUMN:recordings:media_url_expires_at:TEXT
 -- MIGRATION:ADD_COLUMN:recordings:custom_title:TEXT
+-- MIGRATION:ADD_COLUMN:recordings:visibility:TEXT DEFAULT 'org'
+-- MIGRATION:ADD_COLUMN:recordings:owner_email:TEXT
+-- MIGRATION:ADD_COLUMN:recordings:visibility_source:TEXT DEFAULT 'sync'
+-- MIGRATION:ADD_COLUMN:recordings:meeting_scope:TEXT
+-- MIGRATION:ADD_COLUMN:recordings:series_key:TEXT
+-- MIGRATION:ADD_COLUMN:recordings:series_id:TEXT
+-- MIGRATION:ADD_COLUMN:recordings:language:TEXT
+-- MIGRATION:ADD_COLUMN:users:weekly_digest:INTEGER DEFAULT 1
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:fillers:TEXT
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:filler_words:INTEGER
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:responses:INTEGER
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:patience:REAL
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:external:INTEGER
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:customer_responses:INTEGER
+-- MIGRATION:ADD_COLUMN:conversation_speaker_stats:customer_interruptions:INTEGER
 
 CREATE TABLE IF NOT EXISTS clips (
   id TEXT PRIMARY KEY,
@@ -101,3 +154,381 @@ CREATE TABLE IF NOT EXISTS participants (
 
 CREATE INDEX IF NOT EXISTS idx_participants_recording ON participants(recording_id);
 CREATE INDEX IF NOT EXISTS idx_participants_email ON participants(email);
+
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  name TEXT,
+  role TEXT NOT NULL DEFAULT 'member',
+  idp_subject TEXT,
+  created_at TEXT NOT NULL,
+  last_login_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+
+-- Explicit share list for participants-only and shared recordings
+CREATE TABLE IF NOT EXISTS recording_shares (
+  recording_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (recording_id, email),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_shares_email ON recording_shares(email);
+
+-- Full-text search: one document per title, custom title, summary and transcript
+-- segment, indexed by an external-content FTS5 table (see src/lib/search/fts.ts)
+CREATE TABLE IF NOT EXISTS search_documents (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  segment_id TEXT,
+  start_time REAL,
+  speaker TEXT,
+  text TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_documents_recording ON search_documents(recording_id);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  speaker,
+  text,
+  content = 'search_documents',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2',
+  prefix = '2 3'
+);
+
+-- Semantic search: ~30-second transcript windows and their embedding vectors.
+-- Vectors are keyed by model and text hash, so unchanged text keeps its
+-- embedding across re-syncs (see src/lib/search/chunks.ts)
+CREATE TABLE IF NOT EXISTS transcript_chunks (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  text TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_recording ON transcript_chunks(recording_id);
+CREATE INDEX IF NOT EXISTS idx_transcript_chunks_hash ON transcript_chunks(text_hash);
+
+CREATE TABLE IF NOT EXISTS chunk_embeddings (
+  model TEXT NOT NULL,
+  text_hash TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (model, text_hash)
+);
+
+-- Per-user Q&A conversations about a single recording
+CREATE TABLE IF NOT EXISTS recording_conversation_messages (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  user_email TEXT NOT NULL,
+  role TEXT NOT NULL,
+  content TEXT NOT NULL,
+  citations TEXT,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_conversation_messages_lookup
+  ON recording_conversation_messages(recording_id, user_email);
+
+-- Summary templates by meeting type (see src/lib/ai/summary-templates.ts).
+-- fields, sections and match_sources are JSON arrays; built-in templates are
+-- seeded on startup
+CREATE TABLE IF NOT EXISTS summary_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  focus TEXT NOT NULL DEFAULT '',
+  fields TEXT NOT NULL,
+  sections TEXT NOT NULL,
+  match_sources TEXT NOT NULL DEFAULT '[]',
+  match_title TEXT,
+  match_purpose TEXT,
+  match_scope TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  built_in INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- Background jobs (see src/lib/jobs/queue.ts). payload is JSON. Failed
+-- attempts are retried with backoff until max_attempts, and dedupe_key keeps
+-- at most one pending job for the same work
+CREATE TABLE IF NOT EXISTS jobs (
+  id INTEGER PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  batch_id TEXT,
+  dedupe_key TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TEXT NOT NULL,
+  locked_at TEXT,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claim ON jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_jobs_batch ON jobs(batch_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_pending_dedupe
+  ON jobs(dedupe_key) WHERE status IN ('queued', 'running');
+
+-- One row per model call (see src/lib/ai/usage.ts). cost_usd is estimated
+-- from list prices and is NULL for models without a known price
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id INTEGER PRIMARY KEY,
+  task TEXT NOT NULL,
+  recording_id TEXT,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL,
+  output_tokens INTEGER NOT NULL,
+  latency_ms INTEGER NOT NULL,
+  cost_usd REAL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+
+-- Action items pulled out of summaries (see src/lib/ai/action-items.ts) so
+-- they can be tracked across meetings. Rewritten whenever the summary is;
+-- items matched to a reworded one keep their status, and done items stay
+CREATE TABLE IF NOT EXISTS action_items (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  text TEXT NOT NULL,
+  owner TEXT,
+  owner_email TEXT,
+  due_date TEXT,
+  timestamp REAL,
+  status TEXT NOT NULL DEFAULT 'open',
+  completed_at TEXT,
+  completed_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (recording_id, text),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_items_status ON action_items(status, due_date);
+CREATE INDEX IF NOT EXISTS idx_action_items_owner ON action_items(owner_email);
+
+-- Gong call insights, replaced on every sync of the call. Trackers are
+-- keyword groups configured in Gong; count is Gong's own total and may
+-- exceed the stored occurrences
+CREATE TABLE IF NOT EXISTS recording_trackers (
+  recording_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  PRIMARY KEY (recording_id, name),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_trackers_name ON recording_trackers(name);
+
+CREATE TABLE IF NOT EXISTS tracker_occurrences (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  tracker TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracker_occurrences_recording ON tracker_occurrences(recording_id);
+
+-- Topics with Gong's total duration (seconds); spans come from the topic
+-- Gong tags each transcript monologue with
+CREATE TABLE IF NOT EXISTS recording_topics (
+  recording_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  duration REAL NOT NULL,
+  PRIMARY KEY (recording_id, name),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_topics_name ON recording_topics(name);
+
+CREATE TABLE IF NOT EXISTS topic_spans (
+  id INTEGER PRIMARY KEY,
+  recording_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_spans_recording ON topic_spans(recording_id);
+
+CREATE TABLE IF NOT EXISTS recording_interaction_stats (
+  recording_id TEXT PRIMARY KEY,
+  talk_ratio REAL,
+  interactivity REAL,
+  longest_monologue REAL,
+  company_questions INTEGER,
+  non_company_questions INTEGER,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+-- User-defined keyword trackers (see src/lib/search/trackers.ts), matched
+-- against every transcript. Matches are rebuilt with the transcript
+CREATE TABLE IF NOT EXISTS keyword_trackers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- JSON array of phrases
+  phrases TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keyword_trackers_name ON keyword_trackers(name COLLATE NOCASE);
+
+CREATE TABLE IF NOT EXISTS keyword_tracker_matches (
+  id INTEGER PRIMARY KEY,
+  tracker_id TEXT NOT NULL,
+  recording_id TEXT NOT NULL,
+  phrase TEXT NOT NULL,
+  start_time REAL NOT NULL,
+  end_time REAL NOT NULL,
+  FOREIGN KEY (tracker_id) REFERENCES keyword_trackers(id) ON DELETE CASCADE,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_keyword_tracker_matches_tracker ON keyword_tracker_matches(tracker_id, recording_id);
+CREATE INDEX IF NOT EXISTS idx_keyword_tracker_matches_recording ON keyword_tracker_matches(recording_id);
+
+-- Saved alert rules (see src/lib/alerts), checked when a sync ingests a
+-- transcript. alert_matches makes each rule fire once per recording
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id TEXT PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  -- phrase, tracker, speaker or domain
+  kind TEXT NOT NULL,
+  value TEXT NOT NULL,
+  -- JSON array of inbox, email, webhook
+  channels TEXT NOT NULL,
+  webhook_url TEXT,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_user ON alert_rules(user_email);
+
+CREATE TABLE IF NOT EXISTS alert_matches (
+  rule_id TEXT NOT NULL,
+  recording_id TEXT NOT NULL,
+  matched_at TEXT NOT NULL,
+  PRIMARY KEY (rule_id, recording_id),
+  FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE CASCADE,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+-- In-app inbox
+CREATE TABLE IF NOT EXISTS notifications (
+  id INTEGER PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  rule_id TEXT,
+  recording_id TEXT,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  url TEXT NOT NULL,
+  timestamp REAL,
+  created_at TEXT NOT NULL,
+  read_at TEXT,
+  FOREIGN KEY (rule_id) REFERENCES alert_rules(id) ON DELETE SET NULL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_email, created_at);
+
+-- Recurring meetings (see src/lib/series), rebuilt after each sync.
+-- recordings.series_key is what the source says links instances (a recurring
+-- Zoom meeting ID or calendar event); recordings.series_id is the result
+CREATE TABLE IF NOT EXISTS meeting_series (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  -- zoom, calendar or pattern
+  detected_by TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- AI digests comparing a recurring meeting with its previous instances (see
+-- src/lib/ai/series-digest.ts). Keyed by the instances compared against, so a
+-- viewer who can't see one of them gets a digest that doesn't draw on it.
+-- previous_recording_ids is comma-separated, most recent first.
+CREATE TABLE IF NOT EXISTS series_digests (
+  recording_id TEXT NOT NULL,
+  previous_recording_ids TEXT NOT NULL,
+  content TEXT NOT NULL,
+  model TEXT NOT NULL,
+  generated_at TEXT NOT NULL,
+  PRIMARY KEY (recording_id, previous_recording_ids),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+-- Weekly digest emails (see src/lib/digest), so a re-run of the scheduled
+-- send doesn't email anyone twice. users.weekly_digest = 0 opts out
+CREATE TABLE IF NOT EXISTS digest_deliveries (
+  id INTEGER PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  period_start TEXT NOT NULL,
+  period_end TEXT NOT NULL,
+  sent_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_deliveries_user ON digest_deliveries(user_email, sent_at);
+
+-- Conversation metrics computed from each transcript (see
+-- src/lib/analytics/conversation.ts), rebuilt with the transcript. Times are
+-- seconds; talk_ratio is the speaker's share of all talk time in the call
+CREATE TABLE IF NOT EXISTS conversation_stats (
+  recording_id TEXT PRIMARY KEY,
+  speakers INTEGER NOT NULL,
+  talk_time REAL NOT NULL,
+  longest_monologue REAL NOT NULL,
+  turns INTEGER NOT NULL,
+  interruptions INTEGER NOT NULL,
+  questions INTEGER NOT NULL,
+  words INTEGER NOT NULL,
+  words_per_minute REAL,
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS conversation_speaker_stats (
+  recording_id TEXT NOT NULL,
+  speaker TEXT NOT NULL,
+  -- The participant the speaker resolved to, when unambiguous
+  email TEXT,
+  talk_time REAL NOT NULL,
+  talk_ratio REAL NOT NULL,
+  longest_monologue REAL NOT NULL,
+  turns INTEGER NOT NULL,
+  interruptions INTEGER NOT NULL,
+  questions INTEGER NOT NULL,
+  words INTEGER NOT NULL,
+  words_per_minute REAL,
+  PRIMARY KEY (recording_id, speaker),
+  FOREIGN KEY (recording_id) REFERENCES recordings(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_speaker_stats_email ON conversation_speaker_stats(email);
+
+-- One-off backfills initSchema has run on this database (see
+-- runBackfillOnce in src/lib/db/index.ts)
+CREATE TABLE IF NOT EXISTS backfills (
+  name TEXT PRIMARY KEY,
+  ran_at TEXT NOT NULL
+);
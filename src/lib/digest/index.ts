@@ -0,0 +1,204 @@
+// Weekly digest
+// One email (and an in-app page) per person covering their week: meetings
+// they were a participant in (matched by participants.email) with each
+// summary's brief, clips made from those meetings, mentions of the trackers
+// they follow (their tracker alerts) in any meeting they can see, and their
+// open action items. Everything goes through the person's visibility, so a
+// digest never shows a meeting they couldn't open.
+//
+// `npm run digest` sends it from a weekly cron job; a re-run within the same
+// week doesn't email anyone twice (see digest_deliveries).
+
+import { parseStoredSummary } from "@/lib/ai/summary-schema";
+import { isAdminEmail } from "@/lib/auth/roles";
+import type { Viewer } from "@/lib/auth/visibility";
+import {
+  dbRowToActionItem,
+  getActionItems,
+  getClipsFromMeetingsAttendedBy,
+  getFollowedTrackers,
+  getLastDigestSentAt,
+  getMeetingsAttendedBy,
+  getSummariesByRecordingIds,
+  getTrackerHits,
+  getWeeklyDigestRecipients,
+  recordDigestDelivery,
+} from "@/lib/db";
+import type { ActionItem } from "@/types/video";
+import { digestSubject, renderDigestHtml, renderDigestMarkdown } from "./render";
+import type { MailTransport } from "./transport";
+
+export * from "./render";
+export * from "./transport";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DIGEST_PERIOD_DAYS = 7;
+// A cron that runs a little early next week still sends
+const MIN_DAYS_BETWEEN_EMAILS = 6;
+
+export interface DigestPeriod {
+  // ISO timestamps; since is inclusive, until exclusive
+  since: string;
+  until: string;
+}
+
+export interface DigestMeeting {
+  id: string;
+  title: string;
+  createdAt: string;
+  duration: number;
+  // From the stored summary, when there is one
+  brief: string | null;
+}
+
+export interface DigestClip {
+  id: string;
+  recordingId: string;
+  recordingTitle: string;
+  title: string | null;
+  startTime: number;
+  endTime: number;
+}
+
+export interface DigestTracker {
+  name: string;
+  hits: number;
+  recordings: { id: string; title: string; createdAt: string; hits: number; firstTime: number | null }[];
+}
+
+export interface WeeklyDigest {
+  email: string;
+  period: DigestPeriod;
+  meetings: DigestMeeting[];
+  clips: DigestClip[];
+  // Followed trackers with mentions in the period
+  trackers: DigestTracker[];
+  // All open items, not just ones from this week
+  actionItems: ActionItem[];
+}
+
+// The week up to now
+export function getDigestPeriod(now: Date = new Date()): DigestPeriod {
+  return {
+    since: new Date(now.getTime() - DIGEST_PERIOD_DAYS * DAY_MS).toISOString(),
+    until: now.toISOString(),
+  };
+}
+
+export function isDigestEmpty(digest: WeeklyDigest): boolean {
+  return (
+    digest.meetings.length === 0 &&
+    digest.clips.length === 0 &&
+    digest.trackers.length === 0 &&
+    digest.actionItems.length === 0
+  );
+}
+
+export function buildWeeklyDigest(viewer: Viewer, period: DigestPeriod): WeeklyDigest {
+  const email = viewer.email.toLowerCase();
+
+  const recordings = getMeetingsAttendedBy(viewer, email, period.since, period.until);
+  const summaries = getSummariesByRecordingIds(recordings.map((recording) => recording.id));
+  const meetings = recordings.map((recording) => {
+    const summary = summaries[recording.id] ? parseStoredSummary(summaries[recording.id].content) : null;
+    return {
+      id: recording.id,
+      title: recording.custom_title || recording.title,
+      createdAt: recording.created_at,
+      duration: recording.duration,
+      brief: summary?.brief || null,
+    };
+  });
+
+  const clips = getClipsFromMeetingsAttendedBy(viewer, email, period.since, period.until).map((clip) => ({
+    id: clip.id,
+    recordingId: clip.recording_id,
+    recordingTitle: clip.recording_title,
+    title: clip.title,
+    startTime: clip.start_time,
+    endTime: clip.end_time,
+  }));
+
+  const trackers = new Map<string, DigestTracker>();
+  for (const hit of getTrackerHits(viewer, getFollowedTrackers(email), period.since, period.until)) {
+    // Gong and keyword trackers with the same name are one tracker
+    const key = hit.tracker.toLowerCase();
+    const tracker = trackers.get(key) ?? { name: hit.tracker, hits: 0, recordings: [] };
+    tracker.hits += hit.hits;
+    tracker.recordings.push({
+      id: hit.recording_id,
+      title: hit.recording_title,
+      createdAt: hit.recorded_at,
+      hits: hit.hits,
+      firstTime: hit.first_time,
+    });
+    trackers.set(key, tracker);
+  }
+
+  const actionItems = getActionItems(viewer, { status: "open", ownerEmail: email }).map(dbRowToActionItem);
+
+  return { email, period, meetings, clips, trackers: [...trackers.values()], actionItems };
+}
+
+export interface SendDigestsOptions {
+  now?: Date;
+  // Send even if the person already got one this week
+  force?: boolean;
+  // Only these people (must have signed in at least once)
+  only?: string[];
+  onEvent?: (event: { email: string; status: "sent" | "skipped" | "failed"; reason?: string }) => void;
+}
+
+// Email everyone who hasn't opted out. Empty digests aren't sent, and a
+// failed send is reported and retried on the next run rather than thrown.
+export async function sendWeeklyDigests(
+  transport: MailTransport,
+  options: SendDigestsOptions = {}
+): Promise<{ sent: number; skipped: number; failed: number }> {
+  const now = options.now ?? new Date();
+  const period = getDigestPeriod(now);
+  const only = options.only?.map((email) => email.toLowerCase());
+  const result = { sent: 0, skipped: 0, failed: 0 };
+
+  for (const user of getWeeklyDigestRecipients()) {
+    if (only && !only.includes(user.email)) continue;
+    const skip = (reason: string) => {
+      result.skipped++;
+      options.onEvent?.({ email: user.email, status: "skipped", reason });
+    };
+
+    const lastSentAt = getLastDigestSentAt(user.email);
+    if (
+      !options.force &&
+      lastSentAt &&
+      now.getTime() - Date.parse(lastSentAt) < MIN_DAYS_BETWEEN_EMAILS * DAY_MS
+    ) {
+      skip("already sent this week");
+      continue;
+    }
+
+    const digest = buildWeeklyDigest({ email: user.email, isAdmin: isAdminEmail(user.email) }, period);
+    if (isDigestEmpty(digest)) {
+      skip("nothing to report");
+      continue;
+    }
+
+    try {
+      await transport.send({
+        to: user.email,
+        subject: digestSubject(digest),
+        text: renderDigestMarkdown(digest),
+        html: renderDigestHtml(digest),
+      });
+      // On the same clock as the once-a-week check above
+      recordDigestDelivery({ email: user.email, ...period, sentAt: now.toISOString() });
+      result.sent++;
+      options.onEvent?.({ email: user.email, status: "sent" });
+    } catch (error) {
+      result.failed++;
+      options.onEvent?.({ email: user.email, status: "failed", reason: String(error) });
+    }
+  }
+
+  return result;
+}
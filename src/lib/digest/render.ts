@@ -0,0 +1,148 @@
+// Weekly digest as email: Markdown for the text part (it reads fine as plain
+// text) and HTML with inline styles, which is all mail clients reliably support
+
+import { getAppUrl } from "@/lib/alerts/channels";
+import { formatTime } from "@/types/video";
+import type { WeeklyDigest } from "./index";
+
+interface DigestSection {
+  title: string;
+  items: { text: string; url: string; detail: string | null }[];
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function formatDuration(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  return mins >= 60 ? `${Math.floor(mins / 60)}h ${mins % 60}m` : `${mins}m`;
+}
+
+function recordingUrl(id: string, time?: number | null): string {
+  return `${getAppUrl()}/recordings/${encodeURIComponent(id)}${
+    time !== null && time !== undefined ? `?t=${Math.floor(time)}` : ""
+  }`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function digestSubject(digest: WeeklyDigest): string {
+  const parts = [
+    digest.meetings.length > 0 && plural(digest.meetings.length, "meeting"),
+    digest.clips.length > 0 && plural(digest.clips.length, "new clip"),
+    digest.actionItems.length > 0 && plural(digest.actionItems.length, "open action item"),
+  ].filter(Boolean);
+  return `Your week in WorkTV${parts.length > 0 ? `: ${parts.join(", ")}` : ""}`;
+}
+
+// Shared by both formats so they can't drift apart
+function digestSections(digest: WeeklyDigest): DigestSection[] {
+  return [
+    {
+      title: "Your meetings",
+      items: digest.meetings.map((meeting) => ({
+        text: `${meeting.title} (${formatDay(meeting.createdAt)}, ${formatDuration(meeting.duration)})`,
+        url: recordingUrl(meeting.id),
+        detail: meeting.brief,
+      })),
+    },
+    {
+      title: "New clips",
+      items: digest.clips.map((clip) => ({
+        text: `${clip.title || "Untitled clip"} (${formatTime(clip.startTime)}–${formatTime(clip.endTime)})`,
+        url: `${getAppUrl()}/c/${encodeURIComponent(clip.id)}`,
+        detail: `From ${clip.recordingTitle}`,
+      })),
+    },
+    {
+      title: "Trackers you follow",
+      items: digest.trackers.flatMap((tracker) =>
+        tracker.recordings.map((recording) => ({
+          text: `${tracker.name}: ${plural(recording.hits, "mention")} in ${recording.title}`,
+          url: recordingUrl(recording.id, recording.firstTime),
+          detail: null,
+        }))
+      ),
+    },
+    {
+      title: "Your open action items",
+      items: digest.actionItems.map((item) => ({
+        text: item.text,
+        url: recordingUrl(item.recordingId, item.timestamp),
+        detail: [item.recordingTitle, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(" · "),
+      })),
+    },
+  ].filter((section) => section.items.length > 0);
+}
+
+function footer(): string {
+  return `You're getting this weekly email from WorkTV. Turn it off at ${getAppUrl()}/digest`;
+}
+
+export function renderDigestMarkdown(digest: WeeklyDigest): string {
+  const lines = [
+    `# Your week in WorkTV`,
+    "",
+    `${formatDay(digest.period.since)} – ${formatDay(digest.period.until)}`,
+  ];
+  for (const section of digestSections(digest)) {
+    lines.push("", `## ${section.title}`, "");
+    for (const item of section.items) {
+      lines.push(`- [${item.text}](${item.url})`);
+      if (item.detail) lines.push(`  ${item.detail}`);
+    }
+  }
+  lines.push("", "---", footer());
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderDigestHtml(digest: WeeklyDigest): string {
+  const sections = digestSections(digest)
+    .map(
+      (section) => `
+      <h2 style="margin:24px 0 8px;font-size:16px;color:#18181b">${escapeHtml(section.title)}</h2>
+      <ul style="margin:0;padding-left:20px">${section.items
+        .map(
+          (item) => `
+        <li style="margin:0 0 8px">
+          <a href="${escapeHtml(item.url)}" style="color:#4f46e5;text-decoration:none">${escapeHtml(item.text)}</a>${
+            item.detail
+              ? `<br><span style="font-size:13px;color:#71717a">${escapeHtml(item.detail)}</span>`
+              : ""
+          }
+        </li>`
+        )
+        .join("")}
+      </ul>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;font-size:14px;line-height:1.5;color:#3f3f46">
+    <div style="max-width:600px;margin:0 auto;padding:24px;background:#ffffff;border-radius:16px">
+      <h1 style="margin:0;font-size:20px;color:#18181b">Your week in WorkTV</h1>
+      <p style="margin:4px 0 0;color:#71717a">${escapeHtml(formatDay(digest.period.since))} – ${escapeHtml(formatDay(digest.period.until))}</p>
+      ${sections}
+      <p style="margin:32px 0 0;font-size:12px;color:#a1a1aa">${escapeHtml(footer())}</p>
+    </div>
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,42 @@
+// Mail transports for digest emails
+// SMTP in production; the file transport writes each message to an .eml file
+// instead, for trying digests out without a mail server. Pick one with
+// MAIL_TRANSPORT: "smtp" (the default) or "file:<directory>".
+
+import { mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import { formatMessage, getSmtpConfig, sendMail, type MailMessage, type SmtpConfig } from "@/lib/alerts/smtp";
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export function createSmtpTransport(config: SmtpConfig | null = getSmtpConfig()): MailTransport {
+  return {
+    async send(message) {
+      if (!config) {
+        throw new Error("Sending email needs SMTP_HOST to be set");
+      }
+      await sendMail(config, message);
+    },
+  };
+}
+
+export function createFileTransport(directory: string, from = "worktv@localhost"): MailTransport {
+  return {
+    async send(message) {
+      mkdirSync(directory, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const name = `${stamp}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.eml`;
+      writeFileSync(join(directory, name), formatMessage(from, message));
+    },
+  };
+}
+
+export function getMailTransport(setting = process.env.MAIL_TRANSPORT || "smtp"): MailTransport {
+  if (setting === "smtp") return createSmtpTransport();
+  if (setting.startsWith("file:") && setting.length > "file:".length) {
+    return createFileTransport(setting.slice("file:".length));
+  }
+  throw new Error(`Unknown MAIL_TRANSPORT "${setting}" (use smtp or file:<directory>)`);
+}
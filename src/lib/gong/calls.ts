@@ -52,6 +52,15 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+const CALL_DETAILS_SELECTOR = {
+  exposedFields: {
+    media: true,
+    parties: true,
+    content: { trackers: true, trackerOccurrences: true, topics: true },
+    interaction: { speakers: true, interactionStats: true, questions: true },
+  },
+};
+
 // List calls with pagination (includes media URLs)
 export async function listCalls(options?: {
   fromDateTime?: string; // ISO format
@@ -76,14 +85,9 @@ export async function listCalls(options?: {
     body.cursor = options.cursor;
   }
 
-  // Include media URLs and parties in response
+  // Include media URLs, parties and call insights in response
   if (options?.includeMedia) {
-    body.contentSelector = {
-      exposedFields: {
-        media: true,
-        parties: true,
-      },
-    };
+    body.contentSelector = CALL_DETAILS_SELECTOR;
   }
 
   return gongFetch<GongCallsListResponse>("/v2/calls/extensive", {
@@ -140,12 +144,7 @@ export async function getCall(
   };
 
   if (includeMedia) {
-    body.contentSelector = {
-      exposedFields: {
-        media: true,
-        parties: true,
-      },
-    };
+    body.contentSelector = CALL_DETAILS_SELECTOR;
   }
 
   const response = await gongFetch<GongCallsListResponse>("/v2/calls/extensive", {
@@ -2,7 +2,7 @@
 // Converts Gong API data to app domain types
 
 import type { GongCall, GongCallTranscript, GongParty } from "@/types/gong";
-import type { TranscriptSegment, Speaker } from "@/types/video";
+import type { TranscriptSegment, Speaker, TopicSpan } from "@/types/video";
 import { SPEAKER_COLORS } from "@/lib/constants";
 
 // Build a map of speakerId -> speaker name from parties
@@ -45,6 +45,30 @@ export function parseGongTranscript(
   return segments.sort((a, b) => a.startTime - b.startTime);
 }
 
+// Gong tags each monologue with a topic; consecutive monologues on the same
+// topic become one span
+export function extractTopicSpans(transcript: GongCallTranscript): TopicSpan[] {
+  const entries = transcript.transcript
+    .filter((entry) => entry.topic && entry.sentences.length > 0)
+    .map((entry) => ({
+      name: entry.topic!,
+      startTime: Math.min(...entry.sentences.map((s) => s.start)) / 1000,
+      endTime: Math.max(...entry.sentences.map((s) => s.end)) / 1000,
+    }))
+    .sort((a, b) => a.startTime - b.startTime);
+
+  const spans: TopicSpan[] = [];
+  for (const entry of entries) {
+    const last = spans[spans.length - 1];
+    if (last && last.name === entry.name) {
+      last.endTime = Math.max(last.endTime, entry.endTime);
+    } else {
+      spans.push({ ...entry });
+    }
+  }
+  return spans;
+}
+
 export function extractSpeakers(segments: TranscriptSegment[]): Speaker[] {
   const speakerNames = [...new Set(segments.map((s) => s.speaker))];
 
@@ -1,4 +1,5 @@
 import React from "react";
+import { parseSnippet } from "@/lib/search/snippet";
 
 export function highlightText(text: string, query: string): React.ReactNode {
   if (!query.trim()) return text;
@@ -19,3 +20,16 @@ export function highlightText(text: string, query: string): React.ReactNode {
     )
   );
 }
+
+// Render an FTS snippet, marking the terms the index matched
+export function highlightSnippet(snippet: string): React.ReactNode {
+  return parseSnippet(snippet).map((part, i) =>
+    part.match ? (
+      <mark key={i} className="bg-yellow-400/80 text-zinc-900 rounded px-0.5">
+        {part.text}
+      </mark>
+    ) : (
+      part.text
+    )
+  );
+}
@@ -0,0 +1,19 @@
+// Background jobs: a persisted queue (queue.ts), a runner with retries and
+// rate-limit backoff (runner.ts) and the handlers for each job type
+
+import type { JobHandlers } from "./runner";
+import { createSummarizeHandler } from "./summarize";
+import { createTranslateHandler } from "./translate";
+
+export * from "./queue";
+export * from "./runner";
+export { enqueueSummaryBackfill, type SummarizeJobPayload } from "./summarize";
+export { enqueueTranslationBackfill, type TranslateJobPayload } from "./translate";
+
+// A handler for every job type
+export function getJobHandlers(): JobHandlers {
+  return {
+    summarize: createSummarizeHandler(),
+    translate: createTranslateHandler(),
+  };
+}
@@ -0,0 +1,252 @@
+// Persisted job queue
+// Jobs are rows in the jobs table. A worker claims the oldest due job
+// (status queued, run_after in the past) in one UPDATE, so several workers can
+// share a database. Failures are requeued with a later run_after until the job
+// runs out of attempts. Functions take the database so scripts with their own
+// connection can use them.
+
+import type Database from "better-sqlite3";
+
+export type JobType = "summarize" | "translate";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface JobRow {
+  id: number;
+  type: JobType;
+  payload: string;
+  status: JobStatus;
+  batch_id: string | null;
+  dedupe_key: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
+export interface NewJob {
+  type: JobType;
+  payload: unknown;
+  batchId?: string;
+  // Skip the job while another with this key is queued or running
+  dedupeKey?: string;
+  maxAttempts?: number;
+}
+
+export type BatchProgress = Record<JobStatus, number> & { total: number };
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// Returns the new job's id, or null when a pending duplicate exists
+export function enqueueJob(database: Database.Database, job: NewJob): number | null {
+  const now = new Date().toISOString();
+  const result = database
+    .prepare(
+      `INSERT OR IGNORE INTO jobs (type, payload, status, batch_id, dedupe_key, max_attempts, run_after, created_at)
+       VALUES (?, ?, 'queued', ?, ?, ?, ?, ?)`
+    )
+    .run(
+      job.type,
+      JSON.stringify(job.payload),
+      job.batchId ?? null,
+      job.dedupeKey ?? null,
+      job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      now,
+      now
+    );
+  return result.changes > 0 ? Number(result.lastInsertRowid) : null;
+}
+
+export function enqueueJobs(database: Database.Database, jobs: NewJob[]): number {
+  let queued = 0;
+  database.transaction(() => {
+    for (const job of jobs) {
+      if (enqueueJob(database, job) !== null) queued++;
+    }
+  })();
+  return queued;
+}
+
+// Claim the next due job, counting the attempt; undefined when none is due
+export function claimNextJob(
+  database: Database.Database,
+  options: { types?: JobType[]; batchId?: string } = {}
+): JobRow | undefined {
+  const now = new Date().toISOString();
+  const conditions = ["status = 'queued'", "run_after <= @now"];
+  const params: Record<string, string> = { now };
+  if (options.types && options.types.length > 0) {
+    conditions.push(`type IN (${options.types.map((_, i) => `@type_${i}`).join(", ")})`);
+    options.types.forEach((type, i) => {
+      params[`type_${i}`] = type;
+    });
+  }
+  if (options.batchId) {
+    conditions.push("batch_id = @batch_id");
+    params.batch_id = options.batchId;
+  }
+
+  return database
+    .prepare(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, locked_at = @now
+       WHERE id = (
+         SELECT id FROM jobs WHERE ${conditions.join(" AND ")}
+         ORDER BY run_after, id LIMIT 1
+       )
+       RETURNING *`
+    )
+    .get(params) as JobRow | undefined;
+}
+
+export function completeJob(database: Database.Database, id: number): void {
+  database
+    .prepare(
+      `UPDATE jobs SET status = 'succeeded', locked_at = NULL, last_error = NULL, finished_at = ?
+       WHERE id = ?`
+    )
+    .run(new Date().toISOString(), id);
+}
+
+// Requeue the job to run at `retryAt`, or fail it for good when retryAt is
+// null or it has no attempts left. `countAttempt: false` hands back the
+// attempt, for rate limits that say nothing about the job itself.
+export function failJob(
+  database: Database.Database,
+  id: number,
+  error: string,
+  options: { retryAt: Date | null; countAttempt?: boolean }
+): JobStatus {
+  const job = database.prepare(`SELECT attempts, max_attempts FROM jobs WHERE id = ?`).get(id) as
+    | { attempts: number; max_attempts: number }
+    | undefined;
+  if (!job) return "failed";
+
+  const attempts = options.countAttempt === false ? Math.max(0, job.attempts - 1) : job.attempts;
+  if (options.retryAt && attempts < job.max_attempts) {
+    database
+      .prepare(
+        `UPDATE jobs SET status = 'queued', attempts = ?, run_after = ?, locked_at = NULL, last_error = ?
+         WHERE id = ?`
+      )
+      .run(attempts, options.retryAt.toISOString(), error, id);
+    return "queued";
+  }
+
+  database
+    .prepare(
+      `UPDATE jobs SET status = 'failed', attempts = ?, locked_at = NULL, last_error = ?, finished_at = ?
+       WHERE id = ?`
+    )
+    .run(attempts, error, new Date().toISOString(), id);
+  return "failed";
+}
+
+// Requeue jobs left running by a worker that died. The attempt they were on
+// still counts.
+export function requeueStaleJobs(database: Database.Database, lockedBefore: Date): number {
+  return database
+    .prepare(
+      `UPDATE jobs SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+         locked_at = NULL,
+         last_error = coalesce(last_error, 'Worker stopped while running'),
+         finished_at = CASE WHEN attempts < max_attempts THEN NULL ELSE @now END
+       WHERE status = 'running' AND locked_at < @locked_before`
+    )
+    .run({ now: new Date().toISOString(), locked_before: lockedBefore.toISOString() }).changes;
+}
+
+// When the next queued job becomes due, or null when nothing is queued
+export function getNextRunAfter(
+  database: Database.Database,
+  options: { types?: JobType[]; batchId?: string } = {}
+): Date | null {
+  const conditions = ["status = 'queued'"];
+  const params: unknown[] = [];
+  if (options.types && options.types.length > 0) {
+    conditions.push(`type IN (${options.types.map(() => "?").join(", ")})`);
+    params.push(...options.types);
+  }
+  if (options.batchId) {
+    conditions.push("batch_id = ?");
+    params.push(options.batchId);
+  }
+
+  const row = database
+    .prepare(`SELECT min(run_after) AS next FROM jobs WHERE ${conditions.join(" AND ")}`)
+    .get(...params) as { next: string | null };
+  return row.next ? new Date(row.next) : null;
+}
+
+export function getBatchProgress(database: Database.Database, batchId: string): BatchProgress {
+  const progress: BatchProgress = {
+    queued: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+    total: 0,
+  };
+  const rows = database
+    .prepare(`SELECT status, count(*) AS count FROM jobs WHERE batch_id = ? GROUP BY status`)
+    .all(batchId) as { status: JobStatus; count: number }[];
+  for (const row of rows) {
+    progress[row.status] = row.count;
+    progress.total += row.count;
+  }
+  return progress;
+}
+
+export interface BatchSummaryRow {
+  batch_id: string;
+  type: JobType;
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  created_at: string;
+}
+
+export function getRecentBatches(database: Database.Database, limit = 10): BatchSummaryRow[] {
+  return database
+    .prepare(
+      `SELECT batch_id, min(type) AS type, count(*) AS total,
+         sum(status = 'queued') AS queued, sum(status = 'running') AS running,
+         sum(status = 'succeeded') AS succeeded, sum(status = 'failed') AS failed,
+         min(created_at) AS created_at
+       FROM jobs WHERE batch_id IS NOT NULL
+       GROUP BY batch_id ORDER BY min(created_at) DESC LIMIT ?`
+    )
+    .all(limit) as BatchSummaryRow[];
+}
+
+export function getFailedJobs(database: Database.Database, batchId?: string): JobRow[] {
+  return database
+    .prepare(
+      `SELECT * FROM jobs WHERE status = 'failed' ${batchId ? "AND batch_id = ?" : ""}
+       ORDER BY finished_at DESC`
+    )
+    .all(...(batchId ? [batchId] : [])) as JobRow[];
+}
+
+// Give failed jobs a fresh set of attempts (skipping ones already queued again)
+export function retryFailedJobs(database: Database.Database, batchId?: string): number {
+  return database
+    .prepare(
+      `UPDATE OR IGNORE jobs SET status = 'queued', attempts = 0, run_after = ?, finished_at = NULL
+       WHERE status = 'failed' ${batchId ? "AND batch_id = ?" : ""}`
+    )
+    .run(new Date().toISOString(), ...(batchId ? [batchId] : [])).changes;
+}
+
+export function cancelQueuedJobs(database: Database.Database, batchId?: string): number {
+  return database
+    .prepare(
+      `UPDATE jobs SET status = 'cancelled', finished_at = ?
+       WHERE status = 'queued' ${batchId ? "AND batch_id = ?" : ""}`
+    )
+    .run(new Date().toISOString(), ...(batchId ? [batchId] : [])).changes;
+}
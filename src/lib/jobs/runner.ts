@@ -0,0 +1,172 @@
+// Job runner
+// Runs queued jobs with a fixed number of concurrent workers. Failed jobs are
+// retried with exponential backoff; a rate limit from the model provider
+// pauses every worker (the limit is per API key, not per job) and doesn't use
+// up the job's attempts.
+
+import type Database from "better-sqlite3";
+import { LLMRateLimitError } from "@/lib/ai/client";
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  getNextRunAfter,
+  requeueStaleJobs,
+  type JobRow,
+  type JobType,
+} from "./queue";
+
+export interface JobContext {
+  database: Database.Database;
+  job: JobRow;
+}
+
+export type JobHandler = (payload: unknown, context: JobContext) => Promise<void>;
+
+export type JobHandlers = Partial<Record<JobType, JobHandler>>;
+
+// Thrown by handlers for failures a retry won't fix (e.g. the recording is gone)
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export type JobEvent =
+  | { type: "succeeded"; job: JobRow }
+  | { type: "retrying"; job: JobRow; error: string; retryAt: Date }
+  | { type: "failed"; job: JobRow; error: string }
+  | { type: "rate-limited"; job: JobRow; resumeAt: Date };
+
+export interface RunJobsOptions {
+  concurrency?: number;
+  // Only run jobs from this batch
+  batchId?: string;
+  // Keep waiting for new jobs instead of returning once the queue is drained
+  watch?: boolean;
+  // Stop claiming new jobs; running ones finish first
+  signal?: AbortSignal;
+  onEvent?: (event: JobEvent) => void;
+  // Backoff: retryDelayMs doubles per attempt, rateLimitDelayMs per
+  // consecutive rate limit (when the provider doesn't say how long to wait)
+  retryDelayMs?: number;
+  rateLimitDelayMs?: number;
+  maxRateLimitDelayMs?: number;
+  pollIntervalMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface RunJobsResult {
+  succeeded: number;
+  failed: number;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETRY_DELAY_MS = 30_000;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 30_000;
+const DEFAULT_MAX_RATE_LIMIT_DELAY_MS = 10 * 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+// Jobs running longer than this belong to a worker that died
+const STALE_JOB_MS = 15 * 60_000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function runJobs(
+  database: Database.Database,
+  handlers: JobHandlers,
+  options: RunJobsOptions = {}
+): Promise<RunJobsResult> {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    batchId,
+    watch = false,
+    signal,
+    onEvent,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    rateLimitDelayMs = DEFAULT_RATE_LIMIT_DELAY_MS,
+    maxRateLimitDelayMs = DEFAULT_MAX_RATE_LIMIT_DELAY_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)),
+  } = options;
+  const types = Object.keys(handlers) as JobType[];
+  const result: RunJobsResult = { succeeded: 0, failed: 0 };
+
+  requeueStaleJobs(database, new Date(Date.now() - STALE_JOB_MS));
+
+  // Shared between workers
+  let pausedUntil = 0;
+  let consecutiveRateLimits = 0;
+  let active = 0;
+
+  const runJob = async (job: JobRow): Promise<void> => {
+    const handler = handlers[job.type];
+    try {
+      if (!handler) throw new PermanentJobError(`No handler for ${job.type} jobs`);
+      await handler(JSON.parse(job.payload), { database, job });
+      completeJob(database, job.id);
+      consecutiveRateLimits = 0;
+      result.succeeded++;
+      onEvent?.({ type: "succeeded", job });
+    } catch (error) {
+      const message = errorMessage(error);
+
+      if (error instanceof LLMRateLimitError) {
+        const delay =
+          error.retryAfterSeconds !== null
+            ? error.retryAfterSeconds * 1000
+            : Math.min(rateLimitDelayMs * 2 ** consecutiveRateLimits, maxRateLimitDelayMs);
+        consecutiveRateLimits++;
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        const resumeAt = new Date(pausedUntil);
+        failJob(database, job.id, message, { retryAt: resumeAt, countAttempt: false });
+        onEvent?.({ type: "rate-limited", job, resumeAt });
+        return;
+      }
+
+      const retryAt =
+        error instanceof PermanentJobError
+          ? null
+          : new Date(Date.now() + retryDelayMs * 2 ** (job.attempts - 1));
+      if (failJob(database, job.id, message, { retryAt }) === "queued" && retryAt) {
+        onEvent?.({ type: "retrying", job, error: message, retryAt });
+      } else {
+        result.failed++;
+        onEvent?.({ type: "failed", job, error: message });
+      }
+    }
+  };
+
+  const worker = async (): Promise<void> => {
+    while (!signal?.aborted) {
+      const paused = pausedUntil - Date.now();
+      if (paused > 0) {
+        await sleep(Math.min(paused, pollIntervalMs));
+        continue;
+      }
+
+      const job = claimNextJob(database, { types, batchId });
+      if (job) {
+        active++;
+        try {
+          await runJob(job);
+        } finally {
+          active--;
+        }
+        continue;
+      }
+
+      // Nothing due. Done once nothing is queued and no other worker has a
+      // job that could be retried.
+      const next = getNextRunAfter(database, { types, batchId });
+      if (!next && active === 0 && !watch) return;
+      const wait = next ? next.getTime() - Date.now() : pollIntervalMs;
+      await sleep(Math.max(0, Math.min(wait, pollIntervalMs)));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return result;
+}
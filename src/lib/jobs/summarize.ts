@@ -0,0 +1,151 @@
+// Summary jobs
+// One job per recording. Backfills select recordings with a transcript and
+// queue them as one batch; the handler picks the recording's template the
+// same way the summary route does.
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import {
+  getSegmentsByRecordingId,
+  getSummaryByRecordingId,
+  getSummaryTemplateById,
+  getSummaryTemplates,
+  upsertSummary,
+  type RecordingRow,
+} from "@/lib/db";
+import { getLLMClient, getModelId, type LLMClient } from "@/lib/ai/client";
+import { generateTranscriptSummary } from "@/lib/ai/summarize";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+import { recordingToTemplateMeeting, selectSummaryTemplate } from "@/lib/ai/summary-templates";
+import { enqueueJobs } from "./queue";
+import { PermanentJobError, type JobHandler } from "./runner";
+
+export interface SummarizeJobPayload {
+  recordingId: string;
+  // Pick the template automatically when unset
+  templateId?: string;
+  // Skip recordings that got a summary after the job was queued
+  missingOnly?: boolean;
+}
+
+export interface SummaryBackfillOptions {
+  // Recording dates, YYYY-MM-DD (inclusive)
+  since?: string;
+  until?: string;
+  source?: string;
+  missingOnly?: boolean;
+  templateId?: string;
+  limit?: number;
+}
+
+export function createSummarizeHandler(client?: LLMClient): JobHandler {
+  // Created on first use so queuing works without an API key
+  let llm = client;
+
+  return async (payload, { database }) => {
+    const { recordingId, templateId, missingOnly } = payload as SummarizeJobPayload;
+
+    const recording = database
+      .prepare(`SELECT * FROM recordings WHERE id = ?`)
+      .get(recordingId) as RecordingRow | undefined;
+    if (!recording) {
+      throw new PermanentJobError(`Recording ${recordingId} no longer exists`);
+    }
+    if (missingOnly && getSummaryByRecordingId(recordingId)) return;
+
+    const segments = getSegmentsByRecordingId(recordingId);
+    if (segments.length === 0) {
+      throw new PermanentJobError("No transcript available for this recording");
+    }
+
+    const template = templateId
+      ? getSummaryTemplateById(templateId)
+      : selectSummaryTemplate(getSummaryTemplates(), recordingToTemplateMeeting(recording));
+    if (!template) {
+      throw new PermanentJobError(`Summary template ${templateId} not found`);
+    }
+
+    llm ??= getLLMClient("summary");
+    let summary;
+    try {
+      summary = await generateTranscriptSummary(
+        segments.map((s) => ({
+          id: s.id,
+          startTime: s.start_time,
+          endTime: s.end_time,
+          speaker: s.speaker,
+          text: s.text,
+        })),
+        trackUsage(llm, { task: "summary", recordingId }),
+        { meetingDate: recording.created_at, template }
+      );
+    } catch (error) {
+      // Retrying won't help until next month or a higher budget; failed jobs
+      // can be queued again with npm run jobs -- --retry-failed
+      if (error instanceof AIBudgetExceededError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+
+    upsertSummary({
+      recordingId,
+      content: JSON.stringify(summary),
+      model: getModelId(llm),
+    });
+  };
+}
+
+// Queue a summary job for every matching recording with a transcript, newest
+// first. Recordings that already have a pending summary job are skipped.
+export function enqueueSummaryBackfill(
+  database: Database.Database,
+  options: SummaryBackfillOptions
+): { batchId: string; matched: number; queued: number } {
+  const conditions = ["EXISTS (SELECT 1 FROM segments s WHERE s.recording_id = r.id)"];
+  const params: Record<string, string | number> = {};
+  if (options.since) {
+    conditions.push("date(r.created_at) >= @since");
+    params.since = options.since;
+  }
+  if (options.until) {
+    conditions.push("date(r.created_at) <= @until");
+    params.until = options.until;
+  }
+  if (options.source) {
+    conditions.push("r.source = @source");
+    params.source = options.source;
+  }
+  if (options.missingOnly) {
+    conditions.push("NOT EXISTS (SELECT 1 FROM summaries su WHERE su.recording_id = r.id)");
+  }
+  let limitSql = "";
+  if (options.limit) {
+    limitSql = "LIMIT @limit";
+    params.limit = options.limit;
+  }
+
+  const ids = (
+    database
+      .prepare(
+        `SELECT r.id FROM recordings r WHERE ${conditions.join(" AND ")}
+         ORDER BY r.created_at DESC ${limitSql}`
+      )
+      .all(params) as { id: string }[]
+  ).map((row) => row.id);
+
+  const batchId = `summarize-${new Date().toISOString().slice(0, 10)}-${nanoid(6)}`;
+  const queued = enqueueJobs(
+    database,
+    ids.map((recordingId) => ({
+      type: "summarize",
+      payload: {
+        recordingId,
+        templateId: options.templateId,
+        missingOnly: options.missingOnly,
+      } satisfies SummarizeJobPayload,
+      batchId,
+      dedupeKey: `summarize:${recordingId}`,
+    }))
+  );
+
+  return { batchId, matched: ids.length, queued };
+}
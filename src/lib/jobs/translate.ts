@@ -0,0 +1,125 @@
+// Translation jobs
+// One job per recording and language. Backfills select recordings with a
+// transcript in another language (or an unknown one) and no cached
+// translation, and queue them as one batch.
+
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import type { RecordingRow } from "@/lib/db";
+import { getLLMClient, type LLMClient } from "@/lib/ai/client";
+import { AIBudgetExceededError, trackUsage } from "@/lib/ai/usage";
+import { getStoredTranslation, translateRecording } from "@/lib/translation";
+import { enqueueJobs } from "./queue";
+import { PermanentJobError, type JobHandler } from "./runner";
+
+export interface TranslateJobPayload {
+  recordingId: string;
+  // ISO 639-1
+  language: string;
+}
+
+export interface TranslationBackfillOptions {
+  language: string;
+  // Only recordings in these languages; otherwise any language but the target
+  from?: string[];
+  // Recording dates, YYYY-MM-DD (inclusive)
+  since?: string;
+  until?: string;
+  source?: string;
+  limit?: number;
+}
+
+export function createTranslateHandler(client?: LLMClient): JobHandler {
+  // Created on first use so queuing works without an API key
+  let llm = client;
+
+  return async (payload, { database }) => {
+    const { recordingId, language } = payload as TranslateJobPayload;
+
+    const recording = database
+      .prepare(`SELECT * FROM recordings WHERE id = ?`)
+      .get(recordingId) as RecordingRow | undefined;
+    if (!recording) {
+      throw new PermanentJobError(`Recording ${recordingId} no longer exists`);
+    }
+    // Translated on demand since the job was queued
+    if (getStoredTranslation(recordingId, language)) return;
+
+    const hasTranscript = database
+      .prepare(`SELECT 1 FROM segments WHERE recording_id = ? LIMIT 1`)
+      .get(recordingId);
+    if (!hasTranscript) {
+      throw new PermanentJobError("No transcript available for this recording");
+    }
+
+    llm ??= getLLMClient("translation");
+    try {
+      await translateRecording(recording, language, trackUsage(llm, { task: "translation", recordingId }));
+    } catch (error) {
+      // Retrying won't help until next month or a higher budget; failed jobs
+      // can be queued again with npm run jobs -- --retry-failed
+      if (error instanceof AIBudgetExceededError) throw new PermanentJobError(error.message);
+      throw error;
+    }
+  };
+}
+
+// Queue a translation job for every matching recording without a cached
+// translation into the language, newest first. Recordings that already have a
+// pending job for the language are skipped.
+export function enqueueTranslationBackfill(
+  database: Database.Database,
+  options: TranslationBackfillOptions
+): { batchId: string; matched: number; queued: number } {
+  const conditions = [
+    "EXISTS (SELECT 1 FROM segments s WHERE s.recording_id = r.id)",
+    "NOT EXISTS (SELECT 1 FROM transcript_translations t WHERE t.recording_id = r.id AND t.language = @language)",
+    "(r.language IS NULL OR r.language != @language)",
+  ];
+  const params: Record<string, string | number> = { language: options.language };
+  if (options.from && options.from.length > 0) {
+    conditions.push(`r.language IN (${options.from.map((_, i) => `@from${i}`).join(", ")})`);
+    options.from.forEach((code, i) => {
+      params[`from${i}`] = code;
+    });
+  }
+  if (options.since) {
+    conditions.push("date(r.created_at) >= @since");
+    params.since = options.since;
+  }
+  if (options.until) {
+    conditions.push("date(r.created_at) <= @until");
+    params.until = options.until;
+  }
+  if (options.source) {
+    conditions.push("r.source = @source");
+    params.source = options.source;
+  }
+  let limitSql = "";
+  if (options.limit) {
+    limitSql = "LIMIT @limit";
+    params.limit = options.limit;
+  }
+
+  const ids = (
+    database
+      .prepare(
+        `SELECT r.id FROM recordings r WHERE ${conditions.join(" AND ")}
+         ORDER BY r.created_at DESC ${limitSql}`
+      )
+      .all(params) as { id: string }[]
+  ).map((row) => row.id);
+
+  const batchId = `translate-${options.language}-${new Date().toISOString().slice(0, 10)}-${nanoid(6)}`;
+  const queued = enqueueJobs(
+    database,
+    ids.map((recordingId) => ({
+      type: "translate",
+      payload: { recordingId, language: options.language } satisfies TranslateJobPayload,
+      batchId,
+      dedupeKey: `translate:${recordingId}:${options.language}`,
+    }))
+  );
+
+  return { batchId, matched: ids.length, queued };
+}
@@ -0,0 +1,279 @@
+// Transcript redaction
+// Phone numbers, emails, card numbers and addresses spoken in calls are
+// replaced in segments.text when a transcript is synced, so the transcript,
+// captions, search, summaries and chat only ever see the redacted text. The
+// original text of each changed segment is kept in segment_originals for the
+// people allowed to read it (AUTH_PII_EMAILS), and the stretch of audio each
+// redaction was spoken in goes to transcript_redactions so the player can
+// bleep it.
+//
+// Detection is rule-based (./rules.ts). PII_REDACTION=model adds a model pass
+// (src/lib/ai/redaction.ts) on top of the rules, and PII_REDACTION=off stores
+// transcripts as they come. A detector that fails is skipped with a warning,
+// so a model outage still leaves the rules' redactions.
+
+import type Database from "better-sqlite3";
+import { getLLMClient } from "@/lib/ai/client";
+import { detectPersonalDataWithModel } from "@/lib/ai/redaction";
+import { trackUsage } from "@/lib/ai/usage";
+import type { TranscriptRedaction } from "@/types/video";
+import { applyRedactions, detectPersonalData, mergeMatches, type RedactionMatch } from "./rules";
+
+export { REDACTION_LABELS, type RedactionMatch } from "./rules";
+
+// Added around a redaction's estimated time range, in seconds
+const TIME_PADDING_SECONDS = 0.3;
+
+export const REDACTION_MODES = ["rules", "model", "off"] as const;
+export type RedactionMode = (typeof REDACTION_MODES)[number];
+
+// Matches per segment text, in the same order
+export type RedactionDetector = (texts: string[], recordingId: string) => Promise<RedactionMatch[][]>;
+
+export const ruleDetector: RedactionDetector = async (texts) => texts.map(detectPersonalData);
+
+export const modelDetector: RedactionDetector = (texts, recordingId) =>
+  detectPersonalDataWithModel(
+    texts,
+    trackUsage(getLLMClient("redaction"), { task: "redaction", recordingId })
+  );
+
+export function getRedactionMode(): RedactionMode {
+  const mode = process.env.PII_REDACTION?.trim().toLowerCase() || "rules";
+  const known = REDACTION_MODES.find((m) => m === mode);
+  if (!known) {
+    throw new Error(`Unknown PII_REDACTION "${mode}" (expected one of ${REDACTION_MODES.join(", ")})`);
+  }
+  return known;
+}
+
+export function getRedactionDetectors(mode: RedactionMode = getRedactionMode()): RedactionDetector[] {
+  switch (mode) {
+    case "rules":
+      return [ruleDetector];
+    case "model":
+      return [ruleDetector, modelDetector];
+    case "off":
+      return [];
+  }
+}
+
+export interface RedactableSegment {
+  id: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export interface RedactedTranscript<T extends RedactableSegment> {
+  // The input segments with redacted text
+  segments: T[];
+  // Text of the segments that changed, before redaction
+  originals: { segmentId: string; text: string }[];
+  redactions: TranscriptRedaction[];
+}
+
+// Where the match was spoken, assuming speech is spread evenly over the
+// segment's text
+function estimateTimeRange(
+  segment: RedactableSegment,
+  match: RedactionMatch
+): { startTime: number; endTime: number } {
+  const duration = Math.max(0, segment.endTime - segment.startTime);
+  const length = Math.max(1, segment.text.length);
+  return {
+    startTime: Math.max(
+      segment.startTime,
+      segment.startTime + (duration * match.start) / length - TIME_PADDING_SECONDS
+    ),
+    endTime: Math.min(
+      segment.endTime,
+      segment.startTime + (duration * match.end) / length + TIME_PADDING_SECONDS
+    ),
+  };
+}
+
+export async function redactTranscript<T extends RedactableSegment>(
+  recordingId: string,
+  segments: T[],
+  detectors: RedactionDetector[] = getRedactionDetectors()
+): Promise<RedactedTranscript<T>> {
+  const texts = segments.map((segment) => segment.text);
+  const found: RedactionMatch[][] = segments.map(() => []);
+
+  for (const detector of detectors) {
+    try {
+      const matches = await detector(texts, recordingId);
+      matches.forEach((segmentMatches, index) => found[index]?.push(...segmentMatches));
+    } catch (error) {
+      console.warn(`Redaction detector failed for ${recordingId}:`, error);
+    }
+  }
+
+  const result: RedactedTranscript<T> = { segments: [], originals: [], redactions: [] };
+  segments.forEach((segment, index) => {
+    const matches = mergeMatches(found[index]);
+    if (matches.length === 0) {
+      result.segments.push(segment);
+      return;
+    }
+
+    result.segments.push({ ...segment, text: applyRedactions(segment.text, matches) });
+    result.originals.push({ segmentId: segment.id, text: segment.text });
+    for (const match of matches) {
+      result.redactions.push({
+        segmentId: segment.id,
+        kind: match.kind,
+        ...estimateTimeRange(segment, match),
+      });
+    }
+  });
+  return result;
+}
+
+// Replace the recording's stored originals and redactions. segmentRowId maps
+// the transcript's segment ids to segments.id, for callers that insert
+// segments under a prefixed id
+export function saveTranscriptRedactions(
+  db: Database.Database,
+  recordingId: string,
+  transcript: Pick<RedactedTranscript<RedactableSegment>, "originals" | "redactions">,
+  segmentRowId: (id: string) => string = (id) => id
+): void {
+  const insertOriginal = db.prepare(
+    `INSERT OR REPLACE INTO segment_originals (segment_id, recording_id, text) VALUES (?, ?, ?)`
+  );
+  const insertRedaction = db.prepare(
+    `INSERT INTO transcript_redactions (recording_id, segment_id, kind, start_time, end_time)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+
+  db.transaction(() => {
+    db.prepare(`DELETE FROM segment_originals WHERE recording_id = ?`).run(recordingId);
+    db.prepare(`DELETE FROM transcript_redactions WHERE recording_id = ?`).run(recordingId);
+    for (const original of transcript.originals) {
+      insertOriginal.run(segmentRowId(original.segmentId), recordingId, original.text);
+    }
+    for (const redaction of transcript.redactions) {
+      insertRedaction.run(
+        recordingId,
+        segmentRowId(redaction.segmentId),
+        redaction.kind,
+        redaction.startTime,
+        redaction.endTime
+      );
+    }
+  })();
+}
+
+// Run the detectors over short texts that aren't transcript lines, such as
+// action items and alert notifications
+async function redactTexts<T extends { id: string | number; text: string }>(
+  recordingId: string,
+  items: T[],
+  detectors: RedactionDetector[]
+): Promise<T[]> {
+  const redacted = await redactTranscript(
+    recordingId,
+    items.map((item) => ({ id: String(item.id), startTime: 0, endTime: 0, text: item.text })),
+    detectors
+  );
+  const changed = new Set(redacted.originals.map((original) => original.segmentId));
+  return redacted.segments
+    .map((segment, index) => ({ ...items[index], text: segment.text }))
+    .filter((item) => changed.has(String(item.id)));
+}
+
+export interface RecordingRedactionResult {
+  redactions: number;
+  // The transcript text changed, so what was made from it was cleared
+  changed: boolean;
+  // The summary was deleted and needs generating again
+  summaryCleared: boolean;
+}
+
+// Redact a stored transcript again from its original text, e.g. after the
+// rules change or for transcripts synced before redaction.
+//
+// When the text changes, whatever was made from the old text may repeat what
+// is now redacted, so it goes too: translations, the summary (callers queue a
+// new one), series digests that drew on it, recording chat conversations and
+// the search embeddings of its transcript chunks (callers rebuild the chunks;
+// `npm run search:embed` embeds them again).
+// Action items and alert notifications are kept, since people have checked
+// them off or read them, but their text goes through the same detectors.
+export async function redactRecording(
+  db: Database.Database,
+  recordingId: string,
+  detectors: RedactionDetector[] = getRedactionDetectors()
+): Promise<RecordingRedactionResult> {
+  const segments = db
+    .prepare(
+      `SELECT s.id, s.start_time AS startTime, s.end_time AS endTime, COALESCE(o.text, s.text) AS text,
+         s.text AS current
+       FROM segments s
+       LEFT JOIN segment_originals o ON o.segment_id = s.id
+       WHERE s.recording_id = ?
+       ORDER BY s.start_time`
+    )
+    .all(recordingId) as (RedactableSegment & { current: string })[];
+  const redacted = await redactTranscript(recordingId, segments, detectors);
+  const changed = redacted.segments.some((segment) => segment.text !== segment.current);
+
+  const actionItems = changed
+    ? await redactTexts(
+        recordingId,
+        db.prepare(`SELECT id, text FROM action_items WHERE recording_id = ?`).all(recordingId) as {
+          id: number;
+          text: string;
+        }[],
+        detectors
+      )
+    : [];
+  const notifications = changed
+    ? await redactTexts(
+        recordingId,
+        db.prepare(`SELECT id, body AS text FROM notifications WHERE recording_id = ?`).all(recordingId) as {
+          id: number;
+          text: string;
+        }[],
+        detectors
+      )
+    : [];
+
+  const updateText = db.prepare(`UPDATE segments SET text = ? WHERE id = ?`);
+  let summaryCleared = false;
+  db.transaction(() => {
+    for (const segment of redacted.segments) {
+      updateText.run(segment.text, segment.id);
+    }
+    saveTranscriptRedactions(db, recordingId, redacted);
+    if (!changed) return;
+
+    db.prepare(`DELETE FROM transcript_translations WHERE recording_id = ?`).run(recordingId);
+    summaryCleared = db.prepare(`DELETE FROM summaries WHERE recording_id = ?`).run(recordingId).changes > 0;
+    db.prepare(
+      `DELETE FROM series_digests
+       WHERE recording_id = @id
+         OR (',' || previous_recording_ids || ',') LIKE '%,' || @id || ',%'`
+    ).run({ id: recordingId });
+    db.prepare(`DELETE FROM recording_conversation_messages WHERE recording_id = ?`).run(recordingId);
+    db.prepare(
+      `DELETE FROM chunk_embeddings
+       WHERE text_hash IN (SELECT text_hash FROM transcript_chunks WHERE recording_id = ?)`
+    ).run(recordingId);
+
+    // Two items can redact to the same text; one is enough
+    const updateActionItem = db.prepare(
+      `UPDATE OR REPLACE action_items SET text = ?, updated_at = ? WHERE id = ?`
+    );
+    for (const item of actionItems) {
+      updateActionItem.run(item.text, new Date().toISOString(), item.id);
+    }
+    const updateNotification = db.prepare(`UPDATE notifications SET body = ? WHERE id = ?`);
+    for (const notification of notifications) {
+      updateNotification.run(notification.text, notification.id);
+    }
+  })();
+  return { redactions: redacted.redactions.length, changed, summaryCleared };
+}
@@ -0,0 +1,145 @@
+// Rule-based personal data detection for transcripts
+// Transcripts hold data as it was spoken, so besides the written forms
+// ("jane@acme.com", "415-555-0134") this catches the spoken ones ("jane at
+// acme dot com", "four one five five five five ..."). Everything here is
+// pure so the same rules can run anywhere a transcript is handled.
+
+import type { RedactionKind } from "@/types/video";
+
+// A run of personal data within one segment's text, by character offset
+export interface RedactionMatch {
+  kind: RedactionKind;
+  start: number;
+  end: number;
+}
+
+// Shown in place of the redacted text
+export const REDACTION_LABELS: Record<RedactionKind, string> = {
+  email: "[email]",
+  phone: "[phone number]",
+  card: "[card number]",
+  ssn: "[SSN]",
+  address: "[address]",
+  number: "[number]",
+};
+
+// Spoken digit runs shorter than this are quantities, times, versions...
+const MIN_SPOKEN_DIGITS = 7;
+
+const EMAIL = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+const SPOKEN_EMAIL =
+  /\b[a-z0-9]+(?:\s(?:dot|underscore|dash)\s[a-z0-9]+)*\sat\s[a-z0-9-]+(?:\sdot\s[a-z0-9-]+)*\sdot\s(?:com|org|net|io|co|edu|gov|us|uk|de|fr|ca|au)\b/gi;
+const SSN = /(?<!\d)\d{3}[- ]\d{2}[- ]\d{4}(?!\d)/g;
+// 13-19 digits in groups, as cards are read out or typed
+const CARD = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+// North American numbers with optional country code, and international ones
+// written with a leading +
+const PHONE =
+  /(?:(?<![\d+])(?:\+?1[\s.-]?)?(?:\(\d{3}\)|(?<!\d)\d{3})[\s.-]?\d{3}[\s.-]?\d{4}|\+\d{1,3}(?:[\s.-]?\d{2,4}){2,5})(?!\d)/g;
+// A house number, one to four capitalized words and a street suffix, with an
+// optional unit and "City, ST 12345"
+const ADDRESS =
+  /\b\d{1,6}\s+(?:[A-Z][\w'.-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir|Highway|Hwy|Square|Sq)\b\.?(?:,?\s+(?:Apt|Apartment|Suite|Ste|Unit|#)\.?\s*[A-Za-z0-9-]+)?(?:,?\s+[A-Z][a-z]+(?:\s[A-Z][a-z]+)*,?\s+[A-Z]{2}\s+\d{5}(?:-\d{4})?)?/g;
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: "0",
+  oh: "0",
+  o: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+};
+// Digit words and digit groups separated by spaces, commas or dashes, e.g.
+// "four one five, 555, oh one three four"
+const SPOKEN_DIGITS = new RegExp(
+  `\\b(?:${Object.keys(DIGIT_WORDS).join("|")}|\\d+)(?:[\\s,-]+(?:${Object.keys(DIGIT_WORDS).join("|")}|\\d+))+\\b`,
+  "gi"
+);
+
+// Card numbers carry a Luhn check digit, which rules out most other numbers
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isCardNumber(digits: string): boolean {
+  return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+}
+
+function spokenDigits(text: string): string {
+  return text
+    .toLowerCase()
+    .split(/[\s,-]+/)
+    .map((token) => DIGIT_WORDS[token] ?? token)
+    .join("");
+}
+
+function findAll(text: string, pattern: RegExp, kind: (match: string) => RedactionKind | null): RedactionMatch[] {
+  const matches: RedactionMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const matchKind = kind(match[0]);
+    if (matchKind) {
+      matches.push({ kind: matchKind, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return matches;
+}
+
+// Keep the earliest of overlapping matches, the longest when they start together
+export function mergeMatches(matches: RedactionMatch[]): RedactionMatch[] {
+  const sorted = [...matches].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: RedactionMatch[] = [];
+  for (const match of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && match.start < last.end) {
+      last.end = Math.max(last.end, match.end);
+    } else {
+      merged.push({ ...match });
+    }
+  }
+  return merged;
+}
+
+export function detectPersonalData(text: string): RedactionMatch[] {
+  return mergeMatches([
+    ...findAll(text, EMAIL, () => "email"),
+    ...findAll(text, SPOKEN_EMAIL, () => "email"),
+    ...findAll(text, CARD, (match) => (isCardNumber(match.replace(/\D/g, "")) ? "card" : null)),
+    ...findAll(text, SSN, () => "ssn"),
+    ...findAll(text, PHONE, () => "phone"),
+    ...findAll(text, ADDRESS, () => "address"),
+    // Written-out numbers are the patterns above; these need a spoken digit
+    ...findAll(text, SPOKEN_DIGITS, (match) => {
+      if (!/[a-z]/i.test(match)) return null;
+      const digits = spokenDigits(match);
+      if (!/^\d+$/.test(digits) || digits.length < MIN_SPOKEN_DIGITS) return null;
+      if (isCardNumber(digits)) return "card";
+      return digits.length === 7 || digits.length === 10 || digits.length === 11 ? "phone" : "number";
+    }),
+  ]);
+}
+
+// The text with each match replaced by its label
+export function applyRedactions(text: string, matches: RedactionMatch[]): string {
+  let redacted = "";
+  let position = 0;
+  for (const match of mergeMatches(matches)) {
+    redacted += text.slice(position, match.start) + REDACTION_LABELS[match.kind];
+    position = match.end;
+  }
+  return redacted + text.slice(position);
+}
@@ -0,0 +1,146 @@
+// Transcript chunks for semantic search
+// Segments are grouped into ~30-second windows, which are long enough to carry
+// meaning for an embedding and short enough to point at a moment in the call.
+// Like the FTS index, chunks are rebuilt by whoever changes a transcript.
+
+import type Database from "better-sqlite3";
+import { createHash } from "crypto";
+import { vectorToBuffer } from "./embeddings";
+
+export const CHUNK_WINDOW_SECONDS = 30;
+
+interface ChunkSegment {
+  start_time: number;
+  end_time: number;
+  speaker: string | null;
+  text: string;
+}
+
+export interface TranscriptChunk {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+// Group consecutive segments into windows of at least `windowSeconds`
+export function buildTranscriptChunks(
+  segments: ChunkSegment[],
+  windowSeconds: number = CHUNK_WINDOW_SECONDS
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let current: { startTime: number; endTime: number; lines: string[] } | null = null;
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    if (current && segment.start_time - current.startTime >= windowSeconds) {
+      chunks.push({ startTime: current.startTime, endTime: current.endTime, text: current.lines.join("\n") });
+      current = null;
+    }
+
+    const line = segment.speaker ? `${segment.speaker}: ${text}` : text;
+    if (!current) {
+      current = { startTime: segment.start_time, endTime: segment.end_time, lines: [line] };
+    } else {
+      current.endTime = Math.max(current.endTime, segment.end_time);
+      current.lines.push(line);
+    }
+  }
+
+  if (current) {
+    chunks.push({ startTime: current.startTime, endTime: current.endTime, text: current.lines.join("\n") });
+  }
+
+  return chunks;
+}
+
+export function hashChunkText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+// Replace the chunks for one recording from its current segments
+export function rebuildTranscriptChunks(db: Database.Database, recordingId: string): number {
+  const segments = db
+    .prepare(
+      `SELECT start_time, end_time, speaker, text FROM segments
+       WHERE recording_id = ? ORDER BY start_time`
+    )
+    .all(recordingId) as ChunkSegment[];
+  const chunks = buildTranscriptChunks(segments);
+
+  const insert = db.prepare(
+    `INSERT INTO transcript_chunks (recording_id, start_time, end_time, text, text_hash)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  const rebuild = db.transaction(() => {
+    db.prepare(`DELETE FROM transcript_chunks WHERE recording_id = ?`).run(recordingId);
+    for (const chunk of chunks) {
+      insert.run(recordingId, chunk.startTime, chunk.endTime, chunk.text, hashChunkText(chunk.text));
+    }
+  });
+  rebuild();
+
+  return chunks.length;
+}
+
+export function rebuildAllTranscriptChunks(db: Database.Database): number {
+  const recordingIds = db
+    .prepare(`SELECT DISTINCT recording_id FROM segments`)
+    .pluck()
+    .all() as string[];
+
+  let total = 0;
+  for (const recordingId of recordingIds) {
+    total += rebuildTranscriptChunks(db, recordingId);
+  }
+  return total;
+}
+
+// Distinct chunk texts that have no vector yet for `model`
+export function getChunksMissingEmbeddings(
+  db: Database.Database,
+  model: string,
+  limit: number
+): { text_hash: string; text: string }[] {
+  return db
+    .prepare(
+      `SELECT c.text_hash, MIN(c.text) AS text
+       FROM transcript_chunks c
+       LEFT JOIN chunk_embeddings e ON e.model = ? AND e.text_hash = c.text_hash
+       WHERE e.text_hash IS NULL
+       GROUP BY c.text_hash
+       LIMIT ?`
+    )
+    .all(model, limit) as { text_hash: string; text: string }[];
+}
+
+export function countChunksMissingEmbeddings(db: Database.Database, model: string): number {
+  const row = db
+    .prepare(
+      `SELECT COUNT(DISTINCT c.text_hash) AS count
+       FROM transcript_chunks c
+       LEFT JOIN chunk_embeddings e ON e.model = ? AND e.text_hash = c.text_hash
+       WHERE e.text_hash IS NULL`
+    )
+    .get(model) as { count: number };
+  return row.count;
+}
+
+export function saveChunkEmbeddings(
+  db: Database.Database,
+  model: string,
+  embeddings: { textHash: string; vector: Float32Array }[]
+): void {
+  const insert = db.prepare(
+    `INSERT OR REPLACE INTO chunk_embeddings (model, text_hash, dimensions, vector, created_at)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  const createdAt = new Date().toISOString();
+  const save = db.transaction(() => {
+    for (const { textHash, vector } of embeddings) {
+      insert.run(model, textHash, vector.length, vectorToBuffer(vector), createdAt);
+    }
+  });
+  save();
+}
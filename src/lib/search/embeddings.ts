@@ -0,0 +1,123 @@
+// Text embedders for semantic search
+// An Embedder turns text into unit-length vectors, so cosine similarity is a
+// dot product. Pick one with EMBEDDINGS_PROVIDER:
+//   - "ollama": a local Ollama server (OLLAMA_URL, EMBEDDINGS_MODEL)
+//   - "hash": deterministic feature hashing, for tests and offline
+//     development. It needs no model or network but only matches shared
+//     words, so it's no better than keyword search at finding paraphrases
+// Without a provider there is no semantic search, and passage search falls
+// back to keywords (see ./hybrid.ts). Vectors are stored per model id, so
+// switching providers needs a re-embed.
+
+export interface Embedder {
+  // Stored alongside each vector; vectors from different models never mix
+  readonly model: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const DEFAULT_HASH_DIMENSIONS = 256;
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_OLLAMA_MODEL = "nomic-embed-text";
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+export function dotProduct(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export function vectorToBuffer(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function bufferToVector(buffer: Buffer): Float32Array {
+  // Copy so the vector is 4-byte aligned regardless of the source buffer
+  const copy = new Uint8Array(buffer.byteLength);
+  copy.set(buffer);
+  return new Float32Array(copy.buffer);
+}
+
+// FNV-1a, for stable bucket assignment across runs and machines
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Words and adjacent word pairs hashed into a fixed-size signed vector
+export function createHashingEmbedder(dimensions: number = DEFAULT_HASH_DIMENSIONS): Embedder {
+  const embedOne = (text: string): Float32Array => {
+    const vector = new Float32Array(dimensions);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const hash = hashString(feature);
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    model: `hash-${dimensions}`,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+export function createOllamaEmbedder(options: { url?: string; model?: string } = {}): Embedder {
+  const url = (options.url ?? DEFAULT_OLLAMA_URL).replace(/\/$/, "");
+  const model = options.model ?? DEFAULT_OLLAMA_MODEL;
+
+  return {
+    model: `ollama:${model}`,
+    embed: async (texts) => {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(`${url}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model, input: texts }),
+      });
+      if (!response.ok) {
+        throw new Error(`Ollama embed failed: ${response.status} ${await response.text()}`);
+      }
+
+      const data = (await response.json()) as { embeddings?: number[][] };
+      if (!data.embeddings || data.embeddings.length !== texts.length) {
+        throw new Error("Ollama returned an unexpected number of embeddings");
+      }
+      return data.embeddings.map((values) => normalizeVector(Float32Array.from(values)));
+    },
+  };
+}
+
+// The configured embedder, or null when EMBEDDINGS_PROVIDER isn't set
+export function getEmbedder(): Embedder | null {
+  const provider = process.env.EMBEDDINGS_PROVIDER?.trim();
+  if (!provider) return null;
+
+  switch (provider) {
+    case "ollama":
+      return createOllamaEmbedder({
+        url: process.env.OLLAMA_URL,
+        model: process.env.EMBEDDINGS_MODEL,
+      });
+    case "hash":
+      return createHashingEmbedder();
+    default:
+      throw new Error(`Unknown EMBEDDINGS_PROVIDER "${provider}" (expected "ollama" or "hash")`);
+  }
+}
@@ -0,0 +1,117 @@
+// Full-text search index (SQLite FTS5)
+// search_documents holds one row per searchable piece of a recording (title,
+// custom title, summary, transcript segment); search_index is an external-content
+// FTS5 table over it. There are no triggers (D1 migrations can't contain them),
+// so every writer calls reindexRecordingSearch() after changing a recording.
+
+import type Database from "better-sqlite3";
+import { SNIPPET_MATCH_START, SNIPPET_MATCH_END } from "./snippet";
+
+export type SearchDocumentKind = "title" | "custom_title" | "summary" | "segment";
+
+// Title matches outrank summary matches, which outrank transcript matches
+const KIND_WEIGHTS: Record<SearchDocumentKind, number> = {
+  custom_title: 4,
+  title: 4,
+  summary: 2,
+  segment: 1,
+};
+
+// SELECT producing search_documents rows; `filter` builds the condition on
+// each branch's recording id column
+function documentsSelect(filter: (idColumn: string) => string): string {
+  return `
+    SELECT id, 'title', NULL, NULL, NULL, title
+    FROM recordings WHERE ${filter("id")}
+    UNION ALL
+    SELECT id, 'custom_title', NULL, NULL, NULL, custom_title
+    FROM recordings WHERE ${filter("id")} AND custom_title IS NOT NULL AND custom_title != ''
+    UNION ALL
+    SELECT recording_id, 'summary', NULL, NULL, NULL,
+      coalesce((
+        SELECT group_concat(value, ' ') FROM json_tree(content)
+        WHERE type = 'text' AND key NOT IN ('dueDate', 'overall', 'id', 'name')
+      ), '')
+    FROM summaries WHERE ${filter("recording_id")} AND json_valid(content)
+    UNION ALL
+    SELECT recording_id, 'segment', id, start_time, speaker, text
+    FROM segments WHERE ${filter("recording_id")}`;
+}
+
+// Replace the index entries for one recording with its current content
+export function reindexRecordingSearch(db: Database.Database, recordingId: string): void {
+  const reindex = db.transaction(() => {
+    // External-content FTS needs the old values to remove entries
+    db.prepare(
+      `INSERT INTO search_index (search_index, rowid, speaker, text)
+       SELECT 'delete', id, speaker, text FROM search_documents WHERE recording_id = ?`
+    ).run(recordingId);
+    db.prepare(`DELETE FROM search_documents WHERE recording_id = ?`).run(recordingId);
+
+    db.prepare(
+      `INSERT INTO search_documents (recording_id, kind, segment_id, start_time, speaker, text)
+       ${documentsSelect((column) => `${column} = ?`)}`
+    ).run(recordingId, recordingId, recordingId, recordingId);
+
+    db.prepare(
+      `INSERT INTO search_index (rowid, speaker, text)
+       SELECT id, speaker, text FROM search_documents WHERE recording_id = ?`
+    ).run(recordingId);
+  });
+
+  reindex();
+}
+
+// Rebuild the whole index from recordings, summaries and segments
+export function rebuildSearchIndex(db: Database.Database): number {
+  const rebuild = db.transaction(() => {
+    db.prepare(`DELETE FROM search_documents`).run();
+    const result = db
+      .prepare(
+        `INSERT INTO search_documents (recording_id, kind, segment_id, start_time, speaker, text)
+         ${documentsSelect(() => "1 = 1")}`
+      )
+      .run();
+    db.prepare(`INSERT INTO search_index (search_index) VALUES ('rebuild')`).run();
+    return result.changes;
+  });
+
+  return rebuild();
+}
+
+// Convert user input into an FTS5 MATCH expression.
+// "quoted text" is matched as a phrase; every other word is a prefix match,
+// so "onboard" still finds "onboarding". Terms are ANDed, or ORed with
+// `matchAny` (for natural-language questions, where bm25 ranks passages that
+// share the most terms first). Returns null when the input has nothing searchable.
+export function buildFtsQuery(input: string, options: { matchAny?: boolean } = {}): string | null {
+  const terms: string[] = [];
+
+  const phraseRegex = /"([^"]*)"/g;
+  let match;
+  while ((match = phraseRegex.exec(input)) !== null) {
+    const words = match[1].match(/[\p{L}\p{N}]+/gu);
+    if (words) {
+      terms.push(`"${words.join(" ")}"`);
+    }
+  }
+
+  const rest = input.replace(phraseRegex, " ");
+  for (const word of rest.match(/[\p{L}\p{N}]+/gu) ?? []) {
+    terms.push(`"${word}"*`);
+  }
+
+  if (terms.length === 0) return null;
+  return terms.join(options.matchAny ? " OR " : " ");
+}
+
+// Columns used by search queries: the FTS rank weighted by document kind,
+// and a highlighted excerpt of the text column
+export const SEARCH_SCORE_SQL = `bm25(search_index) * (CASE d.kind
+  WHEN 'custom_title' THEN ${KIND_WEIGHTS.custom_title}
+  WHEN 'title' THEN ${KIND_WEIGHTS.title}
+  WHEN 'summary' THEN ${KIND_WEIGHTS.summary}
+  ELSE ${KIND_WEIGHTS.segment} END)`;
+
+export const SEARCH_SNIPPET_SQL = `snippet(search_index, 1,
+  char(${SNIPPET_MATCH_START.charCodeAt(0)}), char(${SNIPPET_MATCH_END.charCodeAt(0)}), '…', 16)`;
@@ -0,0 +1,137 @@
+// Passage search: keyword (FTS5), semantic (embeddings) or both
+// Hybrid mode merges the two rankings with reciprocal rank fusion, which
+// needs no score calibration between bm25 and cosine similarity.
+
+import {
+  countEmbeddedChunks,
+  getKeywordRankedChunkIds,
+  getNearestChunkIds,
+  getPassagesByChunkIds,
+} from "@/lib/db";
+import type { Viewer } from "@/lib/auth/visibility";
+import type { SearchFilters } from "./query";
+import { getEmbedder, type Embedder } from "./embeddings";
+
+export type PassageSearchMode = "keyword" | "semantic" | "hybrid";
+
+export const PASSAGE_SEARCH_MODES: PassageSearchMode[] = ["keyword", "semantic", "hybrid"];
+
+export function isPassageSearchMode(value: unknown): value is PassageSearchMode {
+  return typeof value === "string" && PASSAGE_SEARCH_MODES.includes(value as PassageSearchMode);
+}
+
+export interface Passage {
+  recordingId: string;
+  recordingTitle: string;
+  source: string;
+  createdAt: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+  score: number;
+  // 1-based rank in each list, or null when the passage wasn't in it
+  keywordRank: number | null;
+  semanticRank: number | null;
+}
+
+export interface PassageSearchResult {
+  mode: PassageSearchMode;
+  model: string | null;
+  passages: Passage[];
+  // Set when semantic ranking was requested but no embedder is configured
+  // (the passages are keyword matches) or nothing is embedded yet
+  warning?: string;
+}
+
+// Standard RRF constant; dampens the advantage of the very top ranks
+const RRF_K = 60;
+// Candidates taken from each list before fusion
+const CANDIDATES_PER_LIST = 100;
+
+export async function searchPassages(
+  viewer: Viewer,
+  filters: SearchFilters,
+  options: {
+    mode?: PassageSearchMode;
+    source?: "zoom" | "gong" | "all";
+    limit?: number;
+    embedder?: Embedder;
+    // Rank passages containing any of the words, not only all of them
+    matchAny?: boolean;
+  } = {}
+): Promise<PassageSearchResult> {
+  const requestedMode = options.mode ?? "hybrid";
+  const limit = options.limit ?? 20;
+  const embedder = requestedMode !== "keyword" ? (options.embedder ?? getEmbedder()) : null;
+  // Without embeddings, semantic and hybrid searches are keyword searches
+  const mode = requestedMode !== "keyword" && !embedder ? "keyword" : requestedMode;
+  const useKeyword = mode !== "semantic";
+
+  const result: PassageSearchResult = { mode, model: embedder?.model ?? null, passages: [] };
+  if (mode !== requestedMode) {
+    result.warning = "Semantic search isn't set up (EMBEDDINGS_PROVIDER), so these are keyword matches only.";
+  }
+
+  if (!filters.text.trim()) return result;
+
+  const keywordIds = useKeyword
+    ? getKeywordRankedChunkIds(viewer, filters, options.source, CANDIDATES_PER_LIST, options.matchAny)
+    : [];
+
+  let semanticIds: number[] = [];
+  if (embedder) {
+    if (countEmbeddedChunks(embedder.model) === 0) {
+      result.warning = `No transcripts are embedded with ${embedder.model} yet. Run npm run search:embed.`;
+    } else {
+      // Embed the words themselves; quotes only mean something to FTS
+      const [queryVector] = await embedder.embed([filters.text.replace(/"/g, "")]);
+      semanticIds = getNearestChunkIds(
+        viewer,
+        filters,
+        options.source,
+        embedder.model,
+        queryVector,
+        CANDIDATES_PER_LIST
+      )
+        // Orthogonal or opposed vectors share nothing with the query
+        .filter((n) => n.similarity > 0)
+        .map((n) => n.chunkId);
+    }
+  }
+
+  const fused = new Map<number, { score: number; keywordRank: number | null; semanticRank: number | null }>();
+  const addRanks = (ids: number[], list: "keywordRank" | "semanticRank") => {
+    ids.forEach((id, index) => {
+      const entry = fused.get(id) ?? { score: 0, keywordRank: null, semanticRank: null };
+      entry.score += 1 / (RRF_K + index + 1);
+      entry[list] = index + 1;
+      fused.set(id, entry);
+    });
+  };
+  addRanks(keywordIds, "keywordRank");
+  addRanks(semanticIds, "semanticRank");
+
+  const ranked = [...fused.entries()]
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, limit);
+
+  const rows = getPassagesByChunkIds(viewer, ranked.map(([id]) => id));
+  const rowsById = new Map(rows.map((row) => [row.chunk_id, row]));
+
+  for (const [id, ranks] of ranked) {
+    const row = rowsById.get(id);
+    if (!row) continue;
+    result.passages.push({
+      recordingId: row.recording_id,
+      recordingTitle: row.custom_title ?? row.title,
+      source: row.source,
+      createdAt: row.created_at,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      text: row.text,
+      ...ranks,
+    });
+  }
+
+  return result;
+}
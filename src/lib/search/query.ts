@@ -0,0 +1,329 @@
+// Search query grammar
+// Parses the search box text into free-text terms and structured filters:
+//
+//   pricing "renewal date"    words and quoted phrases (full-text)
+//   -standup                  exclude recordings mentioning a word or phrase
+//   from:2025-01-01           recorded on or after a date
+//   before:2025-02-01         recorded before a date
+//   source:gong               only Zoom or Gong recordings
+//   duration:>30m             longer/shorter than (>, >=, <, <=, or 15m-45m inclusive)
+//   has:clips  has:summary    recordings with clips, a summary or a transcript
+//   scope:external            calls with (or without: scope:internal) external parties
+//   participant:jane@acme.com recordings a person attended
+//   tracker:"Competitor"      recordings where a Gong or keyword tracker fired
+//   topic:Pricing             Gong calls that covered a topic
+//
+// `has:`, `participant:`, `tracker:` and `topic:` can be negated with a
+// leading "-". Used by both the
+// search box (to render chips) and the server (to build SQL), so it must stay
+// free of server-only imports.
+
+export type SearchSource = "zoom" | "gong";
+export type SearchHasValue = "clips" | "summary" | "transcript";
+export type SearchScope = "internal" | "external";
+
+export type SearchToken = { raw: string } & (
+  | { type: "term"; value: string; phrase: boolean; negated: boolean }
+  | { type: "from" | "before"; value: string }
+  | { type: "source"; value: SearchSource }
+  | { type: "duration"; min: number | null; max: number | null }
+  | { type: "has"; value: SearchHasValue; negated: boolean }
+  | { type: "scope"; value: SearchScope }
+  | { type: "participant"; value: string; negated: boolean }
+  | { type: "tracker" | "topic"; value: string; negated: boolean }
+  | { type: "invalid"; reason: string }
+);
+
+export interface SearchFilters {
+  // Positive words and "quoted phrases", ready for buildFtsQuery()
+  text: string;
+  // Words or "quoted phrases" a recording must not mention
+  excludedTerms: string[];
+  from: string | null;
+  before: string | null;
+  source: SearchSource | null;
+  // Seconds
+  minDuration: number | null;
+  maxDuration: number | null;
+  // true = must have, false = must not have
+  has: Partial<Record<SearchHasValue, boolean>>;
+  scope: SearchScope | null;
+  participants: string[];
+  excludedParticipants: string[];
+  // Lowercased Gong tracker and topic names
+  trackers: string[];
+  excludedTrackers: string[];
+  topics: string[];
+  excludedTopics: string[];
+}
+
+export interface ParsedSearchQuery {
+  tokens: SearchToken[];
+  filters: SearchFilters;
+}
+
+const HAS_VALUES: SearchHasValue[] = ["clips", "summary", "transcript"];
+const FILTER_KEYS = ["from", "before", "source", "duration", "has", "scope", "participant", "tracker", "topic"];
+const NEGATABLE_KEYS = ["has", "participant", "tracker", "topic"];
+
+// Split into raw tokens, keeping quoted text (including key:"quoted value") together
+function splitRawTokens(input: string): string[] {
+  return input.match(/-?(?:\w+:)?"[^"]*"?|\S+/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, "").replace(/"$/, "");
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// "90s", "30m", "1h", "1h30m", or a bare number of minutes → seconds
+export function parseDurationValue(value: string): number | null {
+  if (/^\d+(\.\d+)?$/.test(value)) return parseFloat(value) * 60;
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i);
+  if (!match || (!match[1] && !match[2] && !match[3])) return null;
+
+  return (
+    parseInt(match[1] ?? "0", 10) * 3600 +
+    parseInt(match[2] ?? "0", 10) * 60 +
+    parseInt(match[3] ?? "0", 10)
+  );
+}
+
+function parseDurationRange(value: string): { min: number | null; max: number | null } | null {
+  const range = value.match(/^([^-.<>=]+)(?:-|\.\.)([^-.<>=]+)$/);
+  if (range) {
+    const min = parseDurationValue(range[1]);
+    const max = parseDurationValue(range[2]);
+    return min !== null && max !== null && min <= max ? { min, max } : null;
+  }
+
+  const comparison = value.match(/^(>=|<=|>|<)?(.+)$/);
+  if (!comparison) return null;
+  const seconds = parseDurationValue(comparison[2]);
+  if (seconds === null) return null;
+
+  // A bare duration means "at least". Durations are whole seconds, so the
+  // strict comparisons move the bound by one.
+  switch (comparison[1]) {
+    case "<":
+      return { min: null, max: seconds - 1 };
+    case "<=":
+      return { min: null, max: seconds };
+    case ">":
+      return { min: seconds + 1, max: null };
+    default:
+      return { min: seconds, max: null };
+  }
+}
+
+function parseToken(raw: string): SearchToken {
+  const negated = raw.startsWith("-") && raw.length > 1;
+  const body = negated ? raw.slice(1) : raw;
+
+  const filter = body.match(/^(\w+):(.*)$/);
+  if (!filter || !FILTER_KEYS.includes(filter[1].toLowerCase())) {
+    const phrase = body.startsWith('"');
+    return { raw, type: "term", value: unquote(body), phrase, negated };
+  }
+
+  const key = filter[1].toLowerCase();
+  const value = unquote(filter[2]);
+  if (!value) {
+    return { raw, type: "invalid", reason: `${key}: needs a value` };
+  }
+  if (negated && !NEGATABLE_KEYS.includes(key)) {
+    return { raw, type: "invalid", reason: `${key}: can't be negated` };
+  }
+
+  switch (key) {
+    case "from":
+    case "before":
+      return isValidDate(value)
+        ? { raw, type: key, value }
+        : { raw, type: "invalid", reason: "Dates must look like 2025-01-31" };
+    case "source": {
+      const source = value.toLowerCase();
+      return source === "zoom" || source === "gong"
+        ? { raw, type: "source", value: source }
+        : { raw, type: "invalid", reason: "Source must be zoom or gong" };
+    }
+    case "duration": {
+      const range = parseDurationRange(value);
+      return range
+        ? { raw, type: "duration", ...range }
+        : { raw, type: "invalid", reason: "Durations look like >30m, <1h or 15m-45m" };
+    }
+    case "has": {
+      const has = value.toLowerCase() as SearchHasValue;
+      return HAS_VALUES.includes(has)
+        ? { raw, type: "has", value: has, negated }
+        : { raw, type: "invalid", reason: `has: must be one of ${HAS_VALUES.join(", ")}` };
+    }
+    case "scope": {
+      const scope = value.toLowerCase();
+      return scope === "internal" || scope === "external"
+        ? { raw, type: "scope", value: scope }
+        : { raw, type: "invalid", reason: "Scope must be internal or external" };
+    }
+    case "tracker":
+    case "topic":
+      return { raw, type: key, value, negated };
+    default:
+      return { raw, type: "participant", value: value.toLowerCase(), negated };
+  }
+}
+
+export function tokenizeSearchQuery(input: string): SearchToken[] {
+  return splitRawTokens(input)
+    .map(parseToken)
+    .filter((token) => token.type !== "term" || token.value.trim() !== "");
+}
+
+function quoteTerm(token: Extract<SearchToken, { type: "term" }>): string {
+  return token.phrase ? `"${token.value}"` : token.value;
+}
+
+export function filtersFromTokens(tokens: SearchToken[]): SearchFilters {
+  const filters: SearchFilters = {
+    text: "",
+    excludedTerms: [],
+    from: null,
+    before: null,
+    source: null,
+    minDuration: null,
+    maxDuration: null,
+    has: {},
+    scope: null,
+    participants: [],
+    excludedParticipants: [],
+    trackers: [],
+    excludedTrackers: [],
+    topics: [],
+    excludedTopics: [],
+  };
+  const textParts: string[] = [];
+
+  // Later tokens win for single-valued filters
+  for (const token of tokens) {
+    switch (token.type) {
+      case "term":
+        if (token.negated) filters.excludedTerms.push(quoteTerm(token));
+        else textParts.push(quoteTerm(token));
+        break;
+      case "from":
+        filters.from = token.value;
+        break;
+      case "before":
+        filters.before = token.value;
+        break;
+      case "source":
+        filters.source = token.value;
+        break;
+      case "duration":
+        if (token.min !== null) filters.minDuration = token.min;
+        if (token.max !== null) filters.maxDuration = token.max;
+        break;
+      case "has":
+        filters.has[token.value] = !token.negated;
+        break;
+      case "scope":
+        filters.scope = token.value;
+        break;
+      case "participant":
+        if (token.negated) filters.excludedParticipants.push(token.value);
+        else filters.participants.push(token.value);
+        break;
+      case "tracker":
+        if (token.negated) filters.excludedTrackers.push(token.value.toLowerCase());
+        else filters.trackers.push(token.value.toLowerCase());
+        break;
+      case "topic":
+        if (token.negated) filters.excludedTopics.push(token.value.toLowerCase());
+        else filters.topics.push(token.value.toLowerCase());
+        break;
+    }
+  }
+
+  filters.text = textParts.join(" ");
+  return filters;
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const tokens = tokenizeSearchQuery(input);
+  return { tokens, filters: filtersFromTokens(tokens) };
+}
+
+// True when anything beyond positive free text narrows the results
+export function hasStructuredFilters(filters: SearchFilters): boolean {
+  return (
+    filters.excludedTerms.length > 0 ||
+    filters.from !== null ||
+    filters.before !== null ||
+    filters.source !== null ||
+    filters.minDuration !== null ||
+    filters.maxDuration !== null ||
+    Object.keys(filters.has).length > 0 ||
+    filters.scope !== null ||
+    filters.participants.length > 0 ||
+    filters.excludedParticipants.length > 0 ||
+    filters.trackers.length > 0 ||
+    filters.excludedTrackers.length > 0 ||
+    filters.topics.length > 0 ||
+    filters.excludedTopics.length > 0
+  );
+}
+
+// Tokens the search box shows as chips (plain words and phrases stay as text)
+export function isChipToken(token: SearchToken): boolean {
+  return token.type !== "term" || token.negated;
+}
+
+function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const mins = totalMinutes % 60;
+  if (hours > 0) return mins > 0 ? `${hours}h${mins}m` : `${hours}h`;
+  return `${mins}m`;
+}
+
+// Human-readable chip label
+export function searchTokenLabel(token: SearchToken): string {
+  switch (token.type) {
+    case "term":
+      return `${token.negated ? "not " : ""}${token.phrase ? `"${token.value}"` : token.value}`;
+    case "from":
+      return `from ${token.value}`;
+    case "before":
+      return `before ${token.value}`;
+    case "source":
+      return token.value === "gong" ? "Gong" : "Zoom";
+    case "duration":
+      if (token.min !== null && token.max !== null) {
+        return `${formatDuration(token.min)}–${formatDuration(token.max)}`;
+      }
+      return token.min !== null ? `> ${formatDuration(token.min)}` : `< ${formatDuration(token.max ?? 0)}`;
+    case "has":
+      return `${token.negated ? "no" : "has"} ${token.value}`;
+    case "scope":
+      return token.value === "external" ? "External calls" : "Internal calls";
+    case "participant":
+      return `${token.negated ? "without " : ""}${token.value}`;
+    case "tracker":
+      return `${token.negated ? "no " : ""}tracker: ${token.value}`;
+    case "topic":
+      return `${token.negated ? "no " : ""}topic: ${token.value}`;
+    case "invalid":
+      return token.raw;
+  }
+}
+
+// Rebuild query text from chips and the remaining free text
+export function serializeSearchQuery(tokens: SearchToken[], text: string = ""): string {
+  return [...tokens.map((token) => token.raw), text.trim()].filter(Boolean).join(" ");
+}
@@ -0,0 +1,36 @@
+// Highlight markers that FTS5 snippet() wraps around matched terms.
+// Control characters never occur in transcripts, so they can't collide with real text.
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Split a marked-up snippet into plain and matched runs
+export function parseSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = snippet;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(SNIPPET_MATCH_START);
+    if (start === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), match: false });
+    }
+    const end = rest.indexOf(SNIPPET_MATCH_END, start + 1);
+    const matchEnd = end === -1 ? rest.length : end;
+    parts.push({ text: rest.slice(start + 1, matchEnd), match: true });
+    rest = rest.slice(matchEnd + 1);
+  }
+
+  return parts.filter((p) => p.text.length > 0);
+}
+
+export function stripSnippetMarkers(snippet: string): string {
+  return snippet.split(SNIPPET_MATCH_START).join("").split(SNIPPET_MATCH_END).join("");
+}
@@ -0,0 +1,165 @@
+// Keyword trackers
+// A tracker is a named list of phrases ("Competitors": Okta, Auth0, Clerk)
+// matched against every transcript, whatever its source, so mentions can be
+// followed across calls the way Gong trackers are. Matches are whole words,
+// case-insensitive, and a segment counts once per tracker (with the first
+// phrase it matched). Like the FTS index, matches are rebuilt by whoever
+// changes a transcript, and a tracker is run over the whole library when it's
+// created or its phrases change.
+
+import type Database from "better-sqlite3";
+
+export interface KeywordTracker {
+  id: string;
+  name: string;
+  phrases: string[];
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KeywordTrackerInput {
+  name: string;
+  phrases: string[];
+}
+
+interface MatchSegment {
+  start_time: number;
+  end_time: number;
+  text: string;
+}
+
+export interface PhraseMatch {
+  phrase: string;
+  startTime: number;
+  endTime: number;
+}
+
+const MAX_PHRASES = 50;
+
+// Phrases from an array or a comma/newline separated string, deduplicated
+// case-insensitively
+export function splitTrackerPhrases(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input : typeof input === "string" ? input.split(/[,\n]/) : [];
+  const seen = new Set<string>();
+  const phrases: string[] = [];
+  for (const value of raw) {
+    if (typeof value !== "string") continue;
+    const phrase = value.trim().replace(/\s+/g, " ");
+    if (!phrase || seen.has(phrase.toLowerCase())) continue;
+    seen.add(phrase.toLowerCase());
+    phrases.push(phrase);
+  }
+  return phrases;
+}
+
+export function parseKeywordTrackerInput(
+  body: unknown
+): { tracker: KeywordTrackerInput } | { error: string } {
+  const obj = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+
+  const name = typeof obj.name === "string" ? obj.name.trim() : "";
+  if (!name) return { error: "name is required" };
+
+  const phrases = splitTrackerPhrases(obj.phrases);
+  if (phrases.length === 0) return { error: "Add at least one phrase" };
+  if (phrases.length > MAX_PHRASES) return { error: `A tracker can have at most ${MAX_PHRASES} phrases` };
+
+  return { tracker: { name, phrases } };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function phrasePattern(phrase: string): RegExp {
+  const body = phrase.split(" ").map(escapeRegExp).join("\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+// The first phrase a text mentions, or null
+export function createPhraseMatcher(phrases: string[]): (text: string) => string | null {
+  const patterns = phrases.map((phrase) => ({ phrase, pattern: phrasePattern(phrase) }));
+  return (text) => patterns.find(({ pattern }) => pattern.test(text))?.phrase ?? null;
+}
+
+export function findPhraseMatches(phrases: string[], segments: MatchSegment[]): PhraseMatch[] {
+  const match = createPhraseMatcher(phrases);
+  const matches: PhraseMatch[] = [];
+  for (const segment of segments) {
+    const phrase = match(segment.text);
+    if (phrase) {
+      matches.push({ phrase, startTime: segment.start_time, endTime: segment.end_time });
+    }
+  }
+  return matches;
+}
+
+function loadTrackers(db: Database.Database, trackerId?: string): { id: string; phrases: string[] }[] {
+  const rows = (
+    trackerId
+      ? db.prepare(`SELECT id, phrases FROM keyword_trackers WHERE id = ?`).all(trackerId)
+      : db.prepare(`SELECT id, phrases FROM keyword_trackers`).all()
+  ) as { id: string; phrases: string }[];
+  return rows.map((row) => ({ id: row.id, phrases: JSON.parse(row.phrases) as string[] }));
+}
+
+function insertMatchStatement(db: Database.Database) {
+  return db.prepare(
+    `INSERT INTO keyword_tracker_matches (tracker_id, recording_id, phrase, start_time, end_time)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+}
+
+// Replace every tracker's matches in one recording from its current segments
+export function runKeywordTrackersForRecording(db: Database.Database, recordingId: string): number {
+  const trackers = loadTrackers(db);
+  const segments = db
+    .prepare(`SELECT start_time, end_time, text FROM segments WHERE recording_id = ? ORDER BY start_time`)
+    .all(recordingId) as MatchSegment[];
+  const insert = insertMatchStatement(db);
+
+  let total = 0;
+  db.transaction(() => {
+    db.prepare(`DELETE FROM keyword_tracker_matches WHERE recording_id = ?`).run(recordingId);
+    for (const tracker of trackers) {
+      for (const match of findPhraseMatches(tracker.phrases, segments)) {
+        insert.run(tracker.id, recordingId, match.phrase, match.startTime, match.endTime);
+        total++;
+      }
+    }
+  })();
+  return total;
+}
+
+// Replace one tracker's matches across every transcript. LIKE narrows the
+// segments to ones containing a phrase's first word (whitespace between
+// words may differ) before the whole-word check.
+export function runKeywordTrackerOverLibrary(db: Database.Database, trackerId: string): number {
+  const [tracker] = loadTrackers(db, trackerId);
+  if (!tracker) return 0;
+
+  const firstWords = tracker.phrases.map((phrase) => `%${phrase.split(" ")[0].replace(/[\\%_]/g, "\\$&")}%`);
+  const candidates = db
+    .prepare(
+      `SELECT recording_id, start_time, end_time, text FROM segments
+       WHERE ${firstWords.map(() => "text LIKE ? ESCAPE '\\'").join(" OR ")}
+       ORDER BY recording_id, start_time`
+    )
+    .all(...firstWords) as (MatchSegment & { recording_id: string })[];
+  const match = createPhraseMatcher(tracker.phrases);
+  const insert = insertMatchStatement(db);
+
+  let total = 0;
+  db.transaction(() => {
+    db.prepare(`DELETE FROM keyword_tracker_matches WHERE tracker_id = ?`).run(trackerId);
+    for (const segment of candidates) {
+      const phrase = match(segment.text);
+      if (phrase) {
+        insert.run(trackerId, segment.recording_id, phrase, segment.start_time, segment.end_time);
+        total++;
+      }
+    }
+  })();
+  return total;
+}
@@ -0,0 +1,295 @@
+// Meeting series
+// Recordings of the same recurring meeting are grouped into a series. The
+// sources say so directly when they can: a recurring Zoom meeting keeps its
+// meeting ID across instances (and renames), and Gong carries the calendar
+// event, whose recurring instances share an ID prefix. Everything else is
+// linked by pattern: mostly the same attendees, at the same time of day in
+// the org's timezone (so daylight saving changes don't split a series), a
+// day or a whole number of weeks apart. A shared title isn't enough on its
+// own (unless attendees are unknown and the title is specific), so two
+// unrelated "Sync"s stay apart.
+//
+// Series are rebuilt from scratch after each sync (they're cheap to
+// compute), and a series ID is derived from its earliest instance so links to
+// it survive rebuilds.
+
+import type Database from "better-sqlite3";
+import { createHash } from "crypto";
+
+export type SeriesDetection = "zoom" | "calendar" | "pattern";
+
+export const SERIES_DETECTION_LABELS: Record<SeriesDetection, string> = {
+  zoom: "Recurring Zoom meeting",
+  calendar: "Recurring calendar event",
+  pattern: "Same people, same time",
+};
+
+// Default meeting titles that say nothing about the meeting
+export const GENERIC_TITLES = [
+  "Google Calendar Meeting (not synced)",
+  "Zoom Meeting",
+  "Personal Meeting Room",
+];
+
+// Zoom meeting types 3 and 8 are recurring meetings; a Personal Meeting Room
+// (type 4) also keeps its ID but hosts unrelated meetings
+const ZOOM_RECURRING_TYPES = [3, 8];
+
+// Recordings shorter than this (test calls, dropped connections) aren't instances
+const MIN_DURATION_SECONDS = 60;
+// Instances further apart than this are only linked through ones in between
+const MAX_GAP_DAYS = 35;
+const CADENCE_TOLERANCE_DAYS = 1;
+const TIME_OF_DAY_TOLERANCE_MINUTES = 45;
+// Share of attendees two instances have in common (Jaccard)
+const SAME_TITLE_MIN_OVERLAP = 0.5;
+const RENAMED_MIN_OVERLAP = 0.75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeriesCandidate {
+  id: string;
+  title: string;
+  createdAt: string;
+  duration: number;
+  seriesKey: string | null;
+  // Lowercased participant emails (or names, when there's no email)
+  attendees: string[];
+}
+
+export interface DetectedSeries {
+  id: string;
+  // Oldest first
+  recordingIds: string[];
+  detectedBy: SeriesDetection;
+}
+
+export function zoomSeriesKey(meeting: { id: number; type: number }): string | null {
+  return ZOOM_RECURRING_TYPES.includes(meeting.type) ? `zoom:${meeting.id}` : null;
+}
+
+// Google Calendar instances of a recurring event are "<event id>_<start>";
+// other IDs are used as-is, which only links re-syncs of the same call
+export function calendarSeriesKey(calendarEventId: string | undefined | null): string | null {
+  if (!calendarEventId) return null;
+  return `calendar:${calendarEventId.replace(/_\d{8}(T\d{6}Z?)?$/, "")}`;
+}
+
+export function normalizeSeriesTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .split(/\s+/)
+    // Dates and sequence numbers change from one instance to the next
+    .filter((word) => !/\d/.test(word))
+    .join(" ")
+    .replace(/[^\p{L}\p{N} ]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const attendee of a) if (b.has(attendee)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// ORG_TIMEZONE (an IANA name like "Europe/Berlin"), else the server's own
+export function getOrgTimeZone(): string {
+  return process.env.ORG_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Wall-clock minutes since midnight in a timezone
+function minutesOfDayIn(timeZone: string): (ms: number) => number {
+  const format = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  });
+  return (ms) => {
+    const parts = format.formatToParts(ms);
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+    return part("hour") * 60 + part("minute");
+  };
+}
+
+interface MeetingTime {
+  time: number;
+  minuteOfDay: number;
+}
+
+function hasCadence(from: MeetingTime, to: MeetingTime): boolean {
+  const minutesApart = Math.abs(from.minuteOfDay - to.minuteOfDay);
+  if (Math.min(minutesApart, 24 * 60 - minutesApart) > TIME_OF_DAY_TOLERANCE_MINUTES) {
+    return false;
+  }
+  const days = (to.time - from.time) / DAY_MS;
+  // Daily meetings, including Friday to Monday
+  if (days >= 0.5 && days <= 3.5) return true;
+  const weeks = Math.round(days / 7);
+  return weeks >= 1 && Math.abs(days - weeks * 7) <= CADENCE_TOLERANCE_DAYS;
+}
+
+function seriesId(firstRecordingId: string): string {
+  return `series-${createHash("sha1").update(firstRecordingId).digest("hex").slice(0, 10)}`;
+}
+
+// Groups recordings into series; recordings that don't recur aren't returned
+export function detectMeetingSeries(
+  candidates: SeriesCandidate[],
+  timeZone: string = getOrgTimeZone()
+): DetectedSeries[] {
+  const minutesOfDay = minutesOfDayIn(timeZone);
+  const recordings = candidates
+    .filter((c) => c.duration >= MIN_DURATION_SECONDS)
+    .map((c) => ({
+      ...c,
+      time: Date.parse(c.createdAt),
+      normalizedTitle: normalizeSeriesTitle(c.title),
+      attendeeSet: new Set(c.attendees),
+    }))
+    .filter((c) => !Number.isNaN(c.time))
+    .map((c) => ({ ...c, minuteOfDay: minutesOfDay(c.time) }))
+    .sort((a, b) => a.time - b.time);
+
+  // Union-find over recording indexes
+  const parent = recordings.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // The older root wins, so a series ID comes from its earliest instance
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  // What the sources say
+  const byKey = new Map<string, number>();
+  const keyed = new Set<number>();
+  recordings.forEach((recording, i) => {
+    if (!recording.seriesKey) return;
+    const first = byKey.get(recording.seriesKey);
+    if (first === undefined) {
+      byKey.set(recording.seriesKey, i);
+    } else {
+      union(first, i);
+      keyed.add(first);
+      keyed.add(i);
+    }
+  });
+
+  // What the pattern says
+  for (let i = 0; i < recordings.length; i++) {
+    const a = recordings[i];
+    for (let j = i + 1; j < recordings.length; j++) {
+      const b = recordings[j];
+      if (b.time - a.time > MAX_GAP_DAYS * DAY_MS) break;
+      if (find(i) === find(j) || !hasCadence(a, b)) continue;
+
+      const sameTitle = a.normalizedTitle !== "" && a.normalizedTitle === b.normalizedTitle;
+      if (a.attendeeSet.size >= 2 && b.attendeeSet.size >= 2) {
+        const shared = overlap(a.attendeeSet, b.attendeeSet);
+        if (shared >= (sameTitle ? SAME_TITLE_MIN_OVERLAP : RENAMED_MIN_OVERLAP)) union(i, j);
+      } else if (
+        // Without attendees, only a specific (several-word) title is evidence
+        sameTitle &&
+        a.normalizedTitle.includes(" ") &&
+        !GENERIC_TITLES.includes(a.title)
+      ) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  recordings.forEach((_, i) => {
+    const root = find(i);
+    const members = groups.get(root);
+    if (members) members.push(i);
+    else groups.set(root, [i]);
+  });
+
+  const series: DetectedSeries[] = [];
+  for (const [root, members] of groups) {
+    if (members.length < 2) continue;
+    const keyedMember = members.find((i) => keyed.has(i));
+    series.push({
+      id: seriesId(recordings[root].id),
+      recordingIds: members.map((i) => recordings[i].id),
+      detectedBy:
+        keyedMember === undefined
+          ? "pattern"
+          : recordings[keyedMember].seriesKey!.startsWith("zoom:")
+            ? "zoom"
+            : "calendar",
+    });
+  }
+  return series;
+}
+
+// Recompute every series from the recordings in the database. Returns the
+// number of series found
+export function rebuildMeetingSeries(db: Database.Database): number {
+  const rows = db
+    .prepare(
+      `SELECT id, COALESCE(custom_title, title) AS title, created_at, duration, series_key
+       FROM recordings`
+    )
+    .all() as {
+    id: string;
+    title: string;
+    created_at: string;
+    duration: number;
+    series_key: string | null;
+  }[];
+  const attendeeRows = db
+    .prepare(
+      `SELECT DISTINCT recording_id, LOWER(COALESCE(NULLIF(email, ''), name)) AS attendee
+       FROM participants`
+    )
+    .all() as { recording_id: string; attendee: string | null }[];
+
+  const attendees = new Map<string, string[]>();
+  for (const row of attendeeRows) {
+    if (!row.attendee) continue;
+    attendees.set(row.recording_id, [...(attendees.get(row.recording_id) ?? []), row.attendee]);
+  }
+
+  const detected = detectMeetingSeries(
+    rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      createdAt: row.created_at,
+      duration: row.duration,
+      seriesKey: row.series_key,
+      attendees: attendees.get(row.id) ?? [],
+    }))
+  );
+  const titles = new Map(rows.map((row) => [row.id, row.title]));
+
+  const insertSeries = db.prepare(
+    `INSERT INTO meeting_series (id, title, detected_by, updated_at) VALUES (?, ?, ?, ?)`
+  );
+  const assign = db.prepare(`UPDATE recordings SET series_id = ? WHERE id = ?`);
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare(`UPDATE recordings SET series_id = NULL WHERE series_id IS NOT NULL`).run();
+    db.prepare(`DELETE FROM meeting_series`).run();
+    for (const series of detected) {
+      // Named after the latest instance, so renames carry over
+      const latest = series.recordingIds[series.recordingIds.length - 1];
+      insertSeries.run(series.id, titles.get(latest), series.detectedBy, now);
+      for (const recordingId of series.recordingIds) {
+        assign.run(series.id, recordingId);
+      }
+    }
+  })();
+
+  return detected.length;
+}
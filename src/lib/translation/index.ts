@@ -0,0 +1,78 @@
+// Transcript translation
+// Transcripts are translated on demand from the player or in batches
+// (src/lib/jobs/translate.ts), and each translation is cached per recording
+// and language in transcript_translations. Translations are made from the
+// stored, redacted text and are dropped when the transcript is synced or
+// redacted again. Language codes are ISO 639-1 (./languages.ts).
+
+import { getLLMClient, getModelId, type LLMClient } from "@/lib/ai/client";
+import { translateTranscript } from "@/lib/ai/translate";
+import {
+  getSegmentsByRecordingId,
+  getTranscriptTranslation,
+  upsertTranscriptTranslation,
+  type RecordingRow,
+} from "@/lib/db";
+import type { TranscriptTranslation } from "@/types/video";
+
+export * from "./languages";
+
+export function getStoredTranslation(recordingId: string, language: string): TranscriptTranslation | null {
+  const row = getTranscriptTranslation(recordingId, language);
+  if (!row) return null;
+  return {
+    language: row.language,
+    segments: JSON.parse(row.content) as TranscriptTranslation["segments"],
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
+
+export function countUntranslated(translation: Pick<TranscriptTranslation, "segments">): number {
+  return translation.segments.filter((segment) => segment.untranslated).length;
+}
+
+// Translate the recording's transcript and cache it, replacing any cached
+// translation into the same language. With `previous`, only the lines it
+// couldn't translate are sent again.
+export async function translateRecording(
+  recording: Pick<RecordingRow, "id" | "language">,
+  language: string,
+  client: LLMClient = getLLMClient("translation"),
+  options: { previous?: TranscriptTranslation } = {}
+): Promise<TranscriptTranslation> {
+  const segments = getSegmentsByRecordingId(recording.id);
+  if (segments.length === 0) {
+    throw new Error("No transcript available for this recording");
+  }
+
+  const kept = new Map(
+    (options.previous?.segments ?? [])
+      .filter((segment) => !segment.untranslated)
+      .map((segment) => [segment.id, segment])
+  );
+  const translated = new Map(
+    (
+      await translateTranscript(
+        segments.filter((s) => !kept.has(s.id)).map((s) => ({ id: s.id, text: s.text })),
+        language,
+        client,
+        { sourceLanguage: recording.language ?? undefined }
+      )
+    ).map((segment) => [segment.id, segment])
+  );
+
+  const translation: TranscriptTranslation = {
+    language,
+    segments: segments.map((s) => kept.get(s.id) ?? translated.get(s.id)!),
+    model: getModelId(client),
+    createdAt: new Date().toISOString(),
+  };
+  upsertTranscriptTranslation({
+    recordingId: recording.id,
+    language,
+    content: JSON.stringify(translation.segments),
+    model: translation.model,
+  });
+  return translation;
+}
@@ -0,0 +1,55 @@
+// Languages transcripts can be translated into, by ISO 639-1 code. Shared by
+// the translation routes and the language switchers, so it has no server
+// imports.
+
+export interface TranscriptLanguage {
+  code: string;
+  label: string;
+}
+
+export const TRANSCRIPT_LANGUAGES: TranscriptLanguage[] = [
+  { code: "en", label: "English" },
+  { code: "de", label: "German" },
+  { code: "fr", label: "French" },
+  { code: "ja", label: "Japanese" },
+  { code: "es", label: "Spanish" },
+  { code: "it", label: "Italian" },
+  { code: "pt", label: "Portuguese" },
+  { code: "nl", label: "Dutch" },
+  { code: "zh", label: "Chinese" },
+  { code: "ko", label: "Korean" },
+];
+
+// Gong reports ISO 639-2 codes ("eng", "deu" or "ger", ...)
+const THREE_LETTER_CODES: Record<string, string> = {
+  eng: "en",
+  deu: "de",
+  ger: "de",
+  fra: "fr",
+  fre: "fr",
+  jpn: "ja",
+  spa: "es",
+  ita: "it",
+  por: "pt",
+  nld: "nl",
+  dut: "nl",
+  zho: "zh",
+  chi: "zh",
+  kor: "ko",
+};
+
+// A source's language code as a TRANSCRIPT_LANGUAGES code when there is one
+// ("deu", "de-DE" -> "de"), otherwise lowercased; null when unknown
+export function normalizeLanguage(code: string | null | undefined): string | null {
+  const primary = code?.trim().toLowerCase().split(/[-_]/)[0];
+  if (!primary || primary === "und" || primary === "unknown") return null;
+  return THREE_LETTER_CODES[primary] ?? primary;
+}
+
+export function isTranscriptLanguage(code: string): boolean {
+  return TRANSCRIPT_LANGUAGES.some((language) => language.code === code);
+}
+
+export function languageLabel(code: string): string {
+  return TRANSCRIPT_LANGUAGES.find((language) => language.code === code)?.label ?? code;
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth/session";
+
+// Routes reachable without a session: the sign-in page and the OIDC flow itself
+function isPublicPath(pathname: string): boolean {
+  return pathname === "/login" || pathname.startsWith("/api/auth/");
+}
+
+export default async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (isPublicPath(pathname)) {
+    return NextResponse.next();
+  }
+
+  // Fails closed: without AUTH_SECRET no token verifies, so nothing is served
+  const session = await verifySessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("returnTo", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Everything except Next.js internals and public branding assets
+  // (preview GIFs are frames from recordings, so they stay protected)
+  matcher: [
+    "/((?!_next/static|_next/image|favicon.ico|logo.png).*)",
+  ],
+};
@@ -24,7 +24,17 @@ export interface GongCallMedia {
 export interface GongCallsListResponse {
   requestId: string;
   records: GongPaginationRecords;
-  calls: { metaData: GongCall; parties?: GongParty[]; media?: GongCallMedia }[];
+  calls: GongCallListEntry[];
+}
+
+// content and interaction are only returned when selected in
+// contentSelector.exposedFields
+export interface GongCallListEntry {
+  metaData: GongCall;
+  parties?: GongParty[];
+  media?: GongCallMedia;
+  content?: GongCallExtensive["content"];
+  interaction?: GongCallExtensive["interaction"];
 }
 
 export interface GongCall {
@@ -13,10 +13,74 @@ export interface ChatMessage {
   message: string;
 }
 
+// Timestamps are seconds from the start of the recording
+export interface SummaryChapter {
+  title: string;
+  startTime: number;
+  summary: string;
+}
+
+// A decision, open question or risk/objection raised in the call
+export interface SummaryMoment {
+  text: string;
+  timestamp: number | null;
+}
+
+export interface SummaryActionItem {
+  text: string;
+  owner: string | null;
+  // YYYY-MM-DD
+  dueDate: string | null;
+  timestamp: number | null;
+}
+
+export type SummarySentiment = "positive" | "neutral" | "negative" | "mixed";
+
+// A section defined by the summary template, e.g. "Pain Points" for sales calls
+export interface SummarySection {
+  id: string;
+  title: string;
+  items: SummaryMoment[];
+}
+
+export const SUMMARY_VERSION = 2;
+
 export interface AISummary {
+  version: typeof SUMMARY_VERSION;
   brief: string;
   keyPoints: string[];
-  nextSteps: string[];
+  chapters: SummaryChapter[];
+  decisions: SummaryMoment[];
+  openQuestions: SummaryMoment[];
+  risks: SummaryMoment[];
+  actionItems: SummaryActionItem[];
+  sentiment: { overall: SummarySentiment; notes: string } | null;
+  sections: SummarySection[];
+  // The template the summary was generated with (null before templates)
+  template: { id: string; name: string } | null;
+}
+
+export type SeriesActionItemStatus = "addressed" | "not-addressed" | "unclear";
+
+// An action item from an earlier meeting in the series, as followed up on
+export interface SeriesDigestActionItem {
+  text: string;
+  owner: string | null;
+  status: SeriesActionItemStatus;
+  notes: string | null;
+  // Where it came up in this meeting
+  timestamp: number | null;
+}
+
+// What changed since the previous meeting(s) of a recurring series.
+// Timestamps point into the current meeting.
+export interface SeriesDigest {
+  brief: string;
+  whatsNew: SummaryMoment[];
+  changedDecisions: (SummaryMoment & { previously: string | null })[];
+  actionItems: SeriesDigestActionItem[];
+  // The meetings compared against, most recent first
+  previous: { id: string; title: string; createdAt: string }[];
 }
 
 export interface Speaker {
@@ -46,6 +110,8 @@ export interface Recording {
   space: string;
   source?: string; // 'zoom' | 'gong', defaults to 'zoom'
   mediaType?: "video" | "audio"; // For Gong audio-only calls
+  // Spoken language as an ISO 639-1 code, when the source reports it
+  language?: string;
   createdAt: string;
   speakers: Speaker[];
   transcript: TranscriptSegment[];
@@ -61,6 +127,117 @@ export interface Clip {
   createdAt: string;
 }
 
+// A Gong or keyword tracker and where it was mentioned, in seconds
+export interface RecordingTracker {
+  // Keyword trackers only; Gong trackers are known by name
+  id?: string;
+  name: string;
+  count: number;
+  occurrences: { startTime: number; endTime: number }[];
+}
+
+export interface TopicSpan {
+  name: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface RecordingTopic {
+  name: string;
+  // Seconds spent on the topic across the call
+  duration: number;
+}
+
+// Gong's call-level interaction stats; talkRatio is the company's share (0-1)
+export interface InteractionStats {
+  talkRatio: number | null;
+  interactivity: number | null;
+  longestMonologue: number | null;
+  companyQuestions: number | null;
+  nonCompanyQuestions: number | null;
+}
+
+// Conversation metrics for one speaker in a recording, computed from the
+// transcript (see src/lib/analytics/conversation.ts). Times are in seconds
+export interface SpeakerConversationStats {
+  speaker: string;
+  // The participant the speaker resolved to, when unambiguous
+  email: string | null;
+  talkTime: number;
+  // Share of all talk time in the call (0-1)
+  talkRatio: number;
+  longestMonologue: number;
+  turns: number;
+  interruptions: number;
+  questions: number;
+  words: number;
+  // Null when the speaker said too little to tell
+  wordsPerMinute: number | null;
+  // Coaching signals. Filler words by filler ("um", "you know"), only ones used
+  fillers: Record<string, number>;
+  fillerWords: number;
+  // Times the speaker took the floor from someone else, and their average
+  // pause before doing so (null when they never did)
+  responses: number;
+  patience: number | null;
+  // Whether the speaker is from outside the org (null when unknown), and
+  // their responses to and interruptions of speakers who are
+  external: boolean | null;
+  customerResponses: number;
+  customerInterruptions: number;
+}
+
+export type RedactionKind = "email" | "phone" | "card" | "ssn" | "address" | "number";
+
+// Personal data removed from a transcript segment (see src/lib/redaction),
+// with the stretch of audio it was spoken in, in seconds. Times are estimated
+// from where the text fell in its segment, so they're padded
+export interface TranscriptRedaction {
+  segmentId: string;
+  kind: RedactionKind;
+  startTime: number;
+  endTime: number;
+}
+
+// A transcript translated into another language (see src/lib/translation),
+// with the text of each segment by id
+export interface TranscriptTranslation {
+  language: string;
+  // untranslated marks lines the model never returned, kept in the original
+  segments: { id: string; text: string; untranslated?: boolean }[];
+  model: string;
+  createdAt: string;
+}
+
+// Everything Gong tells us about a call beyond the transcript
+export interface RecordingInsights {
+  trackers: RecordingTracker[];
+  topics: RecordingTopic[];
+  topicSpans: TopicSpan[];
+  stats: InteractionStats | null;
+}
+
+export type ActionItemStatus = "open" | "done";
+
+// An action item from a summary, tracked across recordings
+export interface ActionItem {
+  id: number;
+  recordingId: string;
+  recordingTitle: string;
+  recordedAt: string;
+  text: string;
+  // As named in the meeting
+  owner: string | null;
+  // The participant the owner resolved to, when unambiguous
+  ownerEmail: string | null;
+  // YYYY-MM-DD
+  dueDate: string | null;
+  timestamp: number | null;
+  status: ActionItemStatus;
+  completedAt: string | null;
+  completedBy: string | null;
+}
+
 export interface PlaybackState {
   isPlaying: boolean;
   currentTime: number;
@@ -87,6 +264,15 @@ export function findCurrentSegment(
   );
 }
 
+// The segments with their translated text; untranslated segments keep theirs
+export function applyTranslation(
+  segments: TranscriptSegment[],
+  translation: Pick<TranscriptTranslation, "segments">
+): TranscriptSegment[] {
+  const texts = new Map(translation.segments.map((segment) => [segment.id, segment.text]));
+  return segments.map((segment) => ({ ...segment, text: texts.get(segment.id) ?? segment.text }));
+}
+
 function formatVttTime(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const mins = Math.floor((seconds % 3600) / 60);
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getActionItems, updateActionItemStatus, upsertSummary } from "@/lib/db";
+import { insertRecording } from "./helpers";
+
+const admin = { email: "admin@example.com", isAdmin: true };
+
+function saveSummary(recordingId: string, actionItems: { text: string; owner?: string; timestamp: string }[]) {
+  upsertSummary({
+    recordingId,
+    model: "fake:fake",
+    content: JSON.stringify({
+      brief: "Pricing follow-up",
+      keyPoints: [],
+      actionItems: actionItems.map((item) => ({ owner: null, dueDate: null, ...item })),
+    }),
+  });
+}
+
+function itemsOf(recordingId: string) {
+  return getActionItems(admin, { recordingId }).map((item) => ({ text: item.text, status: item.status }));
+}
+
+describe("action item sync", () => {
+  it("keeps the status of items the regenerated summary rewords", () => {
+    insertRecording({ id: "pricing" });
+    saveSummary("pricing", [
+      { text: "Send Acme the pricing deck", owner: "Ana", timestamp: "1:00" },
+      { text: "Book the security review", timestamp: "2:00" },
+      { text: "Check the contract redlines", timestamp: "3:00" },
+    ]);
+    const [deck, review] = getActionItems(admin, { recordingId: "pricing" }).sort((a, b) => a.timestamp! - b.timestamp!);
+    updateActionItemStatus(deck.id, "done", admin.email);
+    updateActionItemStatus(review.id, "done", admin.email);
+
+    saveSummary("pricing", [
+      { text: "Send the updated pricing deck to Acme.", owner: "Ana", timestamp: "1:05" },
+      { text: "Check contract redlines", timestamp: "3:00" },
+      { text: "Schedule a demo for the Acme team", timestamp: "4:00" },
+    ]);
+
+    assert.deepEqual(
+      itemsOf("pricing").sort((a, b) => a.text.localeCompare(b.text)),
+      [
+        // Dropped by the new summary, but already done
+        { text: "Book the security review", status: "done" },
+        { text: "Check contract redlines", status: "open" },
+        { text: "Schedule a demo for the Acme team", status: "open" },
+        { text: "Send the updated pricing deck to Acme.", status: "done" },
+      ]
+    );
+    const deckAfter = getActionItems(admin, { recordingId: "pricing" }).find((item) => item.id === deck.id);
+    assert.equal(deckAfter?.timestamp, 65);
+  });
+
+  it("removes open items the new summary leaves out", () => {
+    insertRecording({ id: "standup" });
+    saveSummary("standup", [
+      { text: "Fix the flaky login test", timestamp: "0:30" },
+      { text: "Write the release notes", timestamp: "1:30" },
+    ]);
+    saveSummary("standup", [{ text: "Write release notes for 2.4", timestamp: "1:30" }]);
+
+    assert.deepEqual(itemsOf("standup"), [{ text: "Write release notes for 2.4", status: "open" }]);
+  });
+});
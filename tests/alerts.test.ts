@@ -0,0 +1,255 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo, LookupFunction } from "node:net";
+import { after, before, describe, it, mock } from "node:test";
+import { isPublicAddress, isPublicHostname } from "@/lib/alerts/addresses";
+import {
+  checkAlertsForRecording,
+  createInboxChannel,
+  createWebhookChannel,
+  parseAlertRuleInput,
+  type AlertNotification,
+  type AlertRule,
+  type NotificationChannel,
+} from "@/lib/alerts";
+import { getDb, getNotifications, insertAlertRule } from "@/lib/db";
+import { insertRecording } from "./helpers";
+
+// The real inbox, and email and webhook channels that remember what they were
+// sent (or fail, for `failing`)
+function testChannels(failing?: "email" | "webhook") {
+  const sent: { channel: string; notification: AlertNotification }[] = [];
+  const sink = (channel: "email" | "webhook"): NotificationChannel => ({
+    async deliver(notification) {
+      if (channel === failing) throw new Error(`${channel} is down`);
+      sent.push({ channel, notification });
+    },
+  });
+  return {
+    sent,
+    channels: { inbox: createInboxChannel(getDb()), email: sink("email"), webhook: sink("webhook") },
+  };
+}
+
+describe("webhook hosts", () => {
+  it("only allows public addresses", () => {
+    for (const address of ["8.8.8.8", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.100.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:7f00:1",
+      "64:ff9b::a00:1",
+      "not an address",
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects local hostnames", () => {
+    assert.equal(isPublicHostname("hooks.example.com"), true);
+    const local = ["localhost", "api.localhost", "intranet", "printer.local", "metadata.google.internal", "[::1]"];
+    for (const host of local) {
+      assert.equal(isPublicHostname(host), false, host);
+    }
+  });
+
+  it("refuses rules with webhooks on private networks", () => {
+    const rule = (webhookUrl: string) =>
+      parseAlertRuleInput({ kind: "phrase", value: "pricing", channels: ["webhook"], webhookUrl });
+
+    assert.ok("rule" in rule("https://hooks.example.com/alerts"));
+    // URL parsing normalizes the many spellings of an address first
+    const loopback = ["http://127.1:8080/", "http://2130706433/", "http://0x7f.0.0.1/", "http://[::ffff:127.0.0.1]/"];
+    for (const url of loopback) {
+      assert.match((rule(url) as { error: string }).error, /public host/, url);
+    }
+  });
+});
+
+describe("webhook channel", () => {
+  // A local sink that answers with `status` and remembers what was posted
+  const received: { url: string; body: unknown }[] = [];
+  let status = 204;
+  const server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ url: request.url ?? "", body: JSON.parse(body) });
+      response.writeHead(status).end();
+    });
+  });
+  // Stands in for DNS: every host is the sink
+  const toSink: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address: "127.0.0.1", family: 4 }]);
+    else callback(null, "127.0.0.1", 4);
+  };
+
+  before(() => new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve)));
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  function notificationTo(path: string): AlertNotification {
+    const { port } = server.address() as AddressInfo;
+    const rule: AlertRule = {
+      id: "hook-rule",
+      userEmail: "gus@example.com",
+      kind: "phrase",
+      value: "renewal",
+      channels: ["webhook"],
+      webhookUrl: `http://hooks.example.com:${port}${path}`,
+      enabled: true,
+      createdAt: "2026-01-05T15:00:00.000Z",
+    };
+    return {
+      rule,
+      recordingId: "renewal-call",
+      recordingTitle: "Renewal call",
+      text: "Let's talk about the renewal",
+      timestamp: 30,
+      url: "http://localhost:3000/recordings/renewal-call?t=30",
+    };
+  }
+
+  it("posts the alert as JSON", async () => {
+    await createWebhookChannel({ lookup: toSink }).deliver(notificationTo("/alerts"));
+
+    assert.deepEqual(received.pop(), {
+      url: "/alerts",
+      body: {
+        type: "alert",
+        title: '"renewal" was mentioned in Renewal call',
+        rule: { id: "hook-rule", kind: "phrase", value: "renewal" },
+        recording: { id: "renewal-call", title: "Renewal call" },
+        match: { text: "Let's talk about the renewal", timestamp: 30 },
+        url: "http://localhost:3000/recordings/renewal-call?t=30",
+      },
+    });
+  });
+
+  it("fails on a non-2xx reply", async () => {
+    status = 302;
+    try {
+      await assert.rejects(
+        createWebhookChannel({ lookup: toSink }).deliver(notificationTo("/moved")),
+        /Webhook returned 302/
+      );
+    } finally {
+      status = 204;
+    }
+  });
+
+  it("refuses local hosts unless told how to resolve them", async () => {
+    const notification = notificationTo("/alerts");
+    const local = { ...notification, rule: { ...notification.rule, webhookUrl: "http://localhost/alerts" } };
+    const posted = received.length;
+    await assert.rejects(createWebhookChannel().deliver(local), /isn't public/);
+    assert.equal(received.length, posted);
+  });
+});
+
+describe("checkAlertsForRecording", () => {
+  it("delivers a matching phrase to every channel of the rule, once per recording", async () => {
+    insertAlertRule(
+      "phrase-rule",
+      { kind: "phrase", value: "pricing", channels: ["inbox", "webhook"], webhookUrl: "https://hooks.example.com/a" },
+      "ana@example.com"
+    );
+    insertRecording({
+      id: "acme-call",
+      title: "Acme call",
+      lines: [
+        ["Ben", "Thanks for joining"],
+        ["Cy", "Can we talk about pricing for next year?"],
+      ],
+    });
+
+    const { sent, channels } = testChannels();
+    await checkAlertsForRecording(getDb(), "acme-call", channels);
+
+    const [notification] = getNotifications("ana@example.com");
+    assert.equal(notification.title, '"pricing" was mentioned in Acme call');
+    assert.equal(notification.body, "Can we talk about pricing for next year?");
+    assert.match(notification.url, /\/recordings\/acme-call\?t=10$/);
+    assert.deepEqual(
+      sent.map(({ channel, notification }) => [channel, notification.rule.id, notification.timestamp]),
+      [["webhook", "phrase-rule", 10]]
+    );
+
+    // A re-sync doesn't alert again
+    await checkAlertsForRecording(getDb(), "acme-call", channels);
+    assert.equal(getNotifications("ana@example.com").length, 1);
+    assert.equal(sent.length, 1);
+  });
+
+  it("fires domain rules for a recording without a transcript", async () => {
+    insertAlertRule(
+      "domain-rule",
+      { kind: "domain", value: "globex.com", channels: ["email"], webhookUrl: null },
+      "dee@example.com"
+    );
+    insertRecording({
+      id: "globex-intro",
+      participants: [
+        { name: "Dee", email: "dee@example.com" },
+        { name: "Hank", email: "hank@eu.globex.com" },
+      ],
+    });
+
+    const { sent, channels } = testChannels();
+    await checkAlertsForRecording(getDb(), "globex-intro", channels);
+
+    assert.deepEqual(
+      sent.map(({ channel, notification }) => [channel, notification.text]),
+      [["email", "hank@eu.globex.com"]]
+    );
+  });
+
+  it("skips recordings the rule owner can't see", async () => {
+    insertAlertRule(
+      "private-rule",
+      { kind: "speaker", value: "Ivy", channels: ["inbox"], webhookUrl: null },
+      "eve@example.com"
+    );
+    insertRecording({
+      id: "board",
+      visibility: "private",
+      ownerEmail: "owner@example.com",
+      lines: [["Ivy", "Board update"]],
+    });
+
+    await checkAlertsForRecording(getDb(), "board", testChannels().channels);
+
+    assert.deepEqual(getNotifications("eve@example.com"), []);
+  });
+
+  it("keeps delivering to other channels when one fails, and reports the failure", async () => {
+    const warn = mock.method(console, "warn", () => {});
+    insertAlertRule(
+      "flaky-rule",
+      { kind: "speaker", value: "Jo", channels: ["webhook", "inbox"], webhookUrl: "https://hooks.example.com/b" },
+      "fay@example.com"
+    );
+    insertRecording({ id: "standup", lines: [["Jo", "Nothing blocking"]] });
+
+    try {
+      await checkAlertsForRecording(getDb(), "standup", testChannels("webhook").channels);
+    } finally {
+      warn.mock.restore();
+    }
+
+    assert.equal(getNotifications("fay@example.com").length, 1);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /webhook alert for fay@example.com on standup failed/);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { askLibrary } from "@/lib/ai/ask";
+import { createFakeClient, type LLMRequest } from "@/lib/ai/client";
+import { createHashingEmbedder } from "@/lib/search/embeddings";
+import { insertRecording } from "./helpers";
+
+const viewer = { email: "member@example.com", isAdmin: false };
+const embedder = createHashingEmbedder();
+const now = new Date("2026-03-15T12:00:00Z");
+
+// Replies with a fixed answer and remembers the prompt it was sent
+function stubModel(answer: string) {
+  const requests: LLMRequest[] = [];
+  const client = createFakeClient((request) => {
+    requests.push(request);
+    return answer;
+  });
+  return { client, requests };
+}
+
+function promptOf(request: LLMRequest): string {
+  const content = request.messages[0].content;
+  return typeof content === "string" ? content : "";
+}
+
+describe("askLibrary", () => {
+  before(() => {
+    insertRecording({
+      id: "renewal",
+      title: "Acme renewal",
+      createdAt: "2026-02-10T16:00:00.000Z",
+      lines: [
+        ["Ana", "Acme asked for a discount on the renewal"],
+        ["Ben", "We can offer ten percent if they sign for two years"],
+        ["Ana", "Noted"],
+        ["Ben", "Their procurement team wants the renewal paperwork by Friday"],
+      ],
+    });
+    insertRecording({
+      id: "old-renewal",
+      title: "Renewal last year",
+      createdAt: "2025-06-01T16:00:00.000Z",
+      lines: [["Cy", "The renewal discount was five percent last year"]],
+    });
+  });
+
+  it("keeps citations that point at retrieved passages and drops the rest", async () => {
+    const { client, requests } = stubModel("They asked for a renewal discount [1], offered ten percent [1, 9] [42].");
+    const result = await askLibrary(viewer, "What did Acme say about the renewal discount?", {
+      client,
+      embedder,
+      now,
+    });
+
+    assert.equal(requests.length, 1);
+    assert.match(promptOf(requests[0]), /\[1\] "/);
+    assert.equal(result.answer, "They asked for a renewal discount [1], offered ten percent [1].");
+    assert.equal(result.citations.length, 1);
+
+    const [citation] = result.citations;
+    assert.equal(citation.index, 1);
+    assert.ok(["renewal", "old-renewal"].includes(citation.recordingId));
+    assert.equal(citation.url, `/recordings/${citation.recordingId}?t=${Math.floor(citation.startTime)}`);
+    assert.match(citation.text, /renewal/i);
+    assert.equal(result.model, "fake:fake");
+  });
+
+  it("limits retrieval to relative dates in the question", async () => {
+    const { client, requests } = stubModel("Only this year's call [1].");
+    const result = await askLibrary(viewer, "What discount did we discuss for the renewal this year?", {
+      client,
+      embedder,
+      now,
+    });
+
+    assert.ok(result.passageCount > 0);
+    assert.doesNotMatch(promptOf(requests[0]), /Renewal last year/);
+    assert.deepEqual(
+      result.citations.map((c) => c.recordingId),
+      ["renewal"]
+    );
+  });
+
+  it("answers without the model when nothing matches", async () => {
+    const { client, requests } = stubModel("should not be called [1]");
+    const result = await askLibrary(viewer, "Did anyone mention kubernetes?", { client, embedder, now });
+
+    assert.equal(requests.length, 0);
+    assert.equal(result.citations.length, 0);
+    assert.equal(result.passageCount, 0);
+    assert.equal(result.model, null);
+  });
+});
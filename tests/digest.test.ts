@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createFileTransport, sendWeeklyDigests } from "@/lib/digest";
+import { setWeeklyDigestEnabled, upsertSummary, upsertUserOnLogin } from "@/lib/db";
+import { insertRecording } from "./helpers";
+
+const now = new Date("2026-03-15T12:00:00Z");
+const outbox = mkdtempSync(join(tmpdir(), "worktv-digest-"));
+
+function signIn(email: string) {
+  upsertUserOnLogin({ id: email, email, name: null, idpSubject: email, role: "member" });
+}
+
+// The .eml files written so far, by recipient
+function readOutbox(): Map<string, string> {
+  const messages = new Map<string, string>();
+  for (const name of readdirSync(outbox)) {
+    const message = readFileSync(join(outbox, name), "utf8");
+    const to = /^To: <(.+)>$/m.exec(message)![1];
+    messages.set(to, message);
+  }
+  return messages;
+}
+
+describe("sendWeeklyDigests", () => {
+  before(() => {
+    for (const email of ["ana@example.com", "ben@example.com", "cy@example.com"]) signIn(email);
+    setWeeklyDigestEnabled("ben@example.com", false);
+
+    insertRecording({
+      id: "planning",
+      title: "Q2 planning",
+      createdAt: "2026-03-12T15:00:00.000Z",
+      participants: [
+        { name: "Ana", email: "ana@example.com" },
+        { name: "Ben", email: "ben@example.com" },
+      ],
+    });
+    upsertSummary({
+      recordingId: "planning",
+      model: "fake:fake",
+      content: JSON.stringify({
+        brief: "Agreed the Q2 roadmap",
+        keyPoints: [],
+        actionItems: [{ text: "Draft the launch plan", owner: "Ana", dueDate: null, timestamp: "0:00" }],
+      }),
+    });
+    // Ana was invited but the owner kept it private
+    insertRecording({
+      id: "board",
+      title: "Board prep",
+      createdAt: "2026-03-13T15:00:00.000Z",
+      visibility: "private",
+      ownerEmail: "owner@example.com",
+      participants: [{ name: "Ana", email: "ana@example.com" }],
+    });
+    // Before the week
+    insertRecording({
+      id: "kickoff",
+      title: "Kickoff",
+      createdAt: "2026-02-20T15:00:00.000Z",
+      participants: [{ name: "Ana", email: "ana@example.com" }],
+    });
+  });
+
+  after(() => rmSync(outbox, { recursive: true, force: true }));
+
+  it("emails each person their week and skips opted-out and empty digests", async () => {
+    const events: { email: string; status: string; reason?: string }[] = [];
+    const result = await sendWeeklyDigests(createFileTransport(outbox), {
+      now,
+      onEvent: (event) => events.push(event),
+    });
+
+    assert.deepEqual(result, { sent: 1, skipped: 1, failed: 0 });
+    assert.deepEqual(events, [
+      { email: "ana@example.com", status: "sent" },
+      { email: "cy@example.com", status: "skipped", reason: "nothing to report" },
+    ]);
+
+    const messages = readOutbox();
+    assert.deepEqual([...messages.keys()], ["ana@example.com"]);
+    const message = messages.get("ana@example.com")!;
+    assert.match(message, /^Subject: Your week in WorkTV: 1 meeting, 1 open action item$/m);
+    assert.match(message, /^Content-Type: multipart\/alternative/m);
+    assert.match(message, /Q2 planning/);
+    assert.match(message, /Agreed the Q2 roadmap/);
+    assert.match(message, /Draft the launch plan/);
+    assert.doesNotMatch(message, /Board prep|Kickoff/);
+  });
+
+  it("doesn't email anyone twice in a week unless forced", async () => {
+    const later = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000);
+    const rerun = await sendWeeklyDigests(createFileTransport(outbox), { now: later });
+    assert.deepEqual(rerun, { sent: 0, skipped: 2, failed: 0 });
+    assert.equal(readdirSync(outbox).length, 1);
+
+    const forced = await sendWeeklyDigests(createFileTransport(outbox), {
+      now: later,
+      force: true,
+      only: ["ana@example.com"],
+    });
+    assert.deepEqual(forced, { sent: 1, skipped: 0, failed: 0 });
+    assert.equal(readdirSync(outbox).length, 2);
+  });
+
+  it("reports failed sends without recording them as delivered", async () => {
+    const nextWeek = new Date(now.getTime() + 8 * 24 * 60 * 60 * 1000);
+    const failing = { send: () => Promise.reject(new Error("relay refused")) };
+    const events: { email: string; status: string; reason?: string }[] = [];
+
+    const result = await sendWeeklyDigests(failing, {
+      now: nextWeek,
+      only: ["ana@example.com"],
+      onEvent: (event) => events.push(event),
+    });
+    assert.deepEqual(result, { sent: 0, skipped: 0, failed: 1 });
+    assert.match(events[0].reason ?? "", /relay refused/);
+
+    // Retried on the next run
+    const retry = await sendWeeklyDigests(createFileTransport(outbox), { now: nextWeek, only: ["ana@example.com"] });
+    assert.deepEqual(retry, { sent: 1, skipped: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,57 @@
+// Fixtures shared by the tests. Everything goes through getDb(), which
+// tests/setup.ts points at a fresh in-memory database per test file.
+
+import { getDb } from "@/lib/db";
+import { rebuildTranscriptChunks } from "@/lib/search/chunks";
+import { reindexRecordingSearch } from "@/lib/search/fts";
+
+export interface RecordingFixture {
+  id: string;
+  title?: string;
+  createdAt?: string;
+  source?: string;
+  visibility?: string;
+  ownerEmail?: string;
+  // Seconds; passage search skips recordings under a minute
+  duration?: number;
+  // [speaker, text] lines, 10 seconds apart
+  lines?: [string, string][];
+  participants?: { name: string; email?: string }[];
+}
+
+export function insertRecording(fixture: RecordingFixture): void {
+  const db = getDb();
+  const createdAt = fixture.createdAt ?? "2026-01-05T15:00:00.000Z";
+  const lines = fixture.lines ?? [];
+  db.prepare(
+    `INSERT INTO recordings (id, title, video_url, duration, source, created_at, synced_at, visibility, owner_email)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    fixture.id,
+    fixture.title ?? fixture.id,
+    `https://example.com/${fixture.id}.mp4`,
+    fixture.duration ?? 600,
+    fixture.source ?? "zoom",
+    createdAt,
+    createdAt,
+    fixture.visibility ?? "org",
+    fixture.ownerEmail ?? null
+  );
+
+  const insertSegment = db.prepare(
+    `INSERT INTO segments (id, recording_id, start_time, end_time, speaker, text) VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  lines.forEach(([speaker, text], index) => {
+    insertSegment.run(`${fixture.id}-${index}`, fixture.id, index * 10, index * 10 + 9, speaker, text);
+  });
+
+  const insertParticipant = db.prepare(
+    `INSERT INTO participants (id, recording_id, name, email) VALUES (?, ?, ?, ?)`
+  );
+  (fixture.participants ?? []).forEach((participant, index) => {
+    insertParticipant.run(`${fixture.id}-p${index}`, fixture.id, participant.name, participant.email ?? null);
+  });
+
+  reindexRecordingSearch(db, fixture.id);
+  rebuildTranscriptChunks(db, fixture.id);
+}
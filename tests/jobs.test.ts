@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { LLMRateLimitError } from "@/lib/ai/client";
+import { getDb } from "@/lib/db";
+import {
+  claimNextJob,
+  enqueueJob,
+  PermanentJobError,
+  requeueStaleJobs,
+  runJobs,
+  type JobEvent,
+  type JobRow,
+  type RunJobsOptions,
+} from "@/lib/jobs";
+
+const start = Date.parse("2026-03-02T09:00:00.000Z");
+
+// The clock only moves when the runner sleeps
+beforeEach(() => mock.timers.enable({ apis: ["Date"], now: start }));
+afterEach(() => mock.timers.reset());
+
+function run(batchId: string, handler: (payload: { name: string }) => Promise<void>, options: RunJobsOptions = {}) {
+  const events: JobEvent[] = [];
+  const sleeps: number[] = [];
+  const result = runJobs(getDb(), { summarize: (payload) => handler(payload as { name: string }) }, {
+    batchId,
+    retryDelayMs: 1000,
+    rateLimitDelayMs: 1000,
+    onEvent: (event) => events.push(event),
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      mock.timers.tick(ms);
+    },
+    ...options,
+  });
+  return { result, events, sleeps };
+}
+
+function queue(batchId: string, name: string, maxAttempts?: number): number {
+  return enqueueJob(getDb(), { type: "summarize", payload: { name }, batchId, maxAttempts })!;
+}
+
+function jobRow(id: number): JobRow {
+  return getDb().prepare(`SELECT * FROM jobs WHERE id = ?`).get(id) as JobRow;
+}
+
+describe("runJobs", () => {
+  it("retries failures with exponential backoff until the attempts run out", async () => {
+    const flaky = queue("backoff", "flaky");
+    const broken = queue("backoff", "broken");
+    const calls = new Map<string, number>();
+
+    const { result, events, sleeps } = run(
+      "backoff",
+      async ({ name }) => {
+        const call = (calls.get(name) ?? 0) + 1;
+        calls.set(name, call);
+        if (name === "broken" || call < 3) throw new Error(`${name} failed`);
+      },
+      { concurrency: 1 }
+    );
+
+    assert.deepEqual(await result, { succeeded: 1, failed: 1 });
+    // 1s after the first failure, 2s after the second
+    assert.deepEqual(sleeps, [1000, 2000]);
+    assert.deepEqual(
+      events.filter((event) => event.job.id === broken).map((event) => event.type),
+      ["retrying", "retrying", "failed"]
+    );
+    const retries = events.filter((event) => event.type === "retrying" && event.job.id === flaky);
+    assert.deepEqual(
+      retries.map((event) => (event.type === "retrying" ? event.retryAt.getTime() - start : null)),
+      [1000, 3000]
+    );
+    assert.equal(jobRow(flaky).status, "succeeded");
+    assert.deepEqual([jobRow(broken).status, jobRow(broken).attempts], ["failed", 3]);
+  });
+
+  it("fails a job at once on a PermanentJobError", async () => {
+    const gone = queue("permanent", "gone");
+
+    const { result, events, sleeps } = run(
+      "permanent",
+      async () => {
+        throw new PermanentJobError("Recording not found");
+      },
+      { concurrency: 1 }
+    );
+
+    assert.deepEqual(await result, { succeeded: 0, failed: 1 });
+    assert.deepEqual(sleeps, []);
+    assert.deepEqual(events.map((event) => event.type), ["failed"]);
+    assert.deepEqual([jobRow(gone).attempts, jobRow(gone).last_error], [1, "Recording not found"]);
+  });
+
+  it("pauses every worker on a rate limit without using up attempts", async () => {
+    // One attempt each: a rate limit that counted would fail the job
+    const first = queue("rate-limit", "first", 1);
+    queue("rate-limit", "second", 1);
+    queue("rate-limit", "third", 1);
+    queue("rate-limit", "fourth", 1);
+    const calls: { name: string; at: number }[] = [];
+    let limited = false;
+
+    const { result, events } = run(
+      "rate-limit",
+      async ({ name }) => {
+        calls.push({ name, at: Date.now() - start });
+        if (name === "first" && !limited) {
+          limited = true;
+          throw new LLMRateLimitError(null);
+        }
+      },
+      { concurrency: 2 }
+    );
+
+    assert.deepEqual(await result, { succeeded: 4, failed: 0 });
+    const limit = events.find((event) => event.type === "rate-limited");
+    assert.equal(limit?.type === "rate-limited" && limit.resumeAt.getTime() - start, 1000);
+    // The two jobs already running finish; nothing else starts until the pause is over
+    assert.deepEqual(calls.slice(0, 2), [
+      { name: "first", at: 0 },
+      { name: "second", at: 0 },
+    ]);
+    assert.ok(calls.slice(2).every((call) => call.at >= 1000));
+    assert.deepEqual([jobRow(first).status, jobRow(first).attempts], ["succeeded", 1]);
+  });
+});
+
+describe("requeueStaleJobs", () => {
+  it("requeues jobs a dead worker left running, failing those out of attempts", async () => {
+    const db = getDb();
+    const retryable = queue("stale", "retryable", 2);
+    const lastTry = queue("stale", "last-try", 1);
+    claimNextJob(db, { batchId: "stale" });
+    claimNextJob(db, { batchId: "stale" });
+    mock.timers.tick(60_000);
+    const current = queue("stale", "current");
+    claimNextJob(db, { batchId: "stale" });
+
+    assert.equal(requeueStaleJobs(db, new Date(start + 30_000)), 2);
+
+    assert.deepEqual(
+      [retryable, lastTry, current].map((id) => [jobRow(id).status, jobRow(id).last_error]),
+      [
+        ["queued", "Worker stopped while running"],
+        ["failed", "Worker stopped while running"],
+        ["running", null],
+      ]
+    );
+  });
+});
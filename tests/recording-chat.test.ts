@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeClient, type LLMRequest } from "@/lib/ai/client";
+import { answerRecordingQuestion, type RecordingChatContext } from "@/lib/ai/recording-chat";
+
+// A long call with one exchange about pricing in the middle
+function longCall(): RecordingChatContext {
+  const segments = Array.from({ length: 400 }, (_, index) => ({
+    startTime: index * 10,
+    speaker: index % 2 === 0 ? "Ana" : "Ben",
+    text: `Status update number ${index} about the migration timeline and staffing`,
+  }));
+  segments[200].text = "Acme pushed back on pricing for the enterprise tier";
+  return {
+    title: "Acme weekly",
+    createdAt: "2026-03-01T16:00:00.000Z",
+    segments,
+    chatMessages: [],
+    participants: [{ name: "Ana", email: "ana@example.com" }],
+  };
+}
+
+function stubModel(answer: string) {
+  const requests: LLMRequest[] = [];
+  const client = createFakeClient((request) => {
+    requests.push(request);
+    return answer;
+  });
+  return { client, requests };
+}
+
+describe("answerRecordingQuestion", () => {
+  it("sends the whole call when it fits", async () => {
+    const { client, requests } = stubModel("Pricing came up at [33:20].");
+    const result = await answerRecordingQuestion(longCall(), [], "What did Acme say about pricing?", client);
+
+    assert.doesNotMatch(requests[0].system ?? "", /\.\.\.\n/);
+    assert.match(requests[0].system ?? "", /\[0:00\] Ana/);
+    assert.deepEqual(result.citations.map((c) => c.startTime), [2000]);
+  });
+
+  it("trims a call over budget to the lines around the question", async () => {
+    const { client, requests } = stubModel("Pricing came up at [33:20].");
+    const result = await answerRecordingQuestion(longCall(), [], "What did Acme say about pricing?", client, {
+      maxInputTokens: 2000,
+    });
+
+    const system = requests[0].system ?? "";
+    assert.ok(system.length / 3.5 < 2000);
+    assert.match(system, /too long to include in full/);
+    assert.match(system, /\[33:20\] Ana: Acme pushed back on pricing/);
+    assert.match(system, /\[32:50\] Ben/);
+    assert.match(system, /\[33:50\] Ben/);
+    assert.deepEqual(result.citations.map((c) => c.startTime), [2000]);
+  });
+});
@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { getDb, getSummaryByRecordingId, updateActionItemStatus, upsertSummary } from "@/lib/db";
+import { redactRecording, ruleDetector } from "@/lib/redaction";
+import { getChunksMissingEmbeddings, saveChunkEmbeddings } from "@/lib/search/chunks";
+import { insertRecording } from "./helpers";
+
+// Synced before redaction: the transcript, and everything made from it, has
+// the email address in it
+function seedUnredactedCall(id: string) {
+  insertRecording({
+    id,
+    lines: [
+      ["Ana", "Send the contract to dana.lee@acme.com by Friday"],
+      ["Ben", "Will do"],
+    ],
+  });
+  upsertSummary({
+    recordingId: id,
+    model: "fake:fake",
+    content: JSON.stringify({
+      brief: "Contract goes to dana.lee@acme.com",
+      keyPoints: [],
+      actionItems: [
+        { text: "Send the contract to dana.lee@acme.com", owner: "Ben", dueDate: null, timestamp: "0:00" },
+      ],
+    }),
+  });
+
+  const db = getDb();
+  const chunks = getChunksMissingEmbeddings(db, "test-model", 100);
+  saveChunkEmbeddings(
+    db,
+    "test-model",
+    chunks.map((chunk) => ({ textHash: chunk.text_hash, vector: new Float32Array([1, 0]) }))
+  );
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO recording_conversation_messages (recording_id, user_email, role, content, created_at)
+     VALUES (?, 'ana@example.com', 'assistant', 'They asked to email dana.lee@acme.com [0:00]', ?)`
+  ).run(id, now);
+  db.prepare(
+    `INSERT INTO notifications (user_email, recording_id, title, body, url, created_at)
+     VALUES ('ana@example.com', ?, 'Alert', 'Send the contract to dana.lee@acme.com by Friday', '/', ?)`
+  ).run(id, now);
+}
+
+describe("redactRecording", () => {
+  before(() => seedUnredactedCall("contract"));
+
+  it("clears or redacts everything made from the unredacted transcript", async () => {
+    const db = getDb();
+    const item = db.prepare(`SELECT id FROM action_items WHERE recording_id = 'contract'`).get() as { id: number };
+    updateActionItemStatus(item.id, "done", "ben@example.com");
+
+    const result = await redactRecording(db, "contract", [ruleDetector]);
+
+    assert.deepEqual(result, { redactions: 1, changed: true, summaryCleared: true });
+    assert.equal(getSummaryByRecordingId("contract"), undefined);
+    assert.deepEqual(
+      db.prepare(`SELECT * FROM recording_conversation_messages WHERE recording_id = 'contract'`).all(),
+      []
+    );
+    assert.deepEqual(db.prepare(`SELECT * FROM chunk_embeddings`).all(), []);
+
+    const actionItem = db.prepare(`SELECT text, status FROM action_items WHERE id = ?`).get(item.id) as {
+      text: string;
+      status: string;
+    };
+    assert.doesNotMatch(actionItem.text, /dana\.lee/);
+    assert.equal(actionItem.status, "done");
+
+    const notification = db.prepare(`SELECT body FROM notifications WHERE recording_id = 'contract'`).get() as {
+      body: string;
+    };
+    assert.doesNotMatch(notification.body, /dana\.lee/);
+  });
+
+  it("leaves derived data alone when the text doesn't change", async () => {
+    upsertSummary({ recordingId: "contract", model: "fake:fake", content: JSON.stringify({ brief: "Redacted" }) });
+
+    const result = await redactRecording(getDb(), "contract", [ruleDetector]);
+
+    assert.deepEqual(result, { redactions: 1, changed: false, summaryCleared: false });
+    assert.ok(getSummaryByRecordingId("contract"));
+  });
+});
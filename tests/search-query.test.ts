@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  hasStructuredFilters,
+  isChipToken,
+  parseSearchQuery,
+  searchTokenLabel,
+  serializeSearchQuery,
+  tokenizeSearchQuery,
+} from "@/lib/search/query";
+
+function durationOf(query: string) {
+  const { minDuration, maxDuration } = parseSearchQuery(query).filters;
+  return { minDuration, maxDuration };
+}
+
+describe("parseSearchQuery", () => {
+  it("keeps words and quoted phrases as full-text terms", () => {
+    const { filters } = parseSearchQuery('pricing "renewal date" Q3');
+    assert.equal(filters.text, 'pricing "renewal date" Q3');
+    assert.equal(hasStructuredFilters(filters), false);
+  });
+
+  it("reads filters, with quoted values kept together", () => {
+    const { filters } = parseSearchQuery(
+      'from:2025-01-01 before:2025-02-01 source:Gong has:summary scope:external ' +
+        'participant:Jane@Acme.com tracker:"Competitor Mention" topic:Pricing budget'
+    );
+    assert.deepEqual(
+      [filters.from, filters.before, filters.source, filters.has, filters.scope],
+      ["2025-01-01", "2025-02-01", "gong", { summary: true }, "external"]
+    );
+    assert.deepEqual(filters.participants, ["jane@acme.com"]);
+    assert.deepEqual(filters.trackers, ["competitor mention"]);
+    assert.deepEqual(filters.topics, ["pricing"]);
+    assert.equal(filters.text, "budget");
+  });
+
+  it("negates words, phrases and the filters that allow it", () => {
+    const { filters } = parseSearchQuery(
+      '-standup -"weekly sync" -has:clips -participant:bob@example.com -tracker:Churn -topic:Hiring'
+    );
+    assert.deepEqual(filters.excludedTerms, ["standup", '"weekly sync"']);
+    assert.deepEqual(filters.has, { clips: false });
+    assert.deepEqual(filters.excludedParticipants, ["bob@example.com"]);
+    assert.deepEqual(filters.excludedTrackers, ["churn"]);
+    assert.deepEqual(filters.excludedTopics, ["hiring"]);
+    assert.equal(filters.text, "");
+
+    const [token] = tokenizeSearchQuery("-source:zoom");
+    assert.deepEqual(token, { raw: "-source:zoom", type: "invalid", reason: "source: can't be negated" });
+  });
+
+  it("treats > and < as strict and ranges as inclusive", () => {
+    assert.deepEqual(durationOf("duration:>30m"), { minDuration: 1801, maxDuration: null });
+    assert.deepEqual(durationOf("duration:>=30m"), { minDuration: 1800, maxDuration: null });
+    assert.deepEqual(durationOf("duration:30m"), { minDuration: 1800, maxDuration: null });
+    assert.deepEqual(durationOf("duration:<1h"), { minDuration: null, maxDuration: 3599 });
+    assert.deepEqual(durationOf("duration:<=1h"), { minDuration: null, maxDuration: 3600 });
+    assert.deepEqual(durationOf("duration:15m-45m"), { minDuration: 900, maxDuration: 2700 });
+    assert.deepEqual(durationOf("duration:1h..1h30m"), { minDuration: 3600, maxDuration: 5400 });
+    // Two one-sided filters combine
+    assert.deepEqual(durationOf("duration:>10m duration:<20m"), { minDuration: 601, maxDuration: 1199 });
+  });
+
+  it("flags values it can't read instead of searching for them", () => {
+    const reasons = tokenizeSearchQuery("duration:45m-15m duration:soon from:2025-02-30 source:teams has:").map(
+      (token) => (token.type === "invalid" ? token.reason : token.type)
+    );
+    assert.deepEqual(reasons, [
+      "Durations look like >30m, <1h or 15m-45m",
+      "Durations look like >30m, <1h or 15m-45m",
+      "Dates must look like 2025-01-31",
+      "Source must be zoom or gong",
+      "has: needs a value",
+    ]);
+    assert.equal(hasStructuredFilters(parseSearchQuery("source:teams").filters), false);
+  });
+
+  it("searches for unknown keys as plain text", () => {
+    const { tokens, filters } = parseSearchQuery("speaker:ana re:pricing");
+    assert.deepEqual(
+      tokens.map((token) => token.type),
+      ["term", "term"]
+    );
+    assert.equal(filters.text, "speaker:ana re:pricing");
+  });
+});
+
+describe("search chips", () => {
+  it("shows filters and exclusions as chips and leaves plain words as text", () => {
+    const tokens = tokenizeSearchQuery('pricing -standup duration:<1h -has:clips "renewal date"');
+    const chips = tokens.filter(isChipToken);
+    assert.deepEqual(chips.map(searchTokenLabel), ["not standup", "< 1h", "no clips"]);
+    assert.equal(serializeSearchQuery(chips, "pricing"), "-standup duration:<1h -has:clips pricing");
+  });
+
+  it("labels duration ranges", () => {
+    const labels = tokenizeSearchQuery("duration:>30m duration:15m-1h30m").map(searchTokenLabel);
+    assert.deepEqual(labels, ["> 30m", "15m–1h30m"]);
+  });
+});
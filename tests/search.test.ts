@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import { getDb } from "@/lib/db";
+import { getChunksMissingEmbeddings, saveChunkEmbeddings } from "@/lib/search/chunks";
+import { createHashingEmbedder } from "@/lib/search/embeddings";
+import { searchPassages } from "@/lib/search/hybrid";
+import { parseSearchQuery } from "@/lib/search/query";
+import { insertRecording } from "./helpers";
+
+const embedder = createHashingEmbedder();
+const member = { email: "member@example.com", isAdmin: false };
+
+async function embedAll(): Promise<void> {
+  const db = getDb();
+  const chunks = getChunksMissingEmbeddings(db, embedder.model, 1000);
+  const vectors = await embedder.embed(chunks.map((chunk) => chunk.text));
+  saveChunkEmbeddings(
+    db,
+    embedder.model,
+    chunks.map((chunk, i) => ({ textHash: chunk.text_hash, vector: vectors[i] }))
+  );
+}
+
+function search(query: string, options: Parameters<typeof searchPassages>[2] = {}) {
+  return searchPassages(member, parseSearchQuery(query).filters, { embedder, ...options });
+}
+
+describe("passage search", () => {
+  before(async () => {
+    insertRecording({
+      id: "pricing",
+      title: "Pricing review",
+      lines: [
+        ["Ana", "The renewal pricing looks high for them"],
+        ["Ben", "They asked about a discount on the renewal"],
+      ],
+    });
+    insertRecording({
+      id: "churn",
+      title: "Account check-in",
+      lines: [
+        ["Ana", "They mentioned churn risk if onboarding slips"],
+        ["Ben", "Churn risk is real, the renewal is in March"],
+      ],
+    });
+    insertRecording({
+      id: "roadmap",
+      title: "Roadmap",
+      lines: [["Cy", "We shipped the new dashboard last week"]],
+    });
+    insertRecording({
+      id: "private-churn",
+      title: "Someone else's call",
+      visibility: "private",
+      ownerEmail: "owner@example.com",
+      lines: [["Dee", "Churn risk churn risk churn risk"]],
+    });
+    await embedAll();
+  });
+
+  it("ranks the passage matching both lists first in hybrid mode", async () => {
+    const result = await search("churn risk renewal");
+
+    assert.equal(result.mode, "hybrid");
+    assert.equal(result.model, embedder.model);
+    assert.equal(result.warning, undefined);
+    assert.equal(result.passages[0].recordingId, "churn");
+    assert.ok(result.passages[0].keywordRank !== null);
+    assert.ok(result.passages[0].semanticRank !== null);
+  });
+
+  it("leaves out passages that share nothing with the query in semantic mode", async () => {
+    const result = await search("renewal discount", { mode: "semantic" });
+    const ids = result.passages.map((passage) => passage.recordingId);
+
+    assert.equal(ids[0], "pricing");
+    assert.ok(!ids.includes("roadmap"));
+    assert.ok(result.passages.every((passage) => passage.keywordRank === null));
+  });
+
+  it("only returns recordings the viewer can see", async () => {
+    const result = await search("churn risk");
+    assert.ok(!result.passages.some((passage) => passage.recordingId === "private-churn"));
+
+    const admin = await searchPassages({ email: "admin@example.com", isAdmin: true }, parseSearchQuery("churn risk").filters, {
+      embedder,
+    });
+    assert.ok(admin.passages.some((passage) => passage.recordingId === "private-churn"));
+  });
+
+  it("falls back to keyword matches with a warning when no embedder is configured", async () => {
+    const result = await searchPassages(member, parseSearchQuery("dashboard").filters, { mode: "hybrid" });
+
+    assert.equal(result.mode, "keyword");
+    assert.equal(result.model, null);
+    assert.match(result.warning ?? "", /EMBEDDINGS_PROVIDER/);
+    assert.deepEqual(
+      result.passages.map((passage) => passage.recordingId),
+      ["roadmap"]
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectMeetingSeries, type SeriesCandidate } from "@/lib/series";
+
+const team = ["ana@example.com", "ben@example.com", "cy@example.com"];
+
+function meeting(id: string, createdAt: string, title = "Team sync"): SeriesCandidate {
+  return { id, title, createdAt, duration: 1800, seriesKey: null, attendees: team };
+}
+
+describe("detectMeetingSeries", () => {
+  // US daylight saving starts on March 8, 2026: a 9:00 meeting in New York
+  // moves from 14:00 to 13:00 UTC
+  const weekly = [
+    meeting("mar-2", "2026-03-02T14:00:00.000Z"),
+    meeting("mar-9", "2026-03-09T13:00:00.000Z"),
+    meeting("mar-16", "2026-03-16T13:02:00.000Z"),
+  ];
+
+  it("keeps a weekly meeting together across a daylight saving change", () => {
+    const series = detectMeetingSeries(weekly, "America/New_York");
+    assert.deepEqual(
+      series.map((s) => [s.recordingIds, s.detectedBy]),
+      [[["mar-2", "mar-9", "mar-16"], "pattern"]]
+    );
+  });
+
+  it("keeps the same people's meetings an hour apart separate", () => {
+    const planning = [
+      meeting("plan-mar-2", "2026-03-02T15:00:00.000Z", "Planning"),
+      meeting("plan-mar-9", "2026-03-09T14:00:00.000Z", "Planning"),
+    ];
+    const series = detectMeetingSeries([...weekly, ...planning], "America/New_York");
+    assert.deepEqual(
+      series.map((s) => s.recordingIds),
+      [
+        ["mar-2", "mar-9", "mar-16"],
+        ["plan-mar-2", "plan-mar-9"],
+      ]
+    );
+  });
+});
@@ -0,0 +1,8 @@
+// Loaded before every test file: each file gets its own in-memory database
+// and no configured providers, so tests never touch data/ or the network
+process.env.DATABASE_PATH = ":memory:";
+process.env.LLM_PROVIDER = "fake";
+delete process.env.EMBEDDINGS_PROVIDER;
+delete process.env.SMTP_HOST;
+delete process.env.AUTH_ADMIN_EMAILS;
+delete process.env.ORG_EMAIL_DOMAINS;
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeClient, type LLMRequest } from "@/lib/ai/client";
+import { generateTranscriptSummary } from "@/lib/ai/summarize";
+import type { TranscriptSegment } from "@/types/video";
+
+// A one-minute line every minute for an hour
+const segments: TranscriptSegment[] = Array.from({ length: 60 }, (_, index) => ({
+  id: `seg-${index}`,
+  startTime: index * 60,
+  endTime: index * 60 + 59,
+  speaker: index % 2 === 0 ? "Ana" : "Ben",
+  text: `Minute ${index}: we went through the rollout plan and who owns each step of it`,
+}));
+
+function promptOf(request: LLMRequest): string {
+  const content = request.messages[0].content;
+  return typeof content === "string" ? content : "";
+}
+
+// Answers each section with a chapter and action item at the section's first
+// line, and each merge with the section briefs joined
+function stubModel() {
+  const requests: LLMRequest[] = [];
+  const client = createFakeClient((request) => {
+    requests.push(request);
+    const prompt = promptOf(request);
+    const section = /This is section (\d+) of \d+, covering (\d+:\d+)/.exec(prompt);
+    if (section) {
+      const [, index, start] = section;
+      return JSON.stringify({
+        brief: `Section ${index}`,
+        keyPoints: [`Point from section ${index}`],
+        chapters: [{ title: `Part ${index}`, start, summary: "Rollout planning" }],
+        actionItems: [{ text: `Follow up on section ${index}`, owner: "Ana", dueDate: null, timestamp: start }],
+      });
+    }
+    if (prompt.startsWith("Below are summaries")) {
+      const briefs = [...prompt.matchAll(/^Brief: (.+)$/gm)].map((match) => match[1]);
+      return JSON.stringify({
+        brief: `Merged: ${briefs.join(", ")}`,
+        keyPoints: ["Rollout plan agreed"],
+        actionItems: [{ text: "Send the rollout plan", owner: "Ben", dueDate: null, timestamp: "0:00" }],
+      });
+    }
+    return JSON.stringify({ brief: "Whole meeting", keyPoints: [], actionItems: [] });
+  });
+  return { client, requests };
+}
+
+describe("generateTranscriptSummary", () => {
+  it("summarizes a transcript that fits in one request", async () => {
+    const { client, requests } = stubModel();
+    const summary = await generateTranscriptSummary(segments, client);
+
+    assert.equal(requests.length, 1);
+    assert.match(promptOf(requests[0]), /^Summarize this meeting transcript/);
+    assert.match(promptOf(requests[0]), /\[59:00\] Ben: Minute 59/);
+    assert.equal(summary.brief, "Whole meeting");
+  });
+
+  it("summarizes long transcripts by section and merges the results", async () => {
+    const { client, requests } = stubModel();
+    const summary = await generateTranscriptSummary(segments, client, { maxInputTokens: 400 });
+
+    const sectionPrompts = requests.map(promptOf).filter((prompt) => prompt.startsWith("Summarize one section"));
+    const mergePrompts = requests.map(promptOf).filter((prompt) => prompt.startsWith("Below are summaries"));
+    assert.ok(sectionPrompts.length > 1);
+    assert.equal(mergePrompts.length, 1);
+
+    // Every line is summarized exactly once
+    const lines = sectionPrompts.flatMap((prompt) => prompt.match(/^\[\d+:\d+\] \w+: Minute \d+/gm) ?? []);
+    assert.equal(lines.length, segments.length);
+
+    // Section results reach the merge; chapters are kept from the sections
+    assert.equal(summary.brief, `Merged: ${sectionPrompts.map((_, i) => `Section ${i + 1}`).join(", ")}`);
+    assert.match(mergePrompts[0], /- Follow up on section 1 \(owner: Ana\) \[0:00\]/);
+    assert.deepEqual(
+      summary.chapters.map((chapter) => chapter.title),
+      sectionPrompts.map((_, i) => `Part ${i + 1}`)
+    );
+    assert.equal(summary.chapters[0].startTime, 0);
+    assert.ok(summary.chapters.every((chapter, i) => i === 0 || chapter.startTime > summary.chapters[i - 1].startTime));
+    assert.deepEqual(summary.actionItems.map((item) => item.text), ["Send the rollout plan"]);
+  });
+
+  it("merges in rounds when the section summaries don't fit in one request", async () => {
+    const { client, requests } = stubModel();
+    const summary = await generateTranscriptSummary(segments, client, { maxInputTokens: 150 });
+
+    const mergePrompts = requests.map(promptOf).filter((prompt) => prompt.startsWith("Below are summaries"));
+    assert.ok(mergePrompts.length > 1);
+    // The last merge combines earlier merges, not sections
+    assert.match(mergePrompts[mergePrompts.length - 1], /^Brief: Merged: /m);
+    assert.match(summary.brief, /^Merged: Merged: /);
+    assert.equal(summary.chapters[0].title, "Part 1");
+  });
+});
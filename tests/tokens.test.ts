@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { getLLMClient } from "@/lib/ai/client";
+import { getInputTokenBudget, getModelLimits } from "@/lib/ai/tokens";
+
+describe("getInputTokenBudget", () => {
+  afterEach(() => {
+    for (const name of ["PROVIDER", "MODEL", "CONTEXT_TOKENS"]) delete process.env[`LLM_SUMMARY_${name}`];
+  });
+
+  it("knows the default models of each provider", () => {
+    assert.equal(getModelLimits({ provider: "openai", defaultModel: "gpt-4o-mini" }).contextTokens, 128_000);
+    const claude = { provider: "anthropic", defaultModel: "claude-haiku-4-5-20251001" } as const;
+    assert.equal(getModelLimits(claude).contextTokens, 200_000);
+  });
+
+  it("keeps Ollama models within the server's default context", () => {
+    const budget = getInputTokenBudget({ provider: "ollama", defaultModel: "qwen2.5:7b" });
+    assert.ok(budget > 0 && budget < 4096, String(budget));
+  });
+
+  it("uses the configured context window", () => {
+    process.env.LLM_SUMMARY_PROVIDER = "ollama";
+    process.env.LLM_SUMMARY_MODEL = "qwen2.5:7b";
+    process.env.LLM_SUMMARY_CONTEXT_TOKENS = "32768";
+    const client = getLLMClient("summary");
+    assert.equal(client.contextTokens, 32768);
+    assert.deepEqual(getModelLimits(client), { contextTokens: 32768, maxOutputTokens: 4096 });
+    assert.ok(getInputTokenBudget(client) < 32768);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createFakeClient, type LLMRequest } from "@/lib/ai/client";
+import { translateTranscript } from "@/lib/ai/translate";
+import { getStoredTranslation, translateRecording } from "@/lib/translation";
+import { insertRecording } from "./helpers";
+
+// The numbered lines in a translation prompt, as [line number, text]
+function linesOf(request: LLMRequest): [number, string][] {
+  const content = request.messages[0].content;
+  const text = typeof content === "string" ? content : "";
+  return [...text.matchAll(/^(\d+)\. (.+)$/gm)].map((match) => [Number(match[1]), match[2]]);
+}
+
+// "Translates" by upper-casing, leaving out the lines `skip` says to
+function stubModel(skip: (text: string, attempt: number) => boolean = () => false) {
+  const requests: LLMRequest[] = [];
+  const attempts = new Map<string, number>();
+  const client = createFakeClient((request) => {
+    requests.push(request);
+    const lines = linesOf(request).filter(([, text]) => {
+      const attempt = (attempts.get(text) ?? 0) + 1;
+      attempts.set(text, attempt);
+      return !skip(text, attempt);
+    });
+    return JSON.stringify({ lines: lines.map(([line, text]) => ({ line, text: text.toUpperCase() })) });
+  });
+  return { client, requests };
+}
+
+const segments = ["hello everyone", "let's look at the numbers", "revenue is up", "any questions"].map((text, i) => ({
+  id: `s${i}`,
+  text,
+}));
+
+describe("translateTranscript", () => {
+  it("asks again for lines the model leaves out", async () => {
+    const { client, requests } = stubModel((text, attempt) => text === "revenue is up" && attempt === 1);
+    const translated = await translateTranscript(segments, "de", client);
+
+    assert.equal(requests.length, 2);
+    assert.deepEqual(linesOf(requests[1]), [[1, "revenue is up"]]);
+    assert.deepEqual(
+      translated.map((segment) => segment.text),
+      ["HELLO EVERYONE", "LET'S LOOK AT THE NUMBERS", "REVENUE IS UP", "ANY QUESTIONS"]
+    );
+    assert.ok(translated.every((segment) => !segment.untranslated));
+  });
+
+  it("retries a cut-off reply in smaller requests", async () => {
+    let calls = 0;
+    const client = createFakeClient((request) => {
+      calls++;
+      const lines = linesOf(request);
+      // Only short requests fit in the reply
+      if (lines.length > 2) return '{"lines": [{"line": 1, "text": "HELLO';
+      return JSON.stringify({ lines: lines.map(([line, text]) => ({ line, text: text.toUpperCase() })) });
+    });
+    const translated = await translateTranscript(segments, "de", client);
+
+    assert.equal(calls, 3);
+    assert.deepEqual(
+      translated.map((segment) => segment.text),
+      segments.map((segment) => segment.text.toUpperCase())
+    );
+  });
+
+  it("marks lines that never come back as untranslated", async () => {
+    const { client } = stubModel((text) => text === "any questions");
+    const translated = await translateTranscript(segments, "de", client);
+
+    assert.deepEqual(translated[3], { id: "s3", text: "any questions", untranslated: true });
+    assert.equal(translated.filter((segment) => segment.untranslated).length, 1);
+  });
+});
+
+describe("translateRecording", () => {
+  it("caches which lines are untranslated and only sends those again on retry", async () => {
+    insertRecording({
+      id: "weekly",
+      lines: [
+        ["Ana", "hello everyone"],
+        ["Ben", "revenue is up"],
+      ],
+    });
+
+    const first = stubModel((text) => text === "revenue is up");
+    await translateRecording({ id: "weekly", language: "en" }, "de", first.client);
+    const stored = getStoredTranslation("weekly", "de")!;
+    assert.deepEqual(stored.segments, [
+      { id: "weekly-0", text: "HELLO EVERYONE" },
+      { id: "weekly-1", text: "revenue is up", untranslated: true },
+    ]);
+
+    const retry = stubModel();
+    await translateRecording({ id: "weekly", language: "en" }, "de", retry.client, { previous: stored });
+    assert.deepEqual(retry.requests.map(linesOf), [[[1, "revenue is up"]]]);
+    assert.deepEqual(getStoredTranslation("weekly", "de")!.segments, [
+      { id: "weekly-0", text: "HELLO EVERYONE" },
+      { id: "weekly-1", text: "REVENUE IS UP" },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { canManageVisibility, computeVisibility, type Viewer } from "@/lib/auth/visibility";
+import { getAllRecordings, getRecordingById, updateRecordingVisibility } from "@/lib/db";
+import { insertRecording } from "./helpers";
+
+function member(email: string): Viewer {
+  return { email, isAdmin: false };
+}
+
+function visibleTo(viewer: Viewer): string[] {
+  return getAllRecordings(viewer)
+    .map((recording) => recording.id)
+    .sort();
+}
+
+describe("computeVisibility", () => {
+  before(() => (process.env.ORG_EMAIL_DOMAINS = "example.com"));
+  after(() => delete process.env.ORG_EMAIL_DOMAINS);
+
+  it("limits calls with anyone outside the org to participants", () => {
+    assert.equal(computeVisibility({ participantEmails: ["ana@example.com", null, "ben@Example.COM"] }), "org");
+    assert.equal(computeVisibility({ participantEmails: ["ana@example.com", "hank@globex.com"] }), "participants");
+    assert.equal(computeVisibility({ participantEmails: ["ana@example.com"], hasExternalParty: true }), "participants");
+  });
+
+  it("keeps private calls private", () => {
+    assert.equal(computeVisibility({ participantEmails: ["hank@globex.com"], isPrivate: true }), "private");
+  });
+
+  it("shows everything org-wide when there are no org domains to tell outsiders by", () => {
+    delete process.env.ORG_EMAIL_DOMAINS;
+    try {
+      assert.equal(computeVisibility({ participantEmails: ["hank@globex.com"] }), "org");
+    } finally {
+      process.env.ORG_EMAIL_DOMAINS = "example.com";
+    }
+  });
+});
+
+describe("visibilityFilter", () => {
+  before(() => {
+    insertRecording({ id: "all-hands", visibility: "org" });
+    insertRecording({
+      id: "globex-call",
+      visibility: "participants",
+      ownerEmail: "owner@example.com",
+      participants: [
+        { name: "Ana", email: "Ana@Example.com" },
+        { name: "Hank", email: "hank@globex.com" },
+      ],
+    });
+    insertRecording({
+      id: "board-prep",
+      visibility: "private",
+      ownerEmail: "owner@example.com",
+      participants: [{ name: "Ana", email: "ana@example.com" }],
+    });
+    insertRecording({ id: "offsite-plan", ownerEmail: "owner@example.com" });
+    updateRecordingVisibility("offsite-plan", "shared", ["Dee@example.com"]);
+    // Shares add people to a participants-only call too
+    insertRecording({ id: "globex-debrief", ownerEmail: "owner@example.com" });
+    updateRecordingVisibility("globex-debrief", "participants", ["dee@example.com"]);
+  });
+
+  it("shows org recordings to everyone and the rest only to the people on them", () => {
+    assert.deepEqual(visibleTo(member("eve@example.com")), ["all-hands"]);
+    assert.deepEqual(visibleTo(member("ana@example.com")), ["all-hands", "globex-call"]);
+    assert.deepEqual(visibleTo(member("dee@example.com")), ["all-hands", "globex-debrief", "offsite-plan"]);
+  });
+
+  it("shows owners their recordings whatever the policy, and admins everything", () => {
+    const everything = ["all-hands", "board-prep", "globex-call", "globex-debrief", "offsite-plan"];
+    assert.deepEqual(visibleTo(member("owner@example.com")), everything);
+    assert.deepEqual(visibleTo({ email: "admin@example.com", isAdmin: true }), everything);
+  });
+
+  it("matches the viewer's email whatever its letter case", () => {
+    assert.ok(getRecordingById(member("ANA@example.com"), "globex-call"));
+    assert.ok(getRecordingById(member("Dee@Example.com"), "offsite-plan"));
+    assert.ok(getRecordingById(member("Owner@Example.com"), "board-prep"));
+    assert.equal(getRecordingById(member("ANA@example.com"), "board-prep"), undefined);
+  });
+
+  it("lets only owners and admins change who can see a recording", () => {
+    const recording = { owner_email: "owner@example.com" };
+    assert.equal(canManageVisibility(member("Owner@example.com"), recording), true);
+    assert.equal(canManageVisibility({ email: "admin@example.com", isAdmin: true }, recording), true);
+    assert.equal(canManageVisibility(member("ana@example.com"), recording), false);
+  });
+});